@@ -6,94 +6,138 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Eye, EyeOff, Key, Clipboard } from 'lucide-react';
+import { Eye, EyeOff, Key, Clipboard, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { AIProvider, AIProviderError } from '../utils/aiProvider';
+import { getBackend } from '../utils/aiBackends';
+import { MockAIProvider, MockMode } from '../utils/mockProvider';
+import { MockProviderPanel } from './MockProviderPanel';
+import { RateLimitPanel } from './RateLimitPanel';
+import { ResponseCachePanel } from './ResponseCachePanel';
+import { ModelRoutingPanel } from './ModelRoutingPanel';
+import type { RoutingTable } from '../utils/modelRouting';
+import type { OutputLanguage } from '../utils/outputLanguage';
+import type { MessageKey } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface AIAnalysisServiceProps {
   onConfigured: (config: AIConfig) => void;
 }
 
+export type AIProviderType = 'openai' | 'anthropic' | 'azure' | 'openai-compatible';
+
 export interface AIConfig {
   apiKey: string;
   model: string;
+  provider?: AIProviderType;
+  baseUrl?: string;
+  apiVersion?: string;
+  routing?: RoutingTable;
+  language?: OutputLanguage;
 }
 
-const AVAILABLE_MODELS = [
-  { value: 'gpt-4o-mini', label: 'GPT-4o Mini (Schnell & Günstig)', description: 'Optimal für Buchanalyse' },
-  { value: 'gpt-4o', label: 'GPT-4o (Leistungsstark)', description: 'Detailliertere Analyse' },
-  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo (Günstig)', description: 'Basis-Analyse' }
+const PROVIDER_OPTIONS: { value: AIProviderType; label: MessageKey; description: MessageKey }[] = [
+  { value: 'openai', label: 'aiConfig.provider.openai', description: 'aiConfig.provider.openaiDescription' },
+  { value: 'anthropic', label: 'aiConfig.provider.anthropic', description: 'aiConfig.provider.anthropicDescription' },
+  { value: 'azure', label: 'aiConfig.provider.azure', description: 'aiConfig.provider.azureDescription' },
+  { value: 'openai-compatible', label: 'aiConfig.provider.local', description: 'aiConfig.provider.localDescription' }
 ];
 
+const AVAILABLE_MODELS: Partial<Record<AIProviderType, { value: string; name: string; tier: MessageKey; description: MessageKey }[]>> = {
+  'openai': [
+    { value: 'gpt-4o-mini', name: 'GPT-4o Mini', tier: 'aiConfig.tier.fastCheap', description: 'aiConfig.use.books' },
+    { value: 'gpt-4o', name: 'GPT-4o', tier: 'aiConfig.tier.powerful', description: 'aiConfig.use.detailed' },
+    { value: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', tier: 'aiConfig.tier.cheap', description: 'aiConfig.use.basic' }
+  ],
+  'anthropic': [
+    { value: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku', tier: 'aiConfig.tier.fastCheap', description: 'aiConfig.use.books' },
+    { value: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet', tier: 'aiConfig.tier.powerful', description: 'aiConfig.use.detailed' }
+  ]
+};
+
+const BASE_URL_PLACEHOLDERS: Record<AIProviderType, string> = {
+  'openai': 'https://api.openai.com/v1',
+  'anthropic': 'https://api.anthropic.com',
+  'azure': 'https://<ressource>.openai.azure.com',
+  'openai-compatible': 'http://localhost:11434/v1'
+};
+
 export const AIAnalysisService: React.FC<AIAnalysisServiceProps> = ({ onConfigured }) => {
-  const [apiKey, setApiKey] = useState(localStorage.getItem('openai_api_key') || '');
-  const [selectedModel, setSelectedModel] = useState('gpt-4o-mini');
+  const [storedConfig] = useState(() => AIProvider.loadStoredConfig());
+  const [provider, setProvider] = useState<AIProviderType>(storedConfig.provider || 'openai');
+  const [apiKey, setApiKey] = useState(storedConfig.apiKey);
+  const [selectedModel, setSelectedModel] = useState(storedConfig.model);
+  const [baseUrl, setBaseUrl] = useState(storedConfig.baseUrl || '');
+  const [apiVersion, setApiVersion] = useState(storedConfig.apiVersion || '');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  const [mockMode, setMockMode] = useState<MockMode>(() => MockAIProvider.getMode());
   const { toast } = useToast();
+  const { t } = useI18n();
+
+  const backend = getBackend(provider);
+  const modelOptions = AVAILABLE_MODELS[provider];
+
+  const handleProviderChange = (value: AIProviderType) => {
+    setProvider(value);
+    setSelectedModel(AVAILABLE_MODELS[value]?.[0].value || '');
+  };
 
   const pasteFromClipboard = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      if (text.startsWith('sk-')) {
+      if (text.trim().length > 0) {
         setApiKey(text);
         toast({
-          title: "API-Key eingefügt",
-          description: "API-Key wurde aus der Zwischenablage eingefügt.",
+          title: t('aiConfig.toast.pasted'),
+          description: t('aiConfig.toast.pastedDescription'),
         });
       } else {
         toast({
-          title: "Ungültiger API-Key",
-          description: "Der eingefügte Text scheint kein gültiger OpenAI API-Key zu sein.",
+          title: t('aiConfig.toast.invalidKey'),
+          description: t('aiConfig.toast.invalidKeyDescription', { provider: backend.label }),
           variant: "destructive",
         });
       }
     } catch (error) {
       toast({
-        title: "Fehler beim Einfügen",
-        description: "Zwischenablage konnte nicht gelesen werden. Stellen Sie sicher, dass Sie die Berechtigung erteilt haben.",
+        title: t('aiConfig.toast.pasteFailed'),
+        description: t('aiConfig.toast.pasteFailedDescription'),
         variant: "destructive",
       });
     }
   };
 
   const validateAndSave = async () => {
-    if (!apiKey.trim()) {
-      toast({
-        title: "API-Key erforderlich",
-        description: "Bitte geben Sie Ihren OpenAI API-Key ein.",
-        variant: "destructive",
-      });
-      return;
-    }
+    // Proxied providers get their key and endpoint from the server
+    const config: AIConfig = {
+      provider,
+      apiKey: backend.viaProxy ? '' : apiKey.trim(),
+      model: selectedModel.trim(),
+      baseUrl: backend.viaProxy ? undefined : baseUrl.trim() || undefined,
+      apiVersion: provider === 'azure' ? apiVersion.trim() || undefined : undefined
+    };
 
     setIsValidating(true);
 
     try {
-      // Test API call to validate the key
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Ungültiger API-Key');
-      }
+      // Test API call to validate the connection
+      await AIProvider.validateConfig(config);
 
-      // Save to localStorage
-      localStorage.setItem('openai_api_key', apiKey);
-      localStorage.setItem('openai_model', selectedModel);
+      AIProvider.saveConfig(config);
 
       toast({
-        title: "API-Key validiert",
-        description: "Die Verbindung zu OpenAI wurde erfolgreich getestet.",
+        title: t('aiConfig.toast.validated'),
+        description: t('aiConfig.toast.validatedDescription', { provider: backend.label }),
       });
 
-      onConfigured({ apiKey, model: selectedModel });
+      onConfigured(config);
     } catch (error) {
       toast({
-        title: "Validierung fehlgeschlagen",
-        description: "Der API-Key ist ungültig oder es gab einen Verbindungsfehler.",
+        title: error instanceof AIProviderError && error.code === 'UNAUTHENTICATED'
+          ? t('aiConfig.toast.notSignedIn')
+          : t('aiConfig.toast.validationFailed'),
+        description: error instanceof Error ? error.message : t('aiConfig.toast.validationFailedDescription'),
         variant: "destructive",
       });
     } finally {
@@ -101,28 +145,42 @@ export const AIAnalysisService: React.FC<AIAnalysisServiceProps> = ({ onConfigur
     }
   };
 
-  const isConfigured = !!localStorage.getItem('openai_api_key');
+  const isConfigured = AIProvider.hasStoredConfig();
 
   if (isConfigured) {
     return (
-      <Alert className="bg-green-50 border-green-200">
-        <Key className="h-4 w-4 text-green-600" />
-        <AlertDescription className="text-green-800">
-          OpenAI API ist konfiguriert. Modell: {localStorage.getItem('openai_model') || 'gpt-4o-mini'}
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="ml-4"
-            onClick={() => {
-              localStorage.removeItem('openai_api_key');
-              localStorage.removeItem('openai_model');
-              window.location.reload();
-            }}
-          >
-            Neu konfigurieren
-          </Button>
-        </AlertDescription>
-      </Alert>
+      <div className="space-y-4">
+        <Alert className="bg-green-50 border-green-200">
+          <Key className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            {mockMode === 'replay' || mockMode === 'synthetic'
+              ? t('aiConfig.offline')
+              : t('aiConfig.configured', { provider: getBackend(storedConfig.provider).label, model: storedConfig.model })}
+            <Button
+              size="sm"
+              className="ml-4"
+              onClick={() => onConfigured(AIProvider.resolveConfig())}
+            >
+              {t('aiConfig.continue')}
+            </Button>
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="ml-2"
+              onClick={() => {
+                AIProvider.clearStoredConfig();
+                window.location.reload();
+              }}
+            >
+              {t('aiConfig.reconfigure')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+        <MockProviderPanel onModeChange={setMockMode} />
+        <RateLimitPanel />
+        <ResponseCachePanel />
+        <ModelRoutingPanel defaultModel={selectedModel} />
+      </div>
     );
   }
 
@@ -131,32 +189,29 @@ export const AIAnalysisService: React.FC<AIAnalysisServiceProps> = ({ onConfigur
       <CardHeader>
         <CardTitle className="flex items-center gap-2 text-orange-800">
           <Key className="w-5 h-5" />
-          OpenAI API Konfiguration
+          {t('aiConfig.title')}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         <Alert>
           <AlertDescription>
-            Für die KI-Analyse benötigen Sie einen OpenAI API-Key. 
-            <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 underline ml-1">
-              Hier erhalten Sie einen Key
-            </a>
+            {t('aiConfig.intro')}
           </AlertDescription>
         </Alert>
 
         <div className="space-y-4">
           <div>
-            <Label htmlFor="model">KI-Modell auswählen</Label>
-            <Select value={selectedModel} onValueChange={setSelectedModel}>
-              <SelectTrigger>
+            <Label htmlFor="provider">{t('aiConfig.provider')}</Label>
+            <Select value={provider} onValueChange={(value) => handleProviderChange(value as AIProviderType)}>
+              <SelectTrigger id="provider">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {AVAILABLE_MODELS.map((model) => (
-                  <SelectItem key={model.value} value={model.value}>
+                {PROVIDER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
                     <div>
-                      <div className="font-medium">{model.label}</div>
-                      <div className="text-xs text-slate-500">{model.description}</div>
+                      <div className="font-medium">{t(option.label)}</div>
+                      <div className="text-xs text-slate-500">{t(option.description)}</div>
                     </div>
                   </SelectItem>
                 ))}
@@ -165,48 +220,117 @@ export const AIAnalysisService: React.FC<AIAnalysisServiceProps> = ({ onConfigur
           </div>
 
           <div>
-            <Label htmlFor="apiKey">OpenAI API-Key</Label>
-            <div className="relative">
+            <Label htmlFor="model">{provider === 'azure' ? t('aiConfig.deployment') : t('aiConfig.model')}</Label>
+            {modelOptions ? (
+              <Select value={selectedModel} onValueChange={setSelectedModel}>
+                <SelectTrigger id="model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {modelOptions.map((model) => (
+                    <SelectItem key={model.value} value={model.value}>
+                      <div>
+                        <div className="font-medium">{t('aiConfig.modelLabel', { name: model.name, tier: t(model.tier) })}</div>
+                        <div className="text-xs text-slate-500">{t(model.description)}</div>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="model"
+                value={selectedModel}
+                onChange={(e) => setSelectedModel(e.target.value)}
+                placeholder={provider === 'azure' ? t('aiConfig.deploymentPlaceholder') : 'llama3.1:8b'}
+              />
+            )}
+          </div>
+
+          {!backend.viaProxy && (
+            <div>
+              <Label htmlFor="baseUrl">
+                {backend.requiresBaseUrl ? t('aiConfig.baseUrl') : t('aiConfig.baseUrlOptional')}
+              </Label>
               <Input
-                id="apiKey"
-                type={showApiKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="sk-..."
-                className="pr-20"
+                id="baseUrl"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={BASE_URL_PLACEHOLDERS[provider]}
               />
-              <div className="absolute right-0 top-0 h-full flex">
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="px-2 h-full"
-                  onClick={pasteFromClipboard}
-                  title="Aus Zwischenablage einfügen"
-                >
-                  <Clipboard className="h-4 w-4" />
-                </Button>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="px-2 h-full"
-                  onClick={() => setShowApiKey(!showApiKey)}
-                >
-                  {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </Button>
+            </div>
+          )}
+
+          {provider === 'azure' && (
+            <div>
+              <Label htmlFor="apiVersion">{t('aiConfig.apiVersion')}</Label>
+              <Input
+                id="apiVersion"
+                value={apiVersion}
+                onChange={(e) => setApiVersion(e.target.value)}
+                placeholder="2024-06-01"
+              />
+            </div>
+          )}
+
+          {backend.viaProxy ? (
+            <Alert className="bg-blue-50 border-blue-200">
+              <ShieldCheck className="h-4 w-4 text-blue-600" />
+              <AlertDescription className="text-blue-800">
+                {t('aiConfig.proxyKey', { provider: backend.label })}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <div>
+              <Label htmlFor="apiKey">
+                {t('aiConfig.apiKey')}
+              </Label>
+              <div className="relative">
+                <Input
+                  id="apiKey"
+                  type={showApiKey ? 'text' : 'password'}
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="pr-20"
+                />
+                <div className="absolute right-0 top-0 h-full flex">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="px-2 h-full"
+                    onClick={pasteFromClipboard}
+                    title={t('aiConfig.paste')}
+                  >
+                    <Clipboard className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="px-2 h-full"
+                    onClick={() => setShowApiKey(!showApiKey)}
+                  >
+                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           <Button 
             onClick={validateAndSave} 
-            disabled={isValidating || !apiKey.trim()}
+            disabled={isValidating || !selectedModel.trim() || (backend.requiresBaseUrl && !baseUrl.trim())}
             className="w-full"
           >
-            {isValidating ? 'Validiere...' : 'API-Key speichern & validieren'}
+            {isValidating ? t('aiConfig.validating') : t('aiConfig.save')}
           </Button>
         </div>
+
+        <MockProviderPanel onModeChange={setMockMode} />
+        <RateLimitPanel />
+        <ResponseCachePanel />
+        <ModelRoutingPanel defaultModel={selectedModel} />
       </CardContent>
     </Card>
   );
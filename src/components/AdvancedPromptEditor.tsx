@@ -8,174 +8,31 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Settings, Code, RefreshCw, Save, AlertTriangle, Info, Copy } from 'lucide-react';
+import { Settings, Code, RefreshCw, Save, AlertTriangle, Info, Copy, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-
-interface PromptTemplate {
-  id: string;
-  name: string;
-  description: string;
-  systemPrompt: string;
-  userPrompt: string;
-  temperature: number;
-  maxTokens: number;
-  version: string;
-  isDefault: boolean;
-}
+import { PromptTemplate, PromptTemplates, TEMPLATE_VARIABLES } from '../utils/promptTemplates';
+import { MODULE_LABELS } from '../utils/usageLedger';
+import { useI18n } from '@/hooks/use-i18n';
+import { PromptHistory, PromptVersion } from '../utils/promptHistory';
+import { PromptHistoryPanel } from './PromptHistoryPanel';
+import { LANGUAGE_LABELS, OUTPUT_LANGUAGES, OutputLanguage, OutputLanguages } from '../utils/outputLanguage';
 
 interface AdvancedPromptEditorProps {
-  onPromptsChanged: (prompts: PromptTemplate[]) => void;
+  onPromptsChanged?: (prompts: PromptTemplate[]) => void;
 }
 
-const DEFAULT_PROMPTS: PromptTemplate[] = [
-  {
-    id: 'analysis_standard',
-    name: 'Standard Analyse',
-    description: 'Standardprompt für die Buchanalyse mit ausgewogener Bewertung',
-    systemPrompt: 'Du bist ein präziser Literaturkritiker. Antworte ausschließlich in gültigem JSON ohne zusätzlichen Text.',
-    userPrompt: `Du bist ein Literatur-Kritiker und verhältst dich wie folgende Persona:
-
-PERSONA: {archetypeName}
-BESCHREIBUNG: {archetypeDescription}
-DEMOGRAPHIK: {archetypeDemographics}
-LESEGEWOHNHEITEN: {archetypeReadingPreferences}
-PERSÖNLICHKEIT: {archetypePersonalityTraits}
-MOTIVATIONEN: {archetypeMotivations}
-PAIN POINTS: {archetypePainPoints}
-
-Analysiere diesen Textabschnitt aus deiner Persona-Perspektive:
-
-"{textChunk}"
-
-Bewerte auf Skala 1-10 (Dezimalstellen erlaubt):
-- Engagement: Wie fesselnd ist der Text?
-- Stil: Wie gefällt dir der Schreibstil?
-- Klarheit: Wie verständlich ist der Text?
-- Tempo: Wie ist das Erzähltempo?
-- Relevanz: Wie relevant ist der Inhalt für dich?
-
-Schätze (0-1 als Dezimalzahl):
-- Kaufwahrscheinlichkeit: Würdest du das Buch kaufen?
-- Weiterempfehlungswahrscheinlichkeit: Würdest du es weiterempfehlen?
-
-Review-Stimmung: positive, neutral oder negative
-
-Gib 2-3 Marketing-Insights aus deiner Persona-Sicht.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "ratings": {
-    "engagement": 0.0,
-    "style": 0.0,
-    "clarity": 0.0,
-    "pacing": 0.0,
-    "relevance": 0.0
-  },
-  "overallRating": 0.0,
-  "feedback": "Dein detailliertes Feedback als Persona (max 150 Wörter)",
-  "buyingProbability": 0.0,
-  "recommendationLikelihood": 0.0,
-  "expectedReviewSentiment": "positive/neutral/negative",
-  "marketingInsights": ["Insight 1", "Insight 2"]
-}`,
-    temperature: 0.3,
-    maxTokens: 800,
-    version: '1.0',
-    isDefault: true
-  },
-  {
-    id: 'stream_of_thought',
-    name: 'Stream of Thought',
-    description: 'Prompt für Layer 1 Analyse - ungefilterte Gedanken und Emotionen',
-    systemPrompt: 'Du bist ein Leser und denkst laut. Zeige deine spontanen, unzensierten Gedanken und Emotionen beim Lesen. Antworte nur in gültigem JSON.',
-    userPrompt: `Du bist {archetypeName} und liest gerade diesen Textabschnitt. Denke laut und ungefiltert:
-
-DEINE PERSONA:
-- {archetypeDescription}
-- Demografie: {archetypeDemographics}
-- Lesegewohnheiten: {archetypeReadingPreferences}
-- Persönlichkeit: {archetypePersonalityTraits}
-- Motivationen: {archetypeMotivations}
-- Pain Points: {archetypePainPoints}
-
-TEXT ZUM LESEN:
-"{textChunk}"
-
-Zeige deine spontanen, unzensierten Gedanken beim Lesen. Sei emotional, fragmentiert, direkt. Als würdest du einem Freund erzählen, was dir durch den Kopf geht.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "rawThoughts": "Deine ungefilterten Gedanken beim Lesen (1-2 Absätze, sehr persönlich und direkt)",
-  "emotionalReactions": ["Emotion 1", "Emotion 2", "Emotion 3"],
-  "immediateQuotes": ["Direktes Zitat 1 aus deinen Gedanken", "Direktes Zitat 2"],
-  "fragmentedInsights": ["Fragmentierter Gedanke 1", "Fragmentierter Gedanke 2"],
-  "mood": "excited/bored/confused/engaged/frustrated/curious",
-  "attentionLevel": 0-10,
-  "personalResonance": 0-10
-}`,
-    temperature: 0.8,
-    maxTokens: 1000,
-    version: '1.0',
-    isDefault: true
-  },
-  {
-    id: 'analytical_insight',
-    name: 'Analytische Insights',
-    description: 'Prompt für Layer 2 Analyse - strukturierte Business-Insights',
-    systemPrompt: 'Du bist ein objektiver Marktanalyst. Analysiere die Leserreaktion strukturiert und extrahiere actionable insights. Antworte nur in gültigem JSON.',
-    userPrompt: `Analysiere objektiv diese Leserreaktion und extrahiere strukturierte Business-Insights:
-
-ORIGINAL TEXT:
-"{textChunk}"
-
-LESER-PERSONA: {archetypeName}
-{archetypeDescription}
-
-ROHE LESERREAKTION (Layer 1):
-{streamOfThoughtResult}
-
-AUFGABE: Erstelle eine objektive, strukturierte Analyse für Buchvermarkter und Autoren.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "keyTakeaways": ["Wichtigste Erkenntnis 1", "Wichtigste Erkenntnis 2", "Wichtigste Erkenntnis 3"],
-  "structuredFeedback": "Objektive Zusammenfassung der Stärken/Schwächen dieses Textabschnitts (100-150 Wörter)",
-  "marketingOpportunities": ["Marketing-Chance 1", "Marketing-Chance 2"],
-  "competitiveAdvantages": ["Wettbewerbsvorteil 1", "Wettbewerbsvorteil 2"],
-  "riskFactors": ["Risikofaktor 1", "Risikofaktor 2"],
-  "recommendedActions": ["Handlungsempfehlung 1", "Handlungsempfehlung 2"],
-  "confidenceScore": 0-10
-}`,
-    temperature: 0.3,
-    maxTokens: 1200,
-    version: '1.0',
-    isDefault: true
-  }
-];
-
 export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
   onPromptsChanged
 }) => {
-  const [prompts, setPrompts] = useState<PromptTemplate[]>(DEFAULT_PROMPTS);
-  const [selectedPromptId, setSelectedPromptId] = useState(DEFAULT_PROMPTS[0].id);
-  const [editedPrompt, setEditedPrompt] = useState<PromptTemplate>(DEFAULT_PROMPTS[0]);
+  const { t } = useI18n();
+  const [prompts, setPrompts] = useState<PromptTemplate[]>(() => PromptTemplates.loadAll());
+  const [, setActiveIds] = useState(() => PromptTemplates.getActiveIds());
+  const [language, setLanguage] = useState<OutputLanguage>(() => OutputLanguages.resolve());
+  const [selectedPromptId, setSelectedPromptId] = useState(() => PromptTemplates.getActive('reader_analysis', language, prompts).id);
+  const [editedPrompt, setEditedPrompt] = useState<PromptTemplate>(() => prompts.find(p => p.id === selectedPromptId));
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const { toast } = useToast();
 
-  useEffect(() => {
-    // Load saved prompts from localStorage
-    const savedPrompts = localStorage.getItem('custom_prompts');
-    if (savedPrompts) {
-      try {
-        const parsed = JSON.parse(savedPrompts);
-        setPrompts(parsed);
-        setEditedPrompt(parsed[0] || DEFAULT_PROMPTS[0]);
-      } catch (error) {
-        console.warn('Failed to load saved prompts:', error);
-      }
-    }
-  }, []);
-
   useEffect(() => {
     const selected = prompts.find(p => p.id === selectedPromptId);
     if (selected) {
@@ -184,60 +41,113 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
     }
   }, [selectedPromptId, prompts]);
 
+  const issues = PromptTemplates.validate(editedPrompt);
+  const isActive = PromptTemplates.getActive(editedPrompt.task, editedPrompt.language, prompts)?.id === editedPrompt.id;
+  const languagePrompts = prompts.filter(p => p.language === language);
+
+  // Stays on the same module when switching languages
+  const changeLanguage = (value: OutputLanguage) => {
+    setLanguage(value);
+    setSelectedPromptId(PromptTemplates.getActive(editedPrompt.task, value, prompts).id);
+  };
+
   const updatePromptField = (field: keyof PromptTemplate, value: any) => {
     setEditedPrompt(prev => ({ ...prev, [field]: value }));
     setHasUnsavedChanges(true);
   };
 
-  const savePrompt = () => {
-    const updatedPrompts = prompts.map(p => 
-      p.id === editedPrompt.id ? { ...editedPrompt } : p
-    );
-    
+  const persist = (updatedPrompts: PromptTemplate[]) => {
     setPrompts(updatedPrompts);
-    localStorage.setItem('custom_prompts', JSON.stringify(updatedPrompts));
-    onPromptsChanged(updatedPrompts);
+    PromptTemplates.saveAll(updatedPrompts);
+    onPromptsChanged?.(updatedPrompts);
+  };
+
+  const savePrompt = () => {
+    const saved = PromptHistory.record(editedPrompt, prompts.find(p => p.id === editedPrompt.id));
+    persist(prompts.map(p => 
+      p.id === saved.id ? saved : p
+    ));
     setHasUnsavedChanges(false);
     
     toast({
-      title: "Prompt gespeichert",
-      description: `"${editedPrompt.name}" wurde erfolgreich gespeichert.`
+      title: t('promptEditor.toast.saved'),
+      description: t(issues.length > 0 ? 'promptEditor.toast.savedInvalid' : 'promptEditor.toast.savedDescription', {
+        name: saved.name,
+        version: saved.version
+      }),
+      variant: issues.length > 0 ? "destructive" : "default"
+    });
+  };
+
+  const activatePrompt = () => {
+    PromptTemplates.setActive(editedPrompt.task, editedPrompt.language, editedPrompt.id);
+    setActiveIds(PromptTemplates.getActiveIds());
+
+    toast({
+      title: t('promptEditor.toast.activated'),
+      description: t('promptEditor.toast.activatedDescription', {
+        name: editedPrompt.name,
+        module: t(MODULE_LABELS[editedPrompt.task]),
+        language: t(LANGUAGE_LABELS[editedPrompt.language])
+      })
     });
   };
 
   const resetToDefault = () => {
-    const defaultPrompt = DEFAULT_PROMPTS.find(p => p.id === editedPrompt.id);
+    const defaultPrompt = PromptTemplates.getDefault(editedPrompt.id);
     if (defaultPrompt) {
       setEditedPrompt({ ...defaultPrompt });
       setHasUnsavedChanges(true);
       
       toast({
-        title: "Prompt zurückgesetzt",
-        description: "Standard-Prompt wiederhergestellt."
+        title: t('promptEditor.toast.reset'),
+        description: t('promptEditor.toast.resetDescription')
       });
     }
   };
 
+  // The restored wording becomes a new version once saved, so the history never loses a step
+  const restoreVersion = (version: PromptVersion) => {
+    setEditedPrompt(prev => ({
+      ...prev,
+      systemPrompt: version.systemPrompt,
+      userPrompt: version.userPrompt,
+      temperature: version.temperature,
+      maxTokens: version.maxTokens
+    }));
+    setHasUnsavedChanges(true);
+
+    toast({
+      title: t('promptEditor.toast.versionLoaded'),
+      description: t('promptEditor.toast.versionLoadedDescription', { version: version.version })
+    });
+  };
+
   const createNewPrompt = () => {
+    const requiredVariables = TEMPLATE_VARIABLES[editedPrompt.task]
+      .filter(variable => variable.required)
+      .map(variable => `{${variable.name}}`);
+
     const newPrompt: PromptTemplate = {
       id: `custom_${Date.now()}`,
-      name: 'Neuer Prompt',
-      description: 'Beschreibung hinzufügen...',
-      systemPrompt: 'Du bist ein hilfreicher Assistent.',
-      userPrompt: 'Bitte analysiere den folgenden Text: "{textChunk}"',
+      task: editedPrompt.task,
+      language: editedPrompt.language,
+      name: t('promptEditor.newName'),
+      description: t('promptEditor.newDescription'),
+      systemPrompt: 'Du bist ein hilfreicher Assistent. Antworte nur in gültigem JSON.',
+      userPrompt: `Bitte analysiere:\n\n${requiredVariables.join('\n\n')}`,
       temperature: 0.5,
       maxTokens: 800,
       version: '1.0',
       isDefault: false
     };
 
-    const updatedPrompts = [...prompts, newPrompt];
-    setPrompts(updatedPrompts);
+    persist([...prompts, newPrompt]);
     setSelectedPromptId(newPrompt.id);
     
     toast({
-      title: "Neuer Prompt erstellt",
-      description: "Sie können nun den neuen Prompt bearbeiten."
+      title: t('promptEditor.toast.created'),
+      description: t('promptEditor.toast.createdDescription', { module: t(MODULE_LABELS[newPrompt.task]) })
     });
   };
 
@@ -245,76 +155,78 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
     const copiedPrompt: PromptTemplate = {
       ...editedPrompt,
       id: `copy_${Date.now()}`,
-      name: `${editedPrompt.name} (Kopie)`,
+      name: t('promptEditor.copyName', { name: editedPrompt.name }),
+      version: '1.0',
       isDefault: false
     };
 
-    const updatedPrompts = [...prompts, copiedPrompt];
-    setPrompts(updatedPrompts);
+    persist([...prompts, copiedPrompt]);
     setSelectedPromptId(copiedPrompt.id);
     
     toast({
-      title: "Prompt kopiert",
-      description: "Eine Kopie des Prompts wurde erstellt."
+      title: t('promptEditor.toast.copied'),
+      description: t('promptEditor.toast.copiedDescription')
     });
   };
 
   const deletePrompt = () => {
     if (editedPrompt.isDefault) {
       toast({
-        title: "Fehler",
-        description: "Standard-Prompts können nicht gelöscht werden.",
+        title: t('promptEditor.toast.error'),
+        description: t('promptEditor.toast.deleteDefault'),
         variant: "destructive"
       });
       return;
     }
 
+    // Deleting the active template hands its task back to the default
     const updatedPrompts = prompts.filter(p => p.id !== editedPrompt.id);
-    setPrompts(updatedPrompts);
-    setSelectedPromptId(updatedPrompts[0]?.id || DEFAULT_PROMPTS[0].id);
+    persist(updatedPrompts);
+    PromptHistory.remove(editedPrompt.id);
+    setSelectedPromptId(PromptTemplates.getActive(editedPrompt.task, editedPrompt.language, updatedPrompts).id);
     
     toast({
-      title: "Prompt gelöscht",
-      description: `"${editedPrompt.name}" wurde gelöscht.`
+      title: t('promptEditor.toast.deleted'),
+      description: t('promptEditor.toast.deletedDescription', { name: editedPrompt.name })
     });
   };
 
-  const getVariableHelp = () => {
-    return [
-      '{archetypeName} - Name des Archetyps',
-      '{archetypeDescription} - Beschreibung des Archetyps',
-      '{archetypeDemographics} - Demografische Daten',
-      '{archetypeReadingPreferences} - Lesegewohnheiten',
-      '{archetypePersonalityTraits} - Persönlichkeitsmerkmale',
-      '{archetypeMotivations} - Motivationen',
-      '{archetypePainPoints} - Pain Points',
-      '{textChunk} - Der zu analysierende Textabschnitt',
-      '{streamOfThoughtResult} - Ergebnis der Stream-of-Thought Analyse (nur für Layer 2)'
-    ];
-  };
-
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Settings className="w-5 h-5" />
-            Erweiterte Prompt-Einstellungen
+            {t('promptEditor.title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Prompt Selection */}
           <div className="flex flex-col md:flex-row gap-4">
+            <div className="md:w-40">
+              <Label htmlFor="prompt-language">{t('promptEditor.language')}</Label>
+              <Select value={language} onValueChange={value => changeLanguage(value as OutputLanguage)}>
+                <SelectTrigger id="prompt-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OUTPUT_LANGUAGES.map(option => (
+                    <SelectItem key={option} value={option}>{t(LANGUAGE_LABELS[option])}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex-1">
-              <Label htmlFor="prompt-select">Prompt auswählen</Label>
+              <Label htmlFor="prompt-select">{t('promptEditor.select')}</Label>
               <Select value={selectedPromptId} onValueChange={setSelectedPromptId}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {prompts.map(prompt => (
+                  {languagePrompts.map(prompt => (
                     <SelectItem key={prompt.id} value={prompt.id}>
-                      {prompt.name} {prompt.isDefault && '(Standard)'}
+                      {prompt.name} · {t(MODULE_LABELS[prompt.task])} {prompt.isDefault && t('promptEditor.defaultSuffix')}
+                      {PromptTemplates.getActive(prompt.task, language, prompts)?.id === prompt.id && ` ${t('promptEditor.activeSuffix')}`}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -324,16 +236,22 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
             <div className="flex gap-2">
               <Button variant="outline" onClick={createNewPrompt}>
                 <Code className="w-4 h-4 mr-2" />
-                Neu
+                {t('promptEditor.new')}
               </Button>
               <Button variant="outline" onClick={copyPrompt}>
                 <Copy className="w-4 h-4 mr-2" />
-                Kopieren
+                {t('promptEditor.copy')}
               </Button>
+              {!isActive && (
+                <Button variant="outline" onClick={activatePrompt} disabled={hasUnsavedChanges}>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  {t('promptEditor.activate')}
+                </Button>
+              )}
               {!editedPrompt.isDefault && (
                 <Button variant="outline" onClick={deletePrompt}>
                   <AlertTriangle className="w-4 h-4 mr-2" />
-                  Löschen
+                  {t('promptEditor.delete')}
                 </Button>
               )}
             </div>
@@ -343,22 +261,35 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                Sie haben ungespeicherte Änderungen. Vergessen Sie nicht zu speichern!
+                {t('promptEditor.unsaved')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {issues.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <strong>{t('promptEditor.invalid')}</strong>
+                <ul className="mt-1 text-sm">
+                  {issues.map(issue => <li key={issue}>• {issue}</li>)}
+                </ul>
               </AlertDescription>
             </Alert>
           )}
 
           <Tabs defaultValue="basic" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
-              <TabsTrigger value="basic">Grundeinstellungen</TabsTrigger>
-              <TabsTrigger value="prompts">Prompts</TabsTrigger>
-              <TabsTrigger value="help">Hilfe</TabsTrigger>
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="basic">{t('promptEditor.tab.basic')}</TabsTrigger>
+              <TabsTrigger value="prompts">{t('promptEditor.tab.prompts')}</TabsTrigger>
+              <TabsTrigger value="history">{t('promptEditor.tab.history')}</TabsTrigger>
+              <TabsTrigger value="help">{t('promptEditor.tab.help')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="basic" className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="prompt-name">Name</Label>
+                  <Label htmlFor="prompt-name">{t('promptEditor.name')}</Label>
                   <input
                     id="prompt-name"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
@@ -367,18 +298,21 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
                   />
                 </div>
                 <div>
-                  <Label htmlFor="prompt-version">Version</Label>
+                  <Label htmlFor="prompt-version">{t('promptEditor.version')}</Label>
                   <input
                     id="prompt-version"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md bg-slate-50"
                     value={editedPrompt.version}
-                    onChange={(e) => updatePromptField('version', e.target.value)}
+                    readOnly
                   />
+                  <p className="text-xs text-slate-600 mt-1">
+                    {t('promptEditor.versionHint')}
+                  </p>
                 </div>
               </div>
 
               <div>
-                <Label htmlFor="prompt-description">Beschreibung</Label>
+                <Label htmlFor="prompt-description">{t('promptEditor.description')}</Label>
                 <Textarea
                   id="prompt-description"
                   value={editedPrompt.description}
@@ -389,7 +323,7 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="temperature">Temperature: {editedPrompt.temperature}</Label>
+                  <Label htmlFor="temperature">{t('promptEditor.temperature', { value: editedPrompt.temperature })}</Label>
                   <input
                     id="temperature"
                     type="range"
@@ -401,23 +335,23 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
                     className="w-full"
                   />
                   <p className="text-xs text-slate-600 mt-1">
-                    Niedrig = konservativ, Hoch = kreativ
+                    {t('promptEditor.temperatureHint')}
                   </p>
                 </div>
                 <div>
-                  <Label htmlFor="max-tokens">Max Tokens: {editedPrompt.maxTokens}</Label>
+                  <Label htmlFor="max-tokens">{t('promptEditor.maxTokens', { value: editedPrompt.maxTokens })}</Label>
                   <input
                     id="max-tokens"
                     type="range"
                     min="200"
-                    max="2000"
+                    max="4000"
                     step="100"
                     value={editedPrompt.maxTokens}
                     onChange={(e) => updatePromptField('maxTokens', parseInt(e.target.value))}
                     className="w-full"
                   />
                   <p className="text-xs text-slate-600 mt-1">
-                    Maximale Antwortlänge
+                    {t('promptEditor.maxTokensHint')}
                   </p>
                 </div>
               </div>
@@ -425,43 +359,50 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
 
             <TabsContent value="prompts" className="space-y-4">
               <div>
-                <Label htmlFor="system-prompt">System Prompt</Label>
+                <Label htmlFor="system-prompt">{t('promptEditor.systemPrompt')}</Label>
                 <Textarea
                   id="system-prompt"
                   value={editedPrompt.systemPrompt}
                   onChange={(e) => updatePromptField('systemPrompt', e.target.value)}
                   rows={3}
-                  placeholder="Systemanweisung für das AI-Modell..."
+                  placeholder={t('promptEditor.systemPromptPlaceholder')}
                 />
                 <p className="text-xs text-slate-600 mt-1">
-                  Definiert das grundlegende Verhalten des AI-Modells
+                  {t('promptEditor.systemPromptHint')}
                 </p>
               </div>
 
               <div>
-                <Label htmlFor="user-prompt">User Prompt</Label>
+                <Label htmlFor="user-prompt">{t('promptEditor.userPrompt')}</Label>
                 <Textarea
                   id="user-prompt"
                   value={editedPrompt.userPrompt}
                   onChange={(e) => updatePromptField('userPrompt', e.target.value)}
                   rows={12}
-                  placeholder="Hauptprompt mit Variablen wie {archetypeName}..."
+                  placeholder={t('promptEditor.userPromptPlaceholder')}
                 />
                 <p className="text-xs text-slate-600 mt-1">
-                  Der Hauptprompt für die Analyse. Verwenden Sie Variablen in geschweiften Klammern.
+                  {t('promptEditor.userPromptHint')}
                 </p>
               </div>
             </TabsContent>
 
+            <TabsContent value="history" className="space-y-4">
+              <PromptHistoryPanel
+                template={prompts.find(p => p.id === editedPrompt.id) ?? editedPrompt}
+                onRestore={restoreVersion}
+              />
+            </TabsContent>
+
             <TabsContent value="help" className="space-y-4">
               <Alert>
                 <Info className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>Verfügbare Variablen:</strong>
+                  <strong>{t('promptEditor.variables')}</strong>
                   <div className="mt-2 space-y-1">
-                    {getVariableHelp().map((help, idx) => (
-                      <div key={idx} className="text-sm font-mono bg-slate-100 p-1 rounded">
-                        {help}
+                    {TEMPLATE_VARIABLES[editedPrompt.task].map(variable => (
+                      <div key={variable.name} className="text-sm font-mono bg-slate-100 p-1 rounded">
+                        {`{${variable.name}} - ${t(variable.description)}`}{variable.required && ` ${t('promptEditor.requiredSuffix')}`}
                       </div>
                     ))}
                   </div>
@@ -471,24 +412,25 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
               <Alert>
                 <Info className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>Prompt-Typen:</strong>
-                  <ul className="mt-2 space-y-1 text-sm">
-                    <li><strong>Standard Analyse:</strong> Vollständige Buchbewertung mit Ratings</li>
-                    <li><strong>Stream of Thought:</strong> Ungefilterte Gedanken (Layer 1)</li>
-                    <li><strong>Analytische Insights:</strong> Strukturierte Business-Analyse (Layer 2)</li>
-                  </ul>
+                  <strong>{t('promptEditor.modules')}</strong>
+                  <p className="mt-2 text-sm">
+                    {t('promptEditor.modulesHelp', {
+                      module: t(MODULE_LABELS[editedPrompt.task]),
+                      language: t(LANGUAGE_LABELS[editedPrompt.language])
+                    })}
+                  </p>
                 </AlertDescription>
               </Alert>
 
               <Alert>
                 <Info className="h-4 w-4" />
                 <AlertDescription>
-                  <strong>Tipps:</strong>
+                  <strong>{t('promptEditor.tips')}</strong>
                   <ul className="mt-2 space-y-1 text-sm">
-                    <li>• Verwenden Sie klare, spezifische Anweisungen</li>
-                    <li>• Fordern Sie JSON-Antworten für strukturierte Daten</li>
-                    <li>• Testen Sie neue Prompts mit verschiedenen Texten</li>
-                    <li>• Niedrige Temperature für konsistente Ergebnisse</li>
+                    <li>• {t('promptEditor.tip.specific')}</li>
+                    <li>• {t('promptEditor.tip.json')}</li>
+                    <li>• {t('promptEditor.tip.test')}</li>
+                    <li>• {t('promptEditor.tip.temperature')}</li>
                   </ul>
                 </AlertDescription>
               </Alert>
@@ -500,19 +442,22 @@ export const AdvancedPromptEditor: React.FC<AdvancedPromptEditorProps> = ({
             <div className="flex gap-2">
               <Button onClick={savePrompt} disabled={!hasUnsavedChanges}>
                 <Save className="w-4 h-4 mr-2" />
-                Speichern
+                {t('promptEditor.save')}
               </Button>
               {editedPrompt.isDefault && (
                 <Button variant="outline" onClick={resetToDefault}>
                   <RefreshCw className="w-4 h-4 mr-2" />
-                  Standard wiederherstellen
+                  {t('promptEditor.restoreDefault')}
                 </Button>
               )}
             </div>
             
-            <Badge variant={editedPrompt.isDefault ? 'default' : 'secondary'}>
-              {editedPrompt.isDefault ? 'Standard-Prompt' : 'Benutzerdefiniert'}
-            </Badge>
+            <div className="flex gap-2">
+              {isActive && <Badge variant="outline">{t('promptEditor.active')}</Badge>}
+              <Badge variant={editedPrompt.isDefault ? 'default' : 'secondary'}>
+                {editedPrompt.isDefault ? t('promptEditor.defaultPrompt') : t('promptEditor.custom')}
+              </Badge>
+            </div>
           </div>
         </CardContent>
       </Card>
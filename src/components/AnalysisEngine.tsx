@@ -2,7 +2,17 @@
 import React, { useState, useCallback } from 'react';
 import { ReaderArchetype, AnalysisResult } from './BookAnalyzer';
 import { AIConfig } from './AIAnalysisService';
-import { TextChunker } from '../utils/textChunking';
+import { TextChunker, TextStructure } from '../utils/textChunking';
+import { AIProvider, TokenUsage } from '../utils/aiProvider';
+import { ReaderAnalysisPayload } from '../utils/aiSchemas';
+import { RunControl } from '../utils/runControl';
+import { AnalysisEnsemble, EnsembleMember } from '../utils/ensemble';
+import { PromptTemplates } from '../utils/promptTemplates';
+import { ManuscriptRevision, ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { PromptPreview } from '../utils/promptPreview';
+import { TokenCounter } from '../utils/tokenCounter';
+import { ModelRouting } from '../utils/modelRouting';
+import { I18n } from '../utils/i18n';
 
 interface AnalysisEngineProps {
   pdfContent: string;
@@ -22,36 +32,43 @@ export interface AnalysisProgress {
   status: string;
   results: AnalysisResult[];
   apiCalls: number;
-  tokenUsage: { prompt: number; completion: number };
+  cacheHits: number;
+  tokenUsage: TokenUsage;
   chunkingSummary?: string;
 }
 
 export class AnalysisController {
   private isRunning = false;
-  private shouldStop = false;
+  private control = new RunControl();
   
   async runAnalysis(
     fileContent: string,
     archetypes: ReaderArchetype[],
     aiConfig: AIConfig,
-    onProgress: (progress: AnalysisProgress) => void
+    onProgress: (progress: AnalysisProgress) => void,
+    control: RunControl = new RunControl(),
+    ensemble: EnsembleMember[] = [],
+    structure?: TextStructure,
+    baseline?: ManuscriptRevision
   ): Promise<AnalysisResult[]> {
     this.isRunning = true;
-    this.shouldStop = false;
+    this.control = control;
     
-    const results: AnalysisResult[] = [];
     let apiCalls = 0;
-    let tokenUsage = { prompt: 0, completion: 0 };
+    let cacheHits = 0;
+    let tokenUsage: TokenUsage = { prompt: 0, completion: 0 };
     
     // Enhanced text chunking
-    const chunks = TextChunker.createChunks(fileContent, {
-      maxWordsPerChunk: 400,
-      minWordsPerChunk: 150,
-      preserveStructure: true
-    });
+    await TokenCounter.loadAll(ModelRouting.modelsInUse(aiConfig.model, AIProvider.resolveConfig(aiConfig).routing, ensemble.map(member => member.model)));
+    const chunks = TextChunker.createChunks(fileContent, PromptPreview.chunkOptions('standard', aiConfig), structure);
     
     const chunkingSummary = TextChunker.getChunkingSummary(chunks);
     console.log('Chunking summary:', chunkingSummary);
+
+    // A revision only sends chunks to the AI that changed since the baseline, or that an archetype hasn't rated yet
+    const matches = baseline ? ManuscriptRevisions.compare(baseline.chunks, chunks) : [];
+    const results: AnalysisResult[] = baseline ? ManuscriptRevisions.carryOver(baseline, chunks, matches) : [];
+    const carried = new Set(results.map(result => `${result.archetypeId}:${result.chunkIndex}`));
     
     const allTasks = archetypes.flatMap(archetype => 
         chunks.map((chunk, chunkIndex) => ({
@@ -59,7 +76,7 @@ export class AnalysisController {
             chunk,
             chunkIndex
         }))
-    );
+    ).filter(task => !carried.has(`${task.archetype.id}:${task.chunkIndex}`));
 
     const totalSteps = allTasks.length;
     let currentStep = 0;
@@ -70,9 +87,10 @@ export class AnalysisController {
       currentArchetype: '',
       currentChunk: 0,
       totalChunks: chunks.length,
-      status: `Starte Analyse: ${archetypes.length} Archetypen × ${chunks.length} Abschnitte`,
-      results: [],
+      status: I18n.t('analysis.status.starting', { archetypes: archetypes.length, chunks: chunks.length }),
+      results: [...results],
       apiCalls: 0,
+      cacheHits: 0,
       tokenUsage,
       chunkingSummary
     });
@@ -80,15 +98,20 @@ export class AnalysisController {
     const batchSize = 5; // Process 5 API calls in parallel
 
     for (let i = 0; i < allTasks.length; i += batchSize) {
-        if(this.shouldStop) break;
+        await control.waitIfPaused();
+        if (control.isStopped()) break;
 
         const batch = allTasks.slice(i, i + batchSize);
 
         const promises = batch.map(async (task) => {
             try {
-                const result = await this.callOpenAI(task.archetype, task.chunk.content, task.chunkIndex, aiConfig);
-                return { ...result, archetype: task.archetype, chunk: task.chunk, chunkIndex: task.chunkIndex };
+                const analysed = await this.analyzeChunk(task.archetype, task.chunk.content, task.chunkIndex, aiConfig, control, ensemble);
+                const result = baseline ? ManuscriptRevisions.annotate(analysed, matches, baseline) : analysed;
+                return { ...result, pages: task.chunk.pages, archetype: task.archetype, chunk: task.chunk, chunkIndex: task.chunkIndex };
             } catch (error) {
+                if (AIProvider.isAbortError(error)) {
+                    return { aborted: true as const, archetype: task.archetype, chunk: task.chunk, chunkIndex: task.chunkIndex };
+                }
                 console.error(`Error analyzing chunk ${task.chunkIndex} for ${task.archetype.name}:`, error);
                 return { error, archetype: task.archetype, chunk: task.chunk, chunkIndex: task.chunkIndex }; // Pass error along
             }
@@ -96,11 +119,14 @@ export class AnalysisController {
         
         const batchResults = await Promise.all(promises);
 
+        // Results of a batch that already finished are kept even when a stop was requested meanwhile
         for (const result of batchResults) {
-            if (this.shouldStop) break;
+            if ('aborted' in result) continue;
 
             currentStep++;
-            const chunkDescription = result.chunk.title ? `"${result.chunk.title}" (${result.chunk.wordCount} Wörter)` : `Abschnitt ${result.chunkIndex + 1} (${result.chunk.wordCount} Wörter)`;
+            const chunkDescription = result.chunk.title
+              ? I18n.t('analysis.chunk.titled', { title: result.chunk.title, count: result.chunk.wordCount })
+              : I18n.t('analysis.chunk.numbered', { number: result.chunkIndex + 1, count: result.chunk.wordCount });
 
             if ('error' in result) {
                  onProgress({
@@ -109,28 +135,32 @@ export class AnalysisController {
                     currentArchetype: result.archetype.name,
                     currentChunk: result.chunkIndex + 1,
                     totalChunks: chunks.length,
-                    status: `⚠️ Fehler bei ${chunkDescription}`,
+                    status: I18n.t('analysis.status.failed', { chunk: chunkDescription }),
                     results: [...results],
                     apiCalls,
+                    cacheHits,
                     tokenUsage,
                     chunkingSummary
                 });
             } else {
                 results.push(result);
-                apiCalls++;
-                if (result.tokenUsage) {
-                    tokenUsage.prompt += result.tokenUsage.prompt;
-                    tokenUsage.completion += result.tokenUsage.completion;
-                }
+                apiCalls += result.apiCalls;
+                cacheHits += result.cacheHits;
+                tokenUsage = AIProvider.addUsage(tokenUsage, result.tokenUsage);
                 onProgress({
                     currentStep,
                     totalSteps,
                     currentArchetype: result.archetype.name,
                     currentChunk: result.chunkIndex + 1,
                     totalChunks: chunks.length,
-                    status: `✅ ${result.archetype.name}: ${chunkDescription} analysiert (${result.overallRating.toFixed(1)}/10)`,
+                    status: I18n.t('analysis.status.analyzed', {
+                      archetype: result.archetype.name,
+                      chunk: chunkDescription,
+                      rating: I18n.formatNumber(result.overallRating, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+                    }),
                     results: [...results],
                     apiCalls,
+                    cacheHits,
                     tokenUsage,
                     chunkingSummary
                 });
@@ -143,134 +173,67 @@ export class AnalysisController {
   }
   
   stop(): void {
-    this.shouldStop = true;
+    this.control.stop();
   }
   
   isAnalysisRunning(): boolean {
     return this.isRunning;
   }
   
-  private async callOpenAI(
+  private async analyzeChunk(
     archetype: ReaderArchetype,
     chunk: string,
     chunkIndex: number,
-    aiConfig: AIConfig
-  ): Promise<AnalysisResult & { tokenUsage?: { prompt: number; completion: number } }> {
-    const prompt = this.createPrompt(archetype, chunk, chunkIndex);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${aiConfig.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: aiConfig.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'Du bist ein präziser Literaturkritiker. Antworte ausschließlich in gültigem JSON ohne zusätzlichen Text.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 800,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      throw new Error(`OpenAI API Error ${response.status}: ${errorData}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    // Extract JSON from response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Keine gültige JSON-Antwort erhalten');
-    }
-
-    let analysisData;
-    try {
-      analysisData = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      throw new Error('Ungültige JSON-Antwort');
-    }
-
-    if (!analysisData.ratings || !analysisData.feedback) {
-      throw new Error('Unvollständige Antwort erhalten');
+    aiConfig: AIConfig,
+    control: RunControl,
+    ensemble: EnsembleMember[]
+  ): Promise<AnalysisResult & { tokenUsage: TokenUsage; apiCalls: number; cacheHits: number }> {
+    const request = PromptTemplates.buildRequest('reader_analysis', {
+      ...PromptTemplates.archetypeValues(archetype),
+      textChunk: chunk
+    }, aiConfig.language);
+    const members = ensemble.length > 0 ? ensemble : [{ model: aiConfig.model, temperature: request.temperature }];
+
+    const settled = await Promise.allSettled(members.map((member, index) =>
+      AIProvider.completeJSON<ReaderAnalysisPayload>({
+        ...request,
+        temperature: member.temperature,
+        signal: control.signal,
+        runId: control.runId,
+        // Members repeating a model and temperature are separate samples
+        sample: members.slice(0, index).filter(other => other.model === member.model && other.temperature === member.temperature).length
+      }, { ...aiConfig, model: member.model })
+    ));
+
+    const failures = settled.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    const abort = failures.find(outcome => AIProvider.isAbortError(outcome.reason));
+    if (abort) throw abort.reason;
+
+    const succeeded = settled
+      .map((outcome, index) => outcome.status === 'fulfilled' ? { member: members[index], response: outcome.value } : null)
+      .filter(Boolean);
+    if (succeeded.length === 0) throw failures[0].reason;
+    if (failures.length > 0) {
+      console.warn(`${failures.length} of ${members.length} ensemble members failed for chunk ${chunkIndex}:`, failures.map(f => f.reason));
     }
 
-    return {
+    const memberResults: AnalysisResult[] = succeeded.map(({ response }) => ({
       archetypeId: archetype.id,
       chunkIndex,
-      ratings: analysisData.ratings,
-      overallRating: analysisData.overallRating || 0,
-      feedback: analysisData.feedback,
-      buyingProbability: analysisData.buyingProbability || 0,
-      recommendationLikelihood: analysisData.recommendationLikelihood || 0,
-      expectedReviewSentiment: analysisData.expectedReviewSentiment || 'neutral',
-      marketingInsights: analysisData.marketingInsights || [],
-      tokenUsage: data.usage ? {
-        prompt: data.usage.prompt_tokens || 0,
-        completion: data.usage.completion_tokens || 0
-      } : undefined
-    };
-  }
-  
-  private createPrompt(archetype: ReaderArchetype, chunk: string, chunkIndex: number): string {
-    return `Du bist ein Literatur-Kritiker und verhältst dich wie folgende Persona:
-
-PERSONA: ${archetype.name}
-BESCHREIBUNG: ${archetype.description}
-DEMOGRAPHIK: ${archetype.demographics}
-LESEGEWOHNHEITEN: ${archetype.readingPreferences}
-PERSÖNLICHKEIT: ${archetype.personalityTraits.join(', ')}
-MOTIVATIONEN: ${archetype.motivations.join(', ')}
-PAIN POINTS: ${archetype.painPoints.join(', ')}
-
-Analysiere diesen spezifischen Textabschnitt aus deiner Persona-Perspektive:
-
-"${chunk}"
+      ...response.data,
+      prompt: request.template
+    }));
+    // A single surviving member carries no information about agreement
+    const merged = ensemble.length > 0 && memberResults.length >= 2
+      ? AnalysisEnsemble.merge(memberResults, succeeded.map(({ member }) => member.model))
+      : memberResults[0];
 
-Gib detailliertes, tiefgründiges Feedback, das sich NUR auf diesen Textabschnitt bezieht. Konzentriere dich auf deine emotionale Reaktion, wie die Charaktere oder die Handlung auf dich wirken und ob der Stil dich anspricht.
-
-Bewerte auf Skala 1-10 (Dezimalstellen erlaubt, z.B. 7.3):
-- Engagement: Wie fesselnd ist DIESER ABSCHNITT?
-- Stil: Wie gefällt dir der Schreibstil IN DIESEM ABSCHNITT?
-- Klarheit: Wie verständlich ist der Text IN DIESEM ABSCHNITT?
-- Tempo: Wie ist das Erzähltempo IN DIESEM ABSCHNITT?
-- Relevanz: Wie relevant ist der Inhalt DIESES ABSCHNITTS für dich?
-
-Schätze (0-1 als Dezimalzahl, z.B. 0.75):
-- Kaufwahrscheinlichkeit: Basierend auf DIESEM ABSCHNITT, wie wahrscheinlich ist es, dass du das Buch kaufen würdest?
-- Weiterempfehlungswahrscheinlichkeit: Würdest du es basierend auf DIESEM ABSCHNITT weiterempfehlen?
-
-Review-Stimmung (positive, neutral oder negative): Welche Stimmung hinterlässt DIESER ABSCHNITT bei dir?
-
-Gib 2-3 konkrete Marketing-Insights, die sich direkt aus deiner Reaktion auf DIESEN ABSCHNITT ableiten lassen.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "ratings": {
-    "engagement": 0.0,
-    "style": 0.0,
-    "clarity": 0.0,
-    "pacing": 0.0,
-    "relevance": 0.0
-  },
-  "overallRating": 0.0,
-  "feedback": "Dein detailliertes Feedback als Persona (max 150 Wörter), das sich spezifisch auf den Textabschnitt bezieht und deine emotionalen Reaktionen und Gedanken dazu beschreibt.",
-  "buyingProbability": 0.0,
-  "recommendationLikelihood": 0.0,
-  "expectedReviewSentiment": "positive/neutral/negative",
-  "marketingInsights": ["Konkreter Marketing-Insight 1 basierend auf diesem Abschnitt", "Konkreter Marketing-Insight 2 basierend auf diesem Abschnitt"]
-}`;
+    return {
+      ...merged,
+      tokenUsage: succeeded.reduce((usage, { response }) => AIProvider.addUsage(usage, response.usage), { prompt: 0, completion: 0 }),
+      apiCalls: succeeded.filter(({ response }) => !response.cached).length,
+      cacheHits: succeeded.filter(({ response }) => response.cached).length
+    };
   }
 }
 
@@ -4,9 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Brain, Clock, Zap, TrendingUp, FileText } from 'lucide-react';
+import { Brain, Clock, Zap, TrendingUp, FileText, Database } from 'lucide-react';
 import { AnalysisProgress } from './AnalysisEngine';
 import { ReaderArchetype, AnalysisResult } from './BookAnalyzer';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface AnalysisProgressDisplayProps {
   progress: AnalysisProgress;
@@ -17,6 +18,7 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
   progress,
   archetypes
 }) => {
+  const { t, formatNumber, formatPercent } = useI18n();
   const progressPercentage = progress.totalSteps > 0 ? (progress.currentStep / progress.totalSteps) * 100 : 0;
   
   return (
@@ -25,7 +27,7 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
       <Alert className="bg-blue-50 border-blue-200">
         <Zap className="h-4 w-4 text-blue-600" />
         <AlertDescription className="text-blue-800">
-          <strong>Status:</strong> {progress.status}
+          <strong>{t('progress.status')}</strong> {progress.status}
         </AlertDescription>
       </Alert>
 
@@ -34,7 +36,7 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
         <Alert className="bg-green-50 border-green-200">
           <FileText className="h-4 w-4 text-green-600" />
           <AlertDescription className="text-green-800">
-            <strong>Text-Aufteilung:</strong> {progress.chunkingSummary}
+            <strong>{t('progress.chunking')}</strong> {progress.chunkingSummary}
           </AlertDescription>
         </Alert>
       )}
@@ -44,32 +46,39 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Brain className="w-5 h-5 text-blue-600" />
-            Analyse-Fortschritt
+            {t('progress.title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{archetypes.length}</div>
-              <div className="text-sm text-slate-600">Archetypen</div>
+              <div className="text-sm text-slate-600">{t('progress.archetypes')}</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{progress.totalChunks}</div>
-              <div className="text-sm text-slate-600">Text-Abschnitte</div>
+              <div className="text-sm text-slate-600">{t('progress.chunks')}</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{progress.totalSteps}</div>
-              <div className="text-sm text-slate-600">Gesamt-Analysen</div>
+              <div className="text-sm text-slate-600">{t('progress.steps')}</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{progress.apiCalls}</div>
-              <div className="text-sm text-slate-600">API-Aufrufe</div>
+              <div className="text-sm text-slate-600">{t('progress.apiCalls')}</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600 flex items-center justify-center gap-1">
+                <Database className="w-5 h-5" />
+                {progress.cacheHits}
+              </div>
+              <div className="text-sm text-slate-600">{t('progress.cacheHits')}</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">
-                {progress.tokenUsage.prompt + progress.tokenUsage.completion}
+                {formatNumber(progress.tokenUsage.prompt + progress.tokenUsage.completion)}
               </div>
-              <div className="text-sm text-slate-600">Token verbraucht</div>
+              <div className="text-sm text-slate-600">{t('progress.tokens')}</div>
             </div>
           </div>
         </CardContent>
@@ -79,18 +88,18 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Fortschritt</span>
+            <span>{t('progress.progress')}</span>
             <div className="flex items-center gap-2 text-sm text-slate-600">
               <Clock className="w-4 h-4" />
-              {Math.round(progressPercentage)}% abgeschlossen
+              {t('progress.percentDone', { percent: formatPercent(progressPercentage / 100) })}
             </div>
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Schritt {progress.currentStep} von {progress.totalSteps}</span>
-              <span>{Math.round(progressPercentage)}%</span>
+              <span>{t('progress.step', { current: progress.currentStep, total: progress.totalSteps })}</span>
+              <span>{formatPercent(progressPercentage / 100)}</span>
             </div>
             <Progress value={progressPercentage} className="h-3" />
           </div>
@@ -100,10 +109,10 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
             <div className="bg-slate-50 p-4 rounded-lg">
               <div className="flex items-center justify-between mb-2">
                 <Badge variant="outline" className="bg-blue-100">
-                  Aktuell: {progress.currentArchetype}
+                  {t('progress.current', { archetype: progress.currentArchetype })}
                 </Badge>
                 <span className="text-sm text-slate-600">
-                  Abschnitt {progress.currentChunk} von {progress.totalChunks}
+                  {t('progress.chunk', { current: progress.currentChunk, total: progress.totalChunks })}
                 </span>
               </div>
             </div>
@@ -114,7 +123,7 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
             <div className="space-y-3">
               <h4 className="font-medium flex items-center gap-2">
                 <TrendingUp className="w-4 h-4" />
-                Neueste Bewertungen (1-10 Skala):
+                {t('progress.recent')}
               </h4>
               <div className="space-y-2 max-h-60 overflow-y-auto">
                 {progress.results.slice(-5).reverse().map((result, idx) => {
@@ -128,7 +137,7 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
                         <Badge variant="secondary">{archetype?.name}</Badge>
                         <div className="flex gap-2 items-center">
                           <span className={`font-medium ${ratingColor}`}>
-                            {result.overallRating.toFixed(1)}/10
+                            {t('common.score', { score: formatNumber(result.overallRating, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
                           </span>
                           <span className="text-xs text-slate-500">
                             {result.expectedReviewSentiment === 'positive' ? '😊' : 
@@ -137,9 +146,9 @@ export const AnalysisProgressDisplay: React.FC<AnalysisProgressDisplayProps> = (
                         </div>
                       </div>
                       <div className="text-xs text-slate-500 mb-1">
-                        Engagement: {result.ratings.engagement}/10 • 
-                        Stil: {result.ratings.style}/10 • 
-                        Kaufwahrscheinlichkeit: {Math.round(result.buyingProbability * 100)}%
+                        {t('rating.engagement')}: {t('common.score', { score: result.ratings.engagement })} • 
+                        {t('rating.style')}: {t('common.score', { score: result.ratings.style })} • 
+                        {t('progress.buyingProbability', { probability: formatPercent(result.buyingProbability) })}
                       </div>
                       <p className="text-slate-600">{result.feedback.substring(0, 120)}...</p>
                     </div>
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { ReaderArchetype } from './BookAnalyzer';
 import { Users, Edit, Plus, Check } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface ArchetypeManagerProps {
   onArchetypesReady: (archetypes: ReaderArchetype[]) => void;
@@ -72,6 +73,7 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
   onArchetypesReady,
   textPreview
 }) => {
+  const { t } = useI18n();
   const [archetypes, setArchetypes] = useState<ReaderArchetype[]>(DEFAULT_ARCHETYPES);
   const [editingArchetype, setEditingArchetype] = useState<ReaderArchetype | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -85,16 +87,16 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
     setIsDialogOpen(false);
     setEditingArchetype(null);
     toast({
-      title: "Archetyp gespeichert",
-      description: `${archetype.name} wurde erfolgreich aktualisiert.`,
+      title: t('archetypes.toast.saved'),
+      description: t('archetypes.toast.savedDescription', { name: archetype.name }),
     });
   };
 
   const handleStartAnalysis = () => {
     onArchetypesReady(archetypes);
     toast({
-      title: "Analyse gestartet",
-      description: "Die Archetypen wurden konfiguriert. Die Analyse kann beginnen.",
+      title: t('archetypes.toast.started'),
+      description: t('archetypes.toast.startedDescription'),
     });
   };
 
@@ -103,7 +105,7 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
       {/* Text Preview */}
       <Card className="bg-slate-50 border-slate-200">
         <CardHeader>
-          <CardTitle className="text-lg">Ihr Text (Vorschau)</CardTitle>
+          <CardTitle className="text-lg">{t('archetypes.textPreview')}</CardTitle>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-slate-600 italic leading-relaxed">
@@ -131,7 +133,7 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
                   </DialogTrigger>
                   <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
                     <DialogHeader>
-                      <DialogTitle>Archetyp bearbeiten: {archetype.name}</DialogTitle>
+                      <DialogTitle>{t('archetypes.edit', { name: archetype.name })}</DialogTitle>
                     </DialogHeader>
                     <ArchetypeEditor 
                       archetype={archetype} 
@@ -150,14 +152,14 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
               
               <div>
                 <Label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
-                  Demografik
+                  {t('archetypes.demographics')}
                 </Label>
                 <p className="text-sm text-slate-700 mt-1">{archetype.demographics}</p>
               </div>
 
               <div>
                 <Label className="text-xs font-semibold text-slate-500 uppercase tracking-wide">
-                  Persönlichkeitsmerkmale
+                  {t('archetypes.personalityTraits')}
                 </Label>
                 <div className="flex flex-wrap gap-1 mt-2">
                   {archetype.personalityTraits.slice(0, 3).map((trait) => (
@@ -185,7 +187,7 @@ export const ArchetypeManager: React.FC<ArchetypeManagerProps> = ({
           className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3"
         >
           <Check className="w-5 h-5 mr-2" />
-          Analyse mit diesen Archetypen starten
+          {t('archetypes.start')}
         </Button>
       </div>
     </div>
@@ -199,6 +201,7 @@ interface ArchetypeEditorProps {
 }
 
 const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, onCancel }) => {
+  const { t } = useI18n();
   const [editedArchetype, setEditedArchetype] = useState<ReaderArchetype>(archetype);
 
   const handleSave = () => {
@@ -206,7 +209,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
   };
 
   const updateTraits = (value: string) => {
-    const traits = value.split(',').map(t => t.trim()).filter(t => t.length > 0);
+    const traits = value.split(',').map(trait => trait.trim()).filter(trait => trait.length > 0);
     setEditedArchetype(prev => ({ ...prev, personalityTraits: traits }));
   };
 
@@ -224,7 +227,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
     <div className="space-y-6">
       <div className="space-y-4">
         <div>
-          <Label htmlFor="name">Name</Label>
+          <Label htmlFor="name">{t('archetypes.name')}</Label>
           <Input
             id="name"
             value={editedArchetype.name}
@@ -233,7 +236,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="description">Beschreibung</Label>
+          <Label htmlFor="description">{t('archetypes.description')}</Label>
           <Textarea
             id="description"
             value={editedArchetype.description}
@@ -243,7 +246,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="demographics">Demografik</Label>
+          <Label htmlFor="demographics">{t('archetypes.demographics')}</Label>
           <Textarea
             id="demographics"
             value={editedArchetype.demographics}
@@ -253,7 +256,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="readingPreferences">Lesegewohnheiten</Label>
+          <Label htmlFor="readingPreferences">{t('archetypes.readingPreferences')}</Label>
           <Textarea
             id="readingPreferences"
             value={editedArchetype.readingPreferences}
@@ -263,7 +266,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="personalityTraits">Persönlichkeitsmerkmale (kommagetrennt)</Label>
+          <Label htmlFor="personalityTraits">{t('archetypes.personalityTraitsList')}</Label>
           <Input
             id="personalityTraits"
             value={editedArchetype.personalityTraits.join(', ')}
@@ -272,7 +275,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="motivations">Motivationen (kommagetrennt)</Label>
+          <Label htmlFor="motivations">{t('archetypes.motivationsList')}</Label>
           <Input
             id="motivations"
             value={editedArchetype.motivations.join(', ')}
@@ -281,7 +284,7 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
         </div>
 
         <div>
-          <Label htmlFor="painPoints">Pain Points (kommagetrennt)</Label>
+          <Label htmlFor="painPoints">{t('archetypes.painPointsList')}</Label>
           <Input
             id="painPoints"
             value={editedArchetype.painPoints.join(', ')}
@@ -292,10 +295,10 @@ const ArchetypeEditor: React.FC<ArchetypeEditorProps> = ({ archetype, onSave, on
 
       <div className="flex justify-end gap-3">
         <Button variant="outline" onClick={onCancel}>
-          Abbrechen
+          {t('archetypes.cancel')}
         </Button>
         <Button onClick={handleSave}>
-          Speichern
+          {t('archetypes.save')}
         </Button>
       </div>
     </div>
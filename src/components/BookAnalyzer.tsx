@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { FileUploader } from './FileUploader';
 import { ArchetypeManager } from './ArchetypeManager';
 import { AnalysisProgressDisplay } from './AnalysisProgressDisplay';
@@ -13,9 +14,31 @@ import { MarketValidationSuite } from './MarketValidation/MarketValidationSuite'
 import { AIAnalysisService, AIConfig } from './AIAnalysisService';
 import { AnalysisController, AnalysisProgress } from './AnalysisEngine';
 import { TwoLayerAnalysisController, TwoLayerResult } from './TwoLayerAnalysisEngine';
-import { AlertCircle, RotateCcw, BookOpen, TrendingUp, Brain } from 'lucide-react';
+import { AlertCircle, RotateCcw, BookOpen, TrendingUp, Brain, Pause, Play, Coins } from 'lucide-react';
 import { toast } from 'sonner';
 import { BackgroundJobManager } from '../utils/backgroundJobManager';
+import { AIProvider, TokenUsage } from '../utils/aiProvider';
+import { ResponseCache } from '../utils/responseCache';
+import { RunPlanner } from './RunPlanner';
+import { EnsemblePanel } from './EnsemblePanel';
+import { AnalysisEnsemble, EnsembleSettings, EnsembleStats, RATING_DIMENSION_LABELS, RatingDimension } from '../utils/ensemble';
+import { SpendDashboard } from './SpendDashboard';
+import { UsageLedger } from '../utils/usageLedger';
+import { ModelRouting } from '../utils/modelRouting';
+import { PromptRef, PromptTemplates } from '../utils/promptTemplates';
+import { PromptPreview } from '../utils/promptPreview';
+import { STANDARD_TASKS, TWO_LAYER_TASKS } from '../utils/costEstimator';
+import { AdvancedPromptEditor } from './AdvancedPromptEditor';
+import { PromptTrialPanel } from './PromptTrialPanel';
+import { PromptPreviewPanel } from './PromptPreviewPanel';
+import { LANGUAGE_LABELS, LanguageDetection, LanguageSetting, OUTPUT_LANGUAGES, OutputLanguages } from '../utils/outputLanguage';
+import { I18n } from '../utils/i18n';
+import { PageRange } from '../utils/pageMap';
+import { TextChunker, TextStructure } from '../utils/textChunking';
+import { ChunkChange, ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { RevisionDeltas } from './RevisionDeltas';
+import { useI18n } from '@/hooks/use-i18n';
+import { useTokenizers } from '@/hooks/use-tokenizers';
 
 export interface ReaderArchetype {
   id: string;
@@ -44,6 +67,13 @@ export interface AnalysisResult {
   recommendationLikelihood: number;
   expectedReviewSentiment: 'positive' | 'neutral' | 'negative';
   marketingInsights: string[];
+  ensemble?: EnsembleStats;
+  // Template version that produced the result
+  prompt?: PromptRef;
+  // PDF pages the analysed chunk was taken from
+  pages?: PageRange;
+  // Revision runs only: how the chunk changed since the previous version, and its rating there
+  revision?: { change: ChunkChange; previousRating?: number };
 }
 
 export interface StreamOfThoughtResult {
@@ -70,21 +100,34 @@ export interface AnalyticalInsight {
   confidenceScore: number;
 }
 
+const NEW_PROJECT = 'new';
+
 // Main component orchestrating the entire analysis process
 export const BookAnalyzer = () => {
-  type Step = 'config' | 'upload' | 'archetypes' | 'analyzing' | 'results';
+  type Step = 'config' | 'upload' | 'archetypes' | 'planning' | 'analyzing' | 'results';
   
+  const { t, formatPercent } = useI18n();
   const [step, setStep] = useState<Step>('config');
   const [aiConfig, setAiConfig] = useState<AIConfig | null>(null);
   const [fileContent, setFileContent] = useState<string>('');
+  const [textStructure, setTextStructure] = useState<TextStructure | undefined>(undefined);
   const [textPreview, setTextPreview] = useState<string>('');
+  const [projects, setProjects] = useState(() => ManuscriptRevisions.listProjects());
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(NEW_PROJECT);
+  const [project, setProject] = useState<{ id: string; title: string } | null>(null);
+  const [fileName, setFileName] = useState<string>('');
   const [archetypes, setArchetypes] = useState<ReaderArchetype[]>([]);
   const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([]);
   const [twoLayerResults, setTwoLayerResults] = useState<TwoLayerResult[]>([]);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [useTwoLayerAnalysis, setUseTwoLayerAnalysis] = useState<boolean>(false);
+  const [bypassCache, setBypassCache] = useState<boolean>(() => ResponseCache.isBypassed());
+  const [ensembleSettings, setEnsembleSettings] = useState<EnsembleSettings>(() => AnalysisEnsemble.loadSettings());
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [languageSetting, setLanguageSetting] = useState<LanguageSetting>(() => OutputLanguages.loadSetting());
+  const [detectedLanguage, setDetectedLanguage] = useState<LanguageDetection | null>(() => OutputLanguages.getManuscript());
   
   const [analysisController] = useState(() => new AnalysisController());
   const [twoLayerController] = useState(() => new TwoLayerAnalysisController());
@@ -97,16 +140,18 @@ export const BookAnalyzer = () => {
     const interval = setInterval(() => {
       const job = jobManager.getJob(currentJobId);
       if (job) {
+        setIsPaused(job.status === 'paused');
         setAnalysisProgress({
           currentStep: job.completedSteps,
           totalSteps: job.totalSteps,
           currentArchetype: job.currentStep,
           currentChunk: job.completedSteps,
           totalChunks: job.totalSteps,
-          status: job.currentStep,
+          status: job.status === 'paused' ? I18n.t('analyzer.pausedStatus', { step: job.currentStep }) : job.currentStep,
           results: [],
-          apiCalls: 0,
-          tokenUsage: { prompt: 0, completion: 0 }
+          apiCalls: job.apiCalls,
+          cacheHits: job.cacheHits,
+          tokenUsage: job.tokenUsage
         });
 
         if (job.status === 'completed') {
@@ -117,12 +162,22 @@ export const BookAnalyzer = () => {
           }
           setStep('results');
           setCurrentJobId(null);
-          toast.success("Analyse erfolgreich abgeschlossen!");
+          if (job.budgetExceeded) {
+            toast.warning(I18n.t('analyzer.toast.budgetExceeded'), {
+              description: I18n.t('analyzer.toast.budgetExceededDescription'),
+            });
+          } else {
+            toast.success(I18n.t('analyzer.toast.completed'));
+          }
         } else if (job.status === 'failed') {
-          setAnalysisError(job.error || 'Unbekannter Fehler');
+          setAnalysisError(job.error || I18n.t('common.unknownError'));
           setStep('archetypes');
           setCurrentJobId(null);
-          toast.error("Analyse fehlgeschlagen", { description: job.error });
+          toast.error(I18n.t('analyzer.toast.failed'), { description: job.error });
+        } else if (job.status === 'cancelled') {
+          setStep('archetypes');
+          setCurrentJobId(null);
+          toast.warning(I18n.t('analyzer.toast.cancelled'));
         }
       }
     }, 1000);
@@ -132,20 +187,47 @@ export const BookAnalyzer = () => {
 
   // Register job handlers
   useEffect(() => {
-    jobManager.registerJobHandler('analysis', async (job, data) => {
-      const { fileContent, archetypes, aiConfig, useTwoLayer } = data;
+    jobManager.registerJobHandler('analysis', async (job, data, control) => {
+      const { fileContent, archetypes, aiConfig, useTwoLayer, ensemble, revision } = data;
+      // Resolved when the job runs, so a resumed job compares against what was last recorded
+      const baseline = revision && ManuscriptRevisions.latestRevision(revision.project.id, useTwoLayer ? 'two_layer' : 'standard');
+      const structure = ManuscriptRevisions.anchoredStructure(data.structure, baseline);
+      const recordRevision = (results: AnalysisResult[]) => {
+        if (!revision || results.length === 0 || control.isCancelled()) return;
+        const chunks = TextChunker.createChunks(fileContent, PromptPreview.chunkOptions(useTwoLayer ? 'two_layer' : 'standard', aiConfig), structure);
+        const saved = ManuscriptRevisions.record(revision.project, {
+          fileName: revision.fileName,
+          mode: useTwoLayer ? 'two_layer' : 'standard',
+          chunks: ManuscriptRevisions.fingerprints(chunks),
+          results
+        });
+        if (!saved) {
+          toast.error(I18n.t('analyzer.toast.revisionNotSaved'), {
+            description: I18n.t('analyzer.toast.revisionNotSavedDescription')
+          });
+        }
+      };
+      // Priced per call in the ledger, so ensembles mixing models are charged correctly
+      const withCost = (tokenUsage: TokenUsage) => ({
+        tokenUsage,
+        cost: UsageLedger.getRunCost(control.runId)
+      });
+      UsageLedger.startRun(useTwoLayer ? 'two_layer' : 'analysis', aiConfig.model, control.runId, aiConfig.routing);
       
       if (useTwoLayer) {
         jobManager.updateJob(job.id, {
           totalSteps: archetypes.length * 10, // Estimate
-          currentStep: 'Starte Zwei-Ebenen-Analyse...'
+          currentStep: I18n.t('analyzer.job.startingTwoLayer')
         });
 
         const results = [];
-        for (let i = 0; i < archetypes.length; i++) {
+        let apiCalls = 0;
+        let cacheHits = 0;
+        let tokenUsage: TokenUsage = { prompt: 0, completion: 0 };
+        for (let i = 0; i < archetypes.length && !control.isStopped(); i++) {
           const archetype = archetypes[i];
           jobManager.updateJob(job.id, {
-            currentStep: `Analysiere ${archetype.name}...`,
+            currentStep: I18n.t('analyzer.job.analyzingArchetype', { name: archetype.name }),
             completedSteps: i * 10
           });
 
@@ -154,16 +236,30 @@ export const BookAnalyzer = () => {
             archetype,
             aiConfig,
             (progress) => {
+              const stats = twoLayerController.getCallStats();
               jobManager.updateJob(job.id, {
                 currentStep: `${archetype.name}: ${progress.step}`,
-                completedSteps: (i * 10) + progress.chunk
+                completedSteps: (i * 10) + progress.chunk,
+                apiCalls: apiCalls + stats.apiCalls,
+                cacheHits: cacheHits + stats.cacheHits,
+                ...withCost(AIProvider.addUsage(tokenUsage, stats.tokenUsage))
               });
-            }
+            },
+            control,
+            structure,
+            baseline
           );
           results.push(...archetypeResults);
+
+          const stats = twoLayerController.getCallStats();
+          apiCalls += stats.apiCalls;
+          cacheHits += stats.cacheHits;
+          tokenUsage = AIProvider.addUsage(tokenUsage, stats.tokenUsage);
+          jobManager.updateJob(job.id, { apiCalls, cacheHits, ...withCost(tokenUsage) });
         }
         
         jobManager.updateJob(job.id, { results, completedSteps: job.totalSteps });
+        recordRevision(results);
       } else {
         const results = await analysisController.runAnalysis(
           fileContent,
@@ -173,12 +269,20 @@ export const BookAnalyzer = () => {
             jobManager.updateJob(job.id, {
               totalSteps: progress.totalSteps,
               currentStep: progress.status,
-              completedSteps: progress.currentStep
+              completedSteps: progress.currentStep,
+              apiCalls: progress.apiCalls,
+              cacheHits: progress.cacheHits,
+              ...withCost(progress.tokenUsage)
             });
-          }
+          },
+          control,
+          ensemble,
+          structure,
+          baseline
         );
         
         jobManager.updateJob(job.id, { results });
+        recordRevision(results);
       }
     });
   }, [jobManager, analysisController, twoLayerController]);
@@ -186,22 +290,38 @@ export const BookAnalyzer = () => {
   const handleConfigured = (config: AIConfig) => {
     setAiConfig(config);
     setStep('upload');
-    toast.success("AI Konfiguration gespeichert.");
+    toast.success(t('analyzer.toast.configSaved'));
   };
 
-  const handleFileUploaded = (content: string) => {
+  const handleFileUploaded = (content: string, fileName: string, structure?: TextStructure) => {
+    UsageLedger.setCurrentBook(fileName.replace(/\.[^.]+$/, ''), content);
+    if (aiConfig) {
+      UsageLedger.beginInteractiveRun('market_validation', aiConfig.model);
+    }
+    const existing = selectedProjectId === NEW_PROJECT ? undefined : ManuscriptRevisions.getProject(selectedProjectId);
+    setProject(existing
+      ? { id: existing.id, title: existing.title }
+      : { id: ManuscriptRevisions.createProjectId(), title: fileName.replace(/\.[^.]+$/, '') });
+    setFileName(fileName);
     setFileContent(content);
+    setTextStructure(structure);
+    setDetectedLanguage(OutputLanguages.setManuscript(content));
     setTextPreview(content.substring(0, 700) + '...');
     setStep('archetypes');
-    toast.success("Datei erfolgreich geladen.");
+    if (existing) {
+      const last = existing.revisions[existing.revisions.length - 1];
+      toast.success(t('analyzer.toast.revisionLoaded', { number: (last?.number ?? 0) + 1, title: existing.title }));
+    } else {
+      toast.success(t('analyzer.toast.fileLoaded'));
+    }
   };
 
   const handleArchetypesReady = (selectedArchetypes: ReaderArchetype[]) => {
     setArchetypes(selectedArchetypes);
-    startAnalysis(selectedArchetypes);
+    setStep('planning');
   };
 
-  const startAnalysis = async (selectedArchetypes: ReaderArchetype[]) => {
+  const startAnalysis = async (selectedArchetypes: ReaderArchetype[], budget?: number) => {
     if (!fileContent || !aiConfig) return;
     
     setAnalysisError(null);
@@ -209,25 +329,31 @@ export const BookAnalyzer = () => {
     setTwoLayerResults([]);
     setStep('analyzing');
     
-    const analysisType = useTwoLayerAnalysis ? "Zwei-Ebenen-Analyse" : "Standard-Analyse";
-    toast.info(`${analysisType} gestartet...`, {
-      description: "Die Ergebnisse werden schrittweise angezeigt.",
+    toast.info(t(useTwoLayerAnalysis ? 'analyzer.toast.twoLayerStarted' : 'analyzer.toast.standardStarted'), {
+      description: t('analyzer.toast.startedDescription'),
     });
 
     try {
+      const language = OutputLanguages.resolve(languageSetting);
+      PromptTemplates.assertValid(useTwoLayerAnalysis ? TWO_LAYER_TASKS : STANDARD_TASKS, language);
+
       const jobId = jobManager.createJob('analysis', {
         fileContent,
+        structure: textStructure,
+        revision: project && { project, fileName },
         archetypes: selectedArchetypes,
-        aiConfig,
-        useTwoLayer: useTwoLayerAnalysis
-      });
+        // Snapshot, so later edits to the routing table or language don't change a queued or resumed run
+        aiConfig: { ...aiConfig, routing: ModelRouting.loadTable(), language },
+        useTwoLayer: useTwoLayerAnalysis,
+        ensemble: useTwoLayerAnalysis ? [] : AnalysisEnsemble.activeMembers(ensembleSettings)
+      }, { budget });
       
       setCurrentJobId(jobId);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Ein unbekannter Fehler ist aufgetreten.";
+      const errorMessage = error instanceof Error ? error.message : t('common.unexpectedError');
       console.error('Analysis failed:', error);
       setAnalysisError(errorMessage);
-      toast.error("Analyse fehlgeschlagen", { description: errorMessage });
+      toast.error(t('analyzer.toast.failed'), { description: errorMessage });
       setStep('archetypes');
     }
   };
@@ -243,14 +369,30 @@ export const BookAnalyzer = () => {
         analysisController.stop();
       }
     }
+    setIsPaused(false);
     setStep('archetypes');
-    toast.warning("Analyse wurde manuell gestoppt.");
+    toast.warning(I18n.t('analyzer.toast.cancelled'));
+  };
+
+  const handleTogglePause = () => {
+    if (!currentJobId) return;
+    if (isPaused) {
+      jobManager.resumeJob(currentJobId);
+      setIsPaused(false);
+    } else {
+      jobManager.pauseJob(currentJobId);
+      setIsPaused(true);
+    }
   };
   
   const handleRestart = () => {
     setStep('upload');
     setFileContent('');
+    setTextStructure(undefined);
     setTextPreview('');
+    setProject(null);
+    setFileName('');
+    setProjects(ManuscriptRevisions.listProjects());
     setArchetypes([]);
     setAnalysisResults([]);
     setTwoLayerResults([]);
@@ -266,33 +408,82 @@ export const BookAnalyzer = () => {
       if (archetypeResults.length === 0) return null;
 
       const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
+      const spread = Object.fromEntries(
+        (Object.keys(RATING_DIMENSION_LABELS) as RatingDimension[]).map(dimension => [
+          dimension,
+          AnalysisEnsemble.pooledStdDev(archetypeResults, dimension)
+        ])
+      );
       
       return {
         name: archetype.name,
-        Gesamtwertung: avg(archetypeResults.map(r => r.overallRating)),
-        Engagement: avg(archetypeResults.map(r => r.ratings.engagement)),
-        Stil: avg(archetypeResults.map(r => r.ratings.style)),
-        Klarheit: avg(archetypeResults.map(r => r.ratings.clarity)),
-        Tempo: avg(archetypeResults.map(r => r.ratings.pacing)),
-        Relevanz: avg(archetypeResults.map(r => r.ratings.relevance)),
+        overallRating: avg(archetypeResults.map(r => r.overallRating)),
+        engagement: avg(archetypeResults.map(r => r.ratings.engagement)),
+        style: avg(archetypeResults.map(r => r.ratings.style)),
+        clarity: avg(archetypeResults.map(r => r.ratings.clarity)),
+        pacing: avg(archetypeResults.map(r => r.ratings.pacing)),
+        relevance: avg(archetypeResults.map(r => r.ratings.relevance)),
+        spread,
+        agreement: AnalysisEnsemble.averageAgreement(archetypeResults),
       };
     }).filter(Boolean);
   }, [analysisResults, archetypes]);
 
+  const unreliableChunks = useMemo(() =>
+    AnalysisEnsemble.findUnreliable(analysisResults).map(flagged => ({
+      ...flagged,
+      archetypeName: archetypes.find(a => a.id === flagged.archetypeId)?.name ?? flagged.archetypeId
+    })),
+    [analysisResults, archetypes]
+  );
+
+  const promptVersions = useMemo(() => {
+    const results: AnalysisResult[] = useTwoLayerAnalysis ? twoLayerResults : analysisResults;
+    return [...new Set(results.filter(r => r.prompt).map(r => `${r.prompt.name} v${r.prompt.version}`))];
+  }, [analysisResults, twoLayerResults, useTwoLayerAnalysis]);
+
+  const ensembleModels = useMemo(
+    () => useTwoLayerAnalysis ? [] : AnalysisEnsemble.activeMembers(ensembleSettings).map(member => member.model),
+    [ensembleSettings, useTwoLayerAnalysis]
+  );
+
+  // Loaded ahead of the run, so the cost estimate and prompt preview size chunks with every model's tokenizer
+  const tokenizersReady = useTokenizers(aiConfig ? ModelRouting.modelsInUse(aiConfig.model, ModelRouting.loadTable(), ensembleModels) : []);
+
   const renderStep = () => {
     switch (step) {
       case 'config':
         return (
-          <Card>
-            <CardHeader><CardTitle>1. AI Konfiguration</CardTitle></CardHeader>
-            <CardContent><AIAnalysisService onConfigured={handleConfigured} /></CardContent>
-          </Card>
+          <div className="space-y-6">
+            <Card>
+              <CardHeader><CardTitle>{t('analyzer.step.config')}</CardTitle></CardHeader>
+              <CardContent><AIAnalysisService onConfigured={handleConfigured} /></CardContent>
+            </Card>
+            <AdvancedPromptEditor />
+          </div>
         );
       case 'upload':
         return (
           <Card>
-            <CardHeader><CardTitle>2. Manuskript hochladen</CardTitle></CardHeader>
-            <CardContent><FileUploader onFileUploaded={handleFileUploaded} /></CardContent>
+            <CardHeader><CardTitle>{t('analyzer.step.upload')}</CardTitle></CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="manuscript-project">{t('analyzer.project.label')}</Label>
+                <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                  <SelectTrigger id="manuscript-project" className="max-w-md"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_PROJECT}>{t('analyzer.project.new')}</SelectItem>
+                    {projects.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {t('analyzer.project.option', { title: candidate.title, count: candidate.revisions.length })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">{t('analyzer.project.hint')}</p>
+              </div>
+              <FileUploader onFileUploaded={handleFileUploaded} />
+            </CardContent>
           </Card>
         );
       case 'archetypes':
@@ -300,7 +491,7 @@ export const BookAnalyzer = () => {
           <div className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>3. Analyse-Modus wählen</CardTitle>
+                <CardTitle>{t('analyzer.step.mode')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="flex items-center space-x-2">
@@ -311,51 +502,158 @@ export const BookAnalyzer = () => {
                   />
                   <Label htmlFor="analysis-mode" className="flex items-center gap-2">
                     <Brain className="w-4 h-4" />
-                    Zwei-Ebenen-Analyse (Emotional + Analytisch)
+                    {t('analyzer.twoLayerToggle')}
                   </Label>
                 </div>
                 <p className="text-sm text-gray-600">
-                  {useTwoLayerAnalysis 
-                    ? "Detaillierte Analyse mit emotionalen Reaktionen und analytischer Bewertung. Optimiert für Parallelverarbeitung."
-                    : "Standard-Analyse mit Bewertungen und Feedback."
-                  }
+                  {t(useTwoLayerAnalysis ? 'analyzer.twoLayerDescription' : 'analyzer.standardDescription')}
                 </p>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="bypass-cache"
+                    checked={bypassCache}
+                    onCheckedChange={(checked) => {
+                      ResponseCache.setBypassed(checked);
+                      setBypassCache(checked);
+                    }}
+                  />
+                  <Label htmlFor="bypass-cache">{t('analyzer.bypassCache')}</Label>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="output-language">{t('analyzer.outputLanguage')}</Label>
+                  <Select
+                    value={languageSetting}
+                    onValueChange={(value) => {
+                      OutputLanguages.saveSetting(value as LanguageSetting);
+                      setLanguageSetting(value as LanguageSetting);
+                    }}
+                  >
+                    <SelectTrigger id="output-language" className="md:w-80">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">
+                        {detectedLanguage
+                          ? t('analyzer.outputLanguage.detected', {
+                            language: t(LANGUAGE_LABELS[detectedLanguage.language]),
+                            confidence: formatPercent(detectedLanguage.confidence)
+                          })
+                          : t('analyzer.outputLanguage.undetected', {
+                            language: t(LANGUAGE_LABELS[OutputLanguages.resolve('auto')])
+                          })}
+                      </SelectItem>
+                      {OUTPUT_LANGUAGES.map(language => (
+                        <SelectItem key={language} value={language}>{t(LANGUAGE_LABELS[language])}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-600">
+                    {t('analyzer.outputLanguage.hint')}
+                  </p>
+                </div>
+                <EnsemblePanel
+                  settings={ensembleSettings}
+                  onChange={setEnsembleSettings}
+                  defaultModel={aiConfig?.model || ''}
+                  disabled={useTwoLayerAnalysis}
+                />
               </CardContent>
             </Card>
             
             <Card>
-              <CardHeader><CardTitle>4. Leser-Archetypen bestätigen</CardTitle></CardHeader>
+              <CardHeader><CardTitle>{t('analyzer.step.archetypes')}</CardTitle></CardHeader>
               <CardContent><ArchetypeManager onArchetypesReady={handleArchetypesReady} textPreview={textPreview} /></CardContent>
             </Card>
           </div>
         );
+      case 'planning':
+        if (!tokenizersReady) {
+          return <p className="text-sm text-slate-500 text-center py-8">{t('analyzer.loadingTokenizers')}</p>;
+        }
+        return (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader><CardTitle>{t('analyzer.step.planning')}</CardTitle></CardHeader>
+              <CardContent>
+                <RunPlanner
+                  fileContent={fileContent}
+                  archetypes={archetypes}
+                  aiConfig={aiConfig}
+                  twoLayer={useTwoLayerAnalysis}
+                  ensembleModels={ensembleModels}
+                  structure={textStructure}
+                  projectId={project?.id}
+                  onStart={(budget) => startAnalysis(archetypes, budget)}
+                  onBack={() => setStep('archetypes')}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>{t('analyzer.promptPreview')}</CardTitle></CardHeader>
+              <CardContent>
+                <PromptPreviewPanel
+                  fileContent={fileContent}
+                  archetypes={archetypes}
+                  aiConfig={aiConfig}
+                  twoLayer={useTwoLayerAnalysis}
+                  structure={textStructure}
+                  projectId={project?.id}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>{t('analyzer.promptTrial')}</CardTitle></CardHeader>
+              <CardContent>
+                <PromptTrialPanel
+                  fileContent={fileContent}
+                  archetypes={archetypes}
+                  aiConfig={aiConfig}
+                  structure={textStructure}
+                  projectId={project?.id}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        );
       case 'analyzing':
         return (
           <Card>
             <CardHeader>
               <CardTitle>
-                {useTwoLayerAnalysis ? "Optimierte Zwei-Ebenen-Analyse läuft..." : "Analyse läuft..."}
+                {t(useTwoLayerAnalysis ? 'analyzer.runningTwoLayer' : 'analyzer.running')}
               </CardTitle>
             </CardHeader>
             <CardContent>
               {analysisProgress && (
                 <AnalysisProgressDisplay progress={analysisProgress} archetypes={archetypes} />
               )}
-              <Button onClick={handleStopAnalysis} variant="destructive" className="mt-4">Analyse stoppen</Button>
+              <div className="flex gap-2 mt-4">
+                {currentJobId && (
+                  <Button onClick={handleTogglePause} variant="outline">
+                    {isPaused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                    {t(isPaused ? 'analyzer.resume' : 'analyzer.pause')}
+                  </Button>
+                )}
+                <Button onClick={handleStopAnalysis} variant="destructive">{t('analyzer.cancel')}</Button>
+              </div>
             </CardContent>
           </Card>
         );
       case 'results':
         return (
           <Tabs defaultValue="analysis" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="analysis" className="flex items-center gap-2">
                 <BookOpen className="w-4 h-4" />
-                Reader Analysis
+                {t('analyzer.tab.analysis')}
               </TabsTrigger>
               <TabsTrigger value="market" className="flex items-center gap-2">
                 <TrendingUp className="w-4 h-4" />
-                Market Validation
+                {t('analyzer.tab.market')}
+              </TabsTrigger>
+              <TabsTrigger value="spend" className="flex items-center gap-2">
+                <Coins className="w-4 h-4" />
+                {t('analyzer.tab.spend')}
               </TabsTrigger>
             </TabsList>
 
@@ -364,19 +662,23 @@ export const BookAnalyzer = () => {
                 <CardHeader>
                   <div className="flex justify-between items-center">
                     <CardTitle>
-                      {useTwoLayerAnalysis ? "Zwei-Ebenen-Analyse Ergebnisse" : "Reader Analysis Results"}
+                      {t(useTwoLayerAnalysis ? 'analyzer.resultsTwoLayer' : 'analyzer.results')}
                     </CardTitle>
                     <Button onClick={handleRestart} variant="outline">
                       <RotateCcw className="w-4 h-4 mr-2" />
-                      Neue Analyse
+                      {t('analyzer.restart')}
                     </Button>
                   </div>
                 </CardHeader>
                 <CardContent>
+                  {promptVersions.length > 0 && (
+                    <p className="text-sm text-slate-600 mb-4">{t('analyzer.promptVersions', { versions: promptVersions.join(', ') })}</p>
+                  )}
+                  <RevisionDeltas results={useTwoLayerAnalysis ? twoLayerResults : analysisResults} archetypes={archetypes} />
                   {useTwoLayerAnalysis ? (
                     <TwoLayerResultsDashboard results={twoLayerResults} archetypes={archetypes} />
                   ) : (
-                    <ResultsDashboard results={{ analysis: aggregatedResults as any }} />
+                    <ResultsDashboard results={{ analysis: aggregatedResults as any }} unreliableChunks={unreliableChunks} />
                   )}
                 </CardContent>
               </Card>
@@ -385,10 +687,17 @@ export const BookAnalyzer = () => {
             <TabsContent value="market">
               <MarketValidationSuite bookContent={fileContent} />
             </TabsContent>
+
+            <TabsContent value="spend">
+              <Card>
+                <CardHeader><CardTitle>{t('analyzer.tab.spend')}</CardTitle></CardHeader>
+                <CardContent><SpendDashboard /></CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         );
       default:
-        return <div>Invalid step</div>;
+        return <div>{t('analyzer.invalidStep')}</div>;
     }
   };
 
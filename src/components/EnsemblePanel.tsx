@@ -0,0 +1,115 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { AnalysisEnsemble, EnsembleMember, EnsembleSettings } from '../utils/ensemble';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface EnsemblePanelProps {
+  settings: EnsembleSettings;
+  onChange: (settings: EnsembleSettings) => void;
+  defaultModel: string;
+  disabled?: boolean;
+}
+
+export const EnsemblePanel: React.FC<EnsemblePanelProps> = ({ settings, onChange, defaultModel, disabled }) => {
+  const { t } = useI18n();
+
+  const update = (next: EnsembleSettings) => {
+    AnalysisEnsemble.saveSettings(next);
+    onChange(next);
+  };
+
+  const setEnabled = (enabled: boolean) => {
+    const members = settings.members.length >= 2
+      ? settings.members
+      : [{ model: defaultModel, temperature: 0.3 }, { model: defaultModel, temperature: 0.7 }];
+    update({ enabled, members });
+  };
+
+  const updateMember = (index: number, patch: Partial<EnsembleMember>) => {
+    update({
+      ...settings,
+      members: settings.members.map((member, i) => i === index ? { ...member, ...patch } : member)
+    });
+  };
+
+  const activeCount = AnalysisEnsemble.activeMembers(settings).length;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="ensemble-mode"
+          checked={settings.enabled && !disabled}
+          onCheckedChange={setEnabled}
+          disabled={disabled}
+        />
+        <Label htmlFor="ensemble-mode" className="flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          {t('ensemble.toggle')}
+        </Label>
+      </div>
+
+      {disabled && (
+        <p className="text-xs text-slate-500">{t('ensemble.standardOnly')}</p>
+      )}
+
+      {settings.enabled && !disabled && (
+        <>
+          {settings.members.map((member, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor={`ensemble-model-${index}`} className="text-xs text-slate-600">{t('ensemble.model')}</Label>
+                <Input
+                  id={`ensemble-model-${index}`}
+                  value={member.model}
+                  onChange={(e) => updateMember(index, { model: e.target.value })}
+                  placeholder={defaultModel}
+                />
+              </div>
+              <div className="w-28 space-y-1">
+                <Label htmlFor={`ensemble-temperature-${index}`} className="text-xs text-slate-600">{t('ensemble.temperature')}</Label>
+                <Input
+                  id={`ensemble-temperature-${index}`}
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={member.temperature}
+                  onChange={(e) => {
+                    const parsed = parseFloat(e.target.value);
+                    if (!isNaN(parsed)) updateMember(index, { temperature: Math.min(2, Math.max(0, parsed)) });
+                  }}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ ...settings, members: settings.members.filter((_, i) => i !== index) })}
+                title={t('ensemble.removeMember')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ ...settings, members: [...settings.members, { model: defaultModel, temperature: 0.3 }] })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {t('ensemble.addMember')}
+          </Button>
+          <p className="text-xs text-slate-500">
+            {activeCount >= 2
+              ? t('ensemble.active', { count: activeCount })
+              : t('ensemble.tooFew')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
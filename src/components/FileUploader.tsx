@@ -4,38 +4,45 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { Upload, FileText, AlertCircle, CheckCircle2, Info } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileText, AlertCircle, CheckCircle2, Info, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { FileProcessor } from '../utils/fileProcessor';
+import { useI18n } from '@/hooks/use-i18n';
+import { FILE_FORMATS, FileProcessingResult, FileProcessor } from '../utils/fileProcessor';
+import { TextStructure } from '../utils/textChunking';
+import { DocumentOutline, TrackedChangesMode } from '../utils/documentOutline';
+import { CleanupReport, TextCleanup } from '../utils/textCleanup';
+import { TEXT_ENCODINGS, TEXT_ENCODING_LABELS, TextEncoding, TextEncodings } from '../utils/textEncoding';
+
+const CLEANUP_COUNTS: (keyof Omit<CleanupReport, 'preview'>)[] = ['removedLines', 'joinedHyphenations', 'mergedLines', 'typographyFixes'];
 
 interface FileUploaderProps {
-  onFileUploaded: (content: string) => void;
+  onFileUploaded: (content: string, fileName: string, structure?: TextStructure) => void;
 }
 
 export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [fileInfo, setFileInfo] = useState<{
-    wordCount: number;
-    size: string;
-    fileType: string;
-  } | null>(null);
+  // Kept as a code so the message follows a later language switch
+  const [error, setError] = useState<{ code: string; fileName: string } | null>(null);
+  const [fileInfo, setFileInfo] = useState<FileProcessingResult['metadata'] | null>(null);
+  const [trackedChanges, setTrackedChanges] = useState<TrackedChangesMode>(() => DocumentOutline.loadTrackedChangesMode());
+  // A cleaned PDF or a text file with a guessed encoding waits here until the user has checked it
+  const [review, setReview] = useState<{ file: File; result: FileProcessingResult } | null>(null);
   
   const { toast } = useToast();
+  const { t, formatNumber } = useI18n();
 
-  const handleFileUpload = async (file: File) => {
-    // Validate file type - only TXT files now
-    const isValidFile = file.type === 'text/plain' || file.name.endsWith('.txt');
-    
-    if (!isValidFile) {
-      setError(FileProcessor.getErrorMessage('UNSUPPORTED_FILE_TYPE', file.name));
+  const handleFileUpload = async (file: File, encoding?: TextEncoding) => {
+    if (!FileProcessor.isSupported(file)) {
+      setError({ code: 'UNSUPPORTED_FILE_TYPE', fileName: file.name });
       return;
     }
 
-    // Check file size (10MB limit for text files)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('Die Datei ist zu groß. Bitte verwenden Sie eine TXT-Datei unter 10MB.');
+    if (file.size > FileProcessor.getMaxSizeMB(file) * 1024 * 1024) {
+      setError({ code: 'FILE_TOO_LARGE', fileName: file.name });
       return;
     }
 
@@ -43,37 +50,42 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
     setUploadProgress(0);
     setError(null);
     setFileInfo(null);
-
-    console.log('Processing text file:', file.name, file.type, file.size);
+    setReview(null);
 
     try {
       setUploadProgress(20);
       
-      const result = await FileProcessor.processFile(file);
+      // PDFs report per page, which fills the extraction part of the bar
+      const result = await FileProcessor.processFile(file, progress => setUploadProgress(30 + progress * 50), { trackedChanges, encoding });
       
       setUploadProgress(80);
       setFileInfo(result.metadata);
       setUploadProgress(100);
 
-      console.log(`Successfully extracted ${result.content.length} characters from file`);
-      
       toast({
-        title: "Datei erfolgreich verarbeitet",
-        description: `${result.metadata.wordCount} Wörter aus ${result.metadata.fileType} extrahiert`,
+        title: t('fileUploader.toast.success'),
+        description: t('fileUploader.toast.successDescription', {
+          count: result.metadata.wordCount,
+          fileType: result.metadata.fileType
+        }),
       });
 
-      onFileUploaded(result.content);
+      const encodingUncertain = result.metadata.encoding && ['guessed', 'manual'].includes(result.metadata.encoding.source);
+      if ((result.cleanup && TextCleanup.hasChanges(result.cleanup.report)) || encodingUncertain) {
+        setReview({ file, result });
+      } else {
+        onFileUploaded(result.content, file.name, result.structure);
+      }
       
     } catch (error) {
       const errorCode = error instanceof Error ? error.message : 'UNKNOWN_ERROR';
-      const errorMessage = FileProcessor.getErrorMessage(errorCode, file.name);
       
       console.error('File processing error:', error);
-      setError(errorMessage);
+      setError({ code: errorCode, fileName: file.name });
       
       toast({
-        title: "Upload-Fehler",
-        description: "Datei konnte nicht verarbeitet werden. Siehe Details unten.",
+        title: t('fileUploader.toast.error'),
+        description: t('fileUploader.toast.errorDescription'),
         variant: "destructive",
       });
     } finally {
@@ -85,16 +97,42 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
-    const validFile = files.find(file => 
-      file.type === 'text/plain' || file.name.endsWith('.txt')
-    );
+    const validFile = files.find(file => FileProcessor.isSupported(file));
     
     if (validFile) {
       handleFileUpload(validFile);
     } else {
-      setError('Bitte wählen Sie eine TXT-Datei aus.');
+      setError({ code: 'NO_TEXT_FILE', fileName: '' });
     }
-  }, []);
+  }, [trackedChanges]);
+
+  const handleTrackedChangesChange = (mode: TrackedChangesMode) => {
+    setTrackedChanges(mode);
+    DocumentOutline.saveTrackedChangesMode(mode);
+  };
+
+  const handleCleanupChange = (enabled: boolean) => {
+    if (!review) return;
+    TextCleanup.saveEnabled(enabled);
+    handleFileUpload(review.file);
+  };
+
+  const handleEncodingChange = (encoding: TextEncoding) => {
+    if (!review) return;
+    handleFileUpload(review.file, encoding);
+  };
+
+  const confirmReview = () => {
+    if (!review) return;
+    onFileUploaded(review.result.content, review.file.name, review.result.structure);
+    setReview(null);
+  };
+
+  const encodingSample = review?.result.metadata.encoding ? TextEncodings.sampleLines(review.result.content) : [];
+
+  const formats = Object.values(FILE_FORMATS)
+    .map(format => t('fileUploader.formatLimit', { format: format.label, maxSize: format.maxSizeMB }))
+    .join(', ');
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -116,15 +154,15 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
             
             <div>
               <h3 className="text-lg font-medium text-slate-800 mb-2">
-                Manuskript hochladen
+                {t('fileUploader.title')}
               </h3>
               <p className="text-sm text-slate-600 mb-4">
-                Ziehen Sie Ihre TXT-Datei hierher oder klicken Sie zum Auswählen
+                {t('fileUploader.dropHint')}
               </p>
               
               <input
                 type="file"
-                accept=".txt,text/plain"
+                accept={FileProcessor.getAcceptedTypes()}
                 onChange={(e) => {
                   const file = e.target.files?.[0];
                   if (file) handleFileUpload(file);
@@ -141,13 +179,33 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
               >
                 <label htmlFor="file-upload" className="cursor-pointer">
                   <FileText className="w-4 h-4 mr-2" />
-                  TXT-Datei auswählen
+                  {t('fileUploader.choose')}
                 </label>
               </Button>
             </div>
             
             <p className="text-xs text-slate-500">
-              Unterstützte Formate: TXT (max. 10MB)
+              {t('fileUploader.formats', { formats })}
+            </p>
+
+            <div className="flex items-center justify-center gap-2 text-sm text-slate-600">
+              <span>{t('fileUploader.trackedChanges')}</span>
+              <Select
+                value={trackedChanges}
+                onValueChange={value => handleTrackedChangesChange(value as TrackedChangesMode)}
+                disabled={isProcessing}
+              >
+                <SelectTrigger className="w-36 h-8" aria-label={t('fileUploader.trackedChanges')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="accept">{t('fileUploader.trackedChanges.accept')}</SelectItem>
+                  <SelectItem value="reject">{t('fileUploader.trackedChanges.reject')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-slate-500">
+              {t('fileUploader.trackedChangesHint')}
             </p>
           </div>
         </CardContent>
@@ -160,13 +218,13 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
             <div className="space-y-3">
               <div className="flex items-center gap-2">
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
-                <span className="text-blue-800 font-medium">Datei wird verarbeitet...</span>
+                <span className="text-blue-800 font-medium">{t('fileUploader.processing')}</span>
               </div>
               <Progress value={uploadProgress} className="h-2" />
               <p className="text-sm text-blue-600">
-                {uploadProgress < 30 && "Datei wird geladen..."}
-                {uploadProgress >= 30 && uploadProgress < 80 && "Text wird extrahiert..."}
-                {uploadProgress >= 80 && "Fertigstellung..."}
+                {uploadProgress < 30 && t('upload.progress.loading')}
+                {uploadProgress >= 30 && uploadProgress < 80 && t('upload.progress.extracting')}
+                {uploadProgress >= 80 && t('upload.progress.finishing')}
               </p>
             </div>
           </CardContent>
@@ -178,17 +236,120 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
         <Alert className="bg-green-50 border-green-200">
           <CheckCircle2 className="h-4 w-4 text-green-600" />
           <AlertDescription className="text-green-800">
-            <strong>Erfolgreich verarbeitet:</strong> {fileInfo.fileType}, {fileInfo.wordCount} Wörter ({fileInfo.size})
+            <strong>{t('upload.processed')}</strong>{' '}
+            {fileInfo.pages
+              ? t('fileUploader.processedPdfDetails', { count: fileInfo.pages, words: fileInfo.wordCount, size: fileInfo.size })
+              : fileInfo.chapters
+                ? t('fileUploader.processedChapterDetails', { count: fileInfo.chapters, words: fileInfo.wordCount, size: fileInfo.size })
+                : t('fileUploader.processedDetails', { fileType: fileInfo.fileType, count: fileInfo.wordCount, size: fileInfo.size })}
+            {fileInfo.encoding && (
+              <>
+                {' · '}
+                {t('fileUploader.encodingDetails', {
+                  encoding: TEXT_ENCODING_LABELS[fileInfo.encoding.encoding],
+                  source: t(`fileUploader.encoding.source.${fileInfo.encoding.source}`)
+                })}
+              </>
+            )}
           </AlertDescription>
         </Alert>
       )}
 
+      {/* Review before the manuscript is taken over */}
+      {review && !isProcessing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t('fileUploader.review.title')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {review.result.metadata.encoding && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label htmlFor="text-encoding" className="font-medium">{t('fileUploader.encoding.title')}</Label>
+                  <Select
+                    value={review.result.metadata.encoding.encoding}
+                    onValueChange={value => handleEncodingChange(value as TextEncoding)}
+                  >
+                    <SelectTrigger id="text-encoding" className="w-56 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEXT_ENCODINGS.map(encoding => (
+                        <SelectItem key={encoding} value={encoding}>{TEXT_ENCODING_LABELS[encoding]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-sm text-slate-600">{t('fileUploader.encoding.hint')}</p>
+                {encodingSample.length > 0 && (
+                  <pre className="whitespace-pre-wrap text-xs bg-slate-50 border rounded p-3 font-sans">
+                    {encodingSample.join('\n')}
+                  </pre>
+                )}
+              </div>
+            )}
+
+            {review.result.cleanup && (
+              <div className="space-y-4">
+                <h4 className="flex items-center gap-2 font-medium text-slate-800">
+                  <Sparkles className="w-4 h-4 text-blue-600" />
+                  {t('fileUploader.cleanup.title')}
+                </h4>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="pdf-cleanup"
+                    checked={review.result.cleanup.applied}
+                    onCheckedChange={handleCleanupChange}
+                  />
+                  <Label htmlFor="pdf-cleanup">{t('fileUploader.cleanup.toggle')}</Label>
+                </div>
+
+                <ul className="text-sm text-slate-700 space-y-1">
+                  {CLEANUP_COUNTS.map(count => (
+                    <li key={count}>
+                      <strong>{formatNumber(review.result.cleanup.report[count])}</strong> {t(`fileUploader.cleanup.${count}`)}
+                    </li>
+                  ))}
+                </ul>
+
+                {!review.result.cleanup.applied && (
+                  <p className="text-sm text-slate-600">{t('fileUploader.cleanup.disabledHint')}</p>
+                )}
+
+                {review.result.cleanup.report.preview && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <p className="text-xs font-medium text-slate-500 mb-1">
+                        {t('fileUploader.cleanup.before', { page: review.result.cleanup.report.preview.page })}
+                      </p>
+                      <pre className="whitespace-pre-wrap text-xs bg-slate-50 border rounded p-3 max-h-64 overflow-y-auto font-sans">
+                        {review.result.cleanup.report.preview.before}
+                      </pre>
+                    </div>
+                    <div>
+                      <p className="text-xs font-medium text-slate-500 mb-1">{t('fileUploader.cleanup.after')}</p>
+                      <pre className="whitespace-pre-wrap text-xs bg-green-50 border border-green-200 rounded p-3 max-h-64 overflow-y-auto font-sans">
+                        {review.result.cleanup.report.preview.after}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Button onClick={confirmReview} className="bg-blue-600 hover:bg-blue-700">
+              {t('fileUploader.review.confirm')}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Error Display */}
       {error && (
         <Alert variant="destructive" className="text-left">
           <AlertCircle className="h-5 w-5" />
           <AlertDescription className="whitespace-pre-line">
-            {error}
+            {error.code === 'NO_TEXT_FILE' ? t('fileUploader.noTextFile') : FileProcessor.getErrorMessage(error.code, error.fileName)}
           </AlertDescription>
         </Alert>
       )}
@@ -197,8 +358,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileUploaded }) =>
       <Alert className="bg-slate-50 border-slate-200">
         <Info className="h-4 w-4 text-slate-600" />
         <AlertDescription className="text-slate-700">
-          <strong>Hinweis:</strong> PDF-Funktionalität wurde temporär entfernt. 
-          Bitte kopieren Sie Ihren Text und speichern Sie ihn als TXT-Datei.
+          <strong>{t('upload.tip')}</strong> {t('fileUploader.pdfTip')}
         </AlertDescription>
       </Alert>
     </div>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Languages } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { UI_LANGUAGES, UI_LANGUAGE_LABELS, UILanguage } from '../utils/i18n';
+
+export const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <Select value={language} onValueChange={value => setLanguage(value as UILanguage)}>
+      <SelectTrigger className="w-40" aria-label={t('languageSwitcher.label')}>
+        <Languages className="w-4 h-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {UI_LANGUAGES.map(option => (
+          <SelectItem key={option} value={option}>{UI_LANGUAGE_LABELS[option]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
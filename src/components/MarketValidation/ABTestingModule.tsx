@@ -8,6 +8,7 @@ import { Trophy, Target, TrendingUp, Users } from 'lucide-react';
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { AIProcessor } from './AIProcessor';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface ABTestResult {
   winner: 'A' | 'B';
@@ -37,6 +38,7 @@ export const ABTestingModule: React.FC<ABTestingModuleProps> = ({
   onComplete
 }) => {
   const { content: bookContent } = useBookContext();
+  const { t, formatPercent } = useI18n();
   const [selectedPersona, setSelectedPersona] = useState<string>('');
   const [testType, setTestType] = useState<'title' | 'cover' | 'blurb'>('title');
   const [optionA, setOptionA] = useState<string>('');
@@ -61,44 +63,17 @@ export const ABTestingModule: React.FC<ABTestingModuleProps> = ({
       const persona = personas.find(p => p.id === selectedPersona);
       if (!persona) return;
 
-      const prompt = `
-As an AI market research analyst, simulate an A/B test for the following book marketing element:
-
-BOOK CONTEXT: ${bookContent.substring(0, 2000)}
-
-TEST TYPE: ${testType}
-OPTION A: ${optionA}
-OPTION B: ${optionB}
-
-TARGET PERSONA:
-- Name: ${persona.name}
-- Demographics: Age: ${persona.demographics.ageRange}, Gender: ${persona.demographics.gender}
-- Reading Preferences: ${persona.readingHabits.favoriteGenres.join(', ')}
-- Motivations: ${persona.psychographics.motivations.join(', ')}
-
-Based on the book content and this specific persona, predict which option would perform better and provide:
-
-1. Winner (A or B)
-2. Confidence level (1-100)
-3. Detailed reasoning for why one outperforms the other
-4. Simulated metrics (click-through rate, engagement score, conversion probability)
-5. Persona-specific insights about their likely response
-
-Format your response as JSON with this structure:
-{
-  "winner": "A" or "B",
-  "confidence": number,
-  "reasoning": "detailed explanation",
-  "metrics": {
-    "clickThroughRate": number (0-100),
-    "engagementScore": number (0-100),
-    "conversionProbability": number (0-100)
-  },
-  "personaSpecificInsights": ["insight1", "insight2", "insight3"]
-}
-      `;
-
-      const result = await AIProcessor.processPrompt(prompt);
+      const result = await AIProcessor.runTemplate('ab_test', {
+        bookExcerpt: AIProcessor.bookExcerpt('ab_test', bookContent),
+        testType,
+        optionA,
+        optionB,
+        personaName: persona.name,
+        personaAgeRange: persona.demographics.ageRange,
+        personaGender: persona.demographics.gender,
+        personaGenres: persona.readingHabits.favoriteGenres,
+        personaMotivations: persona.psychographics.motivations
+      });
       const testResult: ABTestResult = JSON.parse(result);
       
       const newResults = [...results, testResult];
@@ -117,30 +92,30 @@ Format your response as JSON with this structure:
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="w-5 h-5" />
-            A/B Test Predictor
+            {t('abTest.title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
-              <label className="block text-sm font-medium mb-2">Test Type</label>
+              <label className="block text-sm font-medium mb-2">{t('abTest.testType')}</label>
               <Select value={testType} onValueChange={(value: 'title' | 'cover' | 'blurb') => setTestType(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="title">Title</SelectItem>
-                  <SelectItem value="cover">Cover</SelectItem>
-                  <SelectItem value="blurb">Blurb</SelectItem>
+                  <SelectItem value="title">{t('abTest.type.title')}</SelectItem>
+                  <SelectItem value="cover">{t('abTest.type.cover')}</SelectItem>
+                  <SelectItem value="blurb">{t('abTest.type.blurb')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div>
-              <label className="block text-sm font-medium mb-2">Target Persona</label>
+              <label className="block text-sm font-medium mb-2">{t('abTest.persona')}</label>
               <Select value={selectedPersona} onValueChange={setSelectedPersona}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select persona" />
+                  <SelectValue placeholder={t('abTest.selectPersona')} />
                 </SelectTrigger>
                 <SelectContent>
                   {personas.map((persona) => (
@@ -155,10 +130,10 @@ Format your response as JSON with this structure:
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium mb-2">Option A</label>
+              <label className="block text-sm font-medium mb-2">{t('abTest.option', { option: 'A' })}</label>
               <Select value={optionA} onValueChange={setOptionA}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select option A" />
+                  <SelectValue placeholder={t('abTest.selectOption', { option: 'A' })} />
                 </SelectTrigger>
                 <SelectContent>
                   {getOptionsForType().map((option, index) => (
@@ -171,10 +146,10 @@ Format your response as JSON with this structure:
             </div>
 
             <div>
-              <label className="block text-sm font-medium mb-2">Option B</label>
+              <label className="block text-sm font-medium mb-2">{t('abTest.option', { option: 'B' })}</label>
               <Select value={optionB} onValueChange={setOptionB}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select option B" />
+                  <SelectValue placeholder={t('abTest.selectOption', { option: 'B' })} />
                 </SelectTrigger>
                 <SelectContent>
                   {getOptionsForType().map((option, index) => (
@@ -192,7 +167,7 @@ Format your response as JSON with this structure:
             disabled={!selectedPersona || !optionA || !optionB || isAnalyzing}
             className="w-full"
           >
-            {isAnalyzing ? 'Running A/B Test...' : 'Run A/B Test Simulation'}
+            {t(isAnalyzing ? 'abTest.running' : 'abTest.run')}
           </Button>
         </CardContent>
       </Card>
@@ -204,9 +179,9 @@ Format your response as JSON with this structure:
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Trophy className="w-5 h-5" />
-                  Test Result #{index + 1}
+                  {t('abTest.result', { number: index + 1 })}
                   <Badge variant={result.winner === 'A' ? 'default' : 'secondary'}>
-                    Winner: Option {result.winner}
+                    {t('abTest.winner', { option: result.winner })}
                   </Badge>
                 </CardTitle>
               </CardHeader>
@@ -214,37 +189,37 @@ Format your response as JSON with this structure:
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="text-center">
                     <div className="text-2xl font-bold text-blue-600">
-                      {result.metrics.clickThroughRate}%
+                      {formatPercent(result.metrics.clickThroughRate / 100)}
                     </div>
-                    <div className="text-sm text-gray-600">Click-Through Rate</div>
+                    <div className="text-sm text-gray-600">{t('abTest.metric.clickThroughRate')}</div>
                   </div>
                   <div className="text-center">
                     <div className="text-2xl font-bold text-green-600">
-                      {result.metrics.engagementScore}%
+                      {formatPercent(result.metrics.engagementScore / 100)}
                     </div>
-                    <div className="text-sm text-gray-600">Engagement Score</div>
+                    <div className="text-sm text-gray-600">{t('abTest.metric.engagementScore')}</div>
                   </div>
                   <div className="text-center">
                     <div className="text-2xl font-bold text-purple-600">
-                      {result.metrics.conversionProbability}%
+                      {formatPercent(result.metrics.conversionProbability / 100)}
                     </div>
-                    <div className="text-sm text-gray-600">Conversion Probability</div>
+                    <div className="text-sm text-gray-600">{t('abTest.metric.conversionProbability')}</div>
                   </div>
                 </div>
 
                 <div>
-                  <h4 className="font-medium mb-2">Confidence Level</h4>
+                  <h4 className="font-medium mb-2">{t('abTest.confidence')}</h4>
                   <Progress value={result.confidence} className="w-full" />
-                  <p className="text-sm text-gray-600 mt-1">{result.confidence}% confident</p>
+                  <p className="text-sm text-gray-600 mt-1">{t('abTest.confident', { confidence: formatPercent(result.confidence / 100) })}</p>
                 </div>
 
                 <div>
-                  <h4 className="font-medium mb-2">Reasoning</h4>
+                  <h4 className="font-medium mb-2">{t('abTest.reasoning')}</h4>
                   <p className="text-gray-700">{result.reasoning}</p>
                 </div>
 
                 <div>
-                  <h4 className="font-medium mb-2">Persona-Specific Insights</h4>
+                  <h4 className="font-medium mb-2">{t('abTest.insights')}</h4>
                   <ul className="space-y-1">
                     {result.personaSpecificInsights.map((insight, idx) => (
                       <li key={idx} className="text-sm text-gray-700">• {insight}</li>
@@ -9,6 +9,8 @@ import { Trash2, Plus, Play } from 'lucide-react';
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { MarketValidationAI } from './AIProcessor';
+import { AIProvider } from '../../utils/aiProvider';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface BlurbFeedbackModuleProps {
   personas: ReaderPersona[];
@@ -39,6 +41,7 @@ export const BlurbFeedbackModule: React.FC<BlurbFeedbackModuleProps> = ({
   onComplete
 }) => {
   const bookContext = useBookContext();
+  const { t, formatNumber } = useI18n();
   const [blurbs, setBlurbs] = useState<string[]>(['']);
   const [selectedPersonas, setSelectedPersonas] = useState<string[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -69,16 +72,18 @@ export const BlurbFeedbackModule: React.FC<BlurbFeedbackModuleProps> = ({
     );
   };
 
+  const formatScore = (score: number) => formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   const analyzeBlurbs = async () => {
     const validBlurbs = blurbs.filter(b => b.trim().length > 20);
     
     if (validBlurbs.length === 0) {
-      setError('Bitte geben Sie mindestens einen Klappentext mit mindestens 20 Zeichen an.');
+      setError(t('blurbFeedback.error.noBlurb'));
       return;
     }
 
     if (selectedPersonas.length === 0) {
-      setError('Bitte wählen Sie mindestens eine Persona aus.');
+      setError(t('feedback.error.noPersona'));
       return;
     }
 
@@ -87,10 +92,7 @@ export const BlurbFeedbackModule: React.FC<BlurbFeedbackModuleProps> = ({
 
     try {
       const selectedPersonaObjects = personas.filter(p => selectedPersonas.includes(p.id));
-      const aiConfig = { 
-        apiKey: localStorage.getItem('openai_api_key') || '', 
-        model: localStorage.getItem('openai_model') || 'gpt-4o-mini' 
-      };
+      const aiConfig = AIProvider.resolveConfig();
       
       const results: BlurbFeedback[] = [];
       
@@ -103,7 +105,7 @@ export const BlurbFeedbackModule: React.FC<BlurbFeedbackModuleProps> = ({
       onComplete(results);
     } catch (error) {
       console.error('Blurb analysis error:', error);
-      setError(`Fehler bei der Klappentext-Analyse: ${error.message}`);
+      setError(t('blurbFeedback.error.failed', { message: error.message }));
     } finally {
       setIsAnalyzing(false);
     }
@@ -116,51 +118,12 @@ export const BlurbFeedbackModule: React.FC<BlurbFeedbackModuleProps> = ({
     bookContext: any,
     aiConfig: any
   ): Promise<BlurbFeedback> => {
-    const prompt = `Analysiere den Klappentext für verschiedene Leser-Personas basierend auf dem Buchinhalt:
-
-BUCHINHALT (Auszug): "${bookContext.content.substring(0, 2000)}..."
-
-KLAPPENTEXT: "${blurbText}"
-
-PERSONAS:
-${personas.map(p => `
-- ${p.name}: ${p.demographics.ageRange}, ${p.demographics.occupation}
-  Lesegewohnheiten: ${p.readingHabits.favoriteGenres.join(', ')}
-  Motivationen: ${p.psychographics.motivations.join(', ')}
-`).join('\n')}
-
-Bewerte für jede Persona den Klappentext auf einer Skala von 1-10:
-- Klarheit (clarityScore)
-- Spannung/Neugier (intrigueScore)
-- Charakter-Anziehung (characterAppeal)
-- Tempo-Vermittlung (paceConveyed)
-- Kaufabsicht (buyingIntent)
-
-Gib auch Stärken, Schwächen und detaillierte Kommentare an.
-
-Antworte in diesem JSON-Format:
-{
-  "blurbId": "${blurbId}",
-  "blurbText": "${blurbText}",
-  "personaFeedback": [
-    {
-      "personaId": "persona_id",
-      "personaName": "Name",
-      "clarityScore": 8,
-      "intrigueScore": 7,
-      "characterAppeal": 9,
-      "paceConveyed": 8,
-      "buyingIntent": 8,
-      "comments": "Detailliertes Feedback...",
-      "strengths": ["Stärke 1", "Stärke 2"],
-      "weaknesses": ["Schwäche 1"]
-    }
-  ],
-  "overallScore": 8.0,
-  "summary": "Zusammenfassung der Klappentext-Bewertung"
-}`;
-
-    const response = await MarketValidationAI.processPrompt(prompt, aiConfig);
+    const response = await MarketValidationAI.runTemplate('blurb_feedback', {
+      bookExcerpt: MarketValidationAI.bookExcerpt('blurb_feedback', bookContext.content),
+      blurbId,
+      blurbText,
+      personas: MarketValidationAI.formatPersonas(personas)
+    }, aiConfig);
     return JSON.parse(response);
   };
 
@@ -168,20 +131,20 @@ Antworte in diesem JSON-Format:
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Klappentext-Feedback Simulator</CardTitle>
+          <CardTitle>{t('blurbFeedback.title')}</CardTitle>
           <p className="text-sm text-gray-600">
-            Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Klappentext-Varianten
+            {t('blurbFeedback.subtitle')}
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Blurb Input */}
           <div>
-            <Label className="text-base font-medium">Klappentext-Varianten</Label>
+            <Label className="text-base font-medium">{t('blurbFeedback.variants')}</Label>
             <div className="space-y-4 mt-2">
               {blurbs.map((blurb, index) => (
                 <div key={index} className="border rounded-lg p-4">
                   <div className="flex justify-between items-center mb-2">
-                    <Label>Version {index + 1}</Label>
+                    <Label>{t('blurbFeedback.version', { number: index + 1 })}</Label>
                     {blurbs.length > 1 && (
                       <Button
                         variant="outline"
@@ -195,28 +158,28 @@ Antworte in diesem JSON-Format:
                   <Textarea
                     value={blurb}
                     onChange={(e) => updateBlurb(index, e.target.value)}
-                    placeholder="Geben Sie hier Ihren Klappentext ein..."
+                    placeholder={t('blurbFeedback.placeholder')}
                     className="min-h-32"
                   />
                   <p className="text-xs text-gray-500 mt-1">
-                    {blurb.length} Zeichen
+                    {t('blurbFeedback.characters', { count: blurb.length })}
                   </p>
                 </div>
               ))}
               <Button variant="outline" onClick={addBlurb} className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
-                Klappentext-Variante hinzufügen
+                {t('blurbFeedback.add')}
               </Button>
             </div>
           </div>
 
           {/* Persona Selection */}
           <div>
-            <Label className="text-base font-medium">Personas für Feedback auswählen</Label>
+            <Label className="text-base font-medium">{t('feedback.selectPersonas')}</Label>
             {personas.length === 0 ? (
               <Alert>
                 <AlertDescription>
-                  Bitte generieren Sie zuerst Zielgruppen-Personas im vorherigen Schritt.
+                  {t('feedback.noPersonas')}
                 </AlertDescription>
               </Alert>
             ) : (
@@ -247,7 +210,7 @@ Antworte in diesem JSON-Format:
             className="w-full"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isAnalyzing ? 'Analysiere Klappentexte...' : 'Klappentext-Feedback simulieren'}
+            {isAnalyzing ? t('blurbFeedback.running') : t('blurbFeedback.run')}
           </Button>
         </CardContent>
       </Card>
@@ -255,15 +218,15 @@ Antworte in diesem JSON-Format:
       {/* Results Display */}
       {feedback.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Klappentext-Feedback Ergebnisse</h3>
+          <h3 className="text-lg font-semibold">{t('blurbFeedback.results')}</h3>
           {feedback.map((result, index) => (
             <Card key={result.blurbId}>
               <CardHeader>
-                <CardTitle className="text-base">Klappentext Version {index + 1}</CardTitle>
+                <CardTitle className="text-base">{t('blurbFeedback.resultVersion', { number: index + 1 })}</CardTitle>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-600">Gesamtbewertung:</span>
+                  <span className="text-sm text-gray-600">{t('feedback.overallScore')}</span>
                   <Badge variant={result.overallScore >= 8 ? "default" : result.overallScore >= 7 ? "secondary" : "outline"}>
-                    {result.overallScore.toFixed(1)}/10
+                    {t('common.score', { score: formatScore(result.overallScore) })}
                   </Badge>
                 </div>
               </CardHeader>
@@ -280,26 +243,26 @@ Antworte in diesem JSON-Format:
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-medium">{pf.personaName}</h4>
                         <Badge variant="outline">
-                          {((pf.clarityScore + pf.intrigueScore + pf.characterAppeal + pf.paceConveyed + pf.buyingIntent) / 5).toFixed(1)}/10
+                          {t('common.score', { score: formatScore((pf.clarityScore + pf.intrigueScore + pf.characterAppeal + pf.paceConveyed + pf.buyingIntent) / 5) })}
                         </Badge>
                       </div>
                       <p className="text-sm text-gray-600 mb-3">{pf.comments}</p>
                       
                       <div className="grid grid-cols-2 gap-4 text-xs">
                         <div>
-                          <p><strong>Klarheit:</strong> {pf.clarityScore}/10</p>
-                          <p><strong>Spannung:</strong> {pf.intrigueScore}/10</p>
-                          <p><strong>Charaktere:</strong> {pf.characterAppeal}/10</p>
+                          <p><strong>{t('blurbFeedback.clarity')}</strong> {t('common.score', { score: pf.clarityScore })}</p>
+                          <p><strong>{t('blurbFeedback.intrigue')}</strong> {t('common.score', { score: pf.intrigueScore })}</p>
+                          <p><strong>{t('blurbFeedback.characterAppeal')}</strong> {t('common.score', { score: pf.characterAppeal })}</p>
                         </div>
                         <div>
-                          <p><strong>Tempo:</strong> {pf.paceConveyed}/10</p>
-                          <p><strong>Kaufabsicht:</strong> {pf.buyingIntent}/10</p>
+                          <p><strong>{t('blurbFeedback.pace')}</strong> {t('common.score', { score: pf.paceConveyed })}</p>
+                          <p><strong>{t('blurbFeedback.buyingIntent')}</strong> {t('common.score', { score: pf.buyingIntent })}</p>
                         </div>
                       </div>
                       
                       <div className="grid grid-cols-2 gap-4 mt-3 text-xs">
                         <div>
-                          <p className="font-medium text-green-700">Stärken:</p>
+                          <p className="font-medium text-green-700">{t('feedback.strengths')}</p>
                           <ul className="list-disc list-inside">
                             {pf.strengths.map((strength, i) => (
                               <li key={i}>{strength}</li>
@@ -308,7 +271,7 @@ Antworte in diesem JSON-Format:
                         </div>
                         {pf.weaknesses.length > 0 && (
                           <div>
-                            <p className="font-medium text-orange-700">Schwächen:</p>
+                            <p className="font-medium text-orange-700">{t('feedback.weaknesses')}</p>
                             <ul className="list-disc list-inside">
                               {pf.weaknesses.map((weakness, i) => (
                                 <li key={i}>{weakness}</li>
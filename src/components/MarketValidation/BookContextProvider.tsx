@@ -1,6 +1,7 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { BookContext } from './types';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface BookContextProviderProps {
   children: React.ReactNode;
@@ -21,6 +22,7 @@ export const BookContextProvider: React.FC<BookContextProviderProps> = ({
   children, 
   bookContent 
 }) => {
+  const { t } = useI18n();
   const [bookContext, setBookContext] = useState<BookContext | null>(null);
 
   useEffect(() => {
@@ -44,7 +46,7 @@ export const BookContextProvider: React.FC<BookContextProviderProps> = ({
   }, [bookContent]);
 
   if (!bookContext) {
-    return <div>Loading book context...</div>;
+    return <div>{t('marketValidation.loadingBook')}</div>;
   }
 
   return (
@@ -9,6 +9,8 @@ import { Trash2, Plus, Play } from 'lucide-react';
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { MarketValidationAI } from './AIProcessor';
+import { AIProvider } from '../../utils/aiProvider';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface CoverFeedbackModuleProps {
   personas: ReaderPersona[];
@@ -43,6 +45,7 @@ export const CoverFeedbackModule: React.FC<CoverFeedbackModuleProps> = ({
   onComplete
 }) => {
   const bookContext = useBookContext();
+  const { t, formatNumber } = useI18n();
   const [concepts, setConcepts] = useState<CoverConcept[]>([
     { id: '1', description: '' }
   ]);
@@ -76,16 +79,18 @@ export const CoverFeedbackModule: React.FC<CoverFeedbackModuleProps> = ({
     );
   };
 
+  const formatScore = (score: number) => formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   const analyzeConcepts = async () => {
     const validConcepts = concepts.filter(c => c.description.trim());
     
     if (validConcepts.length === 0) {
-      setError('Bitte beschreiben Sie mindestens ein Cover-Konzept.');
+      setError(t('coverFeedback.error.noConcept'));
       return;
     }
 
     if (selectedPersonas.length === 0) {
-      setError('Bitte wählen Sie mindestens eine Persona aus.');
+      setError(t('feedback.error.noPersona'));
       return;
     }
 
@@ -94,10 +99,7 @@ export const CoverFeedbackModule: React.FC<CoverFeedbackModuleProps> = ({
 
     try {
       const selectedPersonaObjects = personas.filter(p => selectedPersonas.includes(p.id));
-      const aiConfig = { 
-        apiKey: localStorage.getItem('openai_api_key') || '', 
-        model: localStorage.getItem('openai_model') || 'gpt-4o-mini' 
-      };
+      const aiConfig = AIProvider.resolveConfig();
       
       const results: CoverFeedback[] = [];
       
@@ -110,7 +112,7 @@ export const CoverFeedbackModule: React.FC<CoverFeedbackModuleProps> = ({
       onComplete(results);
     } catch (error) {
       console.error('Cover analysis error:', error);
-      setError(`Fehler bei der Cover-Analyse: ${error.message}`);
+      setError(t('coverFeedback.error.failed', { message: error.message }));
     } finally {
       setIsAnalyzing(false);
     }
@@ -122,48 +124,12 @@ export const CoverFeedbackModule: React.FC<CoverFeedbackModuleProps> = ({
     bookContext: any,
     aiConfig: any
   ): Promise<CoverFeedback> => {
-    const prompt = `Analysiere das Cover-Konzept für verschiedene Leser-Personas basierend auf dem Buchinhalt:
-
-BUCHINHALT (Auszug): "${bookContext.content.substring(0, 2000)}..."
-
-COVER-KONZEPT: "${concept.description}"
-
-PERSONAS:
-${personas.map(p => `
-- ${p.name}: ${p.demographics.ageRange}, ${p.demographics.occupation}
-  Lesegewohnheiten: ${p.readingHabits.favoriteGenres.join(', ')}
-  Motivationen: ${p.psychographics.motivations.join(', ')}
-`).join('\n')}
-
-Bewerte für jede Persona das Cover-Konzept auf einer Skala von 1-10:
-- Visueller Reiz (visualAppeal)
-- Genre-Angemessenheit (genreAppropriate)
-- Thematische Genauigkeit (thematicAccuracy)
-- Wiedererkennungsfaktor (standoutFactor)
-
-Gib auch emotionale Reaktionen und detaillierte Kommentare an.
-
-Antworte in diesem JSON-Format:
-{
-  "conceptId": "${concept.id}",
-  "conceptDescription": "${concept.description}",
-  "personaFeedback": [
-    {
-      "personaId": "persona_id",
-      "personaName": "Name",
-      "visualAppeal": 8,
-      "genreAppropriate": 7,
-      "thematicAccuracy": 9,
-      "standoutFactor": 8,
-      "emotionalResponse": "Neugierig",
-      "comments": "Detailliertes Feedback..."
-    }
-  ],
-  "overallScore": 8.0,
-  "summary": "Zusammenfassung der Cover-Bewertung"
-}`;
-
-    const response = await MarketValidationAI.processPrompt(prompt, aiConfig);
+    const response = await MarketValidationAI.runTemplate('cover_feedback', {
+      bookExcerpt: MarketValidationAI.bookExcerpt('cover_feedback', bookContext.content),
+      conceptId: concept.id,
+      conceptDescription: concept.description,
+      personas: MarketValidationAI.formatPersonas(personas)
+    }, aiConfig);
     return JSON.parse(response);
   };
 
@@ -171,20 +137,20 @@ Antworte in diesem JSON-Format:
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Cover-Konzept Feedback Simulator</CardTitle>
+          <CardTitle>{t('coverFeedback.title')}</CardTitle>
           <p className="text-sm text-gray-600">
-            Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Cover-Konzepten
+            {t('coverFeedback.subtitle')}
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Cover Concept Input */}
           <div>
-            <Label className="text-base font-medium">Cover-Konzepte beschreiben</Label>
+            <Label className="text-base font-medium">{t('coverFeedback.concepts')}</Label>
             <div className="space-y-4 mt-2">
               {concepts.map((concept, index) => (
                 <div key={concept.id} className="border rounded-lg p-4">
                   <div className="flex justify-between items-center mb-2">
-                    <Label>Konzept {index + 1}</Label>
+                    <Label>{t('coverFeedback.concept', { number: index + 1 })}</Label>
                     {concepts.length > 1 && (
                       <Button
                         variant="outline"
@@ -198,25 +164,25 @@ Antworte in diesem JSON-Format:
                   <Textarea
                     value={concept.description}
                     onChange={(e) => updateConcept(index, e.target.value)}
-                    placeholder="Beschreiben Sie das Cover-Design detailliert (z.B. Farben, Bilder, Stil, Typografie, Stimmung)..."
+                    placeholder={t('coverFeedback.placeholder')}
                     className="min-h-20"
                   />
                 </div>
               ))}
               <Button variant="outline" onClick={addConcept} className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
-                Cover-Konzept hinzufügen
+                {t('coverFeedback.add')}
               </Button>
             </div>
           </div>
 
           {/* Persona Selection */}
           <div>
-            <Label className="text-base font-medium">Personas für Feedback auswählen</Label>
+            <Label className="text-base font-medium">{t('feedback.selectPersonas')}</Label>
             {personas.length === 0 ? (
               <Alert>
                 <AlertDescription>
-                  Bitte generieren Sie zuerst Zielgruppen-Personas im vorherigen Schritt.
+                  {t('feedback.noPersonas')}
                 </AlertDescription>
               </Alert>
             ) : (
@@ -247,7 +213,7 @@ Antworte in diesem JSON-Format:
             className="w-full"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isAnalyzing ? 'Analysiere Cover...' : 'Cover-Feedback simulieren'}
+            {isAnalyzing ? t('coverFeedback.running') : t('coverFeedback.run')}
           </Button>
         </CardContent>
       </Card>
@@ -255,21 +221,21 @@ Antworte in diesem JSON-Format:
       {/* Results Display */}
       {feedback.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Cover-Feedback Ergebnisse</h3>
+          <h3 className="text-lg font-semibold">{t('coverFeedback.results')}</h3>
           {feedback.map((result, index) => (
             <Card key={result.conceptId}>
               <CardHeader>
-                <CardTitle className="text-base">Konzept {index + 1}</CardTitle>
+                <CardTitle className="text-base">{t('coverFeedback.concept', { number: index + 1 })}</CardTitle>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-600">Gesamtbewertung:</span>
+                  <span className="text-sm text-gray-600">{t('feedback.overallScore')}</span>
                   <Badge variant={result.overallScore >= 8 ? "default" : result.overallScore >= 7 ? "secondary" : "outline"}>
-                    {result.overallScore.toFixed(1)}/10
+                    {t('common.score', { score: formatScore(result.overallScore) })}
                   </Badge>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="bg-gray-50 p-3 rounded mb-4">
-                  <p className="text-sm"><strong>Beschreibung:</strong> {result.conceptDescription}</p>
+                  <p className="text-sm"><strong>{t('coverFeedback.description')}</strong> {result.conceptDescription}</p>
                 </div>
                 
                 <p className="text-sm text-gray-600 mb-4">{result.summary}</p>
@@ -279,17 +245,17 @@ Antworte in diesem JSON-Format:
                     <div key={pf.personaId} className="border rounded-lg p-3">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-medium">{pf.personaName}</h4>
-                        <Badge variant="outline">{((pf.visualAppeal + pf.genreAppropriate + pf.thematicAccuracy + pf.standoutFactor) / 4).toFixed(1)}/10</Badge>
+                        <Badge variant="outline">{t('common.score', { score: formatScore((pf.visualAppeal + pf.genreAppropriate + pf.thematicAccuracy + pf.standoutFactor) / 4) })}</Badge>
                       </div>
                       <p className="text-sm text-gray-600 mb-2">{pf.comments}</p>
                       <div className="grid grid-cols-2 gap-4 text-xs">
                         <div>
-                          <p><strong>Emotion:</strong> {pf.emotionalResponse}</p>
-                          <p><strong>Visueller Reiz:</strong> {pf.visualAppeal}/10</p>
+                          <p><strong>{t('coverFeedback.emotion')}</strong> {pf.emotionalResponse}</p>
+                          <p><strong>{t('coverFeedback.visualAppeal')}</strong> {t('common.score', { score: pf.visualAppeal })}</p>
                         </div>
                         <div>
-                          <p><strong>Genre-Passend:</strong> {pf.genreAppropriate}/10</p>
-                          <p><strong>Wiedererkennbarkeit:</strong> {pf.standoutFactor}/10</p>
+                          <p><strong>{t('coverFeedback.genreAppropriate')}</strong> {t('common.score', { score: pf.genreAppropriate })}</p>
+                          <p><strong>{t('coverFeedback.standoutFactor')}</strong> {t('common.score', { score: pf.standoutFactor })}</p>
                         </div>
                       </div>
                     </div>
@@ -9,6 +9,7 @@ import { Trash2, Plus, Play } from 'lucide-react';
 import { useBookContext } from './BookContextProvider';
 import { MarketValidationAI } from './AIProcessor';
 import { MarketPosition, TrendAnalysis } from './types';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface LiteraryLandscapeModuleProps {
   onComplete: (marketPosition: MarketPosition, trendAnalysis: TrendAnalysis) => void;
@@ -16,6 +17,7 @@ interface LiteraryLandscapeModuleProps {
 
 export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = ({ onComplete }) => {
   const bookContext = useBookContext();
+  const { t } = useI18n();
   const [genres, setGenres] = useState<string[]>(['']);
   const [competitorTitles, setCompetitorTitles] = useState<string[]>(['']);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -59,10 +61,10 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
 
   const analyzeMarket = async () => {
     const validGenres = genres.filter(g => g.trim());
-    const validTitles = competitorTitles.filter(t => t.trim());
+    const validTitles = competitorTitles.filter(title => title.trim());
 
     if (validGenres.length === 0) {
-      setError('Bitte geben Sie mindestens ein Genre an.');
+      setError(t('landscape.error.noGenre'));
       return;
     }
 
@@ -70,21 +72,17 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
     setError(null);
 
     try {
-      // This would need actual AI configuration - for now using dummy config
-      const aiConfig = { apiKey: 'dummy', model: 'gpt-3.5-turbo' };
-      
       const result = await MarketValidationAI.analyzeLiteraryLandscape(
         bookContext,
         validGenres,
-        validTitles,
-        aiConfig
+        validTitles
       );
       
       setResults(result);
       onComplete(result.marketPosition, result.trendAnalysis);
     } catch (error) {
       console.error('Market analysis error:', error);
-      setError('Fehler bei der Marktanalyse. Bitte versuchen Sie es erneut.');
+      setError(t('landscape.error.failed'));
     } finally {
       setIsAnalyzing(false);
     }
@@ -94,22 +92,22 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Literarische Marktlandschaft & Trends</CardTitle>
+          <CardTitle>{t('landscape.title')}</CardTitle>
           <p className="text-sm text-gray-600">
-            Analysiere dein Buch im Kontext aktueller Markttrends und Wettbewerber
+            {t('landscape.subtitle')}
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Genre Input */}
           <div>
-            <Label className="text-base font-medium">Genres & Sub-Genres</Label>
+            <Label className="text-base font-medium">{t('landscape.genres')}</Label>
             <div className="space-y-2 mt-2">
               {genres.map((genre, index) => (
                 <div key={index} className="flex gap-2">
                   <Input
                     value={genre}
                     onChange={(e) => updateGenre(index, e.target.value)}
-                    placeholder={`Genre ${index + 1}`}
+                    placeholder={t('landscape.genrePlaceholder', { number: index + 1 })}
                     className="flex-1"
                   />
                   {genres.length > 1 && (
@@ -125,21 +123,21 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
               ))}
               <Button variant="outline" onClick={addGenre} className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
-                Genre hinzufügen
+                {t('landscape.addGenre')}
               </Button>
             </div>
           </div>
 
           {/* Competitor Titles */}
           <div>
-            <Label className="text-base font-medium">Vergleichstitel (Optional)</Label>
+            <Label className="text-base font-medium">{t('landscape.competitors')}</Label>
             <div className="space-y-2 mt-2">
               {competitorTitles.map((title, index) => (
                 <div key={index} className="flex gap-2">
                   <Input
                     value={title}
                     onChange={(e) => updateCompetitor(index, e.target.value)}
-                    placeholder={`Vergleichstitel ${index + 1}`}
+                    placeholder={t('landscape.competitorPlaceholder', { number: index + 1 })}
                     className="flex-1"
                   />
                   {competitorTitles.length > 1 && (
@@ -155,7 +153,7 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
               ))}
               <Button variant="outline" onClick={addCompetitor} className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
-                Titel hinzufügen
+                {t('landscape.addCompetitor')}
               </Button>
             </div>
           </div>
@@ -172,7 +170,7 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
             className="w-full"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isAnalyzing ? 'Analysiere Markt...' : 'Marktanalyse starten'}
+            {isAnalyzing ? t('landscape.running') : t('landscape.run')}
           </Button>
         </CardContent>
       </Card>
@@ -182,16 +180,16 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
         <div className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>Marktpositionierung</CardTitle>
+              <CardTitle>{t('landscape.position')}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 <div>
-                  <h4 className="font-medium">Hauptgenre</h4>
+                  <h4 className="font-medium">{t('landscape.mainGenre')}</h4>
                   <p className="text-sm text-gray-600">{results.marketPosition.genre}</p>
                 </div>
                 <div>
-                  <h4 className="font-medium">Sub-Genres</h4>
+                  <h4 className="font-medium">{t('landscape.subGenres')}</h4>
                   <div className="flex flex-wrap gap-2 mt-1">
                     {results.marketPosition.subGenres.map((subGenre, index) => (
                       <Badge key={index} variant="secondary">{subGenre}</Badge>
@@ -199,7 +197,7 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
                   </div>
                 </div>
                 <div>
-                  <h4 className="font-medium">Alleinstellungsmerkmale</h4>
+                  <h4 className="font-medium">{t('landscape.usps')}</h4>
                   <ul className="text-sm text-gray-600 list-disc list-inside">
                     {results.marketPosition.uniqueSellingPoints.map((usp, index) => (
                       <li key={index}>{usp}</li>
@@ -212,12 +210,12 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
 
           <Card>
             <CardHeader>
-              <CardTitle>Trend-Analyse</CardTitle>
+              <CardTitle>{t('landscape.trends')}</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 <div>
-                  <h4 className="font-medium">Aktuelle Trends</h4>
+                  <h4 className="font-medium">{t('landscape.currentTrends')}</h4>
                   <ul className="text-sm text-gray-600 list-disc list-inside">
                     {results.trendAnalysis.currentTrends.map((trend, index) => (
                       <li key={index}>{trend}</li>
@@ -225,7 +223,7 @@ export const LiteraryLandscapeModule: React.FC<LiteraryLandscapeModuleProps> = (
                   </ul>
                 </div>
                 <div>
-                  <h4 className="font-medium">Marktchancen</h4>
+                  <h4 className="font-medium">{t('landscape.opportunities')}</h4>
                   <ul className="text-sm text-gray-600 list-disc list-inside">
                     {results.trendAnalysis.opportunities.map((opportunity, index) => (
                       <li key={index}>{opportunity}</li>
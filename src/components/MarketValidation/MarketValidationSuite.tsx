@@ -14,12 +14,26 @@ import { MarketingStrategyModule } from './MarketingStrategyModule';
 import { StrategyDashboard } from './StrategyDashboard';
 import { ReaderPersona, MarketPosition, TrendAnalysis } from './types';
 import { CheckCircle, Circle, BookOpen, Users, MessageSquare, Target, TrendingUp, BarChart3 } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { MessageKey } from '../../utils/i18n';
 
 interface MarketValidationSuiteProps {
   bookContent: string;
 }
 
+const MODULE_LABELS: Record<string, MessageKey> = {
+  landscape: 'marketValidation.module.landscape',
+  audience: 'marketValidation.module.audience',
+  titles: 'marketValidation.module.titles',
+  covers: 'marketValidation.module.covers',
+  blurbs: 'marketValidation.module.blurbs',
+  abtest: 'marketValidation.module.abtest',
+  marketing: 'marketValidation.module.marketing',
+  dashboard: 'marketValidation.module.dashboard'
+};
+
 export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bookContent }) => {
+  const { t } = useI18n();
   const [activePhase, setActivePhase] = useState<string>('foundation');
   const [completedModules, setCompletedModules] = useState<Set<string>>(new Set());
   
@@ -49,37 +63,37 @@ export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bo
   const phases = [
     {
       id: 'foundation',
-      name: 'Foundation & Audience',
+      name: t('marketValidation.phase.foundation'),
       icon: BookOpen,
-      description: 'Market positioning and reader personas',
+      description: t('marketValidation.phase.foundationDescription'),
       modules: ['landscape', 'audience']
     },
     {
       id: 'feedback',
-      name: 'Focus Group Feedback',
+      name: t('marketValidation.phase.feedback'),
       icon: MessageSquare,
-      description: 'Simulated feedback on titles, covers, and blurbs',
+      description: t('marketValidation.phase.feedbackDescription'),
       modules: ['titles', 'covers', 'blurbs']
     },
     {
       id: 'testing',
-      name: 'A/B Testing & Validation',
+      name: t('marketValidation.phase.testing'),
       icon: Target,
-      description: 'Concept testing and optimization',
+      description: t('marketValidation.phase.testingDescription'),
       modules: ['abtest']
     },
     {
       id: 'strategy',
-      name: 'Marketing Strategy',
+      name: t('marketValidation.phase.strategy'),
       icon: TrendingUp,
-      description: 'Launch strategy and channel recommendations',
+      description: t('marketValidation.phase.strategyDescription'),
       modules: ['marketing']
     },
     {
       id: 'dashboard',
-      name: 'Strategy Dashboard',
+      name: t('marketValidation.phase.dashboard'),
       icon: BarChart3,
-      description: 'Review and export your complete strategy',
+      description: t('marketValidation.phase.dashboardDescription'),
       modules: ['dashboard']
     }
   ];
@@ -139,9 +153,9 @@ export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bo
         {/* Header */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-2xl">AI Market Validation & Launch Strategy Simulator</CardTitle>
+            <CardTitle className="text-2xl">{t('marketValidation.title')}</CardTitle>
             <p className="text-gray-600">
-              Simulate comprehensive market research and focus group feedback for your book
+              {t('marketValidation.subtitle')}
             </p>
           </CardHeader>
         </Card>
@@ -186,12 +200,12 @@ export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bo
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="landscape" className="flex items-center gap-2">
                   <BookOpen className="w-4 h-4" />
-                  Literary Landscape
+                  {t('marketValidation.module.landscape')}
                   {completedModules.has('landscape') && <CheckCircle className="w-4 h-4 text-green-500" />}
                 </TabsTrigger>
                 <TabsTrigger value="audience" className="flex items-center gap-2">
                   <Users className="w-4 h-4" />
-                  Target Audience
+                  {t('marketValidation.module.audience')}
                   {completedModules.has('audience') && <CheckCircle className="w-4 h-4 text-green-500" />}
                 </TabsTrigger>
               </TabsList>
@@ -223,17 +237,17 @@ export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bo
               <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="titles" className="flex items-center gap-2">
                   <BookOpen className="w-4 h-4" />
-                  Titles
+                  {t('marketValidation.module.titles')}
                   {completedModules.has('titles') && <CheckCircle className="w-4 h-4 text-green-500" />}
                 </TabsTrigger>
                 <TabsTrigger value="covers" className="flex items-center gap-2">
                   <MessageSquare className="w-4 h-4" />
-                  Covers
+                  {t('marketValidation.module.covers')}
                   {completedModules.has('covers') && <CheckCircle className="w-4 h-4 text-green-500" />}
                 </TabsTrigger>
                 <TabsTrigger value="blurbs" className="flex items-center gap-2">
                   <MessageSquare className="w-4 h-4" />
-                  Blurbs
+                  {t('marketValidation.module.blurbs')}
                   {completedModules.has('blurbs') && <CheckCircle className="w-4 h-4 text-green-500" />}
                 </TabsTrigger>
               </TabsList>
@@ -313,18 +327,18 @@ export const MarketValidationSuite: React.FC<MarketValidationSuiteProps> = ({ bo
         {/* Progress Summary */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Progress Summary</CardTitle>
+            <CardTitle className="text-lg">{t('marketValidation.progress')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex flex-wrap gap-2">
               {Array.from(completedModules).map((module) => (
                 <Badge key={module} variant="default">
-                  {module} ✓
+                  {MODULE_LABELS[module] ? t(MODULE_LABELS[module]) : module} ✓
                 </Badge>
               ))}
             </div>
             <p className="text-sm text-gray-600 mt-2">
-              {completedModules.size} of 8 modules completed
+              {t('marketValidation.progressSummary', { count: completedModules.size, total: Object.keys(MODULE_LABELS).length })}
             </p>
           </CardContent>
         </Card>
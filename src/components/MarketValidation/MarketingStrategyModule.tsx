@@ -8,6 +8,8 @@ import { MessageSquare, Target, TrendingUp, Users, Hash, BookOpen } from 'lucide
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { AIProcessor } from './AIProcessor';
+import { useI18n } from '@/hooks/use-i18n';
+import { MessageKey } from '../../utils/i18n';
 
 interface MarketingAngle {
   title: string;
@@ -34,6 +36,13 @@ interface MarketingStrategy {
   campaignIdeas: string[];
 }
 
+// The model answers with English levels; anything else is shown as it came
+const LEVEL_LABELS: Record<string, MessageKey> = {
+  High: 'marketing.level.high',
+  Medium: 'marketing.level.medium',
+  Low: 'marketing.level.low'
+};
+
 interface MarketingStrategyModuleProps {
   personas: ReaderPersona[];
   selectedTitle?: string;
@@ -50,6 +59,7 @@ export const MarketingStrategyModule: React.FC<MarketingStrategyModuleProps> = (
   onComplete
 }) => {
   const { content: bookContent } = useBookContext();
+  const { t } = useI18n();
   const [selectedPersonas, setSelectedPersonas] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [strategy, setStrategy] = useState<MarketingStrategy | null>(null);
@@ -62,60 +72,13 @@ export const MarketingStrategyModule: React.FC<MarketingStrategyModuleProps> = (
     try {
       const targetPersonas = personas.filter(p => selectedPersonas.includes(p.id));
       
-      const prompt = `
-As an AI marketing strategist, create a comprehensive marketing strategy for this book:
-
-BOOK CONTENT: ${bookContent.substring(0, 2000)}
-
-SELECTED MARKETING ASSETS:
-- Title: ${selectedTitle || 'Not selected'}
-- Cover: ${selectedCover || 'Not selected'}
-- Blurb: ${selectedBlurb || 'Not selected'}
-
-TARGET PERSONAS:
-${targetPersonas.map(p => `
-- ${p.name}: Age ${p.demographics.ageRange}, ${p.demographics.gender}
-  Reading Preferences: ${p.readingHabits.favoriteGenres.join(', ')}
-  Motivations: ${p.psychographics.motivations.join(', ')}
-  Pain Points: ${p.psychographics.painPoints.join(', ')}
-`).join('\n')}
-
-Generate a comprehensive marketing strategy including:
-
-1. MARKETING ANGLES (3-4 different approaches)
-2. CHANNEL RECOMMENDATIONS (5-7 marketing channels)
-3. KEYWORDS for SEO/advertising
-4. TAGLINES (3-5 options)
-5. CAMPAIGN IDEAS (3-4 creative concepts)
-
-Format as JSON:
-{
-  "angles": [
-    {
-      "title": "angle name",
-      "description": "detailed description",
-      "keyMessages": ["message1", "message2"],
-      "emotionalTriggers": ["trigger1", "trigger2"],
-      "targetPersonas": ["persona names"]
-    }
-  ],
-  "channels": [
-    {
-      "channel": "channel name",
-      "rationale": "why this channel works",
-      "contentStyle": "recommended content approach",
-      "reach": "High/Medium/Low",
-      "cost": "High/Medium/Low",
-      "difficulty": "High/Medium/Low"
-    }
-  ],
-  "keywords": ["keyword1", "keyword2"],
-  "taglines": ["tagline1", "tagline2"],
-  "campaignIdeas": ["idea1", "idea2"]
-}
-      `;
-
-      const result = await AIProcessor.processPrompt(prompt);
+      const result = await AIProcessor.runTemplate('marketing_strategy', {
+        bookExcerpt: AIProcessor.bookExcerpt('marketing_strategy', bookContent),
+        selectedTitle: selectedTitle || AIProcessor.notSelected(),
+        selectedCover: selectedCover || AIProcessor.notSelected(),
+        selectedBlurb: selectedBlurb || AIProcessor.notSelected(),
+        personas: AIProcessor.formatTargetPersonas(targetPersonas)
+      });
       const marketingStrategy: MarketingStrategy = JSON.parse(result);
       
       setStrategy(marketingStrategy);
@@ -127,6 +90,8 @@ Format as JSON:
     }
   };
 
+  const levelLabel = (level: string) => LEVEL_LABELS[level] ? t(LEVEL_LABELS[level]) : level;
+
   const togglePersona = (personaId: string) => {
     setSelectedPersonas(prev => 
       prev.includes(personaId) 
@@ -141,13 +106,13 @@ Format as JSON:
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="w-5 h-5" />
-            Marketing Strategy Generator
+            {t('marketing.title')}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
             <label className="block text-sm font-medium mb-2">
-              Select Target Personas (choose 1-3 primary targets)
+              {t('marketing.selectPersonas')}
             </label>
             <div className="flex flex-wrap gap-2">
               {personas.map((persona) => (
@@ -168,7 +133,7 @@ Format as JSON:
             disabled={selectedPersonas.length === 0 || isGenerating}
             className="w-full"
           >
-            {isGenerating ? 'Generating Strategy...' : 'Generate Marketing Strategy'}
+            {isGenerating ? t('marketing.generating') : t('marketing.generate')}
           </Button>
         </CardContent>
       </Card>
@@ -176,16 +141,16 @@ Format as JSON:
       {strategy && (
         <Card>
           <CardHeader>
-            <CardTitle>Your Marketing Strategy</CardTitle>
+            <CardTitle>{t('marketing.result')}</CardTitle>
           </CardHeader>
           <CardContent>
             <Tabs value={activeTab} onValueChange={setActiveTab}>
               <TabsList className="grid w-full grid-cols-5">
-                <TabsTrigger value="angles">Angles</TabsTrigger>
-                <TabsTrigger value="channels">Channels</TabsTrigger>
-                <TabsTrigger value="keywords">Keywords</TabsTrigger>
-                <TabsTrigger value="taglines">Taglines</TabsTrigger>
-                <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+                <TabsTrigger value="angles">{t('marketing.tab.angles')}</TabsTrigger>
+                <TabsTrigger value="channels">{t('marketing.tab.channels')}</TabsTrigger>
+                <TabsTrigger value="keywords">{t('marketing.tab.keywords')}</TabsTrigger>
+                <TabsTrigger value="taglines">{t('marketing.tab.taglines')}</TabsTrigger>
+                <TabsTrigger value="campaigns">{t('marketing.tab.campaigns')}</TabsTrigger>
               </TabsList>
 
               <TabsContent value="angles" className="space-y-4">
@@ -201,7 +166,7 @@ Format as JSON:
                       <p className="text-gray-700">{angle.description}</p>
                       
                       <div>
-                        <h4 className="font-medium mb-2">Key Messages</h4>
+                        <h4 className="font-medium mb-2">{t('marketing.keyMessages')}</h4>
                         <ul className="space-y-1">
                           {angle.keyMessages.map((message, idx) => (
                             <li key={idx} className="text-sm">• {message}</li>
@@ -210,7 +175,7 @@ Format as JSON:
                       </div>
 
                       <div>
-                        <h4 className="font-medium mb-2">Emotional Triggers</h4>
+                        <h4 className="font-medium mb-2">{t('marketing.emotionalTriggers')}</h4>
                         <div className="flex flex-wrap gap-1">
                           {angle.emotionalTriggers.map((trigger, idx) => (
                             <Badge key={idx} variant="secondary">{trigger}</Badge>
@@ -219,7 +184,7 @@ Format as JSON:
                       </div>
 
                       <div>
-                        <h4 className="font-medium mb-2">Target Personas</h4>
+                        <h4 className="font-medium mb-2">{t('marketing.targetPersonas')}</h4>
                         <div className="flex flex-wrap gap-1">
                           {angle.targetPersonas.map((persona, idx) => (
                             <Badge key={idx} variant="outline">{persona}</Badge>
@@ -244,27 +209,27 @@ Format as JSON:
                       <p className="text-gray-700">{channel.rationale}</p>
                       
                       <div>
-                        <h4 className="font-medium mb-2">Content Style</h4>
+                        <h4 className="font-medium mb-2">{t('marketing.contentStyle')}</h4>
                         <p className="text-sm text-gray-600">{channel.contentStyle}</p>
                       </div>
 
                       <div className="flex gap-4">
                         <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium">Reach:</span>
+                          <span className="text-sm font-medium">{t('marketing.reach')}</span>
                           <Badge variant={channel.reach === 'High' ? 'default' : 'outline'}>
-                            {channel.reach}
+                            {levelLabel(channel.reach)}
                           </Badge>
                         </div>
                         <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium">Cost:</span>
+                          <span className="text-sm font-medium">{t('marketing.cost')}</span>
                           <Badge variant={channel.cost === 'Low' ? 'default' : 'outline'}>
-                            {channel.cost}
+                            {levelLabel(channel.cost)}
                           </Badge>
                         </div>
                         <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium">Difficulty:</span>
+                          <span className="text-sm font-medium">{t('marketing.difficulty')}</span>
                           <Badge variant={channel.difficulty === 'Low' ? 'default' : 'outline'}>
-                            {channel.difficulty}
+                            {levelLabel(channel.difficulty)}
                           </Badge>
                         </div>
                       </div>
@@ -278,7 +243,7 @@ Format as JSON:
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <Hash className="w-4 h-4" />
-                      SEO & Advertising Keywords
+                      {t('marketing.keywords')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -296,7 +261,7 @@ Format as JSON:
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <MessageSquare className="w-4 h-4" />
-                      Marketing Taglines
+                      {t('marketing.taglines')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -316,14 +281,14 @@ Format as JSON:
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       <BookOpen className="w-4 h-4" />
-                      Creative Campaign Ideas
+                      {t('marketing.campaigns')}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
                     <ul className="space-y-4">
                       {strategy.campaignIdeas.map((idea, index) => (
                         <li key={index} className="p-4 border-l-4 border-blue-500 bg-blue-50">
-                          <span className="font-medium">Campaign {index + 1}:</span> {idea}
+                          <span className="font-medium">{t('marketing.campaign', { number: index + 1 })}</span> {idea}
                         </li>
                       ))}
                     </ul>
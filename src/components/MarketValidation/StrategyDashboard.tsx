@@ -19,6 +19,7 @@ import {
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { AIProcessor } from './AIProcessor';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface StrategyDecision {
   type: 'title' | 'cover' | 'blurb' | 'personas' | 'marketing';
@@ -58,6 +59,7 @@ export const StrategyDashboard: React.FC<StrategyDashboardProps> = ({
   onGoToModule
 }) => {
   const { content: bookContent } = useBookContext();
+  const { t, formatPercent } = useI18n();
   const [decisions, setDecisions] = useState<StrategyDecision[]>([]);
   const [cohesionCheck, setCohesionCheck] = useState<CohesionCheck | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -65,37 +67,14 @@ export const StrategyDashboard: React.FC<StrategyDashboardProps> = ({
   const runCohesionCheck = async () => {
     setIsAnalyzing(true);
     try {
-      const prompt = `
-As an AI publishing consultant, analyze the cohesion and effectiveness of this book's marketing strategy:
-
-BOOK CONTENT: ${bookContent.substring(0, 2000)}
-
-MARKETING STRATEGY ELEMENTS:
-- Title: ${selectedTitle || 'Not selected'}
-- Cover: ${selectedCover || 'Not selected'}  
-- Blurb: ${selectedBlurb || 'Not selected'}
-- Target Personas: ${personas.map(p => p.name).join(', ')}
-- Marketing Angles: ${marketingStrategy?.angles?.length || 0} angles defined
-
-Evaluate:
-1. Overall cohesion score (1-100)
-2. How well elements work together
-3. Alignment with target personas
-4. Strengths of the current strategy
-5. Weaknesses or gaps
-6. Specific recommendations for improvement
-
-Format as JSON:
-{
-  "overallScore": number,
-  "strengths": ["strength1", "strength2"],
-  "weaknesses": ["weakness1", "weakness2"],
-  "recommendations": ["rec1", "rec2"],
-  "personaAlignment": number
-}
-      `;
-
-      const result = await AIProcessor.processPrompt(prompt);
+      const result = await AIProcessor.runTemplate('cohesion_check', {
+        bookExcerpt: AIProcessor.bookExcerpt('cohesion_check', bookContent),
+        selectedTitle: selectedTitle || AIProcessor.notSelected(),
+        selectedCover: selectedCover || AIProcessor.notSelected(),
+        selectedBlurb: selectedBlurb || AIProcessor.notSelected(),
+        personaNames: personas.map(p => p.name),
+        angleCount: marketingStrategy?.angles?.length || 0
+      });
       const check: CohesionCheck = JSON.parse(result);
       setCohesionCheck(check);
     } catch (error) {
@@ -130,14 +109,14 @@ Format as JSON:
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Target className="w-5 h-5" />
-            Strategy Completion Dashboard
+            {t('strategy.title')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="mb-4">
             <div className="flex justify-between text-sm mb-2">
-              <span>Overall Progress</span>
-              <span>{status.completed}/{status.total} completed</span>
+              <span>{t('strategy.progress')}</span>
+              <span>{t('strategy.completed', { completed: status.completed, total: status.total })}</span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div 
@@ -154,9 +133,9 @@ Format as JSON:
               }`}>
                 <BookOpen className="w-6 h-6" />
               </div>
-              <div className="text-sm font-medium">Title</div>
+              <div className="text-sm font-medium">{t('strategy.element.title')}</div>
               <div className="text-xs text-gray-600">
-                {selectedTitle ? 'Selected' : 'Pending'}
+                {selectedTitle ? t('strategy.selected') : t('strategy.pending')}
               </div>
             </div>
 
@@ -166,9 +145,9 @@ Format as JSON:
               }`}>
                 <Image className="w-6 h-6" />
               </div>
-              <div className="text-sm font-medium">Cover</div>
+              <div className="text-sm font-medium">{t('strategy.element.cover')}</div>
               <div className="text-xs text-gray-600">
-                {selectedCover ? 'Selected' : 'Pending'}
+                {selectedCover ? t('strategy.selected') : t('strategy.pending')}
               </div>
             </div>
 
@@ -178,9 +157,9 @@ Format as JSON:
               }`}>
                 <FileText className="w-6 h-6" />
               </div>
-              <div className="text-sm font-medium">Blurb</div>
+              <div className="text-sm font-medium">{t('strategy.element.blurb')}</div>
               <div className="text-xs text-gray-600">
-                {selectedBlurb ? 'Selected' : 'Pending'}
+                {selectedBlurb ? t('strategy.selected') : t('strategy.pending')}
               </div>
             </div>
 
@@ -190,9 +169,9 @@ Format as JSON:
               }`}>
                 <Users className="w-6 h-6" />
               </div>
-              <div className="text-sm font-medium">Personas</div>
+              <div className="text-sm font-medium">{t('strategy.element.personas')}</div>
               <div className="text-xs text-gray-600">
-                {personas.length} defined
+                {t('strategy.personasDefined', { count: personas.length })}
               </div>
             </div>
 
@@ -202,9 +181,9 @@ Format as JSON:
               }`}>
                 <TrendingUp className="w-6 h-6" />
               </div>
-              <div className="text-sm font-medium">Marketing</div>
+              <div className="text-sm font-medium">{t('strategy.element.marketing')}</div>
               <div className="text-xs text-gray-600">
-                {marketingStrategy ? 'Generated' : 'Pending'}
+                {marketingStrategy ? t('strategy.generated') : t('strategy.pending')}
               </div>
             </div>
           </div>
@@ -214,39 +193,39 @@ Format as JSON:
       {/* Strategy Summary */}
       <Tabs defaultValue="summary" className="space-y-4">
         <TabsList className="grid w-full grid-cols-3">
-          <TabsTrigger value="summary">Strategy Summary</TabsTrigger>
-          <TabsTrigger value="cohesion">Cohesion Analysis</TabsTrigger>
-          <TabsTrigger value="actions">Quick Actions</TabsTrigger>
+          <TabsTrigger value="summary">{t('strategy.tab.summary')}</TabsTrigger>
+          <TabsTrigger value="cohesion">{t('strategy.tab.cohesion')}</TabsTrigger>
+          <TabsTrigger value="actions">{t('strategy.tab.actions')}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="summary" className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Selected Elements</CardTitle>
+                <CardTitle className="text-lg">{t('strategy.selectedElements')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
                 <div>
-                  <div className="text-sm font-medium text-gray-600">Title</div>
+                  <div className="text-sm font-medium text-gray-600">{t('strategy.element.title')}</div>
                   <div className="font-medium">
-                    {selectedTitle || <span className="text-gray-400">Not selected</span>}
+                    {selectedTitle || <span className="text-gray-400">{t('strategy.notSelected')}</span>}
                   </div>
                 </div>
                 <div>
-                  <div className="text-sm font-medium text-gray-600">Cover</div>
+                  <div className="text-sm font-medium text-gray-600">{t('strategy.element.cover')}</div>
                   <div className="font-medium">
-                    {selectedCover || <span className="text-gray-400">Not selected</span>}
+                    {selectedCover || <span className="text-gray-400">{t('strategy.notSelected')}</span>}
                   </div>
                 </div>
                 <div>
-                  <div className="text-sm font-medium text-gray-600">Blurb</div>
+                  <div className="text-sm font-medium text-gray-600">{t('strategy.element.blurb')}</div>
                   <div className="text-sm">
                     {selectedBlurb ? (
                       selectedBlurb.length > 100 
                         ? `${selectedBlurb.substring(0, 100)}...`
                         : selectedBlurb
                     ) : (
-                      <span className="text-gray-400">Not selected</span>
+                      <span className="text-gray-400">{t('strategy.notSelected')}</span>
                     )}
                   </div>
                 </div>
@@ -255,7 +234,7 @@ Format as JSON:
 
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Target Audience</CardTitle>
+                <CardTitle className="text-lg">{t('strategy.targetAudience')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
@@ -273,24 +252,24 @@ Format as JSON:
           {marketingStrategy && (
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Marketing Strategy Overview</CardTitle>
+                <CardTitle className="text-lg">{t('strategy.marketingOverview')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
-                    <div className="text-sm font-medium text-gray-600 mb-2">Marketing Angles</div>
+                    <div className="text-sm font-medium text-gray-600 mb-2">{t('strategy.angles')}</div>
                     <div className="text-2xl font-bold text-blue-600">
                       {marketingStrategy.angles?.length || 0}
                     </div>
                   </div>
                   <div>
-                    <div className="text-sm font-medium text-gray-600 mb-2">Marketing Channels</div>
+                    <div className="text-sm font-medium text-gray-600 mb-2">{t('strategy.channels')}</div>
                     <div className="text-2xl font-bold text-green-600">
                       {marketingStrategy.channels?.length || 0}
                     </div>
                   </div>
                   <div>
-                    <div className="text-sm font-medium text-gray-600 mb-2">Campaign Ideas</div>
+                    <div className="text-sm font-medium text-gray-600 mb-2">{t('strategy.campaignIdeas')}</div>
                     <div className="text-2xl font-bold text-purple-600">
                       {marketingStrategy.campaignIdeas?.length || 0}
                     </div>
@@ -306,7 +285,7 @@ Format as JSON:
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <CheckCircle className="w-5 h-5" />
-                Strategy Cohesion Analysis
+                {t('strategy.cohesionTitle')}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -315,14 +294,14 @@ Format as JSON:
                 disabled={isAnalyzing || status.completed < 3}
                 className="w-full"
               >
-                {isAnalyzing ? 'Analyzing...' : 'Run Cohesion Check'}
+                {isAnalyzing ? t('strategy.analyzing') : t('strategy.runCohesion')}
               </Button>
 
               {status.completed < 3 && (
                 <Alert>
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>
-                    Complete at least title, cover, and blurb selection to run cohesion analysis.
+                    {t('strategy.cohesionRequirement')}
                   </AlertDescription>
                 </Alert>
               )}
@@ -334,14 +313,14 @@ Format as JSON:
                       cohesionCheck.overallScore >= 80 ? 'text-green-600' :
                       cohesionCheck.overallScore >= 60 ? 'text-yellow-600' : 'text-red-600'
                     }`}>
-                      {cohesionCheck.overallScore}%
+                      {formatPercent(cohesionCheck.overallScore / 100)}
                     </div>
-                    <div className="text-gray-600">Overall Cohesion Score</div>
+                    <div className="text-gray-600">{t('strategy.cohesionScore')}</div>
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
-                      <h4 className="font-medium text-green-600 mb-2">Strengths</h4>
+                      <h4 className="font-medium text-green-600 mb-2">{t('strategy.strengths')}</h4>
                       <ul className="space-y-1">
                         {cohesionCheck.strengths.map((strength, index) => (
                           <li key={index} className="text-sm">• {strength}</li>
@@ -350,7 +329,7 @@ Format as JSON:
                     </div>
 
                     <div>
-                      <h4 className="font-medium text-red-600 mb-2">Areas to Improve</h4>
+                      <h4 className="font-medium text-red-600 mb-2">{t('strategy.weaknesses')}</h4>
                       <ul className="space-y-1">
                         {cohesionCheck.weaknesses.map((weakness, index) => (
                           <li key={index} className="text-sm">• {weakness}</li>
@@ -360,7 +339,7 @@ Format as JSON:
                   </div>
 
                   <div>
-                    <h4 className="font-medium mb-2">Recommendations</h4>
+                    <h4 className="font-medium mb-2">{t('strategy.recommendations')}</h4>
                     <ul className="space-y-2">
                       {cohesionCheck.recommendations.map((rec, index) => (
                         <li key={index} className="p-3 bg-blue-50 rounded-md text-sm">
@@ -379,7 +358,7 @@ Format as JSON:
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Refine Strategy</CardTitle>
+                <CardTitle className="text-lg">{t('strategy.refine')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
                 <Button 
@@ -388,7 +367,7 @@ Format as JSON:
                   onClick={() => onGoToModule('titles')}
                 >
                   <RefreshCw className="w-4 h-4 mr-2" />
-                  Refine Title Options
+                  {t('strategy.refineTitles')}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -396,7 +375,7 @@ Format as JSON:
                   onClick={() => onGoToModule('covers')}
                 >
                   <RefreshCw className="w-4 h-4 mr-2" />
-                  Test New Cover Concepts
+                  {t('strategy.refineCovers')}
                 </Button>
                 <Button 
                   variant="outline" 
@@ -404,14 +383,14 @@ Format as JSON:
                   onClick={() => onGoToModule('blurbs')}
                 >
                   <RefreshCw className="w-4 h-4 mr-2" />
-                  Optimize Blurb Copy
+                  {t('strategy.refineBlurbs')}
                 </Button>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Export & Share</CardTitle>
+                <CardTitle className="text-lg">{t('strategy.export')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
                 <Button 
@@ -420,10 +399,10 @@ Format as JSON:
                   disabled={status.completed < 4}
                 >
                   <Download className="w-4 h-4 mr-2" />
-                  Export Complete Strategy
+                  {t('strategy.exportStrategy')}
                 </Button>
                 <div className="text-xs text-gray-600">
-                  {status.completed < 4 && "Complete more sections to export"}
+                  {status.completed < 4 && t('strategy.exportRequirement')}
                 </div>
               </CardContent>
             </Card>
@@ -8,6 +8,7 @@ import { Play } from 'lucide-react';
 import { useBookContext } from './BookContextProvider';
 import { MarketValidationAI } from './AIProcessor';
 import { MarketPosition, ReaderPersona } from './types';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface TargetAudienceModuleProps {
   marketPosition: MarketPosition | null;
@@ -19,13 +20,14 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
   onComplete
 }) => {
   const bookContext = useBookContext();
+  const { t } = useI18n();
   const [isGenerating, setIsGenerating] = useState(false);
   const [personas, setPersonas] = useState<ReaderPersona[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   const generatePersonas = async () => {
     if (!marketPosition) {
-      setError('Bitte führen Sie zuerst die Marktanalyse durch.');
+      setError(t('audience.error.noMarketPosition'));
       return;
     }
 
@@ -33,20 +35,16 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
     setError(null);
 
     try {
-      // This would need actual AI configuration - for now using dummy config
-      const aiConfig = { apiKey: 'dummy', model: 'gpt-3.5-turbo' };
-      
       const generatedPersonas = await MarketValidationAI.generateTargetPersonas(
         bookContext,
-        marketPosition,
-        aiConfig
+        marketPosition
       );
       
       setPersonas(generatedPersonas);
       onComplete(generatedPersonas);
     } catch (error) {
       console.error('Persona generation error:', error);
-      setError('Fehler bei der Persona-Generierung. Bitte versuchen Sie es erneut.');
+      setError(t('audience.error.failed'));
     } finally {
       setIsGenerating(false);
     }
@@ -56,19 +54,19 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Zielgruppen-Personas</CardTitle>
+          <CardTitle>{t('audience.title')}</CardTitle>
           <p className="text-sm text-gray-600">
-            Generiere detaillierte Leser-Personas basierend auf deinem Buch und der Marktpositionierung
+            {t('audience.subtitle')}
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {marketPosition && (
             <div className="bg-blue-50 p-4 rounded-lg">
-              <h4 className="font-medium text-blue-900 mb-2">Aktuelle Marktpositionierung</h4>
+              <h4 className="font-medium text-blue-900 mb-2">{t('audience.currentPosition')}</h4>
               <div className="space-y-2">
-                <p className="text-sm"><strong>Genre:</strong> {marketPosition.genre}</p>
+                <p className="text-sm"><strong>{t('audience.genre')}</strong> {marketPosition.genre}</p>
                 <div className="flex flex-wrap gap-1">
-                  <span className="text-sm font-medium">Sub-Genres:</span>
+                  <span className="text-sm font-medium">{t('audience.subGenres')}</span>
                   {marketPosition.subGenres.map((subGenre, index) => (
                     <Badge key={index} variant="outline" className="text-xs">
                       {subGenre}
@@ -91,7 +89,7 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
             className="w-full"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isGenerating ? 'Generiere Personas...' : 'Leser-Personas generieren'}
+            {isGenerating ? t('audience.generating') : t('audience.generate')}
           </Button>
         </CardContent>
       </Card>
@@ -99,7 +97,7 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
       {/* Personas Display */}
       {personas.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Generierte Leser-Personas</h3>
+          <h3 className="text-lg font-semibold">{t('audience.results')}</h3>
           {personas.map((persona) => (
             <Card key={persona.id}>
               <CardHeader>
@@ -109,31 +107,31 @@ export const TargetAudienceModule: React.FC<TargetAudienceModuleProps> = ({
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
-                    <h4 className="font-medium mb-2">Demografische Daten</h4>
+                    <h4 className="font-medium mb-2">{t('audience.demographics')}</h4>
                     <div className="text-sm space-y-1">
-                      <p><strong>Alter:</strong> {persona.demographics.ageRange}</p>
-                      <p><strong>Geschlecht:</strong> {persona.demographics.gender}</p>
-                      <p><strong>Bildung:</strong> {persona.demographics.education}</p>
-                      <p><strong>Beruf:</strong> {persona.demographics.occupation}</p>
+                      <p><strong>{t('audience.age')}</strong> {persona.demographics.ageRange}</p>
+                      <p><strong>{t('audience.gender')}</strong> {persona.demographics.gender}</p>
+                      <p><strong>{t('audience.education')}</strong> {persona.demographics.education}</p>
+                      <p><strong>{t('audience.occupation')}</strong> {persona.demographics.occupation}</p>
                     </div>
                   </div>
                   <div>
-                    <h4 className="font-medium mb-2">Lesegewohnheiten</h4>
+                    <h4 className="font-medium mb-2">{t('audience.readingHabits')}</h4>
                     <div className="text-sm space-y-1">
-                      <p><strong>Häufigkeit:</strong> {persona.readingHabits.frequency}</p>
-                      <p><strong>Formate:</strong> {persona.readingHabits.preferredFormats.join(', ')}</p>
-                      <p><strong>Lieblings-Genres:</strong> {persona.readingHabits.favoriteGenres.join(', ')}</p>
+                      <p><strong>{t('audience.frequency')}</strong> {persona.readingHabits.frequency}</p>
+                      <p><strong>{t('audience.formats')}</strong> {persona.readingHabits.preferredFormats.join(', ')}</p>
+                      <p><strong>{t('audience.favoriteGenres')}</strong> {persona.readingHabits.favoriteGenres.join(', ')}</p>
                     </div>
                   </div>
                   <div>
-                    <h4 className="font-medium mb-2">Psychografie</h4>
+                    <h4 className="font-medium mb-2">{t('audience.psychographics')}</h4>
                     <div className="text-sm space-y-1">
-                      <p><strong>Werte:</strong> {persona.psychographics.values.join(', ')}</p>
-                      <p><strong>Motivationen:</strong> {persona.psychographics.motivations.join(', ')}</p>
+                      <p><strong>{t('audience.values')}</strong> {persona.psychographics.values.join(', ')}</p>
+                      <p><strong>{t('audience.motivations')}</strong> {persona.psychographics.motivations.join(', ')}</p>
                     </div>
                   </div>
                   <div>
-                    <h4 className="font-medium mb-2">Buchverbindungen</h4>
+                    <h4 className="font-medium mb-2">{t('audience.bookConnections')}</h4>
                     <ul className="text-sm list-disc list-inside">
                       {persona.bookConnectionPoints.map((point, index) => (
                         <li key={index}>{point}</li>
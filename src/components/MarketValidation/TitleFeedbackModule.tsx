@@ -9,6 +9,8 @@ import { Trash2, Plus, Play } from 'lucide-react';
 import { ReaderPersona } from './types';
 import { useBookContext } from './BookContextProvider';
 import { MarketValidationAI } from './AIProcessor';
+import { AIProvider } from '../../utils/aiProvider';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface TitleFeedbackModuleProps {
   personas: ReaderPersona[];
@@ -37,6 +39,7 @@ export const TitleFeedbackModule: React.FC<TitleFeedbackModuleProps> = ({
   onComplete
 }) => {
   const bookContext = useBookContext();
+  const { t, formatNumber } = useI18n();
   const [titles, setTitles] = useState<string[]>(['']);
   const [selectedPersonas, setSelectedPersonas] = useState<string[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -67,16 +70,18 @@ export const TitleFeedbackModule: React.FC<TitleFeedbackModuleProps> = ({
     );
   };
 
+  const formatScore = (score: number) => formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   const analyzeTitles = async () => {
-    const validTitles = titles.filter(t => t.trim());
+    const validTitles = titles.filter(title => title.trim());
     
     if (validTitles.length === 0) {
-      setError('Bitte geben Sie mindestens einen Titel an.');
+      setError(t('titleFeedback.error.noTitle'));
       return;
     }
 
     if (selectedPersonas.length === 0) {
-      setError('Bitte wählen Sie mindestens eine Persona aus.');
+      setError(t('feedback.error.noPersona'));
       return;
     }
 
@@ -85,10 +90,7 @@ export const TitleFeedbackModule: React.FC<TitleFeedbackModuleProps> = ({
 
     try {
       const selectedPersonaObjects = personas.filter(p => selectedPersonas.includes(p.id));
-      const aiConfig = { 
-        apiKey: localStorage.getItem('openai_api_key') || '', 
-        model: localStorage.getItem('openai_model') || 'gpt-4o-mini' 
-      };
+      const aiConfig = AIProvider.resolveConfig();
       
       const results: TitleFeedback[] = [];
       
@@ -101,7 +103,7 @@ export const TitleFeedbackModule: React.FC<TitleFeedbackModuleProps> = ({
       onComplete(results);
     } catch (error) {
       console.error('Title analysis error:', error);
-      setError(`Fehler bei der Titel-Analyse: ${error.message}`);
+      setError(t('titleFeedback.error.failed', { message: error.message }));
     } finally {
       setIsAnalyzing(false);
     }
@@ -113,46 +115,11 @@ export const TitleFeedbackModule: React.FC<TitleFeedbackModuleProps> = ({
     bookContext: any,
     aiConfig: any
   ): Promise<TitleFeedback> => {
-    const prompt = `Analysiere den Buchtitel "${title}" für verschiedene Leser-Personas basierend auf dem Buchinhalt:
-
-BUCHINHALT (Auszug): "${bookContext.content.substring(0, 2000)}..."
-
-PERSONAS:
-${personas.map(p => `
-- ${p.name}: ${p.demographics.ageRange}, ${p.demographics.occupation}
-  Lesegewohnheiten: ${p.readingHabits.favoriteGenres.join(', ')}
-  Motivationen: ${p.psychographics.motivations.join(', ')}
-`).join('\n')}
-
-Bewerte für jede Persona den Titel auf einer Skala von 1-10:
-- Anziehungskraft (appealScore)
-- Genre-Klarheit (genreClarity)  
-- Einprägsamkeit (memorability)
-- Thematische Passung (thematicFit)
-
-Gib auch Kommentare, positive Assoziationen und mögliche Bedenken an.
-
-Antworte in diesem JSON-Format:
-{
-  "title": "${title}",
-  "personaFeedback": [
-    {
-      "personaId": "persona_id",
-      "personaName": "Name",
-      "appealScore": 8,
-      "genreClarity": 7,
-      "memorability": 9,
-      "thematicFit": 8,
-      "comments": "Detailliertes Feedback...",
-      "positiveAssociations": ["Aspekt 1", "Aspekt 2"],
-      "concerns": ["Mögliche Bedenken"]
-    }
-  ],
-  "overallScore": 8.0,
-  "summary": "Zusammenfassung der Bewertung"
-}`;
-
-    const response = await MarketValidationAI.processPrompt(prompt, aiConfig);
+    const response = await MarketValidationAI.runTemplate('title_feedback', {
+      title,
+      bookExcerpt: MarketValidationAI.bookExcerpt('title_feedback', bookContext.content),
+      personas: MarketValidationAI.formatPersonas(personas)
+    }, aiConfig);
     return JSON.parse(response);
   };
 
@@ -160,22 +127,22 @@ Antworte in diesem JSON-Format:
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Titel-Feedback Simulator</CardTitle>
+          <CardTitle>{t('titleFeedback.title')}</CardTitle>
           <p className="text-sm text-gray-600">
-            Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Titeloptionen
+            {t('titleFeedback.subtitle')}
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Title Input */}
           <div>
-            <Label className="text-base font-medium">Titel-Optionen</Label>
+            <Label className="text-base font-medium">{t('titleFeedback.options')}</Label>
             <div className="space-y-2 mt-2">
               {titles.map((title, index) => (
                 <div key={index} className="flex gap-2">
                   <Input
                     value={title}
                     onChange={(e) => updateTitle(index, e.target.value)}
-                    placeholder={`Titel ${index + 1}`}
+                    placeholder={t('titleFeedback.placeholder', { number: index + 1 })}
                     className="flex-1"
                   />
                   {titles.length > 1 && (
@@ -191,18 +158,18 @@ Antworte in diesem JSON-Format:
               ))}
               <Button variant="outline" onClick={addTitle} className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
-                Titel hinzufügen
+                {t('titleFeedback.add')}
               </Button>
             </div>
           </div>
 
           {/* Persona Selection */}
           <div>
-            <Label className="text-base font-medium">Personas für Feedback auswählen</Label>
+            <Label className="text-base font-medium">{t('feedback.selectPersonas')}</Label>
             {personas.length === 0 ? (
               <Alert>
                 <AlertDescription>
-                  Bitte generieren Sie zuerst Zielgruppen-Personas im vorherigen Schritt.
+                  {t('feedback.noPersonas')}
                 </AlertDescription>
               </Alert>
             ) : (
@@ -233,7 +200,7 @@ Antworte in diesem JSON-Format:
             className="w-full"
           >
             <Play className="w-4 h-4 mr-2" />
-            {isAnalyzing ? 'Analysiere Titel...' : 'Titel-Feedback simulieren'}
+            {isAnalyzing ? t('titleFeedback.running') : t('titleFeedback.run')}
           </Button>
         </CardContent>
       </Card>
@@ -241,15 +208,15 @@ Antworte in diesem JSON-Format:
       {/* Results Display */}
       {feedback.length > 0 && (
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Titel-Feedback Ergebnisse</h3>
+          <h3 className="text-lg font-semibold">{t('titleFeedback.results')}</h3>
           {feedback.map((result, index) => (
             <Card key={index}>
               <CardHeader>
                 <CardTitle className="text-base">"{result.title}"</CardTitle>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-600">Gesamtbewertung:</span>
+                  <span className="text-sm text-gray-600">{t('feedback.overallScore')}</span>
                   <Badge variant={result.overallScore >= 8 ? "default" : result.overallScore >= 7 ? "secondary" : "outline"}>
-                    {result.overallScore.toFixed(1)}/10
+                    {t('common.score', { score: formatScore(result.overallScore) })}
                   </Badge>
                 </div>
               </CardHeader>
@@ -261,12 +228,12 @@ Antworte in diesem JSON-Format:
                     <div key={pf.personaId} className="border rounded-lg p-3">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-medium">{pf.personaName}</h4>
-                        <Badge variant="outline">{pf.appealScore}/10</Badge>
+                        <Badge variant="outline">{t('common.score', { score: pf.appealScore })}</Badge>
                       </div>
                       <p className="text-sm text-gray-600 mb-2">{pf.comments}</p>
                       <div className="grid grid-cols-2 gap-4 text-xs">
                         <div>
-                          <span className="font-medium">Positiv:</span>
+                          <span className="font-medium">{t('feedback.positive')}</span>
                           <ul className="list-disc list-inside">
                             {pf.positiveAssociations.map((pos, i) => (
                               <li key={i}>{pos}</li>
@@ -275,7 +242,7 @@ Antworte in diesem JSON-Format:
                         </div>
                         {pf.concerns.length > 0 && (
                           <div>
-                            <span className="font-medium">Bedenken:</span>
+                            <span className="font-medium">{t('feedback.concerns')}</span>
                             <ul className="list-disc list-inside">
                               {pf.concerns.map((concern, i) => (
                                 <li key={i}>{concern}</li>
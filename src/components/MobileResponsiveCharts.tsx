@@ -1,6 +1,6 @@
 import React from 'react';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
-import { BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, ErrorBar, LineChart, Line, PieChart, Pie, Cell, AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts';
 import { useMobile } from '@/hooks/use-mobile';
 
 interface MobileResponsiveBarChartProps {
@@ -11,6 +11,8 @@ interface MobileResponsiveBarChartProps {
   className?: string;
   categories?: string[];
   colors?: string[];
+  // Maps a category to the data key holding its ± deviation, drawn as error bars
+  errorKeys?: Record<string, string>;
 }
 
 export const MobileResponsiveBarChart: React.FC<MobileResponsiveBarChartProps> = ({
@@ -20,7 +22,8 @@ export const MobileResponsiveBarChart: React.FC<MobileResponsiveBarChartProps> =
   name,
   className,
   categories = [],
-  colors = ['#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1']
+  colors = ['#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1'],
+  errorKeys
 }) => {
   const isMobile = useMobile();
   
@@ -56,7 +59,11 @@ export const MobileResponsiveBarChart: React.FC<MobileResponsiveBarChartProps> =
               dataKey={key} 
               fill={colors[index % colors.length]}
               name={key}
-            />
+            >
+              {errorKeys?.[key] && (
+                <ErrorBar dataKey={errorKeys[key]} width={4} strokeWidth={1.5} stroke="#334155" />
+              )}
+            </Bar>
           ))}
         </BarChart>
       </ChartContainer>
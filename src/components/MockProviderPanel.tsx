@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Upload, Trash2, FlaskConical } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MockAIProvider, MockMode } from '../utils/mockProvider';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface MockProviderPanelProps {
+  onModeChange?: (mode: MockMode) => void;
+}
+
+const MODE_OPTIONS: { value: MockMode; label: MessageKey; description: MessageKey }[] = [
+  { value: 'off', label: 'mock.mode.off', description: 'mock.mode.offDescription' },
+  { value: 'record', label: 'mock.mode.record', description: 'mock.mode.recordDescription' },
+  { value: 'replay', label: 'mock.mode.replay', description: 'mock.mode.replayDescription' },
+  { value: 'synthetic', label: 'mock.mode.synthetic', description: 'mock.mode.syntheticDescription' }
+];
+
+export const MockProviderPanel: React.FC<MockProviderPanelProps> = ({ onModeChange }) => {
+  const [mode, setMode] = useState<MockMode>(() => MockAIProvider.getMode());
+  const [fixtureCount, setFixtureCount] = useState(() => MockAIProvider.loadFixtures().length);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  const handleModeChange = (value: MockMode) => {
+    MockAIProvider.setMode(value);
+    setMode(value);
+    onModeChange?.(value);
+  };
+
+  const exportFixtures = () => {
+    const blob = new Blob([MockAIProvider.exportFixtures()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ai-fixtures.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFixtures = async (file: File) => {
+    try {
+      const imported = MockAIProvider.importFixtures(await file.text());
+      setFixtureCount(MockAIProvider.loadFixtures().length);
+      toast({
+        title: t('mock.toast.imported'),
+        description: t('mock.toast.importedDescription', { count: imported }),
+      });
+    } catch (error) {
+      toast({
+        title: t('mock.toast.importFailed'),
+        description: error instanceof Error ? error.message : t('mock.toast.unreadable'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearFixtures = () => {
+    MockAIProvider.clearFixtures();
+    setFixtureCount(0);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="mock-mode" className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4" />
+          {t('mock.title')}
+        </Label>
+        <Badge variant="outline">{t('mock.fixtures', { count: fixtureCount })}</Badge>
+      </div>
+
+      <Select value={mode} onValueChange={(value) => handleModeChange(value as MockMode)}>
+        <SelectTrigger id="mock-mode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MODE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <div>
+                <div className="font-medium">{t(option.label)}</div>
+                <div className="text-xs text-slate-500">{t(option.description)}</div>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={exportFixtures} disabled={fixtureCount === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          {t('mock.export')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          {t('mock.import')}
+        </Button>
+        <Button variant="outline" size="sm" onClick={clearFixtures} disabled={fixtureCount === 0}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          {t('mock.clear')}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFixtures(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
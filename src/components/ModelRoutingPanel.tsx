@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Route, RotateCcw } from 'lucide-react';
+import { ModelRouting, RoutableTask, RoutingTable, TaskRoute, ROUTABLE_TASKS } from '../utils/modelRouting';
+import { PromptTemplates } from '../utils/promptTemplates';
+import { OutputLanguages } from '../utils/outputLanguage';
+import { MODULE_LABELS } from '../utils/usageLedger';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface ModelRoutingPanelProps {
+  defaultModel: string;
+}
+
+export const ModelRoutingPanel: React.FC<ModelRoutingPanelProps> = ({ defaultModel }) => {
+  const { t } = useI18n();
+  const [table, setTable] = useState<RoutingTable>(() => ModelRouting.loadTable());
+  const [templates] = useState(() => PromptTemplates.loadAll());
+
+  const update = (next: RoutingTable) => {
+    ModelRouting.saveTable(next);
+    setTable(next);
+  };
+
+  const updateRoute = (task: RoutableTask, patch: Partial<TaskRoute>) => {
+    update({ ...table, [task]: { ...table[task], ...patch } });
+  };
+
+  // Clearing a numeric field hands the value back to the engine's default
+  const parseNumber = (value: string, parse: (value: string) => number) => {
+    const parsed = parse(value);
+    return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Route className="w-4 h-4" />
+          {t('routing.title')}
+        </Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update({})}
+          disabled={Object.keys(ModelRouting.normalize(table)).length === 0}
+        >
+          <RotateCcw className="w-4 h-4 mr-2" />
+          {t('routing.reset')}
+        </Button>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-600">
+            <th className="py-1 font-medium">{t('routing.task')}</th>
+            <th className="py-1 font-medium">{t('routing.model')}</th>
+            <th className="py-1 font-medium w-24">{t('routing.temperature')}</th>
+            <th className="py-1 font-medium w-28">{t('routing.maxTokens')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROUTABLE_TASKS.map((task) => {
+            const route = table[task] ?? {};
+            const defaults = PromptTemplates.getActive(task, OutputLanguages.resolve(), templates);
+            return (
+              <tr key={task}>
+                <td className="py-1 pr-2">{t(MODULE_LABELS[task])}</td>
+                <td className="py-1 pr-2">
+                  <Input
+                    aria-label={t('routing.modelFor', { task: t(MODULE_LABELS[task]) })}
+                    value={route.model ?? ''}
+                    onChange={(e) => updateRoute(task, { model: e.target.value })}
+                    placeholder={defaultModel}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <Input
+                    aria-label={t('routing.temperatureFor', { task: t(MODULE_LABELS[task]) })}
+                    type="number"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={route.temperature ?? ''}
+                    onChange={(e) => {
+                      const parsed = parseNumber(e.target.value, parseFloat);
+                      updateRoute(task, { temperature: parsed === undefined ? undefined : Math.min(2, Math.max(0, parsed)) });
+                    }}
+                    placeholder={String(defaults.temperature)}
+                  />
+                </td>
+                <td className="py-1">
+                  <Input
+                    aria-label={t('routing.maxTokensFor', { task: t(MODULE_LABELS[task]) })}
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={route.maxTokens ?? ''}
+                    onChange={(e) => updateRoute(task, { maxTokens: parseNumber(e.target.value, value => parseInt(value, 10)) })}
+                    placeholder={String(defaults.maxTokens)}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-slate-500">
+        {t('routing.hint')}
+      </p>
+    </div>
+  );
+};
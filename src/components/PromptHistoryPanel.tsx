@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RotateCcw } from 'lucide-react';
+import { PromptTemplate } from '../utils/promptTemplates';
+import { PromptHistory, PromptVersion } from '../utils/promptHistory';
+import { diffLines, hasChanges } from '../utils/textDiff';
+import { I18n, MessageKey } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface PromptHistoryPanelProps {
+  template: PromptTemplate;
+  onRestore: (version: PromptVersion) => void;
+}
+
+const formatSavedAt = (version: PromptVersion) =>
+  version.savedAt ? I18n.formatDateTime(new Date(version.savedAt)) : I18n.t('promptHistory.original');
+
+const DiffView: React.FC<{ label: string; before: string; after: string }> = ({ label, before, after }) => {
+  const { t } = useI18n();
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  return (
+    <div>
+      <Label>{label}</Label>
+      {hasChanges(lines) ? (
+        <pre className="mt-1 max-h-80 overflow-auto rounded border border-slate-200 text-xs whitespace-pre-wrap">
+          {lines.map((line, index) => (
+            <div
+              key={index}
+              className={
+                line.type === 'added' ? 'bg-green-50 text-green-800' :
+                line.type === 'removed' ? 'bg-red-50 text-red-800 line-through' :
+                'text-slate-600'
+              }
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="mt-1 text-xs text-slate-500">{t('promptHistory.noChanges')}</p>
+      )}
+    </div>
+  );
+};
+
+export const PromptHistoryPanel: React.FC<PromptHistoryPanelProps> = ({ template, onRestore }) => {
+  const { t } = useI18n();
+  const versions = PromptHistory.getVersions(template);
+  const latest = versions[versions.length - 1];
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+
+  // A new save or another template compares the two most recent versions again
+  useEffect(() => {
+    setFromVersion('');
+    setToVersion('');
+  }, [template.id, versions.length]);
+
+  const from = versions.find(version => version.version === fromVersion) ?? versions[Math.max(0, versions.length - 2)];
+  const to = versions.find(version => version.version === toVersion) ?? latest;
+
+  return (
+    <div className="space-y-4">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-600">
+            <th className="py-1 font-medium">{t('promptHistory.version')}</th>
+            <th className="py-1 font-medium">{t('promptHistory.saved')}</th>
+            <th className="py-1 font-medium">{t('promptHistory.temperature')}</th>
+            <th className="py-1 font-medium">{t('promptHistory.maxTokens')}</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {[...versions].reverse().map(version => (
+            <tr key={version.version} className="border-t border-slate-100">
+              <td className="py-1 font-mono">v{version.version}</td>
+              <td className="py-1">{formatSavedAt(version)}</td>
+              <td className="py-1">{version.temperature}</td>
+              <td className="py-1">{version.maxTokens}</td>
+              <td className="py-1 text-right">
+                {version !== latest && (
+                  <Button variant="ghost" size="sm" onClick={() => onRestore(version)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {t('promptHistory.restore')}
+                  </Button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {versions.length < 2 ? (
+        <p className="flex items-center gap-2 text-sm text-slate-600">
+          <History className="w-4 h-4" />
+          {t('promptHistory.noVersions')}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            {([
+              { label: 'promptHistory.compare', value: from.version, onChange: setFromVersion },
+              { label: 'promptHistory.with', value: to.version, onChange: setToVersion }
+            ] as { label: MessageKey; value: string; onChange: (value: string) => void }[]).map(({ label, value, onChange }) => (
+              <div key={label}>
+                <Label>{t(label)}</Label>
+                <Select value={value} onValueChange={onChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.version} value={version.version}>
+                        v{version.version} · {formatSavedAt(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {(from.temperature !== to.temperature || from.maxTokens !== to.maxTokens) && (
+            <p className="text-sm text-slate-600">
+              {t('promptHistory.settingsChange', {
+                fromTemperature: from.temperature,
+                toTemperature: to.temperature,
+                fromMaxTokens: from.maxTokens,
+                toMaxTokens: to.maxTokens
+              })}
+            </p>
+          )}
+          <DiffView label={t('promptHistory.systemPrompt')} before={from.systemPrompt} after={to.systemPrompt} />
+          <DiffView label={t('promptHistory.userPrompt')} before={from.userPrompt} after={to.userPrompt} />
+        </>
+      )}
+    </div>
+  );
+};
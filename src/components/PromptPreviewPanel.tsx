@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Eye } from 'lucide-react';
+import { ReaderArchetype } from './BookAnalyzer';
+import { AIConfig } from './AIAnalysisService';
+import { PreviewPipeline, PromptPreview, StepPreview } from '../utils/promptPreview';
+import { TextStructure } from '../utils/textChunking';
+import { ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { MODULE_LABELS } from '../utils/usageLedger';
+import { useI18n } from '@/hooks/use-i18n';
+import { MessageKey } from '../utils/i18n';
+
+interface PromptPreviewPanelProps {
+  fileContent: string;
+  archetypes: ReaderArchetype[];
+  aiConfig: AIConfig;
+  twoLayer: boolean;
+  structure?: TextStructure;
+  // Chunks are previewed as a revision run of this project would cut them
+  projectId?: string;
+}
+
+const PIPELINE_LABELS: Record<PreviewPipeline, MessageKey> = {
+  standard: 'promptPreview.pipeline.standard',
+  two_layer: 'promptPreview.pipeline.two_layer',
+  market: 'promptPreview.pipeline.market'
+};
+
+const STATUS_BADGES: Record<StepPreview['status'], { label: MessageKey; variant: 'secondary' | 'outline' | 'destructive' }> = {
+  ok: { label: 'promptPreview.status.ok', variant: 'secondary' },
+  near_limit: { label: 'promptPreview.status.near_limit', variant: 'outline' },
+  overflow: { label: 'promptPreview.status.overflow', variant: 'destructive' }
+};
+
+export const PromptPreviewPanel: React.FC<PromptPreviewPanelProps> = ({ fileContent, archetypes, aiConfig, twoLayer, structure, projectId }) => {
+  const { t } = useI18n();
+  const [pipeline, setPipeline] = useState<PreviewPipeline>(twoLayer ? 'two_layer' : 'standard');
+  const [chunkIndex, setChunkIndex] = useState(0);
+  const [archetypeId, setArchetypeId] = useState(archetypes[0]?.id ?? '');
+
+  const chunks = useMemo(
+    () => pipeline === 'market' ? [] : PromptPreview.getChunks(
+      fileContent,
+      pipeline,
+      aiConfig,
+      ManuscriptRevisions.anchoredStructure(structure, projectId && ManuscriptRevisions.latestRevision(projectId, pipeline))
+    ),
+    [fileContent, pipeline, aiConfig, structure, projectId]
+  );
+  const archetype = archetypes.find(candidate => candidate.id === archetypeId) ?? archetypes[0];
+
+  const steps = useMemo(
+    () => archetype
+      ? PromptPreview.render(pipeline, { content: fileContent, chunk: chunks[chunkIndex]?.content ?? '', archetype, aiConfig })
+      : [],
+    [pipeline, fileContent, chunks, chunkIndex, archetype, aiConfig]
+  );
+
+  const changePipeline = (value: PreviewPipeline) => {
+    setPipeline(value);
+    setChunkIndex(0);
+  };
+
+  const problems = steps.filter(step => step.error || step.status === 'overflow');
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 flex items-center gap-2">
+        <Eye className="w-4 h-4" />
+        {t('promptPreview.intro')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>{t('promptPreview.pipeline')}</Label>
+          <Select value={pipeline} onValueChange={value => changePipeline(value as PreviewPipeline)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PIPELINE_LABELS) as PreviewPipeline[]).map(key => (
+                <SelectItem key={key} value={key}>{t(PIPELINE_LABELS[key])}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>{t('promptPreview.chunk')}</Label>
+          <Select
+            value={String(chunkIndex)}
+            onValueChange={value => setChunkIndex(parseInt(value))}
+            disabled={pipeline === 'market'}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={t('promptPreview.bookStart')} />
+            </SelectTrigger>
+            <SelectContent>
+              {chunks.map((chunk, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {t('promptPreview.chunkOption', { title: chunk.title ?? t('promptPreview.chunkNumber', { number: index + 1 }), words: chunk.wordCount })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>{t('promptPreview.archetype')}</Label>
+          <Select value={archetype?.id ?? ''} onValueChange={setArchetypeId} disabled={pipeline === 'market'}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {archetypes.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {problems.map(step => step.error
+              ? t('promptPreview.stepError', { step: t(MODULE_LABELS[step.task]), error: step.error })
+              : t('promptPreview.overflow', { step: t(MODULE_LABELS[step.task]), model: step.model })
+            ).join(' ')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Accordion type="multiple" className="w-full">
+        {steps.map(step => {
+          const used = step.promptTokens + step.reservedTokens + step.maxTokens;
+          const badge = STATUS_BADGES[step.status];
+          return (
+            <AccordionItem key={step.task} value={step.task}>
+              <AccordionTrigger>
+                <div className="flex flex-1 items-center justify-between gap-4 pr-4 text-left">
+                  <span>{t(MODULE_LABELS[step.task])}</span>
+                  <span className="flex items-center gap-2 text-xs font-normal text-slate-600">
+                    {step.error ? (
+                      <Badge variant="destructive">{t('promptPreview.error')}</Badge>
+                    ) : (
+                      <>
+                        {t('promptPreview.tokens', { used, window: step.contextWindow })}
+                        <Badge variant={badge.variant}>{t(badge.label)}</Badge>
+                      </>
+                    )}
+                  </span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-3">
+                {step.error ? (
+                  <p className="text-sm text-red-600">{step.error}</p>
+                ) : (
+                  <>
+                    <div className="space-y-1">
+                      <Progress value={Math.min(100, (used / step.contextWindow) * 100)} />
+                      <p className="text-xs text-slate-600">
+                        {t(step.reservedTokens > 0 ? 'promptPreview.usageReserved' : 'promptPreview.usage', {
+                          model: step.model,
+                          prompt: step.promptTokens,
+                          reserved: step.reservedTokens,
+                          completion: step.maxTokens,
+                          window: step.contextWindow
+                        })}
+                      </p>
+                    </div>
+                    {step.notes.length > 0 && (
+                      <ul className="text-xs text-amber-700">
+                        {step.notes.map(note => <li key={note}>• {note}</li>)}
+                      </ul>
+                    )}
+                    <div>
+                      <Label>{t('promptPreview.systemPrompt')}</Label>
+                      <pre className="mt-1 max-h-40 overflow-auto rounded bg-slate-50 p-2 text-xs whitespace-pre-wrap">{step.systemPrompt}</pre>
+                    </div>
+                    <div>
+                      <Label>{t('promptPreview.userPrompt')}</Label>
+                      <pre className="mt-1 max-h-80 overflow-auto rounded bg-slate-50 p-2 text-xs whitespace-pre-wrap">{step.userPrompt}</pre>
+                    </div>
+                  </>
+                )}
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, FlaskConical, Square } from 'lucide-react';
+import { ReaderArchetype } from './BookAnalyzer';
+import { AIConfig } from './AIAnalysisService';
+import { PromptTemplates } from '../utils/promptTemplates';
+import { PromptHistory, PromptVersion } from '../utils/promptHistory';
+import { PromptTrial, TrialResult, TrialSide, TrialTask, TRIAL_TASKS } from '../utils/promptTrial';
+import { RATING_DIMENSIONS, RATING_DIMENSION_LABELS } from '../utils/ensemble';
+import { RunControl } from '../utils/runControl';
+import { UsageLedger, MODULE_LABELS } from '../utils/usageLedger';
+import { ModelRouting } from '../utils/modelRouting';
+import { TextStructure } from '../utils/textChunking';
+import { ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface PromptTrialPanelProps {
+  fileContent: string;
+  archetypes: ReaderArchetype[];
+  aiConfig: AIConfig;
+  structure?: TextStructure;
+  // Samples are chunked like a revision run of this project would chunk them
+  projectId?: string;
+}
+
+const versionKey = (version: PromptVersion) => `${version.id}@${version.version}`;
+const versionLabel = (version: PromptVersion) => `${version.name} v${version.version}`;
+
+// Bars for the rounded overall ratings 1-10 of one side
+const Histogram: React.FC<{ side: TrialSide; color: string }> = ({ side, color }) => {
+  const buckets = side.histogram.overallRating;
+  const max = Math.max(1, ...buckets);
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-16">
+        {buckets.map((count, index) => (
+          <div
+            key={index}
+            className={`flex-1 rounded-t ${color}`}
+            style={{ height: `${(count / max) * 100}%` }}
+            title={`${index + 1}/10: ${count}`}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-slate-500">
+        {buckets.map((_, index) => <span key={index} className="flex-1 text-center">{index + 1}</span>)}
+      </div>
+    </div>
+  );
+};
+
+export const PromptTrialPanel: React.FC<PromptTrialPanelProps> = ({ fileContent, archetypes, aiConfig, structure, projectId }) => {
+  const { t, formatNumber } = useI18n();
+  const [task, setTask] = useState<TrialTask>('reader_analysis');
+  const [sampleSize, setSampleSize] = useState(2);
+  const [keyA, setKeyA] = useState('');
+  const [keyB, setKeyB] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<TrialResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controlRef = useRef<RunControl | null>(null);
+
+  // Every version of every template for the task, so a copy can be tried against the original too
+  const versions = useMemo(
+    () => PromptTemplates.loadAll()
+      .filter(template => template.task === task)
+      .flatMap(template => PromptHistory.getVersions(template)),
+    [task]
+  );
+
+  const active = PromptTemplates.getActive(task, aiConfig.language);
+  const activeVersions = versions.filter(version => version.id === active.id);
+  // Defaults to the active template's previous version against its current one
+  const versionA = versions.find(version => versionKey(version) === keyA)
+    ?? activeVersions[Math.max(0, activeVersions.length - 2)];
+  const versionB = versions.find(version => versionKey(version) === keyB)
+    ?? activeVersions[activeVersions.length - 1];
+
+  const runStructure = useMemo(
+    () => ManuscriptRevisions.anchoredStructure(structure, projectId && ManuscriptRevisions.latestRevision(projectId, PromptTrial.modeOf(task))),
+    [structure, projectId, task]
+  );
+
+  const callCount = useMemo(
+    () => PromptTrial.callCount(fileContent, task, sampleSize, archetypes.length, aiConfig, runStructure),
+    [fileContent, task, sampleSize, archetypes.length, aiConfig, runStructure]
+  );
+
+  const changeTask = (value: TrialTask) => {
+    setTask(value);
+    setKeyA('');
+    setKeyB('');
+    setResult(null);
+  };
+
+  const formatScore = (score: number) => formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+  const runTrial = async () => {
+    const control = new RunControl(UsageLedger.startRun('prompt_trial', aiConfig.model, undefined, ModelRouting.loadTable()));
+    controlRef.current = control;
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    setProgress({ done: 0, total: callCount / 2 });
+
+    try {
+      setResult(await PromptTrial.run({
+        content: fileContent,
+        archetypes,
+        versionA,
+        versionB,
+        sampleSize,
+        aiConfig,
+        control,
+        structure: runStructure,
+        onProgress: (done, total) => setProgress({ done, total })
+      }));
+    } catch (trialError) {
+      setError(trialError instanceof Error ? trialError.message : String(trialError));
+    } finally {
+      setIsRunning(false);
+      controlRef.current = null;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        {t('trial.intro')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <Label>{t('trial.module')}</Label>
+          <Select value={task} onValueChange={value => changeTask(value as TrialTask)} disabled={isRunning}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRIAL_TASKS.map(trialTask => (
+                <SelectItem key={trialTask} value={trialTask}>{t(MODULE_LABELS[trialTask])}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {([
+          { label: 'trial.versionA', version: versionA, onChange: setKeyA },
+          { label: 'trial.versionB', version: versionB, onChange: setKeyB }
+        ] as { label: MessageKey; version: PromptVersion; onChange: (value: string) => void }[]).map(({ label, version, onChange }) => (
+          <div key={label}>
+            <Label>{t(label)}</Label>
+            <Select value={versionKey(version)} onValueChange={onChange} disabled={isRunning}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(candidate => (
+                  <SelectItem key={versionKey(candidate)} value={versionKey(candidate)}>
+                    {versionLabel(candidate)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <div>
+          <Label htmlFor="trial-sample-size">{t('trial.sampleSize')}</Label>
+          <Input
+            id="trial-sample-size"
+            type="number"
+            min={1}
+            max={10}
+            value={sampleSize}
+            onChange={e => setSampleSize(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+            disabled={isRunning}
+          />
+        </div>
+      </div>
+
+      {versionKey(versionA) === versionKey(versionB) && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {t('trial.sameVersion')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-4">
+        {isRunning ? (
+          <Button variant="destructive" onClick={() => controlRef.current?.stop()}>
+            <Square className="w-4 h-4 mr-2" />
+            {t('trial.stop')}
+          </Button>
+        ) : (
+          <Button onClick={runTrial} disabled={archetypes.length === 0 || versionKey(versionA) === versionKey(versionB)}>
+            <FlaskConical className="w-4 h-4 mr-2" />
+            {t('trial.start')}
+          </Button>
+        )}
+        <span className="text-sm text-slate-600">
+          {t('trial.callCount', {
+            calls: callCount,
+            archetypes: archetypes.length,
+            chunks: callCount / 2 / Math.max(1, archetypes.length)
+          })}
+        </span>
+      </div>
+
+      {isRunning && progress.total > 0 && (
+        <Progress value={(progress.done / progress.total) * 100} />
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <div className="space-y-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-600">
+                <th className="py-1 font-medium">{t('trial.dimension')}</th>
+                <th className="py-1 font-medium">A: {versionLabel(result.a.version)}</th>
+                <th className="py-1 font-medium">B: {versionLabel(result.b.version)}</th>
+                <th className="py-1 font-medium">Δ (B − A)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {RATING_DIMENSIONS.map(dimension => {
+                const a = result.a.spread[dimension];
+                const b = result.b.spread[dimension];
+                const delta = b.mean - a.mean;
+                return (
+                  <tr key={dimension} className="border-t border-slate-100">
+                    <td className="py-1">{t(RATING_DIMENSION_LABELS[dimension])}</td>
+                    <td className="py-1">{formatScore(a.mean)} ± {formatScore(a.stdDev)}</td>
+                    <td className="py-1">{formatScore(b.mean)} ± {formatScore(b.stdDev)}</td>
+                    <td className={`py-1 font-medium ${delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-slate-600'}`}>
+                      {delta > 0 ? '+' : ''}{formatScore(delta)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {(result.a.failures > 0 || result.b.failures > 0) && (
+            <p className="text-sm text-amber-600">
+              {t('trial.failures', { a: result.a.failures, b: result.b.failures })}
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t('trial.histogramA')}</Label>
+              <Histogram side={result.a} color="bg-blue-400" />
+            </div>
+            <div>
+              <Label>{t('trial.histogramB')}</Label>
+              <Histogram side={result.b} color="bg-purple-400" />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>{t('trial.feedback')}</Label>
+            {result.samples.map(sample => (
+              <div key={`${sample.archetypeId}_${sample.chunkIndex}`} className="rounded border border-slate-200 p-3">
+                <div className="flex items-center gap-2 mb-2 text-sm">
+                  <Badge variant="secondary">{sample.archetypeName}</Badge>
+                  <span className="text-slate-600">{sample.chunkTitle ?? t('pages.chunk', { number: sample.chunkIndex + 1 })}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  {[sample.a, sample.b].map((side, index) => (
+                    <div key={index} className="bg-slate-50 p-2 rounded">
+                      {side ? (
+                        <>
+                          <div className="font-medium mb-1">
+                            {index === 0 ? 'A' : 'B'}: {t('common.score', { score: formatScore(side.overallRating) })}
+                          </div>
+                          <p className="text-slate-600">{side.feedback}</p>
+                        </>
+                      ) : (
+                        <p className="text-red-600">{t('trial.callFailed')}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Gauge } from 'lucide-react';
+import { RateLimiter, RateLimitSettings } from '../utils/rateLimiter';
+import { MessageKey } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+const FIELDS: { key: keyof RateLimitSettings; label: MessageKey; min: number }[] = [
+  { key: 'requestsPerMinute', label: 'rateLimit.requestsPerMinute', min: 1 },
+  { key: 'tokensPerMinute', label: 'rateLimit.tokensPerMinute', min: 1000 },
+  { key: 'maxRetries', label: 'rateLimit.maxRetries', min: 0 }
+];
+
+export const RateLimitPanel: React.FC = () => {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<RateLimitSettings>(() => RateLimiter.getInstance().getSettings());
+
+  const updateField = (key: keyof RateLimitSettings, value: string, min: number) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed)) return;
+
+    const next = { ...settings, [key]: Math.max(min, parsed) };
+    RateLimiter.getInstance().updateSettings(next);
+    setSettings(next);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <Label className="flex items-center gap-2">
+        <Gauge className="w-4 h-4" />
+        {t('rateLimit.title')}
+      </Label>
+      <div className="grid grid-cols-3 gap-3">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`rate-limit-${field.key}`} className="text-xs text-slate-600">
+              {t(field.label)}
+            </Label>
+            <Input
+              id={`rate-limit-${field.key}`}
+              type="number"
+              min={field.min}
+              value={settings[field.key]}
+              onChange={(e) => updateField(field.key, e.target.value, field.min)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        {t('rateLimit.hint')}
+      </p>
+    </div>
+  );
+};
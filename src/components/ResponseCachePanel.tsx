@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, Trash2 } from 'lucide-react';
+import { ResponseCache, CacheStats } from '../utils/responseCache';
+import { useI18n } from '@/hooks/use-i18n';
+
+const MB = 1024 * 1024;
+const SIZE_OPTIONS = [10, 50, 100, 250];
+
+export const ResponseCachePanel: React.FC = () => {
+  const { t, formatNumber } = useI18n();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  const refreshStats = () => {
+    ResponseCache.getStats()
+      .then(setStats)
+      .catch((error) => console.warn('Failed to read response cache stats:', error));
+  };
+
+  useEffect(() => {
+    if (ResponseCache.isAvailable()) refreshStats();
+  }, []);
+
+  if (!ResponseCache.isAvailable()) return null;
+
+  const handleLimitChange = async (value: string) => {
+    await ResponseCache.setMaxBytes(parseInt(value, 10) * MB);
+    refreshStats();
+  };
+
+  const clearCache = async () => {
+    await ResponseCache.clear();
+    refreshStats();
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="cache-size" className="flex items-center gap-2">
+          <Database className="w-4 h-4" />
+          {t('cache.title')}
+        </Label>
+        {stats && (
+          <Badge variant="outline">
+            {t('cache.stats', { count: stats.entries, size: formatNumber(stats.bytes / MB, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={String(Math.round(ResponseCache.getMaxBytes() / MB))} onValueChange={handleLimitChange}>
+          <SelectTrigger id="cache-size" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size} value={String(size)}>{t('cache.maxSize', { size })}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={clearCache} disabled={!stats || stats.entries === 0}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          {t('cache.clear')}
+        </Button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {t('cache.hint')}
+      </p>
+    </div>
+  );
+};
@@ -1,23 +1,29 @@
 import React, { useEffect, useState } from 'react';
 import { MobileResponsiveBarChart } from '@/components/MobileResponsiveCharts';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+import { FlaggedChunk, RATING_DIMENSION_LABELS, RatingDimension } from '../utils/ensemble';
+import { PageMap } from '../utils/pageMap';
+import { useI18n } from '@/hooks/use-i18n';
 
-interface ResultItem {
+type ResultItem = Record<RatingDimension, number> & {
   name: string;
-  Gesamtwertung: number;
-  Engagement: number;
-  Stil: number;
-  Klarheit: number;
-  Tempo: number;
-  Relevanz: number;
-}
+  // Ensemble runs only: pooled standard deviation per dimension and mean inter-model agreement
+  spread?: Partial<Record<RatingDimension, number | null>>;
+  agreement?: number | null;
+};
 
 interface ResultsDashboardProps {
   results: {
     analysis: ResultItem[];
   };
+  unreliableChunks?: (FlaggedChunk & { archetypeName: string })[];
 }
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) => {
+const DIMENSIONS = Object.keys(RATING_DIMENSION_LABELS) as RatingDimension[];
+
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results, unreliableChunks = [] }) => {
+  const { t, formatNumber, formatPercent } = useI18n();
   const [chartData, setChartData] = useState<ResultItem[]>([]);
 
   useEffect(() => {
@@ -29,40 +35,94 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ results }) =
   const renderAnalysisCharts = () => {
     if (!results.analysis || results.analysis.length === 0) return null;
 
+    // The chart names its series by data key, so the translated labels serve as keys
+    const labels = DIMENSIONS.map(dimension => t(RATING_DIMENSION_LABELS[dimension]));
     const chartData = results.analysis.map(item => ({
       name: item.name,
-      Gesamtwertung: item.Gesamtwertung,
-      Engagement: item.Engagement,
-      Stil: item.Stil,
-      Klarheit: item.Klarheit,
-      Tempo: item.Tempo,
-      Relevanz: item.Relevanz,
+      ...Object.fromEntries(DIMENSIONS.map((dimension, index) => [labels[index], item[dimension]])),
+      ...Object.fromEntries(DIMENSIONS.map(dimension => [`${dimension}_sd`, item.spread?.[dimension] ?? 0])),
     }));
 
+    const hasEnsemble = results.analysis.some(item => item.agreement != null);
+    const errorKeys = hasEnsemble
+      ? Object.fromEntries(DIMENSIONS.map((dimension, index) => [labels[index], `${dimension}_sd`]))
+      : undefined;
+
     return (
       <div className="space-y-6">
         <div>
-          <h3 className="text-lg font-semibold mb-4">Bewertungs-Übersicht</h3>
+          <h3 className="text-lg font-semibold mb-4">{t('results.overview')}</h3>
           <MobileResponsiveBarChart
             data={chartData}
             xAxisKey="name"
-            yAxisKey="Gesamtwertung"
-            categories={['Gesamtwertung', 'Engagement', 'Stil', 'Klarheit', 'Tempo', 'Relevanz']}
+            yAxisKey={labels[0]}
+            categories={labels}
             colors={['#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1', '#ffb347']}
+            errorKeys={errorKeys}
             className="w-full"
           />
+          {hasEnsemble && (
+            <p className="text-xs text-slate-500 mt-2">
+              {t('results.errorBarsHint')}
+            </p>
+          )}
         </div>
+
+        {hasEnsemble && (
+          <div>
+            <h3 className="text-lg font-semibold mb-4">{t('results.agreementTitle')}</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-slate-600">
+                  <th className="py-2">{t('results.archetype')}</th>
+                  <th className="py-2 text-right">{t('results.agreement')}</th>
+                  <th className="py-2 text-right">{t('results.spread', { dimension: t('rating.overallRating') })}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.analysis.map(item => (
+                  <tr key={item.name} className="border-b last:border-0">
+                    <td className="py-2">{item.name}</td>
+                    <td className="py-2 text-right">{item.agreement != null ? formatPercent(item.agreement) : '–'}</td>
+                    <td className="py-2 text-right">{item.spread?.overallRating != null ? formatNumber(item.spread.overallRating, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {unreliableChunks.length > 0 && (
+          <Alert className="border-amber-200 bg-amber-50">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800">
+              <div className="font-medium mb-2">
+                {t('results.unreliable', { count: unreliableChunks.length })}
+              </div>
+              <ul className="space-y-1 text-sm">
+                {unreliableChunks.slice(0, 10).map(chunk => (
+                  <li key={`${chunk.archetypeId}-${chunk.chunkIndex}`}>
+                    {chunk.archetypeName} · {PageMap.chunkLabel(chunk.chunkIndex, chunk.pages)}: {t(RATING_DIMENSION_LABELS[chunk.dimension])} ±{formatNumber(chunk.stdDev, { minimumFractionDigits: 1, maximumFractionDigits: 1 })} ({t('results.unreliableAgreement', { agreement: formatPercent(chunk.agreement) })})
+                  </li>
+                ))}
+              </ul>
+              {unreliableChunks.length > 10 && (
+                <div className="text-xs mt-1">{t('results.more', { count: unreliableChunks.length - 10 })}</div>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
       </div>
     );
   };
 
   return (
     <div className="container mx-auto py-10">
-      <h2 className="text-2xl font-bold mb-6">Analyse Ergebnisse</h2>
+      <h2 className="text-2xl font-bold mb-6">{t('results.title')}</h2>
       {results && results.analysis && results.analysis.length > 0 ? (
         renderAnalysisCharts()
       ) : (
-        <p>Keine Ergebnisse vorhanden.</p>
+        <p>{t('results.empty')}</p>
       )}
     </div>
   );
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { GitCompare } from 'lucide-react';
+import { AnalysisResult, ReaderArchetype } from './BookAnalyzer';
+import { ChunkChange } from '../utils/manuscriptRevisions';
+import { PageMap } from '../utils/pageMap';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface RevisionDeltasProps {
+  results: AnalysisResult[];
+  archetypes: ReaderArchetype[];
+}
+
+const CHANGE_STYLES: Record<ChunkChange, string> = {
+  unchanged: 'bg-slate-100 text-slate-600',
+  changed: 'bg-amber-100 text-amber-800',
+  added: 'bg-blue-100 text-blue-800'
+};
+
+// Per-chunk ratings of a revision run next to the previous revision's, so edits can be judged passage by passage
+export const RevisionDeltas: React.FC<RevisionDeltasProps> = ({ results, archetypes }) => {
+  const { t, formatNumber } = useI18n();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const chunks = useMemo(() => {
+    const byChunk = new Map<number, AnalysisResult[]>();
+    results.filter(result => result.revision).forEach(result => {
+      byChunk.set(result.chunkIndex, [...(byChunk.get(result.chunkIndex) ?? []), result]);
+    });
+    return [...byChunk.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([chunkIndex, chunkResults]) => ({
+        chunkIndex,
+        pages: chunkResults[0].pages,
+        change: chunkResults[0].revision.change,
+        results: chunkResults
+      }));
+  }, [results]);
+
+  const counts = useMemo(() => ({
+    changed: chunks.filter(chunk => chunk.change === 'changed').length,
+    added: chunks.filter(chunk => chunk.change === 'added').length,
+    unchanged: chunks.filter(chunk => chunk.change === 'unchanged').length
+  }), [chunks]);
+
+  if (chunks.length === 0) return null;
+
+  const visible = showUnchanged ? chunks : chunks.filter(chunk => chunk.change !== 'unchanged');
+  const formatRating = (rating: number) => formatNumber(rating, { maximumFractionDigits: 1 });
+
+  return (
+    <div className="space-y-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-slate-600" />
+          <h3 className="font-semibold">{t('revisions.title')}</h3>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="revision-show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+          <Label htmlFor="revision-show-unchanged">{t('revisions.showUnchanged')}</Label>
+        </div>
+      </div>
+      <p className="text-sm text-slate-600">{t('revisions.summary', counts)}</p>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500 py-2">{t('revisions.noChanges')}</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-slate-600">
+              <th className="py-2">{t('revisions.chunk')}</th>
+              <th className="py-2">{t('revisions.status')}</th>
+              {archetypes.map(archetype => (
+                <th key={archetype.id} className="py-2 text-right">{archetype.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(chunk => (
+              <tr key={chunk.chunkIndex} className="border-b last:border-0">
+                <td className="py-2">{PageMap.chunkLabel(chunk.chunkIndex, chunk.pages)}</td>
+                <td className="py-2">
+                  <Badge variant="outline" className={CHANGE_STYLES[chunk.change]}>{t(`revisions.change.${chunk.change}`)}</Badge>
+                </td>
+                {archetypes.map(archetype => {
+                  const result = chunk.results.find(candidate => candidate.archetypeId === archetype.id);
+                  if (!result) return <td key={archetype.id} className="py-2 text-right text-slate-400">–</td>;
+
+                  const previous = result.revision.previousRating;
+                  const delta = previous === undefined ? undefined : result.overallRating - previous;
+                  return (
+                    <td key={archetype.id} className="py-2 text-right">
+                      {formatRating(result.overallRating)}
+                      {delta !== undefined && Math.abs(delta) >= 0.05 && (
+                        <span className={`ml-2 ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {delta > 0 ? '+' : '−'}{formatRating(Math.abs(delta))}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
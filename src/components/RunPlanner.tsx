@@ -0,0 +1,181 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Calculator, Clock, Coins, AlertTriangle, Play, ArrowLeft } from 'lucide-react';
+import { ReaderArchetype } from './BookAnalyzer';
+import { AIConfig } from './AIAnalysisService';
+import { CostEstimator } from '../utils/costEstimator';
+import { ModelRouting } from '../utils/modelRouting';
+import { PromptPreview } from '../utils/promptPreview';
+import { TextStructure } from '../utils/textChunking';
+import { ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { MODULE_LABELS } from '../utils/usageLedger';
+import { useI18n } from '@/hooks/use-i18n';
+import { I18n } from '../utils/i18n';
+
+interface RunPlannerProps {
+  fileContent: string;
+  archetypes: ReaderArchetype[];
+  aiConfig: AIConfig;
+  twoLayer: boolean;
+  ensembleModels?: string[];
+  structure?: TextStructure;
+  // Unchanged chunks of a revision run are carried over and left out of the estimate
+  projectId?: string;
+  onStart: (budget?: number) => void;
+  onBack: () => void;
+}
+
+const formatCost = (cost: number) => I18n.formatCurrency(cost, 'USD', 4);
+
+const NO_ENSEMBLE: string[] = [];
+
+const formatTokens = (tokens: number) => I18n.formatNumber(tokens);
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return I18n.t('duration.seconds', { seconds });
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return I18n.t('duration.minutes', { minutes });
+  return I18n.t('duration.hours', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+export const RunPlanner: React.FC<RunPlannerProps> = ({
+  fileContent,
+  archetypes,
+  aiConfig,
+  twoLayer,
+  ensembleModels = NO_ENSEMBLE,
+  structure,
+  projectId,
+  onStart,
+  onBack
+}) => {
+  const { t, formatPercent } = useI18n();
+  const [budgetInput, setBudgetInput] = useState('');
+
+  const estimate = useMemo(
+    // Same table the run will snapshot when it starts
+    () => CostEstimator.estimateRun(
+      fileContent,
+      archetypes,
+      aiConfig.model,
+      twoLayer,
+      ensembleModels,
+      ModelRouting.loadTable(),
+      PromptPreview.chunkOptions(twoLayer ? 'two_layer' : 'standard', aiConfig),
+      structure,
+      projectId && ManuscriptRevisions.latestRevision(projectId, twoLayer ? 'two_layer' : 'standard')
+    ),
+    [fileContent, archetypes, aiConfig, twoLayer, ensembleModels, structure, projectId]
+  );
+
+  const budget = budgetInput.trim() === '' ? undefined : parseFloat(budgetInput.replace(',', '.'));
+  const budgetInvalid = budget !== undefined && (isNaN(budget) || budget <= 0);
+  const budgetShare = estimate.cost && budget && !budgetInvalid ? budget / estimate.cost : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600">{estimate.chunks}</div>
+          <div className="text-sm text-slate-600">{t('planner.chunks')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600">{estimate.totalCalls}</div>
+          <div className="text-sm text-slate-600">{t('planner.calls')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Coins className="w-5 h-5" />
+            {estimate.cost !== null ? formatCost(estimate.cost) : '–'}
+          </div>
+          <div className="text-sm text-slate-600">{t('planner.cost')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Clock className="w-5 h-5" />
+            {formatDuration(estimate.durationSeconds)}
+          </div>
+          <div className="text-sm text-slate-600">{t('planner.duration')}</div>
+        </div>
+      </div>
+
+      {estimate.carriedOver > 0 && (
+        <p className="text-sm text-slate-600">
+          {t('planner.carriedOver', { count: estimate.carriedOver })}
+        </p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-slate-600">
+            <th className="py-2">{t('planner.callType')}</th>
+            <th className="py-2 text-right">{t('planner.callCount')}</th>
+            <th className="py-2 text-right">{t('planner.promptTokens')}</th>
+            <th className="py-2 text-right">{t('planner.completionTokens')}</th>
+            <th className="py-2 text-right">{t('planner.callCost')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.calls.map((call) => (
+            <tr key={call.task} className="border-b last:border-0">
+              <td className="py-2">{t(MODULE_LABELS[call.task])}</td>
+              <td className="py-2 text-right">{call.calls}</td>
+              <td className="py-2 text-right">{formatTokens(call.promptTokens)}</td>
+              <td className="py-2 text-right">{formatTokens(call.completionTokens)}</td>
+              <td className="py-2 text-right">{call.cost !== null ? formatCost(call.cost) : '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {estimate.cost === null && (
+        <Alert>
+          <Calculator className="h-4 w-4" />
+          <AlertDescription>
+            {ensembleModels.length >= 2 && !twoLayer
+              ? t('planner.noEnsemblePrices')
+              : t('planner.noPrices', { model: aiConfig.model })}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="run-budget">{t('planner.budget')}</Label>
+        <Input
+          id="run-budget"
+          inputMode="decimal"
+          placeholder={t('planner.budgetPlaceholder')}
+          value={budgetInput}
+          onChange={(e) => setBudgetInput(e.target.value)}
+          disabled={estimate.cost === null}
+          className="max-w-xs"
+        />
+        <p className="text-xs text-slate-500">
+          {t('planner.budgetHint')}
+        </p>
+        {budgetShare !== null && budgetShare < 1 && (
+          <Alert className="bg-amber-50 border-amber-200">
+            <AlertTriangle className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800">
+              {t('planner.budgetShort', { share: formatPercent(Math.floor(budgetShare * 100) / 100) })}
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t('planner.back')}
+        </Button>
+        <Button onClick={() => onStart(budget)} disabled={budgetInvalid}>
+          <Play className="w-4 h-4 mr-2" />
+          {t('planner.start')}
+        </Button>
+      </div>
+    </div>
+  );
+};
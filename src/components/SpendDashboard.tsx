@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Coins, Activity, Database, Timer, Trash2 } from 'lucide-react';
+import { UsageLedger, SpendSummary } from '../utils/usageLedger';
+import { I18n } from '../utils/i18n';
+import { useI18n } from '@/hooks/use-i18n';
+
+const formatCost = (cost: number) => I18n.formatCurrency(cost, 'USD', 4);
+
+const formatTokens = (tokens: number) => I18n.formatNumber(tokens);
+
+const formatLatency = (ms: number) =>
+  ms < 1000
+    ? I18n.t('spend.milliseconds', { ms: Math.round(ms) })
+    : I18n.t('spend.seconds', { seconds: I18n.formatNumber(ms / 1000, { maximumFractionDigits: 1 }) });
+
+const SpendTable: React.FC<{ rows: SpendSummary[]; groupLabel: string }> = ({ rows, groupLabel }) => {
+  const { t } = useI18n();
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-slate-500 py-4">{t('spend.empty')}</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-left text-slate-600">
+          <th className="py-2">{groupLabel}</th>
+          <th className="py-2 text-right">{t('spend.calls')}</th>
+          <th className="py-2 text-right">{t('spend.cacheHits')}</th>
+          <th className="py-2 text-right">{t('spend.promptTokens')}</th>
+          <th className="py-2 text-right">{t('spend.completionTokens')}</th>
+          <th className="py-2 text-right">{t('spend.latency')}</th>
+          <th className="py-2 text-right">{t('spend.cost')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key} className="border-b last:border-0">
+            <td className="py-2">{row.label}</td>
+            <td className="py-2 text-right">{row.calls}</td>
+            <td className="py-2 text-right">{row.cacheHits}</td>
+            <td className="py-2 text-right">{formatTokens(row.promptTokens)}</td>
+            <td className="py-2 text-right">{formatTokens(row.completionTokens)}</td>
+            <td className="py-2 text-right">{formatLatency(row.averageLatencyMs)}</td>
+            <td className="py-2 text-right">
+              {formatCost(row.cost)}
+              {row.unpricedCalls > 0 && (
+                <span className="text-xs text-slate-500 block">{t('spend.unpriced', { count: row.unpricedCalls })}</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export const SpendDashboard: React.FC = () => {
+  const { t } = useI18n();
+  const [, setVersion] = useState(0);
+
+  // Re-aggregates whenever a call is recorded, so a running analysis updates the view live
+  useEffect(() => UsageLedger.subscribe(() => setVersion(v => v + 1)), []);
+
+  const summaries = {
+    books: UsageLedger.summarizeByBook(),
+    runs: UsageLedger.summarizeByRun(),
+    modules: UsageLedger.summarizeByModule(),
+    prompts: UsageLedger.summarizeByPrompt()
+  };
+
+  const totals = summaries.modules.reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      cacheHits: sum.cacheHits + row.cacheHits,
+      tokens: sum.tokens + row.promptTokens + row.completionTokens,
+      cost: sum.cost + row.cost,
+      latency: sum.latency + row.averageLatencyMs * row.calls
+    }),
+    { calls: 0, cacheHits: 0, tokens: 0, cost: 0, latency: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Coins className="w-5 h-5" />
+            {formatCost(totals.cost)}
+          </div>
+          <div className="text-sm text-slate-600">{t('spend.totalCost')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Activity className="w-5 h-5" />
+            {totals.calls}
+          </div>
+          <div className="text-sm text-slate-600">{t('spend.totalCalls')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Database className="w-5 h-5" />
+            {totals.cacheHits}
+          </div>
+          <div className="text-sm text-slate-600">{t('spend.cacheHits')}</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-blue-600 flex items-center justify-center gap-1">
+            <Timer className="w-5 h-5" />
+            {totals.calls > 0 ? formatLatency(totals.latency / totals.calls) : '–'}
+          </div>
+          <div className="text-sm text-slate-600">{t('spend.latencyTokens', { tokens: totals.tokens })}</div>
+        </div>
+      </div>
+
+      <Tabs defaultValue="books">
+        <div className="flex justify-between items-center">
+          <TabsList>
+            <TabsTrigger value="books">{t('spend.tab.books')}</TabsTrigger>
+            <TabsTrigger value="runs">{t('spend.tab.runs')}</TabsTrigger>
+            <TabsTrigger value="modules">{t('spend.tab.modules')}</TabsTrigger>
+            <TabsTrigger value="prompts">{t('spend.tab.prompts')}</TabsTrigger>
+          </TabsList>
+          <Button variant="outline" size="sm" onClick={() => UsageLedger.clear()} disabled={totals.calls === 0}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            {t('spend.clear')}
+          </Button>
+        </div>
+        <TabsContent value="books">
+          <SpendTable rows={summaries.books} groupLabel={t('spend.group.book')} />
+        </TabsContent>
+        <TabsContent value="runs">
+          <SpendTable rows={summaries.runs} groupLabel={t('spend.group.run')} />
+        </TabsContent>
+        <TabsContent value="modules">
+          <SpendTable rows={summaries.modules} groupLabel={t('spend.group.module')} />
+        </TabsContent>
+        <TabsContent value="prompts">
+          <SpendTable rows={summaries.prompts} groupLabel={t('spend.group.prompt')} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -7,6 +7,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Brain, MessageSquare, BarChart3, Lightbulb, Quote } from 'lucide-react';
 import { ReaderArchetype } from './BookAnalyzer';
+import { AIConfig } from './AIAnalysisService';
+import { AIProvider } from '../utils/aiProvider';
+import { PromptTemplates } from '../utils/promptTemplates';
+import { OutputLanguages, type OutputLanguage } from '../utils/outputLanguage';
 
 export interface StreamOfThoughtResult {
   archetypeId: string;
@@ -32,11 +36,18 @@ export interface AnalyticalInsight {
   confidenceScore: number; // 1-10
 }
 
+// Labels of the layer 1 summary handed to layer 2, in the language of the prompts
+const STREAM_LABELS: Record<OutputLanguage, [string, string, string, string, string]> = {
+  de: ['Gedanken', 'Emotionen', 'Stimmung', 'Aufmerksamkeit', 'Resonanz'],
+  en: ['Thoughts', 'Emotions', 'Mood', 'Attention', 'Resonance'],
+  es: ['Pensamientos', 'Emociones', 'Estado de ánimo', 'Atención', 'Resonancia']
+};
+
 interface TwoLayerAnalysisProps {
   archetype: ReaderArchetype;
   textChunk: string;
   chunkIndex: number;
-  aiConfig: any;
+  aiConfig: AIConfig;
   onStreamOfThoughtComplete: (result: StreamOfThoughtResult) => void;
   onAnalyticalInsightComplete: (insight: AnalyticalInsight) => void;
 }
@@ -82,167 +93,43 @@ export const TwoLayerAnalysis: React.FC<TwoLayerAnalysisProps> = ({
   };
 
   const runStreamOfThoughtAnalysis = async (): Promise<StreamOfThoughtResult> => {
-    const prompt = createStreamOfThoughtPrompt();
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${aiConfig.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: aiConfig.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'Du bist ein Leser und denkst laut. Zeige deine spontanen, unzensierten Gedanken und Emotionen beim Lesen. Antworte nur in gültigem JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8, // Higher for more creative/emotional responses
-        max_tokens: 1000,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API Error ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Keine gültige JSON-Antwort erhalten');
-    }
-
-    const resultData = JSON.parse(jsonMatch[0]);
+    const request = PromptTemplates.buildRequest('stream_of_thought', {
+      ...PromptTemplates.archetypeValues(archetype),
+      textChunk
+    }, aiConfig.language);
+    const { data: resultData } = await AIProvider.completeJSON<Omit<StreamOfThoughtResult, 'archetypeId' | 'chunkIndex'>>(request, aiConfig);
 
     return {
       archetypeId: archetype.id,
       chunkIndex,
-      rawThoughts: resultData.rawThoughts,
-      emotionalReactions: resultData.emotionalReactions || [],
-      immediateQuotes: resultData.immediateQuotes || [],
-      fragmentedInsights: resultData.fragmentedInsights || [],
-      mood: resultData.mood || 'neutral',
-      attentionLevel: resultData.attentionLevel || 5,
-      personalResonance: resultData.personalResonance || 5
+      ...resultData
     };
   };
 
   const runAnalyticalInsight = async (streamResult: StreamOfThoughtResult): Promise<AnalyticalInsight> => {
-    const prompt = createAnalyticalInsightPrompt(streamResult);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${aiConfig.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: aiConfig.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'Du bist ein objektiver Marktanalyst. Analysiere die Leserreaktion strukturiert und extrahiere actionable insights. Antworte nur in gültigem JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3, // Lower for more structured analysis
-        max_tokens: 1200,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API Error ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0].message.content;
-    
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Keine gültige JSON-Antwort erhalten');
-    }
-
-    const resultData = JSON.parse(jsonMatch[0]);
+    const request = PromptTemplates.buildRequest('analytical_insight', {
+      ...PromptTemplates.archetypeValues(archetype),
+      textChunk,
+      streamOfThoughtResult: formatStreamResult(streamResult)
+    }, aiConfig.language);
+    const { data: resultData } = await AIProvider.completeJSON<Omit<AnalyticalInsight, 'archetypeId' | 'chunkIndex'>>(request, aiConfig);
 
     return {
       archetypeId: archetype.id,
       chunkIndex,
-      keyTakeaways: resultData.keyTakeaways || [],
-      structuredFeedback: resultData.structuredFeedback || '',
-      marketingOpportunities: resultData.marketingOpportunities || [],
-      competitiveAdvantages: resultData.competitiveAdvantages || [],
-      riskFactors: resultData.riskFactors || [],
-      recommendedActions: resultData.recommendedActions || [],
-      confidenceScore: resultData.confidenceScore || 5
+      ...resultData
     };
   };
 
-  const createStreamOfThoughtPrompt = (): string => {
-    return `Du bist ${archetype.name} und liest gerade diesen Textabschnitt. Denke laut und ungefiltert:
-
-DEINE PERSONA:
-- ${archetype.description}
-- Demografie: ${archetype.demographics}
-- Lesegewohnheiten: ${archetype.readingPreferences}
-- Persönlichkeit: ${archetype.personalityTraits.join(', ')}
-- Motivationen: ${archetype.motivations.join(', ')}
-- Pain Points: ${archetype.painPoints.join(', ')}
-
-TEXT ZUM LESEN:
-"${textChunk}"
-
-Zeige deine spontanen, unzensierten Gedanken beim Lesen. Sei emotional, fragmentiert, direkt. Als würdest du einem Freund erzählen, was dir durch den Kopf geht.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "rawThoughts": "Deine ungefilterten Gedanken beim Lesen (1-2 Absätze, sehr persönlich und direkt)",
-  "emotionalReactions": ["Emotion 1", "Emotion 2", "Emotion 3"],
-  "immediateQuotes": ["Direktes Zitat 1 aus deinen Gedanken", "Direktes Zitat 2"],
-  "fragmentedInsights": ["Fragmentierter Gedanke 1", "Fragmentierter Gedanke 2"],
-  "mood": "excited/bored/confused/engaged/frustrated/curious",
-  "attentionLevel": 0-10,
-  "personalResonance": 0-10
-}`;
-  };
-
-  const createAnalyticalInsightPrompt = (streamResult: StreamOfThoughtResult): string => {
-    return `Analysiere objektiv diese Leserreaktion und extrahiere strukturierte Business-Insights:
-
-ORIGINAL TEXT:
-"${textChunk}"
-
-LESER-PERSONA: ${archetype.name}
-${archetype.description}
-
-ROHE LESERREAKTION (Layer 1):
-Gedanken: ${streamResult.rawThoughts}
-Emotionen: ${streamResult.emotionalReactions.join(', ')}
-Stimmung: ${streamResult.mood}
-Aufmerksamkeit: ${streamResult.attentionLevel}/10
-Resonanz: ${streamResult.personalResonance}/10
-
-AUFGABE: Erstelle eine objektive, strukturierte Analyse für Buchvermarkter und Autoren.
-
-Antworte NUR in diesem JSON-Format:
-{
-  "keyTakeaways": ["Wichtigste Erkenntnis 1", "Wichtigste Erkenntnis 2", "Wichtigste Erkenntnis 3"],
-  "structuredFeedback": "Objektive Zusammenfassung der Stärken/Schwächen dieses Textabschnitts (100-150 Wörter)",
-  "marketingOpportunities": ["Marketing-Chance 1", "Marketing-Chance 2"],
-  "competitiveAdvantages": ["Wettbewerbsvorteil 1", "Wettbewerbsvorteil 2"],
-  "riskFactors": ["Risikofaktor 1", "Risikofaktor 2"],
-  "recommendedActions": ["Handlungsempfehlung 1", "Handlungsempfehlung 2"],
-  "confidenceScore": 0-10
-}`;
+  const formatStreamResult = (streamResult: StreamOfThoughtResult): string => {
+    const [thoughts, emotions, mood, attention, resonance] = STREAM_LABELS[aiConfig.language ?? OutputLanguages.resolve()];
+    return [
+      `${thoughts}: ${streamResult.rawThoughts}`,
+      `${emotions}: ${streamResult.emotionalReactions.join(', ')}`,
+      `${mood}: ${streamResult.mood}`,
+      `${attention}: ${streamResult.attentionLevel}/10`,
+      `${resonance}: ${streamResult.personalResonance}/10`
+    ].join('\n');
   };
 
   return (
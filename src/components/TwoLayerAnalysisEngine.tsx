@@ -2,7 +2,21 @@
 import React from 'react';
 import { ReaderArchetype, AnalysisResult } from './BookAnalyzer';
 import { AIConfig } from './AIAnalysisService';
-import { TextChunker } from '../utils/textChunking';
+import { TextChunker, TextStructure } from '../utils/textChunking';
+import { RunControl } from '../utils/runControl';
+import { AIProvider, AIProviderError, TokenUsage } from '../utils/aiProvider';
+import {
+  AnalyticalReviewPayload,
+  EmotionalNotesPayload,
+  LayerCorrelationPayload,
+  ReaderAnalysisPayload
+} from '../utils/aiSchemas';
+import { PromptTemplates, TemplateRequest } from '../utils/promptTemplates';
+import { ManuscriptRevision, ManuscriptRevisions } from '../utils/manuscriptRevisions';
+import { PromptPreview } from '../utils/promptPreview';
+import { TokenCounter } from '../utils/tokenCounter';
+import { ModelRouting } from '../utils/modelRouting';
+import { I18n } from '../utils/i18n';
 
 export interface EmotionalNote {
   chunkIndex: number;
@@ -51,41 +65,63 @@ export interface TwoLayerResult extends AnalysisResult {
 
 export class TwoLayerAnalysisController {
   private isRunning = false;
-  private shouldStop = false;
+  private control = new RunControl();
+  private tokenUsage: TokenUsage = { prompt: 0, completion: 0 };
+  private apiCalls = 0;
+  private cacheHits = 0;
 
   async runTwoLayerAnalysis(
     fileContent: string,
     archetype: ReaderArchetype,
     aiConfig: AIConfig,
-    onProgress: (progress: { step: string; chunk: number; total: number }) => void
+    onProgress: (progress: { step: string; chunk: number; total: number }) => void,
+    control: RunControl = new RunControl(),
+    structure?: TextStructure,
+    baseline?: ManuscriptRevision
   ): Promise<TwoLayerResult[]> {
     this.isRunning = true;
-    this.shouldStop = false;
-
-    const chunks = TextChunker.createChunks(fileContent, {
-      maxWordsPerChunk: 350,
-      minWordsPerChunk: 100,
-      preserveStructure: true
-    });
-
-    const results: TwoLayerResult[] = [];
+    this.control = control;
+    this.tokenUsage = { prompt: 0, completion: 0 };
+    this.apiCalls = 0;
+    this.cacheHits = 0;
+
+    await TokenCounter.loadAll(ModelRouting.modelsInUse(aiConfig.model, AIProvider.resolveConfig(aiConfig).routing));
+    const chunks = TextChunker.createChunks(fileContent, PromptPreview.chunkOptions('two_layer', aiConfig), structure);
+
+    // A revision keeps this archetype's results for unchanged chunks, with the chunk index inside them moved along
+    const matches = baseline ? ManuscriptRevisions.compare(baseline.chunks, chunks) : [];
+    const results: TwoLayerResult[] = baseline
+      ? ManuscriptRevisions.carryOver<TwoLayerResult>(baseline, chunks, matches)
+        .filter(result => result.archetypeId === archetype.id)
+        .map(result => ({
+          ...result,
+          emotionalNotes: result.emotionalNotes.map(note => ({ ...note, chunkIndex: result.chunkIndex })),
+          analyticalReview: { ...result.analyticalReview, chunkIndex: result.chunkIndex }
+        }))
+      : [];
+    const pending = chunks
+      .map((chunk, chunkIndex) => ({ chunk, chunkIndex }))
+      .filter(({ chunkIndex }) => !results.some(result => result.chunkIndex === chunkIndex));
     
     // Optimized: Process chunks in batches of 3 for rate-limit safety
     const batchSize = 3;
     
-    for (let i = 0; i < chunks.length && !this.shouldStop; i += batchSize) {
-      const chunkBatch = chunks.slice(i, i + batchSize);
+    for (let i = 0; i < pending.length; i += batchSize) {
+      await control.waitIfPaused();
+      if (control.isStopped()) break;
+
+      const chunkBatch = pending.slice(i, i + batchSize);
       
       // Process batch in parallel
-      const batchPromises = chunkBatch.map(async (chunk, batchIndex) => {
-        const chunkIndex = i + batchIndex;
+      const batchPromises = chunkBatch.map(async ({ chunk, chunkIndex }, batchIndex) => {
+        const position = i + batchIndex;
         
-        onProgress({ step: 'Emotionale Analyse', chunk: chunkIndex + 1, total: chunks.length });
+        onProgress({ step: I18n.t('analysis.step.emotional'), chunk: position + 1, total: pending.length });
         
         // Layer 1: Emotional Stream Analysis
         const emotionalNotes = await this.generateEmotionalNotes(chunk.content, archetype, chunkIndex, aiConfig);
         
-        onProgress({ step: 'Analytische Bewertung', chunk: chunkIndex + 1, total: chunks.length });
+        onProgress({ step: I18n.t('analysis.step.analytical'), chunk: position + 1, total: pending.length });
         
         // Layer 2: Analytical Review
         const analyticalReview = await this.generateAnalyticalReview(chunk.content, emotionalNotes, chunkIndex, aiConfig);
@@ -93,30 +129,35 @@ export class TwoLayerAnalysisController {
         // Basic analysis result
         const basicResult = await this.generateBasicAnalysis(chunk.content, archetype, chunkIndex, aiConfig);
         
-        onProgress({ step: 'Korrelationsanalyse', chunk: chunkIndex + 1, total: chunks.length });
+        onProgress({ step: I18n.t('analysis.step.correlation'), chunk: position + 1, total: pending.length });
         
         // Layer 3: Correlation Analysis (sequential, depends on previous layers)
         const layerCorrelation = await this.correlateLayersAnalysis(emotionalNotes, analyticalReview, chunk.content, aiConfig);
         
-        return {
+        const result = {
           ...basicResult,
+          pages: chunk.pages,
           emotionalNotes,
           analyticalReview,
           layerCorrelation
         };
+        return baseline ? ManuscriptRevisions.annotate(result, matches, baseline) : result;
       });
       
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-      
-      // Small delay between batches to prevent rate limiting
-      if (i + batchSize < chunks.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+      // Chunks that finished before a stop are kept; any other failure still fails the run
+      const settled = await Promise.allSettled(batchPromises);
+      for (const outcome of settled) {
+        if (outcome.status === 'fulfilled') {
+          results.push(outcome.value);
+        } else if (!AIProvider.isAbortError(outcome.reason)) {
+          this.isRunning = false;
+          throw outcome.reason;
+        }
       }
     }
 
     this.isRunning = false;
-    return results;
+    return results.sort((a, b) => a.chunkIndex - b.chunkIndex);
   }
 
   private async generateEmotionalNotes(
@@ -125,43 +166,11 @@ export class TwoLayerAnalysisController {
     chunkIndex: number,
     aiConfig: AIConfig
   ): Promise<EmotionalNote[]> {
-    const prompt = `Du liest als ${archetype.name} diesen Textabschnitt und notierst deine unmittelbaren emotionalen Reaktionen:
-
-DEINE PERSONA:
-- ${archetype.description}
-- Persönlichkeit: ${archetype.personalityTraits.join(', ')}
-- Motivationen: ${archetype.motivations.join(', ')}
-- Schmerzpunkte: ${archetype.painPoints.join(', ')}
-
-TEXT (lies aufmerksam und reagiere authentisch):
-"${chunk}"
-
-AUFGABE: Dokumentiere 3-5 spontane emotionale Reaktionen während des Lesens. Denke daran, wie DU als diese spezifische Person reagieren würdest.
-
-Für jede Reaktion:
-- Welche Emotion löst dieser spezifische Moment aus? (z.B. "Spannung", "Langeweile", "Rührung", "Irritation", "Neugier")
-- Wie intensiv ist das Gefühl? (1-10)
-- Was denkst du in diesem Moment? (deine unmittelbaren Gedanken)
-- Welche konkrete Textstelle löst das aus? (Zitat)
-- Verbindung zu deinem Leben: Woran erinnert dich das? Was berührt dich persönlich?
-
-Sei spezifisch und authentisch für deine Persona. Reagiere auf konkrete Details im Text.
-
-JSON-Format:
-{
-  "notes": [
-    {
-      "emotion": "Spezifische Emotion",
-      "intensity": 7,
-      "reflection": "Meine konkreten Gedanken zu diesem Moment im Text",
-      "keyMoment": "Spezifisches Zitat oder Detail aus dem Text",
-      "personalConnection": "Wie das mit meinem Leben/meinen Erfahrungen zusammenhängt"
-    }
-  ]
-}`;
-
-    const response = await this.callOpenAI(prompt, aiConfig, 1200);
-    return response.notes.map((note: any, index: number) => ({
+    const response = await this.callAI<EmotionalNotesPayload>(PromptTemplates.buildRequest('emotional_notes', {
+      ...PromptTemplates.archetypeValues(archetype),
+      textChunk: chunk
+    }, aiConfig.language), aiConfig);
+    return response.notes.map((note, index) => ({
       chunkIndex,
       timestamp: Date.now() + index,
       ...note
@@ -174,65 +183,15 @@ JSON-Format:
     chunkIndex: number,
     aiConfig: AIConfig
   ): Promise<AnalyticalReview> {
+    // No words of its own, so it reads the same inside every language's prompt
     const emotionalSummary = emotionalNotes.map(note => 
-      `${note.emotion} (${note.intensity}/10) bei: "${note.keyMoment}" - ${note.reflection}`
+      `${note.emotion} (${note.intensity}/10): "${note.keyMoment}" - ${note.reflection}`
     ).join('; ');
 
-    const prompt = `Analysiere diesen Textabschnitt professionell und berücksichtige die emotionalen Reaktionen:
-
-TEXT:
-"${chunk}"
-
-EMOTIONALE REAKTIONEN DES LESERS:
-${emotionalSummary}
-
-ANALYTISCHE BEWERTUNG (1-10):
-
-LITERARISCHE ELEMENTE:
-- Charakterentwicklung: Wie entwickeln sich die Charaktere in diesem Abschnitt?
-- Handlungsfortschritt: Wie trägt dieser Abschnitt zur Gesamthandlung bei?
-- Stilqualität: Wie ist die sprachliche Qualität und der Schreibstil?
-- Themenexploration: Wie werden Themen entwickelt oder vertieft?
-
-TECHNISCHE ASPEKTE:
-- Tempo/Rhythmus: Wie ist das Erzähltempo in diesem Abschnitt?
-- Dialoge: Qualität und Natürlichkeit der Dialoge (falls vorhanden)
-- Beschreibungen: Qualität und Wirksamkeit der Beschreibungen
-- Struktur: Wie gut ist der Abschnitt strukturiert?
-
-MARKTFÄHIGKEIT:
-- Genre-Konventionen: Entspricht der Text den Erwartungen des Genres?
-- Zielgruppenappeal: Wie ansprechend ist der Text für die Zielgruppe?
-- Einzigartigkeit: Was macht diesen Abschnitt besonders/einzigartig?
-- Kommerzielles Potenzial: Verkaufsfähigkeit basierend auf diesem Abschnitt
-
-Gib eine detaillierte Analyse (2-3 Sätze) und 2-3 konkrete Verbesserungsvorschläge.
-
-JSON-Format:
-{
-  "literaryElements": {
-    "characterDevelopment": 0,
-    "plotProgression": 0,
-    "styleQuality": 0,
-    "themeExploration": 0
-  },
-  "technicalAspects": {
-    "pacing": 0,
-    "dialogue": 0,
-    "description": 0,
-    "structure": 0
-  },
-  "marketViability": {
-    "genreConventions": 0,
-    "targetAudienceAppeal": 0,
-    "uniqueness": 0,
-    "commercialPotential": 0
-  },
-  "detailedAnalysis": "Professionelle Bewertung des Textabschnitts",
-  "improvementSuggestions": ["Konkreter Vorschlag 1", "Konkreter Vorschlag 2"]
-}`;
-
-    const response = await this.callOpenAI(prompt, aiConfig, 1500);
+    const response = await this.callAI<AnalyticalReviewPayload>(PromptTemplates.buildRequest('analytical_review', {
+      textChunk: chunk,
+      emotionalSummary
+    }, aiConfig.language), aiConfig);
     return {
       chunkIndex,
       ...response
@@ -244,42 +203,21 @@ JSON-Format:
     analyticalReview: AnalyticalReview,
     chunk: string,
     aiConfig: AIConfig
-  ): Promise<any> {
+  ): Promise<LayerCorrelationPayload> {
     const avgEmotionalIntensity = emotionalNotes.reduce((sum, note) => sum + note.intensity, 0) / emotionalNotes.length;
     const avgAnalyticalScore = (
       Object.values(analyticalReview.literaryElements).reduce((a, b) => a + b, 0) +
       Object.values(analyticalReview.technicalAspects).reduce((a, b) => a + b, 0)
     ) / 8;
 
-    const prompt = `Vergleiche die emotionale und analytische Bewertung dieses Textabschnitts:
-
-TEXT-ABSCHNITT:
-"${chunk.substring(0, 200)}..."
-
-EMOTIONALE REAKTIONEN:
-${emotionalNotes.map(note => `${note.emotion} (${note.intensity}/10): ${note.reflection}`).join('; ')}
-Durchschnittliche emotionale Intensität: ${avgEmotionalIntensity.toFixed(1)}/10
-
-ANALYTISCHE BEWERTUNG:
-Literarische Qualität: ${Object.values(analyticalReview.literaryElements).reduce((a, b) => a + b, 0) / 4}/10
-Technische Qualität: ${Object.values(analyticalReview.technicalAspects).reduce((a, b) => a + b, 0) / 4}/10
-Durchschnittliche analytische Bewertung: ${avgAnalyticalScore.toFixed(1)}/10
-
-KORRELATIONS-ANALYSE:
-1. Identifiziere emotionale Höhepunkte (Intensität >= 7)
-2. Identifiziere analytische Stärken (Bewertung >= 7)
-3. Finde Diskrepanzen zwischen emotionaler und analytischer Bewertung
-4. Erstelle eine Synthese, die beide Ebenen verbindet
-
-JSON-Format:
-{
-  "emotionalHighs": [7, 8, 9],
-  "analyticalStrengths": [8, 7, 9],
-  "discrepancies": ["Beschreibung von Unterschieden zwischen emotionaler und analytischer Bewertung"],
-  "synthesis": "Verbindende Analyse beider Bewertungsebenen mit konkreten Erkenntnissen für Autoren und Marketing"
-}`;
-
-    return await this.callOpenAI(prompt, aiConfig, 1000);
+    return await this.callAI<LayerCorrelationPayload>(PromptTemplates.buildRequest('correlation', {
+      textExcerpt: chunk.substring(0, 200),
+      emotionalReactions: emotionalNotes.map(note => `${note.emotion} (${note.intensity}/10): ${note.reflection}`).join('; '),
+      averageEmotionalIntensity: avgEmotionalIntensity.toFixed(1),
+      literaryScore: Object.values(analyticalReview.literaryElements).reduce((a, b) => a + b, 0) / 4,
+      technicalScore: Object.values(analyticalReview.technicalAspects).reduce((a, b) => a + b, 0) / 4,
+      averageAnalyticalScore: avgAnalyticalScore.toFixed(1)
+    }, aiConfig.language), aiConfig);
   }
 
   private async generateBasicAnalysis(
@@ -288,98 +226,48 @@ JSON-Format:
     chunkIndex: number,
     aiConfig: AIConfig
   ): Promise<AnalysisResult> {
-    const prompt = `Schnelle Bewertung für ${archetype.name}:
-
-"${chunk}"
-
-Bewerte (1-10): Engagement, Stil, Klarheit, Tempo, Relevanz
-Schätze (0-1): Kaufwahrscheinlichkeit, Weiterempfehlung
-Kurzes Feedback (max 80 Wörter)
-
-JSON:
-{
-  "ratings": {
-    "engagement": 0,
-    "style": 0,
-    "clarity": 0,
-    "pacing": 0,
-    "relevance": 0
-  },
-  "overallRating": 0,
-  "feedback": "Kurzes Feedback",
-  "buyingProbability": 0,
-  "recommendationLikelihood": 0,
-  "expectedReviewSentiment": "positive",
-  "marketingInsights": ["Insight"]
-}`;
-
-    const response = await this.callOpenAI(prompt, aiConfig, 800);
+    const request = PromptTemplates.buildRequest('basic_scoring', {
+      ...PromptTemplates.archetypeValues(archetype),
+      textChunk: chunk
+    }, aiConfig.language);
+    const response = await this.callAI<ReaderAnalysisPayload>(request, aiConfig);
     return {
       archetypeId: archetype.id,
       chunkIndex,
-      ...response
+      ...response,
+      prompt: request.template
     };
   }
 
-  private async callOpenAI(prompt: string, aiConfig: AIConfig, maxTokens: number = 1000): Promise<any> {
-    const apiKey = aiConfig.apiKey || localStorage.getItem('openai_api_key');
-    const model = aiConfig.model || localStorage.getItem('openai_model') || 'gpt-4o-mini';
-    
-    console.log('TwoLayer API call:', { model, hasKey: !!apiKey, maxTokens, promptLength: prompt.length });
-    
-    if (!apiKey || apiKey === 'dummy-key') {
-      throw new Error('OpenAI API-Schlüssel nicht konfiguriert');
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'system', content: 'Du bist ein Literaturexperte. Antworte nur in gültigem JSON ohne zusätzlichen Text.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.4,
-        max_tokens: maxTokens,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('TwoLayer OpenAI API Error:', response.status, errorText);
-      throw new Error(`OpenAI API Error ${response.status}: ${errorText}`);
+  private async callAI<T>(request: TemplateRequest, aiConfig: AIConfig): Promise<T> {
+    // Pausing takes effect between the sequential layer calls of a chunk, not only between batches
+    await this.control.waitIfPaused();
+    // After a soft stop the chunk is abandoned rather than starting its next layer
+    if (this.control.isStopped()) {
+      throw new AIProviderError('ABORTED', I18n.t('aiProvider.error.aborted'));
     }
 
-    const data = await response.json();
-    console.log('TwoLayer API response:', { 
-      usage: data.usage, 
-      model: data.model,
-      promptTokens: data.usage?.prompt_tokens,
-      completionTokens: data.usage?.completion_tokens 
-    });
-    
-    const content = data.choices[0].message.content;
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (!jsonMatch) {
-      console.error('No valid JSON in TwoLayer response:', content);
-      throw new Error('Keine gültige JSON-Antwort erhalten');
+    const { data, usage, cached } = await AIProvider.completeJSON<T>({
+      ...request,
+      signal: this.control.signal,
+      runId: this.control.runId
+    }, aiConfig);
+
+    this.tokenUsage = AIProvider.addUsage(this.tokenUsage, usage);
+    if (cached) {
+      this.cacheHits++;
+    } else {
+      this.apiCalls++;
     }
+    return data;
+  }
 
-    try {
-      return JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      console.error('TwoLayer JSON parsing error:', parseError, 'Content:', jsonMatch[0]);
-      throw new Error('Ungültige JSON-Antwort');
-    }
+  getCallStats(): { apiCalls: number; cacheHits: number; tokenUsage: TokenUsage } {
+    return { apiCalls: this.apiCalls, cacheHits: this.cacheHits, tokenUsage: this.tokenUsage };
   }
 
   stop(): void {
-    this.shouldStop = true;
+    this.control.stop();
   }
 
   isAnalysisRunning(): boolean {
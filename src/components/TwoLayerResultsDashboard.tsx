@@ -8,6 +8,8 @@ import { Progress } from '@/components/ui/progress';
 import { Heart, Brain, TrendingUp, AlertTriangle, Eye, Download } from 'lucide-react';
 import { TwoLayerResult } from './TwoLayerAnalysisEngine';
 import { ReaderArchetype } from './BookAnalyzer';
+import { PageMap } from '../utils/pageMap';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface TwoLayerResultsDashboardProps {
   results: TwoLayerResult[];
@@ -18,9 +20,12 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
   results,
   archetypes
 }) => {
+  const { t, formatNumber } = useI18n();
   const [selectedArchetype, setSelectedArchetype] = useState<string | null>(null);
   const [selectedChunk, setSelectedChunk] = useState<number | null>(null);
 
+  const formatScore = (score: number) => formatNumber(score, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   const getArchetypeResults = (archetypeId: string) => {
     return results.filter(r => r.archetypeId === archetypeId);
   };
@@ -34,8 +39,9 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
     const archetypeResults = getArchetypeResults(archetypeId);
     return archetypeResults.map(result => ({
       chunkIndex: result.chunkIndex,
+      pages: result.pages,
       averageIntensity: result.emotionalNotes.reduce((sum, note) => sum + note.intensity, 0) / result.emotionalNotes.length || 0,
-      dominantEmotion: result.emotionalNotes.length > 0 ? result.emotionalNotes[0].emotion : 'neutral',
+      dominantEmotion: result.emotionalNotes.length > 0 ? result.emotionalNotes[0].emotion : t('twoLayer.neutral'),
       analyticalScore: (
         Object.values(result.analyticalReview.literaryElements).reduce((a, b) => a + b, 0) +
         Object.values(result.analyticalReview.technicalAspects).reduce((a, b) => a + b, 0)
@@ -57,11 +63,11 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
       
       const diff = Math.abs(avgEmotional - avgAnalytical);
       if (diff > 3) {
-        discrepancies.push(`Abschnitt ${result.chunkIndex + 1}: Emotionale vs. analytische Bewertung weichen stark ab`);
+        discrepancies.push(t('twoLayer.discrepancy', { chunk: PageMap.chunkLabel(result.chunkIndex, result.pages) }));
       }
       
       if (avgEmotional > 7 && avgAnalytical > 7) {
-        strengths.push(`Abschnitt ${result.chunkIndex + 1}: Sowohl emotional als auch analytisch stark`);
+        strengths.push(t('twoLayer.strength', { chunk: PageMap.chunkLabel(result.chunkIndex, result.pages) }));
       }
     });
     
@@ -100,7 +106,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             <div className="flex items-center gap-2">
               <Heart className="w-5 h-5 text-red-500" />
               <div>
-                <p className="text-sm text-gray-600">Emotionale Notizen</p>
+                <p className="text-sm text-gray-600">{t('twoLayer.emotionalNotes')}</p>
                 <p className="text-2xl font-bold">{results.reduce((sum, r) => sum + r.emotionalNotes.length, 0)}</p>
               </div>
             </div>
@@ -112,7 +118,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             <div className="flex items-center gap-2">
               <Brain className="w-5 h-5 text-blue-500" />
               <div>
-                <p className="text-sm text-gray-600">Analytische Reviews</p>
+                <p className="text-sm text-gray-600">{t('twoLayer.analyticalReviews')}</p>
                 <p className="text-2xl font-bold">{results.length}</p>
               </div>
             </div>
@@ -124,9 +130,9 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             <div className="flex items-center gap-2">
               <TrendingUp className="w-5 h-5 text-green-500" />
               <div>
-                <p className="text-sm text-gray-600">Durchschn. Bewertung</p>
+                <p className="text-sm text-gray-600">{t('twoLayer.averageRating')}</p>
                 <p className="text-2xl font-bold">
-                  {(results.reduce((sum, r) => sum + r.overallRating, 0) / results.length || 0).toFixed(1)}
+                  {formatScore(results.reduce((sum, r) => sum + r.overallRating, 0) / results.length || 0)}
                 </p>
               </div>
             </div>
@@ -137,7 +143,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
           <CardContent className="p-4">
             <Button onClick={exportResults} className="w-full">
               <Download className="w-4 h-4 mr-2" />
-              Export
+              {t('twoLayer.export')}
             </Button>
           </CardContent>
         </Card>
@@ -145,11 +151,11 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
 
       <Tabs defaultValue="overview" className="space-y-4">
         <TabsList>
-          <TabsTrigger value="overview">Übersicht</TabsTrigger>
-          <TabsTrigger value="emotional">Emotionale Reise</TabsTrigger>
-          <TabsTrigger value="analytical">Analytische Bewertung</TabsTrigger>
-          <TabsTrigger value="correlation">Korrelations-Analyse</TabsTrigger>
-          <TabsTrigger value="detailed">Detailansicht</TabsTrigger>
+          <TabsTrigger value="overview">{t('twoLayer.tab.overview')}</TabsTrigger>
+          <TabsTrigger value="emotional">{t('twoLayer.tab.emotional')}</TabsTrigger>
+          <TabsTrigger value="analytical">{t('twoLayer.tab.analytical')}</TabsTrigger>
+          <TabsTrigger value="correlation">{t('twoLayer.tab.correlation')}</TabsTrigger>
+          <TabsTrigger value="detailed">{t('twoLayer.tab.detailed')}</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -166,20 +172,20 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
                   <CardHeader>
                     <CardTitle className="flex items-center justify-between">
                       <span>{archetype.name}</span>
-                      <Badge variant="outline">{archetypeResults.length} Abschnitte</Badge>
+                      <Badge variant="outline">{t('twoLayer.chunks', { count: archetypeResults.length })}</Badge>
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <p className="text-sm text-gray-600 mb-1">Analytische Bewertung</p>
+                        <p className="text-sm text-gray-600 mb-1">{t('twoLayer.analyticalRating')}</p>
                         <Progress value={avgRating * 10} className="h-2" />
-                        <p className="text-xs text-gray-500 mt-1">{avgRating.toFixed(1)}/10</p>
+                        <p className="text-xs text-gray-500 mt-1">{t('common.score', { score: formatScore(avgRating) })}</p>
                       </div>
                       <div>
-                        <p className="text-sm text-gray-600 mb-1">Emotionale Intensität</p>
+                        <p className="text-sm text-gray-600 mb-1">{t('twoLayer.emotionalIntensity')}</p>
                         <Progress value={avgEmotional * 10} className="h-2" />
-                        <p className="text-xs text-gray-500 mt-1">{avgEmotional.toFixed(1)}/10</p>
+                        <p className="text-xs text-gray-500 mt-1">{t('common.score', { score: formatScore(avgEmotional) })}</p>
                       </div>
                     </div>
                   </CardContent>
@@ -195,18 +201,18 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             return (
               <Card key={archetype.id}>
                 <CardHeader>
-                  <CardTitle>{archetype.name} - Emotionale Reise</CardTitle>
+                  <CardTitle>{t('twoLayer.archetypeSection', { archetype: archetype.name, section: t('twoLayer.tab.emotional') })}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
                     {journey.map((point, index) => (
                       <div key={index} className="flex items-center gap-4 p-2 border rounded">
-                        <span className="text-sm font-medium">Abschnitt {point.chunkIndex + 1}</span>
+                        <span className="text-sm font-medium">{PageMap.chunkLabel(point.chunkIndex, point.pages)}</span>
                         <Badge variant="outline">{point.dominantEmotion}</Badge>
                         <div className="flex-1">
                           <Progress value={point.averageIntensity * 10} className="h-2" />
                         </div>
-                        <span className="text-xs text-gray-500">{point.averageIntensity.toFixed(1)}/10</span>
+                        <span className="text-xs text-gray-500">{t('common.score', { score: formatScore(point.averageIntensity) })}</span>
                       </div>
                     ))}
                   </div>
@@ -222,32 +228,32 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             return (
               <Card key={archetype.id}>
                 <CardHeader>
-                  <CardTitle>{archetype.name} - Analytische Bewertung</CardTitle>
+                  <CardTitle>{t('twoLayer.archetypeSection', { archetype: archetype.name, section: t('twoLayer.tab.analytical') })}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
                     {archetypeResults.map((result, index) => (
                       <div key={index} className="border rounded p-4">
-                        <h4 className="font-medium mb-2">Abschnitt {result.chunkIndex + 1}</h4>
+                        <h4 className="font-medium mb-2">{PageMap.chunkLabel(result.chunkIndex, result.pages)}</h4>
                         <div className="grid grid-cols-2 gap-4 text-sm">
                           <div>
-                            <p className="font-medium mb-1">Literarische Elemente:</p>
+                            <p className="font-medium mb-1">{t('twoLayer.literaryElements')}</p>
                             <ul className="space-y-1">
-                              <li>Charakterentwicklung: {result.analyticalReview.literaryElements.characterDevelopment}/10</li>
-                              <li>Handlungsfortschritt: {result.analyticalReview.literaryElements.plotProgression}/10</li>
+                              <li>{t('twoLayer.characterDevelopment', { score: t('common.score', { score: result.analyticalReview.literaryElements.characterDevelopment }) })}</li>
+                              <li>{t('twoLayer.plotProgression', { score: t('common.score', { score: result.analyticalReview.literaryElements.plotProgression }) })}</li>
                             </ul>
                           </div>
                           <div>
-                            <p className="font-medium mb-1">Technische Aspekte:</p>
+                            <p className="font-medium mb-1">{t('twoLayer.technicalAspects')}</p>
                             <ul className="space-y-1">
-                              <li>Tempo: {result.analyticalReview.technicalAspects.pacing}/10</li>
-                              <li>Dialog: {result.analyticalReview.technicalAspects.dialogue}/10</li>
+                              <li>{t('twoLayer.pacing', { score: t('common.score', { score: result.analyticalReview.technicalAspects.pacing }) })}</li>
+                              <li>{t('twoLayer.dialogue', { score: t('common.score', { score: result.analyticalReview.technicalAspects.dialogue }) })}</li>
                             </ul>
                           </div>
                         </div>
                         {result.analyticalReview.improvementSuggestions.length > 0 && (
                           <div className="mt-3">
-                            <p className="font-medium text-sm">Verbesserungsvorschläge:</p>
+                            <p className="font-medium text-sm">{t('twoLayer.suggestions')}</p>
                             <ul className="text-sm text-gray-600 mt-1">
                               {result.analyticalReview.improvementSuggestions.map((suggestion, i) => (
                                 <li key={i}>• {suggestion}</li>
@@ -270,14 +276,14 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             return (
               <Card key={archetype.id}>
                 <CardHeader>
-                  <CardTitle>{archetype.name} - Korrelations-Analyse</CardTitle>
+                  <CardTitle>{t('twoLayer.archetypeSection', { archetype: archetype.name, section: t('twoLayer.tab.correlation') })}</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {insights.strengths.length > 0 && (
                     <div>
                       <div className="flex items-center gap-2 mb-2">
                         <TrendingUp className="w-4 h-4 text-green-500" />
-                        <span className="font-medium text-green-700">Stärken</span>
+                        <span className="font-medium text-green-700">{t('twoLayer.strengths')}</span>
                       </div>
                       <ul className="space-y-1">
                         {insights.strengths.map((strength, i) => (
@@ -291,7 +297,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
                     <div>
                       <div className="flex items-center gap-2 mb-2">
                         <AlertTriangle className="w-4 h-4 text-yellow-500" />
-                        <span className="font-medium text-yellow-700">Diskrepanzen</span>
+                        <span className="font-medium text-yellow-700">{t('twoLayer.discrepancies')}</span>
                       </div>
                       <ul className="space-y-1">
                         {insights.discrepancies.map((discrepancy, i) => (
@@ -310,7 +316,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
             <Card>
               <CardHeader>
-                <CardTitle>Archetyp auswählen</CardTitle>
+                <CardTitle>{t('twoLayer.selectArchetype')}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
@@ -334,7 +340,7 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
             {selectedArchetype && (
               <Card>
                 <CardHeader>
-                  <CardTitle>Abschnitt auswählen</CardTitle>
+                  <CardTitle>{t('twoLayer.selectChunk')}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-2">
@@ -345,9 +351,9 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
                         className="w-full justify-start"
                         onClick={() => setSelectedChunk(result.chunkIndex)}
                       >
-                        Abschnitt {result.chunkIndex + 1}
+                        {PageMap.chunkLabel(result.chunkIndex, result.pages)}
                         <Badge variant="secondary" className="ml-2">
-                          {result.overallRating.toFixed(1)}/10
+                          {t('common.score', { score: formatScore(result.overallRating) })}
                         </Badge>
                       </Button>
                     ))}
@@ -361,21 +367,21 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Eye className="w-4 h-4" />
-                    Detailansicht
+                    {t('twoLayer.tab.detailed')}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
                     <h4 className="font-medium mb-2 flex items-center gap-2">
                       <Heart className="w-4 h-4 text-red-500" />
-                      Emotionale Notizen
+                      {t('twoLayer.emotionalNotes')}
                     </h4>
                     <div className="space-y-2">
                       {selectedResult.emotionalNotes.map((note, i) => (
                         <div key={i} className="border rounded p-2 text-sm">
                           <div className="flex items-center justify-between mb-1">
                             <Badge variant="outline">{note.emotion}</Badge>
-                            <span className="text-xs">{note.intensity}/10</span>
+                            <span className="text-xs">{t('common.score', { score: note.intensity })}</span>
                           </div>
                           <p className="text-gray-600">{note.reflection}</p>
                           {note.personalConnection && (
@@ -389,13 +395,13 @@ export const TwoLayerResultsDashboard: React.FC<TwoLayerResultsDashboardProps> =
                   <div>
                     <h4 className="font-medium mb-2 flex items-center gap-2">
                       <Brain className="w-4 h-4 text-blue-500" />
-                      Analytische Bewertung
+                      {t('twoLayer.tab.analytical')}
                     </h4>
                     <div className="text-sm space-y-2">
                       <p className="text-gray-600">{selectedResult.analyticalReview.detailedAnalysis}</p>
                       {selectedResult.layerCorrelation.synthesis && (
                         <div className="border-t pt-2">
-                          <p className="font-medium mb-1">Synthese:</p>
+                          <p className="font-medium mb-1">{t('twoLayer.synthesis')}</p>
                           <p className="text-gray-600">{selectedResult.layerCorrelation.synthesis}</p>
                         </div>
                       )}
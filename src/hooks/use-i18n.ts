@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import { I18n, MessageKey, MessageParams, UILanguage } from '@/utils/i18n';
+
+const subscribe = (listener: () => void) => I18n.subscribe(listener);
+const getLanguage = () => I18n.getLanguage();
+
+// Re-renders the component when the UI language is switched
+export function useI18n() {
+  const language = useSyncExternalStore(subscribe, getLanguage);
+
+  return {
+    language,
+    setLanguage: (next: UILanguage) => I18n.setLanguage(next),
+    t: (key: MessageKey, params?: MessageParams) => I18n.t(key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => I18n.formatNumber(value, options),
+    formatPercent: (share: number, maximumFractionDigits?: number) => I18n.formatPercent(share, maximumFractionDigits),
+    formatCurrency: (value: number, currency?: string) => I18n.formatCurrency(value, currency),
+    formatDate: (value: number | Date, options?: Intl.DateTimeFormatOptions) => I18n.formatDate(value, options),
+    formatDateTime: (value: number | Date) => I18n.formatDateTime(value)
+  };
+}
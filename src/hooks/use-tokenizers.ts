@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { TokenCounter } from '@/utils/tokenCounter';
+
+// Loads the tokenizers of the given models. Counts made before they are ready are estimates, so the
+// returned flag belongs in the dependencies of whatever counts tokens
+export function useTokenizers(models: string[]): boolean {
+  const key = models.join('\n');
+  const [ready, setReady] = useState(() => models.every(model => TokenCounter.isLoaded(model)));
+
+  useEffect(() => {
+    const needed = key ? key.split('\n') : [];
+    if (needed.every(model => TokenCounter.isLoaded(model))) {
+      setReady(true);
+      return;
+    }
+
+    let active = true;
+    setReady(false);
+    TokenCounter.loadAll(needed).then(() => {
+      if (active) setReady(true);
+    });
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  return ready;
+}
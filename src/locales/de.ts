@@ -0,0 +1,861 @@
+// Reference catalog: keys are grouped by screen, `{name}` marks a parameter
+export const de = {
+  'app.subtitle': 'Zwei-Ebenen-Analyse: Emotionale Reaktionen + Analytische Bewertung mit Korrelations-Insights und Market Validation für Ihr Buch',
+
+  'common.unknown': 'Unbekannt',
+  'common.unknownError': 'Unbekannter Fehler',
+  'common.unexpectedError': 'Ein unbekannter Fehler ist aufgetreten.',
+  'common.score': '{score}/10',
+
+  'language.de': 'Deutsch',
+  'language.en': 'Englisch',
+  'language.es': 'Spanisch',
+
+  'provider.openAICompatibleServer': 'OpenAI-kompatibler Server',
+
+  'languageSwitcher.label': 'Sprache der Oberfläche',
+
+  'notFound.message': 'Hoppla! Seite nicht gefunden',
+  'notFound.home': 'Zur Startseite',
+
+  'upload.progress.loading': 'Datei wird geladen...',
+  'upload.progress.extracting': 'Text wird extrahiert...',
+  'upload.progress.finishing': 'Fertigstellung...',
+  'upload.processed': 'Erfolgreich verarbeitet:',
+  'upload.tip': 'Tipp:',
+
+  'fileUploader.title': 'Manuskript hochladen',
+  'fileUploader.dropHint': 'Ziehen Sie Ihr Manuskript hierher oder klicken Sie zum Auswählen',
+  'fileUploader.choose': 'Datei auswählen',
+  'fileUploader.formats': 'Unterstützte Formate: {formats}',
+  'fileUploader.formatLimit': '{format} (max. {maxSize} MB)',
+  'fileUploader.trackedChanges': 'Nachverfolgte Änderungen',
+  'fileUploader.trackedChanges.accept': 'Annehmen',
+  'fileUploader.trackedChanges.reject': 'Ablehnen',
+  'fileUploader.trackedChangesHint': 'Gilt für DOCX, ODT, RTF und Markdown (CriticMarkup). Fußnoten und Kommentare werden nicht übernommen.',
+  'fileUploader.cleanup.title': 'Bereinigung des PDF-Texts',
+  'fileUploader.cleanup.toggle': 'Druckartefakte bereinigen',
+  'fileUploader.cleanup.removedLines': 'Kopf-, Fußzeilen und Seitenzahlen entfernt',
+  'fileUploader.cleanup.joinedHyphenations': 'Silbentrennungen aufgelöst',
+  'fileUploader.cleanup.mergedLines': 'Zeilenumbrüche zu Absätzen zusammengeführt',
+  'fileUploader.cleanup.typographyFixes': 'Ligaturen, Anführungszeichen und Striche vereinheitlicht',
+  'fileUploader.cleanup.disabledHint': 'Die Bereinigung ist ausgeschaltet, der Text wird so übernommen, wie er aus dem PDF extrahiert wurde.',
+  'fileUploader.cleanup.before': 'Vorher (Seite {page})',
+  'fileUploader.cleanup.after': 'Nachher',
+  'fileUploader.encodingDetails': 'Zeichenkodierung: {encoding} ({source})',
+  'fileUploader.encoding.source.bom': 'per Byte-Order-Mark erkannt',
+  'fileUploader.encoding.source.valid': 'gültiges UTF-8',
+  'fileUploader.encoding.source.guessed': 'geschätzt',
+  'fileUploader.encoding.source.manual': 'manuell gewählt',
+  'fileUploader.encoding.title': 'Zeichenkodierung',
+  'fileUploader.encoding.hint': 'Die Kodierung wurde anhand des Inhalts geschätzt. Wenn Umlaute in den Beispielzeilen unten falsch aussehen, wählen Sie eine andere Kodierung.',
+  'fileUploader.review.title': 'Extrahierten Text prüfen',
+  'fileUploader.review.confirm': 'Manuskript übernehmen',
+  'fileUploader.processing': 'Datei wird verarbeitet...',
+  'fileUploader.processedDetails': '{fileType}, {count} Wörter ({size})',
+  'fileUploader.processedPdfDetails': {
+    one: '{count} Seite, {words} Wörter ({size})',
+    other: '{count} Seiten, {words} Wörter ({size})'
+  },
+  'fileUploader.processedChapterDetails': {
+    one: '{count} Kapitel, {words} Wörter ({size})',
+    other: '{count} Kapitel, {words} Wörter ({size})'
+  },
+  'fileUploader.noTextFile': 'Bitte wählen Sie eine Datei in einem der unterstützten Formate aus.',
+  'fileUploader.pdfTip': 'Für beste Ergebnisse verwenden Sie text-basierte PDFs (keine gescannten Bilder). Die Seitenzahlen des PDFs werden übernommen, damit jedes Feedback auf seine Seite verweist.',
+  'fileUploader.toast.success': 'Datei erfolgreich verarbeitet',
+  'fileUploader.toast.successDescription': {
+    one: '{count} Wort aus {fileType} extrahiert',
+    other: '{count} Wörter aus {fileType} extrahiert'
+  },
+  'fileUploader.toast.error': 'Upload-Fehler',
+  'fileUploader.toast.errorDescription': 'Datei konnte nicht verarbeitet werden. Siehe Details unten.',
+
+  'pages.single': 'S. {page}',
+  'pages.range': 'S. {from}–{to}',
+  'pages.chunk': 'Abschnitt {number}',
+  'pages.chunkWithPages': 'Abschnitt {number} ({pages})',
+
+  'fileError.base': 'Upload-Fehler: Wir konnten den Text aus "{fileName}" nicht extrahieren.',
+  'fileError.unsupportedFileType': 'Dieser Dateityp wird nicht unterstützt.\n\n**Lösung:** Bitte eine TXT-, Markdown-, PDF-, EPUB-, DOCX-, ODT- oder RTF-Datei verwenden.',
+  'fileError.fileTooLarge': 'Die Datei ist zu groß.\n\n**Lösung:** Bitte verwenden Sie eine Datei unter {maxSize} MB.',
+  'fileError.insufficientTextContent': 'Die Datei enthält zu wenig lesbaren Text.\n\n**Lösung:** Sicherstellen, dass die Datei Text enthält.',
+  'fileError.textProcessingFailed': 'Die TXT-Datei konnte nicht verarbeitet werden.\n\n**Lösung:** Bitte versuchen Sie es mit einer anderen TXT-Datei.',
+  'fileError.documentInvalid': 'Das Dokument ist beschädigt oder kein gültiges {format}.\n\n**Lösung:**\n1. Öffnen Sie die Datei in Ihrem Schreibprogramm und speichern Sie sie erneut\n2. Exportieren Sie sie alternativ als DOCX, PDF oder TXT',
+  'fileError.unknown': 'Ein unerwarteter Fehler ist aufgetreten.',
+
+  'pdfError.passwordProtected': 'Dieses PDF ist offenbar passwortgeschützt.\n\n**Lösung:**\n1. Entfernen Sie den Passwortschutz des PDFs\n2. Speichern Sie das PDF ohne Verschlüsselung neu\n3. Laden Sie es erneut hoch',
+  'pdfError.insufficientTextContent': 'Dieses PDF enthält überwiegend Bilder oder sehr wenig extrahierbaren Text.\n\n**Lösung:**\n1. Wandeln Sie gescannte Dokumente mit einem OCR-Programm in durchsuchbaren Text um\n2. Nutzen Sie Online-OCR-Dienste wie "SmallPDF OCR" oder "Adobe Acrobat Online"\n3. Stellen Sie sicher, dass das PDF markierbaren Text enthält (nicht nur Bilder)\n4. Laden Sie stattdessen ein textbasiertes PDF hoch',
+  'pdfError.corruptedPdf': 'Die PDF-Datei ist offenbar beschädigt oder hat ein nicht unterstütztes Format.\n\n**Lösung:**\n1. Laden Sie das Original-PDF erneut herunter\n2. Speichern Sie das PDF aus der Quelle neu (Word, Google Docs usw.)\n3. Öffnen Sie das PDF in einem anderen Betrachter, um es zu prüfen\n4. Wandeln Sie die Datei nach Möglichkeit erneut in ein PDF um',
+  'pdfError.extractionFailed': 'Das passiert häufig bei komplexer Formatierung, gescannten Dokumenten oder geschützten PDFs.\n\n**Versuchen Sie Folgendes:**\n1. **Gescannte Dokumente:** Machen Sie den Text mit einem OCR-Programm durchsuchbar\n2. **Geschützte PDFs:** Entfernen Sie Passwortschutz oder Einschränkungen\n3. **Komplexe Layouts:** Speichern Sie aus der Quelle neu (Word, Google Docs)\n4. **Große Dateien:** Versuchen Sie einen kleineren Abschnitt oder eine vereinfachte Fassung\n5. **Alternative:** Kopieren Sie den Text von Hand in ein neues Dokument und speichern Sie es als PDF\n\n**Empfohlene OCR-Programme:** SmallPDF, Adobe Acrobat Online oder eine Suche nach "OCR PDF kostenlos".',
+
+  'epubError.invalid': 'Die EPUB-Datei ist beschädigt oder unvollständig.\n\n**Lösung:**\n1. Exportieren Sie das EPUB erneut aus Ihrem Schreibprogramm (z. B. Vellum, Calibre, Sigil)\n2. Prüfen Sie die Datei mit EPUBCheck\n3. Laden Sie alternativ eine PDF- oder TXT-Fassung hoch',
+  'epubError.drmProtected': 'Dieses EPUB ist DRM-geschützt, sein Text kann nicht gelesen werden.\n\n**Lösung:** Laden Sie eine Fassung ohne Kopierschutz hoch, etwa den Export aus Ihrem Schreibprogramm.',
+
+  'analyzer.step.config': '1. AI Konfiguration',
+  'analyzer.step.upload': '2. Manuskript hochladen',
+  'analyzer.step.mode': '3. Analyse-Modus wählen',
+  'analyzer.step.archetypes': '4. Leser-Archetypen bestätigen',
+  'analyzer.step.planning': '5. Kosten & Dauer prüfen',
+  'analyzer.twoLayerToggle': 'Zwei-Ebenen-Analyse (Emotional + Analytisch)',
+  'analyzer.twoLayerDescription': 'Detaillierte Analyse mit emotionalen Reaktionen und analytischer Bewertung. Optimiert für Parallelverarbeitung.',
+  'analyzer.standardDescription': 'Standard-Analyse mit Bewertungen und Feedback.',
+  'analyzer.bypassCache': 'Cache umgehen (alle Abschnitte neu anfragen)',
+  'analyzer.outputLanguage': 'Ausgabesprache',
+  'analyzer.outputLanguage.detected': 'Automatisch (erkannt: {language}, {confidence})',
+  'analyzer.outputLanguage.undetected': 'Automatisch (nicht erkannt, {language})',
+  'analyzer.outputLanguage.hint': 'Sprache der Prompts und damit des Feedbacks. Für jede Sprache werden die dort aktiven Prompt-Vorlagen verwendet.',
+  'analyzer.promptPreview': 'Prompt-Vorschau',
+  'analyzer.promptTrial': 'Prompt-Test (optional)',
+  'analyzer.loadingTokenizers': 'Tokenizer werden geladen...',
+  'analyzer.running': 'Analyse läuft...',
+  'analyzer.runningTwoLayer': 'Optimierte Zwei-Ebenen-Analyse läuft...',
+  'analyzer.pause': 'Pausieren',
+  'analyzer.resume': 'Fortsetzen',
+  'analyzer.cancel': 'Analyse abbrechen',
+  'analyzer.pausedStatus': '⏸️ Pausiert – {step}',
+  'analyzer.tab.analysis': 'Leser-Analyse',
+  'analyzer.tab.market': 'Market Validation',
+  'analyzer.tab.spend': 'Kosten & Verbrauch',
+  'analyzer.results': 'Ergebnisse der Leser-Analyse',
+  'analyzer.resultsTwoLayer': 'Zwei-Ebenen-Analyse Ergebnisse',
+  'analyzer.restart': 'Neue Analyse',
+  'analyzer.promptVersions': 'Prompt-Version: {versions}',
+  'analyzer.invalidStep': 'Ungültiger Schritt',
+  'analyzer.job.startingTwoLayer': 'Starte Zwei-Ebenen-Analyse...',
+  'analyzer.job.analyzingArchetype': 'Analysiere {name}...',
+  'analyzer.toast.configSaved': 'AI Konfiguration gespeichert.',
+  'analyzer.toast.fileLoaded': 'Datei erfolgreich geladen.',
+  'analyzer.toast.standardStarted': 'Standard-Analyse gestartet...',
+  'analyzer.toast.twoLayerStarted': 'Zwei-Ebenen-Analyse gestartet...',
+  'analyzer.toast.startedDescription': 'Die Ergebnisse werden schrittweise angezeigt.',
+  'analyzer.toast.completed': 'Analyse erfolgreich abgeschlossen!',
+  'analyzer.toast.failed': 'Analyse fehlgeschlagen',
+  'analyzer.toast.cancelled': 'Analyse wurde abgebrochen.',
+  'analyzer.toast.budgetExceeded': 'Budget aufgebraucht',
+  'analyzer.toast.budgetExceededDescription': 'Die Analyse wurde vorzeitig beendet. Es werden die Teilergebnisse angezeigt.',
+  'analyzer.toast.revisionLoaded': 'Als Revision {number} von „{title}“ geladen.',
+  'analyzer.toast.revisionNotSaved': 'Revision konnte nicht gespeichert werden',
+  'analyzer.toast.revisionNotSavedDescription': 'Der Browser-Speicher ist voll. Die Ergebnisse bleiben sichtbar, dienen der nächsten Revision aber nicht als Vergleich.',
+  'analyzer.project.label': 'Projekt',
+  'analyzer.project.new': 'Neues Projekt',
+  'analyzer.project.option': {
+    one: '{title} ({count} Revision)',
+    other: '{title} ({count} Revisionen)'
+  },
+  'analyzer.project.hint': 'Eine neue Fassung eines bestehenden Projekts wird mit der letzten Revision verglichen. Nur geänderte und neue Abschnitte werden erneut analysiert.',
+
+  'revisions.title': 'Änderungen gegenüber der letzten Revision',
+  'revisions.summary': '{changed} geänderte, {added} neue und {unchanged} unveränderte Abschnitte. Unveränderte Abschnitte wurden aus der letzten Revision übernommen.',
+  'revisions.showUnchanged': 'Unveränderte Abschnitte zeigen',
+  'revisions.noChanges': 'Keine geänderten oder neuen Abschnitte.',
+  'revisions.chunk': 'Abschnitt',
+  'revisions.status': 'Status',
+  'revisions.change.unchanged': 'Unverändert',
+  'revisions.change.changed': 'Geändert',
+  'revisions.change.added': 'Neu',
+
+  'task.reader_analysis': 'Leser-Analyse',
+  'task.emotional_notes': 'Emotionale Notizen',
+  'task.analytical_review': 'Analytische Bewertung',
+  'task.correlation': 'Korrelationsanalyse',
+  'task.basic_scoring': 'Basis-Bewertung',
+  'task.stream_of_thought': 'Gedankenstrom',
+  'task.analytical_insight': 'Analytische Einsichten',
+  'task.landscape': 'Literarisches Umfeld',
+  'task.personas': 'Zielgruppen-Personas',
+  'task.title_feedback': 'Titel-Feedback',
+  'task.cover_feedback': 'Cover-Feedback',
+  'task.blurb_feedback': 'Klappentext-Feedback',
+  'task.ab_test': 'A/B-Test',
+  'task.marketing_strategy': 'Marketing-Strategie',
+  'task.cohesion_check': 'Strategie-Kohärenz',
+  'task.market_context': 'Marktkontext',
+
+  'runKind.analysis': 'Standard-Analyse',
+  'runKind.two_layer': 'Zwei-Ebenen-Analyse',
+  'runKind.market_validation': 'Marktvalidierung',
+  'runKind.prompt_trial': 'Prompt-Test',
+
+  'rating.overallRating': 'Gesamtwertung',
+  'rating.engagement': 'Engagement',
+  'rating.style': 'Stil',
+  'rating.clarity': 'Klarheit',
+  'rating.pacing': 'Tempo',
+  'rating.relevance': 'Relevanz',
+
+  'job.initializing': 'Initialisierung...',
+  'job.budgetExceeded': 'Budget aufgebraucht – Analyse wird mit Teilergebnissen beendet...',
+  'job.cancelled': 'Abgebrochen',
+
+  'analysis.status.starting': 'Starte Analyse: {archetypes} Archetypen × {chunks} Abschnitte',
+  'analysis.status.failed': '⚠️ Fehler bei {chunk}',
+  'analysis.status.analyzed': '✅ {archetype}: {chunk} analysiert ({rating}/10)',
+  'analysis.chunk.titled': {
+    one: '„{title}“ ({count} Wort)',
+    other: '„{title}“ ({count} Wörter)'
+  },
+  'analysis.chunk.numbered': {
+    one: 'Abschnitt {number} ({count} Wort)',
+    other: 'Abschnitt {number} ({count} Wörter)'
+  },
+  'analysis.step.emotional': 'Emotionale Analyse',
+  'analysis.step.analytical': 'Analytische Bewertung',
+  'analysis.step.correlation': 'Korrelationsanalyse',
+
+  'chunking.summary': {
+    one: 'Text in {count} Abschnitt aufgeteilt (∅ {words} Wörter, {tokens} Tokens/Abschnitt)',
+    other: 'Text in {count} Abschnitte aufgeteilt (∅ {words} Wörter, {tokens} Tokens/Abschnitt)'
+  },
+  'chunking.chapters': 'Struktur erkannt: {count} Kapitel',
+  'chunking.sections': 'Struktur erkannt: {count} Abschnitte',
+  'chunking.paragraphs': 'Semantische Aufteilung nach Absätzen',
+  'chunking.automatic': 'Automatische Aufteilung',
+  'chunking.empty': 'Kein Text zum Aufteilen',
+
+  'promptPreview.intro': 'Zeigt die fertigen Prompts jedes Schritts, bevor dafür bezahlt wird. Es werden keine KI-Aufrufe ausgeführt.',
+  'promptPreview.pipeline': 'Ablauf',
+  'promptPreview.pipeline.standard': 'Standard-Analyse',
+  'promptPreview.pipeline.two_layer': 'Zwei-Ebenen-Analyse',
+  'promptPreview.pipeline.market': 'Marktvalidierung',
+  'promptPreview.chunk': 'Textabschnitt',
+  'promptPreview.bookStart': 'Buchanfang',
+  'promptPreview.chunkOption': '{title} ({words} Wörter)',
+  'promptPreview.chunkNumber': 'Abschnitt {number}',
+  'promptPreview.archetype': 'Archetyp',
+  'promptPreview.overflow': '{step}: Prompt und Antwort passen nicht in das Kontextfenster von {model} – der Abschnitt würde abgeschnitten.',
+  'promptPreview.stepError': '{step}: {error}',
+  'promptPreview.error': 'Fehler',
+  'promptPreview.tokens': 'ca. {used} / {window} Tokens',
+  'promptPreview.status.ok': 'Passt',
+  'promptPreview.status.near_limit': 'Knapp',
+  'promptPreview.status.overflow': 'Wird abgeschnitten',
+  'promptPreview.usage': 'Modell {model}: ca. {prompt} Prompt-Tokens + bis zu {completion} Antwort-Tokens von {window} im Kontextfenster',
+  'promptPreview.usageReserved': 'Modell {model}: ca. {prompt} Prompt-Tokens + {reserved} aus Vorstufen + bis zu {completion} Antwort-Tokens von {window} im Kontextfenster',
+  'promptPreview.systemPrompt': 'System Prompt',
+  'promptPreview.userPrompt': 'User Prompt',
+  'promptPreview.note.placeholders': 'Platzhalter für Laufzeitwerte: {names}',
+  'promptPreview.note.reserved': '{tokens} Tokens für die emotionalen Notizen aus Ebene 1 eingerechnet',
+  'promptPreview.note.excerpt': 'Buchauszug auf die ersten {length} von {total} Zeichen gekürzt',
+  'promptPreview.note.unknownContext': 'Kontextfenster von {model} unbekannt – konservativ {tokens} Tokens angenommen',
+
+  'spend.noBook': 'Ohne Buch',
+  'spend.untitledBook': 'Unbenanntes Buch',
+  'spend.noRun': 'Ohne Lauf',
+  'spend.noTemplate': 'Ohne Vorlage',
+  'spend.empty': 'Noch keine KI-Aufrufe erfasst.',
+  'spend.calls': 'Aufrufe',
+  'spend.cacheHits': 'Aus Cache',
+  'spend.promptTokens': 'Prompt-Tokens',
+  'spend.completionTokens': 'Antwort-Tokens',
+  'spend.latency': 'Ø Latenz',
+  'spend.cost': 'Kosten',
+  'spend.unpriced': '{count} ohne Preis',
+  'spend.totalCost': 'Gesamtkosten',
+  'spend.totalCalls': 'KI-Aufrufe',
+  'spend.latencyTokens': 'Ø Latenz ({tokens} Tokens)',
+  'spend.milliseconds': '{ms} ms',
+  'spend.seconds': '{seconds} s',
+  'spend.tab.books': 'Pro Buch',
+  'spend.tab.runs': 'Pro Lauf',
+  'spend.tab.modules': 'Pro Modul',
+  'spend.tab.prompts': 'Pro Prompt-Version',
+  'spend.clear': 'Verlauf löschen',
+  'spend.group.book': 'Buch',
+  'spend.group.run': 'Lauf',
+  'spend.group.module': 'Modul',
+  'spend.group.prompt': 'Prompt-Version',
+
+  'results.title': 'Analyse Ergebnisse',
+  'results.empty': 'Keine Ergebnisse vorhanden.',
+  'results.overview': 'Bewertungs-Übersicht',
+  'results.errorBarsHint': 'Fehlerbalken zeigen die Standardabweichung zwischen den Ensemble-Mitgliedern.',
+  'results.agreementTitle': 'Modell-Übereinstimmung',
+  'results.archetype': 'Archetyp',
+  'results.agreement': 'Übereinstimmung',
+  'results.spread': '± {dimension}',
+  'results.unreliable': {
+    one: '{count} Abschnitt mit geringer Übereinstimmung – diese Bewertung ist unzuverlässig:',
+    other: '{count} Abschnitte mit geringer Übereinstimmung – diese Bewertungen sind unzuverlässig:'
+  },
+  'results.unreliableAgreement': 'Übereinstimmung {agreement}',
+  'results.more': '… und {count} weitere',
+
+  'strategy.title': 'Fortschritt der Strategie',
+  'strategy.progress': 'Gesamtfortschritt',
+  'strategy.completed': '{completed}/{total} erledigt',
+  'strategy.element.title': 'Titel',
+  'strategy.element.cover': 'Cover',
+  'strategy.element.blurb': 'Klappentext',
+  'strategy.element.personas': 'Personas',
+  'strategy.element.marketing': 'Marketing',
+  'strategy.selected': 'Ausgewählt',
+  'strategy.pending': 'Ausstehend',
+  'strategy.generated': 'Erstellt',
+  'strategy.personasDefined': {
+    one: '{count} definiert',
+    other: '{count} definiert'
+  },
+  'strategy.tab.summary': 'Zusammenfassung',
+  'strategy.tab.cohesion': 'Stimmigkeit',
+  'strategy.tab.actions': 'Schnellaktionen',
+  'strategy.selectedElements': 'Ausgewählte Elemente',
+  'strategy.notSelected': 'Nicht ausgewählt',
+  'strategy.targetAudience': 'Zielgruppe',
+  'strategy.marketingOverview': 'Marketingstrategie im Überblick',
+  'strategy.angles': 'Marketing-Ansätze',
+  'strategy.channels': 'Marketing-Kanäle',
+  'strategy.campaignIdeas': 'Kampagnenideen',
+  'strategy.cohesionTitle': 'Stimmigkeit der Strategie',
+  'strategy.analyzing': 'Analysiere...',
+  'strategy.runCohesion': 'Stimmigkeit prüfen',
+  'strategy.cohesionRequirement': 'Wählen Sie mindestens Titel, Cover und Klappentext aus, um die Stimmigkeit zu prüfen.',
+  'strategy.cohesionScore': 'Gesamtwert der Stimmigkeit',
+  'strategy.strengths': 'Stärken',
+  'strategy.weaknesses': 'Verbesserungspotenzial',
+  'strategy.recommendations': 'Empfehlungen',
+  'strategy.refine': 'Strategie verfeinern',
+  'strategy.refineTitles': 'Titeloptionen verfeinern',
+  'strategy.refineCovers': 'Neue Cover-Konzepte testen',
+  'strategy.refineBlurbs': 'Klappentext optimieren',
+  'strategy.export': 'Exportieren & teilen',
+  'strategy.exportStrategy': 'Gesamte Strategie exportieren',
+  'strategy.exportRequirement': 'Schließen Sie weitere Bereiche ab, um zu exportieren',
+
+  'feedback.selectPersonas': 'Personas für Feedback auswählen',
+  'feedback.noPersonas': 'Bitte generieren Sie zuerst Zielgruppen-Personas im vorherigen Schritt.',
+  'feedback.error.noPersona': 'Bitte wählen Sie mindestens eine Persona aus.',
+  'feedback.overallScore': 'Gesamtbewertung:',
+  'feedback.positive': 'Positiv:',
+  'feedback.concerns': 'Bedenken:',
+  'feedback.strengths': 'Stärken:',
+  'feedback.weaknesses': 'Schwächen:',
+
+  'titleFeedback.title': 'Titel-Feedback Simulator',
+  'titleFeedback.subtitle': 'Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Titeloptionen',
+  'titleFeedback.options': 'Titel-Optionen',
+  'titleFeedback.placeholder': 'Titel {number}',
+  'titleFeedback.add': 'Titel hinzufügen',
+  'titleFeedback.run': 'Titel-Feedback simulieren',
+  'titleFeedback.running': 'Analysiere Titel...',
+  'titleFeedback.results': 'Titel-Feedback Ergebnisse',
+  'titleFeedback.error.noTitle': 'Bitte geben Sie mindestens einen Titel an.',
+  'titleFeedback.error.failed': 'Fehler bei der Titel-Analyse: {message}',
+
+  'coverFeedback.title': 'Cover-Konzept Feedback Simulator',
+  'coverFeedback.subtitle': 'Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Cover-Konzepten',
+  'coverFeedback.concepts': 'Cover-Konzepte beschreiben',
+  'coverFeedback.concept': 'Konzept {number}',
+  'coverFeedback.placeholder': 'Beschreiben Sie das Cover-Design detailliert (z.B. Farben, Bilder, Stil, Typografie, Stimmung)...',
+  'coverFeedback.add': 'Cover-Konzept hinzufügen',
+  'coverFeedback.run': 'Cover-Feedback simulieren',
+  'coverFeedback.running': 'Analysiere Cover...',
+  'coverFeedback.results': 'Cover-Feedback Ergebnisse',
+  'coverFeedback.description': 'Beschreibung:',
+  'coverFeedback.emotion': 'Emotion:',
+  'coverFeedback.visualAppeal': 'Visueller Reiz:',
+  'coverFeedback.genreAppropriate': 'Genre-Passend:',
+  'coverFeedback.standoutFactor': 'Wiedererkennbarkeit:',
+  'coverFeedback.error.noConcept': 'Bitte beschreiben Sie mindestens ein Cover-Konzept.',
+  'coverFeedback.error.failed': 'Fehler bei der Cover-Analyse: {message}',
+
+  'blurbFeedback.title': 'Klappentext-Feedback Simulator',
+  'blurbFeedback.subtitle': 'Simuliere Feedback von Ihren Zielgruppen zu verschiedenen Klappentext-Varianten',
+  'blurbFeedback.variants': 'Klappentext-Varianten',
+  'blurbFeedback.version': 'Version {number}',
+  'blurbFeedback.placeholder': 'Geben Sie hier Ihren Klappentext ein...',
+  'blurbFeedback.characters': {
+    one: '{count} Zeichen',
+    other: '{count} Zeichen'
+  },
+  'blurbFeedback.add': 'Klappentext-Variante hinzufügen',
+  'blurbFeedback.run': 'Klappentext-Feedback simulieren',
+  'blurbFeedback.running': 'Analysiere Klappentexte...',
+  'blurbFeedback.results': 'Klappentext-Feedback Ergebnisse',
+  'blurbFeedback.resultVersion': 'Klappentext Version {number}',
+  'blurbFeedback.clarity': 'Klarheit:',
+  'blurbFeedback.intrigue': 'Spannung:',
+  'blurbFeedback.characterAppeal': 'Charaktere:',
+  'blurbFeedback.pace': 'Tempo:',
+  'blurbFeedback.buyingIntent': 'Kaufabsicht:',
+  'blurbFeedback.error.noBlurb': 'Bitte geben Sie mindestens einen Klappentext mit mindestens 20 Zeichen an.',
+  'blurbFeedback.error.failed': 'Fehler bei der Klappentext-Analyse: {message}',
+
+  'marketing.title': 'Marketingstrategie-Generator',
+  'marketing.selectPersonas': 'Ziel-Personas auswählen (1–3 Hauptzielgruppen)',
+  'marketing.generate': 'Marketingstrategie erstellen',
+  'marketing.generating': 'Erstelle Strategie...',
+  'marketing.result': 'Ihre Marketingstrategie',
+  'marketing.tab.angles': 'Ansätze',
+  'marketing.tab.channels': 'Kanäle',
+  'marketing.tab.keywords': 'Keywords',
+  'marketing.tab.taglines': 'Slogans',
+  'marketing.tab.campaigns': 'Kampagnen',
+  'marketing.keyMessages': 'Kernbotschaften',
+  'marketing.emotionalTriggers': 'Emotionale Auslöser',
+  'marketing.targetPersonas': 'Ziel-Personas',
+  'marketing.contentStyle': 'Content-Stil',
+  'marketing.reach': 'Reichweite:',
+  'marketing.cost': 'Kosten:',
+  'marketing.difficulty': 'Aufwand:',
+  'marketing.level.high': 'Hoch',
+  'marketing.level.medium': 'Mittel',
+  'marketing.level.low': 'Niedrig',
+  'marketing.keywords': 'SEO- & Werbe-Keywords',
+  'marketing.taglines': 'Marketing-Slogans',
+  'marketing.campaigns': 'Kreative Kampagnenideen',
+  'marketing.campaign': 'Kampagne {number}:',
+
+  'landscape.title': 'Literarische Marktlandschaft & Trends',
+  'landscape.subtitle': 'Analysiere dein Buch im Kontext aktueller Markttrends und Wettbewerber',
+  'landscape.genres': 'Genres & Sub-Genres',
+  'landscape.genrePlaceholder': 'Genre {number}',
+  'landscape.addGenre': 'Genre hinzufügen',
+  'landscape.competitors': 'Vergleichstitel (Optional)',
+  'landscape.competitorPlaceholder': 'Vergleichstitel {number}',
+  'landscape.addCompetitor': 'Titel hinzufügen',
+  'landscape.run': 'Marktanalyse starten',
+  'landscape.running': 'Analysiere Markt...',
+  'landscape.position': 'Marktpositionierung',
+  'landscape.mainGenre': 'Hauptgenre',
+  'landscape.subGenres': 'Sub-Genres',
+  'landscape.usps': 'Alleinstellungsmerkmale',
+  'landscape.trends': 'Trend-Analyse',
+  'landscape.currentTrends': 'Aktuelle Trends',
+  'landscape.opportunities': 'Marktchancen',
+  'landscape.error.noGenre': 'Bitte geben Sie mindestens ein Genre an.',
+  'landscape.error.failed': 'Fehler bei der Marktanalyse. Bitte versuchen Sie es erneut.',
+
+  'audience.title': 'Zielgruppen-Personas',
+  'audience.subtitle': 'Generiere detaillierte Leser-Personas basierend auf deinem Buch und der Marktpositionierung',
+  'audience.currentPosition': 'Aktuelle Marktpositionierung',
+  'audience.genre': 'Genre:',
+  'audience.subGenres': 'Sub-Genres:',
+  'audience.generate': 'Leser-Personas generieren',
+  'audience.generating': 'Generiere Personas...',
+  'audience.results': 'Generierte Leser-Personas',
+  'audience.demographics': 'Demografische Daten',
+  'audience.age': 'Alter:',
+  'audience.gender': 'Geschlecht:',
+  'audience.education': 'Bildung:',
+  'audience.occupation': 'Beruf:',
+  'audience.readingHabits': 'Lesegewohnheiten',
+  'audience.frequency': 'Häufigkeit:',
+  'audience.formats': 'Formate:',
+  'audience.favoriteGenres': 'Lieblings-Genres:',
+  'audience.psychographics': 'Psychografie',
+  'audience.values': 'Werte:',
+  'audience.motivations': 'Motivationen:',
+  'audience.bookConnections': 'Buchverbindungen',
+  'audience.error.noMarketPosition': 'Bitte führen Sie zuerst die Marktanalyse durch.',
+  'audience.error.failed': 'Fehler bei der Persona-Generierung. Bitte versuchen Sie es erneut.',
+
+  'progress.status': 'Status:',
+  'progress.chunking': 'Text-Aufteilung:',
+  'progress.title': 'Analyse-Fortschritt',
+  'progress.archetypes': 'Archetypen',
+  'progress.chunks': 'Text-Abschnitte',
+  'progress.steps': 'Gesamt-Analysen',
+  'progress.apiCalls': 'API-Aufrufe',
+  'progress.cacheHits': 'Aus Cache',
+  'progress.tokens': 'Token verbraucht',
+  'progress.progress': 'Fortschritt',
+  'progress.percentDone': '{percent} abgeschlossen',
+  'progress.step': 'Schritt {current} von {total}',
+  'progress.current': 'Aktuell: {archetype}',
+  'progress.chunk': 'Abschnitt {current} von {total}',
+  'progress.recent': 'Neueste Bewertungen (1-10 Skala):',
+  'progress.buyingProbability': 'Kaufwahrscheinlichkeit: {probability}',
+
+  'aiConfig.title': 'KI-Anbieter Konfiguration',
+  'aiConfig.intro': 'Wählen Sie den KI-Anbieter für die Analyse: OpenAI, Anthropic, Azure OpenAI oder einen eigenen OpenAI-kompatiblen Server.',
+  'aiConfig.provider': 'KI-Anbieter',
+  'aiConfig.provider.openai': 'OpenAI',
+  'aiConfig.provider.openaiDescription': 'GPT-Modelle über api.openai.com',
+  'aiConfig.provider.anthropic': 'Anthropic',
+  'aiConfig.provider.anthropicDescription': 'Claude-Modelle über api.anthropic.com',
+  'aiConfig.provider.azure': 'Azure OpenAI',
+  'aiConfig.provider.azureDescription': 'Eigene Deployments in Azure',
+  'aiConfig.provider.local': 'Lokaler Server',
+  'aiConfig.provider.localDescription': 'OpenAI-kompatibel, z.B. llama.cpp oder Ollama',
+  'aiConfig.model': 'KI-Modell auswählen',
+  'aiConfig.deployment': 'Deployment-Name',
+  'aiConfig.deploymentPlaceholder': 'mein-gpt-4o-deployment',
+  'aiConfig.modelLabel': '{name} ({tier})',
+  'aiConfig.tier.fastCheap': 'Schnell & Günstig',
+  'aiConfig.tier.powerful': 'Leistungsstark',
+  'aiConfig.tier.cheap': 'Günstig',
+  'aiConfig.use.books': 'Optimal für Buchanalyse',
+  'aiConfig.use.detailed': 'Detailliertere Analyse',
+  'aiConfig.use.basic': 'Basis-Analyse',
+  'aiConfig.baseUrl': 'Basis-URL',
+  'aiConfig.baseUrlOptional': 'Basis-URL (optional)',
+  'aiConfig.apiVersion': 'API-Version (optional)',
+  'aiConfig.proxyKey': 'Der {provider} API-Key wird serverseitig im KI-Proxy verwaltet und nie an den Browser übertragen. Anfragen werden über Ihre Sitzung authentifiziert.',
+  'aiConfig.apiKey': 'API-Key (optional, wird nicht gespeichert)',
+  'aiConfig.paste': 'Aus Zwischenablage einfügen',
+  'aiConfig.save': 'Verbindung speichern & validieren',
+  'aiConfig.validating': 'Validiere...',
+  'aiConfig.offline': 'Offline-Modus aktiv – es werden keine Anfragen an einen KI-Anbieter gesendet.',
+  'aiConfig.configured': '{provider} ist konfiguriert. Modell: {model}',
+  'aiConfig.continue': 'Weiter',
+  'aiConfig.reconfigure': 'Neu konfigurieren',
+  'aiConfig.toast.pasted': 'API-Key eingefügt',
+  'aiConfig.toast.pastedDescription': 'API-Key wurde aus der Zwischenablage eingefügt.',
+  'aiConfig.toast.invalidKey': 'Ungültiger API-Key',
+  'aiConfig.toast.invalidKeyDescription': 'Der eingefügte Text scheint kein gültiger {provider} API-Key zu sein.',
+  'aiConfig.toast.pasteFailed': 'Fehler beim Einfügen',
+  'aiConfig.toast.pasteFailedDescription': 'Zwischenablage konnte nicht gelesen werden. Stellen Sie sicher, dass Sie die Berechtigung erteilt haben.',
+  'aiConfig.toast.validated': 'Verbindung validiert',
+  'aiConfig.toast.validatedDescription': 'Die Verbindung zu {provider} wurde erfolgreich getestet.',
+  'aiConfig.toast.validationFailed': 'Validierung fehlgeschlagen',
+  'aiConfig.toast.validationFailedDescription': 'Der API-Key ist ungültig oder es gab einen Verbindungsfehler.',
+  'aiConfig.toast.notSignedIn': 'Nicht angemeldet',
+
+  'twoLayer.emotionalNotes': 'Emotionale Notizen',
+  'twoLayer.analyticalReviews': 'Analytische Reviews',
+  'twoLayer.averageRating': 'Durchschn. Bewertung',
+  'twoLayer.export': 'Export',
+  'twoLayer.tab.overview': 'Übersicht',
+  'twoLayer.tab.emotional': 'Emotionale Reise',
+  'twoLayer.tab.analytical': 'Analytische Bewertung',
+  'twoLayer.tab.correlation': 'Korrelations-Analyse',
+  'twoLayer.tab.detailed': 'Detailansicht',
+  'twoLayer.chunks': {
+    one: '{count} Abschnitt',
+    other: '{count} Abschnitte'
+  },
+  'twoLayer.analyticalRating': 'Analytische Bewertung',
+  'twoLayer.emotionalIntensity': 'Emotionale Intensität',
+  'twoLayer.archetypeSection': '{archetype} - {section}',
+  'twoLayer.neutral': 'neutral',
+  'twoLayer.literaryElements': 'Literarische Elemente:',
+  'twoLayer.characterDevelopment': 'Charakterentwicklung: {score}',
+  'twoLayer.plotProgression': 'Handlungsfortschritt: {score}',
+  'twoLayer.technicalAspects': 'Technische Aspekte:',
+  'twoLayer.pacing': 'Tempo: {score}',
+  'twoLayer.dialogue': 'Dialog: {score}',
+  'twoLayer.suggestions': 'Verbesserungsvorschläge:',
+  'twoLayer.strengths': 'Stärken',
+  'twoLayer.discrepancies': 'Diskrepanzen',
+  'twoLayer.discrepancy': '{chunk}: Emotionale vs. analytische Bewertung weichen stark ab',
+  'twoLayer.strength': '{chunk}: Sowohl emotional als auch analytisch stark',
+  'twoLayer.selectArchetype': 'Archetyp auswählen',
+  'twoLayer.selectChunk': 'Abschnitt auswählen',
+  'twoLayer.synthesis': 'Synthese:',
+
+  'duration.seconds': '{seconds} Sek.',
+  'duration.minutes': 'ca. {minutes} Min.',
+  'duration.hours': 'ca. {hours} Std. {minutes} Min.',
+
+  'planner.chunks': 'Text-Abschnitte',
+  'planner.calls': 'API-Aufrufe',
+  'planner.cost': 'Geschätzte Kosten',
+  'planner.duration': 'Geschätzte Dauer',
+  'planner.carriedOver': {
+    one: '{count} unveränderter Abschnitt wird aus der letzten Revision übernommen und nicht erneut analysiert.',
+    other: '{count} unveränderte Abschnitte werden aus der letzten Revision übernommen und nicht erneut analysiert.'
+  },
+  'planner.callType': 'Aufruftyp',
+  'planner.callCount': 'Aufrufe',
+  'planner.promptTokens': 'Prompt-Tokens',
+  'planner.completionTokens': 'Antwort-Tokens',
+  'planner.callCost': 'Kosten',
+  'planner.noEnsemblePrices': 'Für mindestens ein Ensemble-Modell sind keine Preise hinterlegt. Kosten und Budget können nicht berechnet werden.',
+  'planner.noPrices': 'Für das Modell „{model}“ sind keine Preise hinterlegt. Kosten und Budget können nicht berechnet werden.',
+  'planner.budget': 'Budget-Obergrenze (USD, optional)',
+  'planner.budgetPlaceholder': 'z.B. 2,50',
+  'planner.budgetHint': 'Ist das Budget aufgebraucht, wird die Analyse nach den laufenden Aufrufen beendet und die bisherigen Ergebnisse werden angezeigt.',
+  'planner.budgetShort': 'Das Budget reicht voraussichtlich nur für etwa {share} der Analyse.',
+  'planner.back': 'Zurück',
+  'planner.start': 'Analyse starten',
+
+  'ensemble.toggle': 'Ensemble-Modus (mehrere Modelle oder Stichproben je Abschnitt)',
+  'ensemble.standardOnly': 'Nur in der Standard-Analyse verfügbar.',
+  'ensemble.model': 'Modell',
+  'ensemble.temperature': 'Temperatur',
+  'ensemble.removeMember': 'Mitglied entfernen',
+  'ensemble.addMember': 'Mitglied hinzufügen',
+  'ensemble.active': 'Jeder Abschnitt wird {count}× bewertet; die Kosten steigen entsprechend. Dasselbe Modell mehrfach ergibt unabhängige Stichproben.',
+  'ensemble.tooFew': 'Mindestens zwei Mitglieder mit Modellnamen sind nötig, sonst wird normal analysiert.',
+
+  'mock.title': 'Offline-Modus (Tests & Demos)',
+  'mock.fixtures': {
+    one: '{count} Fixture',
+    other: '{count} Fixtures'
+  },
+  'mock.mode.off': 'Aus',
+  'mock.mode.offDescription': 'Alle Anfragen gehen an den konfigurierten KI-Anbieter',
+  'mock.mode.record': 'Aufzeichnen',
+  'mock.mode.recordDescription': 'Echte Antworten werden als Fixtures gespeichert',
+  'mock.mode.replay': 'Wiedergabe',
+  'mock.mode.replayDescription': 'Aufgezeichnete Antworten ohne Netzwerk abspielen',
+  'mock.mode.synthetic': 'Synthetisch',
+  'mock.mode.syntheticDescription': 'Zufällige, aber gültige Antworten ohne Netzwerk erzeugen',
+  'mock.export': 'Exportieren',
+  'mock.import': 'Importieren',
+  'mock.clear': 'Leeren',
+  'mock.toast.imported': 'Fixtures importiert',
+  'mock.toast.importedDescription': {
+    one: '{count} aufgezeichnete Antwort geladen.',
+    other: '{count} aufgezeichnete Antworten geladen.'
+  },
+  'mock.toast.importFailed': 'Import fehlgeschlagen',
+  'mock.toast.unreadable': 'Die Datei konnte nicht gelesen werden.',
+  'mock.error.noRecording': 'Keine aufgezeichnete Antwort für diesen Prompt gefunden ({task}, Schlüssel {key}).',
+  'mock.error.invalidFile': 'Ungültige Fixture-Datei',
+
+  'rateLimit.title': 'Ratenlimits',
+  'rateLimit.requestsPerMinute': 'Anfragen pro Minute',
+  'rateLimit.tokensPerMinute': 'Tokens pro Minute',
+  'rateLimit.maxRetries': 'Wiederholungen bei Fehlern',
+  'rateLimit.hint': 'Gilt für alle Analysen gemeinsam. Bei Ratenlimit- oder Serverfehlern wird mit wachsender Wartezeit erneut angefragt.',
+
+  'cache.title': 'Antwort-Cache',
+  'cache.stats': {
+    one: '{count} Eintrag · {size} MB',
+    other: '{count} Einträge · {size} MB'
+  },
+  'cache.maxSize': 'Max. {size} MB',
+  'cache.clear': 'Leeren',
+  'cache.hint': 'Unveränderte Abschnitte werden bei erneuten Analysen aus dem Cache geladen. Älteste Einträge werden bei Überschreitung des Limits entfernt.',
+
+  'routing.title': 'Modell-Routing pro Aufgabe',
+  'routing.reset': 'Zurücksetzen',
+  'routing.task': 'Aufgabe',
+  'routing.model': 'Modell',
+  'routing.temperature': 'Temperatur',
+  'routing.maxTokens': 'Max. Tokens',
+  'routing.modelFor': 'Modell für {task}',
+  'routing.temperatureFor': 'Temperatur für {task}',
+  'routing.maxTokensFor': 'Max. Tokens für {task}',
+  'routing.hint': 'Leere Felder übernehmen das Standardmodell bzw. die Werte der aktiven Prompt-Vorlage. Die Tabelle wird mit jedem Lauf gespeichert.',
+
+  'promptHistory.original': 'Ursprüngliche Fassung',
+  'promptHistory.noChanges': 'Keine Änderungen',
+  'promptHistory.version': 'Version',
+  'promptHistory.saved': 'Gespeichert',
+  'promptHistory.temperature': 'Temperatur',
+  'promptHistory.maxTokens': 'Max. Tokens',
+  'promptHistory.restore': 'Wiederherstellen',
+  'promptHistory.noVersions': 'Noch keine weiteren Versionen. Jede gespeicherte Änderung am Wortlaut erzeugt eine neue Version.',
+  'promptHistory.compare': 'Vergleiche',
+  'promptHistory.with': 'mit',
+  'promptHistory.settingsChange': 'Temperatur {fromTemperature} → {toTemperature} · Max. Tokens {fromMaxTokens} → {toMaxTokens}',
+  'promptHistory.systemPrompt': 'System Prompt',
+  'promptHistory.userPrompt': 'User Prompt',
+
+  'trial.intro': 'Lässt zwei Prompt-Versionen dieselben Textabschnitte aus Sicht derselben Archetypen bewerten und stellt Bewertungsverteilung und Feedback gegenüber.',
+  'trial.module': 'Modul',
+  'trial.versionA': 'Version A',
+  'trial.versionB': 'Version B',
+  'trial.sampleSize': 'Textabschnitte',
+  'trial.sameVersion': 'Beide Seiten verwenden dieselbe Version. Speichern Sie eine geänderte Fassung oder wählen Sie eine andere Version.',
+  'trial.stop': 'Test abbrechen',
+  'trial.start': 'Prompt-Test starten',
+  'trial.callCount': '{calls} KI-Aufrufe ({archetypes} Archetypen × {chunks} Abschnitte × 2 Versionen)',
+  'trial.dimension': 'Dimension',
+  'trial.failures': 'Fehlgeschlagene Aufrufe: A {a}, B {b} – diese fließen nicht in die Werte ein.',
+  'trial.histogramA': 'Verteilung Gesamtwertung A',
+  'trial.histogramB': 'Verteilung Gesamtwertung B',
+  'trial.feedback': 'Feedback im Vergleich',
+  'trial.callFailed': 'Aufruf fehlgeschlagen',
+
+  'promptTemplate.unknownVariable': 'Unbekannte Variable {{name}}',
+  'promptTemplate.missingVariable': 'Pflichtvariable {{name}} fehlt',
+  'promptTemplate.invalid': 'Ungültige Prompt-Vorlage – {problems}',
+  'promptTemplate.invalidVersion': 'Ungültige Prompt-Version – {problems}',
+  'promptTemplate.noValue': 'Kein Wert für Variable {placeholder}',
+  'promptTemplate.noValueIssue': 'Kein Wert für {placeholder}',
+
+  'promptVariable.archetypeName': 'Name des Archetyps',
+  'promptVariable.archetypeDescription': 'Beschreibung des Archetyps',
+  'promptVariable.archetypeDemographics': 'Demografische Daten',
+  'promptVariable.archetypeReadingPreferences': 'Lesegewohnheiten',
+  'promptVariable.archetypePersonalityTraits': 'Persönlichkeitsmerkmale',
+  'promptVariable.archetypeMotivations': 'Motivationen',
+  'promptVariable.archetypePainPoints': 'Pain Points',
+  'promptVariable.textChunk': 'Der zu analysierende Textabschnitt',
+  'promptVariable.bookExcerpt': 'Auszug aus dem Buchanfang',
+  'promptVariable.personas': 'Liste der Personas mit Alter, Beruf, Genres und Motivationen',
+  'promptVariable.selectedTitle': 'Gewählter Titel',
+  'promptVariable.selectedCover': 'Gewähltes Cover-Konzept',
+  'promptVariable.selectedBlurb': 'Gewählter Klappentext',
+  'promptVariable.emotionalSummary': 'Emotionale Reaktionen aus Ebene 1',
+  'promptVariable.textExcerpt': 'Die ersten 200 Zeichen des Abschnitts',
+  'promptVariable.emotionalReactions': 'Emotionale Reaktionen aus Ebene 1',
+  'promptVariable.averageEmotionalIntensity': 'Durchschnittliche emotionale Intensität (1-10)',
+  'promptVariable.literaryScore': 'Durchschnitt der literarischen Elemente (1-10)',
+  'promptVariable.technicalScore': 'Durchschnitt der technischen Aspekte (1-10)',
+  'promptVariable.averageAnalyticalScore': 'Durchschnittliche analytische Bewertung (1-10)',
+  'promptVariable.streamOfThoughtResult': 'Ergebnis der Stream-of-Thought Analyse',
+  'promptVariable.userGenres': 'Vom Benutzer angegebene Genres',
+  'promptVariable.competitorTitles': 'Vom Benutzer angegebene Vergleichstitel',
+  'promptVariable.genre': 'Hauptgenre aus der Marktanalyse',
+  'promptVariable.subGenres': 'Sub-Genres aus der Marktanalyse',
+  'promptVariable.uniqueSellingPoints': 'Alleinstellungsmerkmale aus der Marktanalyse',
+  'promptVariable.title': 'Der zu bewertende Titel',
+  'promptVariable.conceptId': 'Kennung des Cover-Konzepts',
+  'promptVariable.conceptDescription': 'Beschreibung des Cover-Konzepts',
+  'promptVariable.blurbId': 'Kennung des Klappentexts',
+  'promptVariable.blurbText': 'Der zu bewertende Klappentext',
+  'promptVariable.testType': 'Getestetes Element (Titel, Cover oder Klappentext)',
+  'promptVariable.optionA': 'Option A',
+  'promptVariable.optionB': 'Option B',
+  'promptVariable.personaName': 'Name der Ziel-Persona',
+  'promptVariable.personaAgeRange': 'Altersgruppe der Persona',
+  'promptVariable.personaGender': 'Geschlecht der Persona',
+  'promptVariable.personaGenres': 'Bevorzugte Genres der Persona',
+  'promptVariable.personaMotivations': 'Motivationen der Persona',
+  'promptVariable.personaNames': 'Namen der Ziel-Personas',
+  'promptVariable.angleCount': 'Anzahl der definierten Marketing-Winkel',
+  'promptVariable.prompt': 'Die eigentliche Anfrage',
+  'promptVariable.targetPersonas': 'Liste der Ziel-Personas mit Alter, Genres, Motivationen und Pain Points',
+
+  'promptEditor.title': 'Erweiterte Prompt-Einstellungen',
+  'promptEditor.language': 'Sprache',
+  'promptEditor.select': 'Prompt auswählen',
+  'promptEditor.defaultSuffix': '(Standard)',
+  'promptEditor.activeSuffix': '(Aktiv)',
+  'promptEditor.new': 'Neu',
+  'promptEditor.copy': 'Kopieren',
+  'promptEditor.activate': 'Aktivieren',
+  'promptEditor.delete': 'Löschen',
+  'promptEditor.unsaved': 'Sie haben ungespeicherte Änderungen. Vergessen Sie nicht zu speichern!',
+  'promptEditor.invalid': 'Diese Vorlage kann so nicht verwendet werden:',
+  'promptEditor.tab.basic': 'Grundeinstellungen',
+  'promptEditor.tab.prompts': 'Prompts',
+  'promptEditor.tab.history': 'Verlauf',
+  'promptEditor.tab.help': 'Hilfe',
+  'promptEditor.name': 'Name',
+  'promptEditor.version': 'Version',
+  'promptEditor.versionHint': 'Wird beim Speichern eines geänderten Wortlauts automatisch erhöht',
+  'promptEditor.description': 'Beschreibung',
+  'promptEditor.temperature': 'Temperature: {value}',
+  'promptEditor.temperatureHint': 'Niedrig = konservativ, Hoch = kreativ',
+  'promptEditor.maxTokens': 'Max Tokens: {value}',
+  'promptEditor.maxTokensHint': 'Maximale Antwortlänge',
+  'promptEditor.systemPrompt': 'System Prompt',
+  'promptEditor.systemPromptPlaceholder': 'Systemanweisung für das AI-Modell...',
+  'promptEditor.systemPromptHint': 'Definiert das grundlegende Verhalten des AI-Modells',
+  'promptEditor.userPrompt': 'User Prompt',
+  'promptEditor.userPromptPlaceholder': 'Hauptprompt mit Variablen wie {archetypeName}...',
+  'promptEditor.userPromptHint': 'Der Hauptprompt für die Analyse. Verwenden Sie Variablen in geschweiften Klammern.',
+  'promptEditor.variables': 'Verfügbare Variablen:',
+  'promptEditor.requiredSuffix': '(Pflicht)',
+  'promptEditor.modules': 'Module:',
+  'promptEditor.modulesHelp': 'Jede Vorlage gehört zu einem Modul (hier: {module}) und einer Ausgabesprache (hier: {language}). Pro Modul und Sprache ist genau eine Vorlage aktiv; ohne Auswahl wird der Standard-Prompt verwendet. Unbekannte Variablen oder fehlende Pflichtvariablen verhindern den Start einer Analyse.',
+  'promptEditor.tips': 'Tipps:',
+  'promptEditor.tip.specific': 'Verwenden Sie klare, spezifische Anweisungen',
+  'promptEditor.tip.json': 'Fordern Sie JSON-Antworten für strukturierte Daten',
+  'promptEditor.tip.test': 'Testen Sie neue Prompts mit verschiedenen Texten',
+  'promptEditor.tip.temperature': 'Niedrige Temperature für konsistente Ergebnisse',
+  'promptEditor.save': 'Speichern',
+  'promptEditor.restoreDefault': 'Standard wiederherstellen',
+  'promptEditor.active': 'Aktiv',
+  'promptEditor.defaultPrompt': 'Standard-Prompt',
+  'promptEditor.custom': 'Benutzerdefiniert',
+  'promptEditor.newName': 'Neuer Prompt',
+  'promptEditor.newDescription': 'Beschreibung hinzufügen...',
+  'promptEditor.copyName': '{name} (Kopie)',
+  'promptEditor.toast.saved': 'Prompt gespeichert',
+  'promptEditor.toast.savedDescription': '"{name}" wurde als Version {version} gespeichert.',
+  'promptEditor.toast.savedInvalid': '"{name}" wurde als Version {version} gespeichert, enthält aber Fehler und blockiert Läufe, solange die Vorlage aktiv ist.',
+  'promptEditor.toast.activated': 'Prompt aktiviert',
+  'promptEditor.toast.activatedDescription': '"{name}" wird ab jetzt für {module} ({language}) verwendet.',
+  'promptEditor.toast.reset': 'Prompt zurückgesetzt',
+  'promptEditor.toast.resetDescription': 'Standard-Prompt wiederhergestellt.',
+  'promptEditor.toast.versionLoaded': 'Version geladen',
+  'promptEditor.toast.versionLoadedDescription': 'Der Wortlaut von Version {version} wurde übernommen. Speichern legt ihn als neue Version ab.',
+  'promptEditor.toast.created': 'Neuer Prompt erstellt',
+  'promptEditor.toast.createdDescription': 'Sie können nun den neuen Prompt für {module} bearbeiten.',
+  'promptEditor.toast.copied': 'Prompt kopiert',
+  'promptEditor.toast.copiedDescription': 'Eine Kopie des Prompts wurde erstellt.',
+  'promptEditor.toast.error': 'Fehler',
+  'promptEditor.toast.deleteDefault': 'Standard-Prompts können nicht gelöscht werden.',
+  'promptEditor.toast.deleted': 'Prompt gelöscht',
+  'promptEditor.toast.deletedDescription': '"{name}" wurde gelöscht.',
+
+  'archetypes.textPreview': 'Ihr Text (Vorschau)',
+  'archetypes.edit': 'Archetyp bearbeiten: {name}',
+  'archetypes.demographics': 'Demografik',
+  'archetypes.personalityTraits': 'Persönlichkeitsmerkmale',
+  'archetypes.start': 'Analyse mit diesen Archetypen starten',
+  'archetypes.name': 'Name',
+  'archetypes.description': 'Beschreibung',
+  'archetypes.readingPreferences': 'Lesegewohnheiten',
+  'archetypes.personalityTraitsList': 'Persönlichkeitsmerkmale (kommagetrennt)',
+  'archetypes.motivationsList': 'Motivationen (kommagetrennt)',
+  'archetypes.painPointsList': 'Pain Points (kommagetrennt)',
+  'archetypes.cancel': 'Abbrechen',
+  'archetypes.save': 'Speichern',
+  'archetypes.toast.saved': 'Archetyp gespeichert',
+  'archetypes.toast.savedDescription': '{name} wurde erfolgreich aktualisiert.',
+  'archetypes.toast.started': 'Analyse gestartet',
+  'archetypes.toast.startedDescription': 'Die Archetypen wurden konfiguriert. Die Analyse kann beginnen.',
+
+  'aiProvider.error.notSignedIn': 'Nicht angemeldet: Der KI-Proxy nimmt nur Anfragen mit einer gültigen Sitzung an. Melden Sie sich an oder lassen Sie anonyme Sitzungen zu (VITE_AI_PROXY_ALLOW_ANONYMOUS und AI_PROXY_ALLOW_ANONYMOUS).',
+  'aiProvider.error.proxyUnreachable': 'Der KI-Proxy ist nicht erreichbar.',
+  'aiProvider.error.unreachable': '{provider} ist nicht erreichbar. Bitte prüfen Sie die Basis-URL.',
+  'aiProvider.error.unexpectedResponse': 'Unerwartete API-Antwort erhalten',
+  'aiProvider.error.invalidAnswer': 'Ungültige KI-Antwort ({task}): {issues}',
+  'aiProvider.error.network': 'Netzwerkfehler bei API-Aufruf',
+  'aiProvider.error.aborted': 'Anfrage wurde abgebrochen',
+  'aiProvider.error.baseUrlRequired': 'Für {provider} muss eine Basis-URL konfiguriert sein.',
+  'aiProvider.error.proxyFailed': 'KI-Proxy Fehler {status}',
+  'aiProvider.error.apiKeyInvalid': 'API-Schlüssel ungültig. Bitte überprüfen Sie Ihren {provider} API-Schlüssel.',
+  'aiProvider.error.rateLimited': 'API-Ratenlimit erreicht. Bitte versuchen Sie es später erneut.',
+  'aiProvider.error.serverError': '{provider}-Serverfehler {status}. Bitte versuchen Sie es später erneut.',
+  'aiProvider.error.requestFailed': '{provider} API Fehler {status}: {details}',
+  'aiProvider.issue.noJson': 'Die Antwort enthält kein gültiges JSON',
+  'aiProvider.issue.root': '(Wurzel)',
+
+  'abTest.title': 'A/B-Test-Prognose',
+  'abTest.testType': 'Testart',
+  'abTest.type.title': 'Titel',
+  'abTest.type.cover': 'Cover',
+  'abTest.type.blurb': 'Klappentext',
+  'abTest.persona': 'Ziel-Persona',
+  'abTest.selectPersona': 'Persona auswählen',
+  'abTest.option': 'Option {option}',
+  'abTest.selectOption': 'Option {option} auswählen',
+  'abTest.run': 'A/B-Test simulieren',
+  'abTest.running': 'A/B-Test läuft...',
+  'abTest.result': 'Testergebnis #{number}',
+  'abTest.winner': 'Gewinner: Option {option}',
+  'abTest.metric.clickThroughRate': 'Klickrate',
+  'abTest.metric.engagementScore': 'Engagement',
+  'abTest.metric.conversionProbability': 'Kaufwahrscheinlichkeit',
+  'abTest.confidence': 'Konfidenz',
+  'abTest.confident': '{confidence} sicher',
+  'abTest.reasoning': 'Begründung',
+  'abTest.insights': 'Persona-spezifische Erkenntnisse',
+
+  'marketValidation.loadingBook': 'Buchkontext wird geladen...',
+  'marketValidation.title': 'AI Market Validation & Launch-Strategie-Simulator',
+  'marketValidation.subtitle': 'Simulieren Sie umfassende Marktforschung und Fokusgruppen-Feedback für Ihr Buch',
+  'marketValidation.phase.foundation': 'Grundlagen & Zielgruppe',
+  'marketValidation.phase.foundationDescription': 'Marktpositionierung und Leser-Personas',
+  'marketValidation.phase.feedback': 'Fokusgruppen-Feedback',
+  'marketValidation.phase.feedbackDescription': 'Simuliertes Feedback zu Titeln, Covern und Klappentexten',
+  'marketValidation.phase.testing': 'A/B-Tests & Validierung',
+  'marketValidation.phase.testingDescription': 'Konzepttests und Optimierung',
+  'marketValidation.phase.strategy': 'Marketing-Strategie',
+  'marketValidation.phase.strategyDescription': 'Launch-Strategie und Kanalempfehlungen',
+  'marketValidation.phase.dashboard': 'Strategie-Dashboard',
+  'marketValidation.phase.dashboardDescription': 'Gesamte Strategie prüfen und exportieren',
+  'marketValidation.module.landscape': 'Literarische Landschaft',
+  'marketValidation.module.audience': 'Zielgruppe',
+  'marketValidation.module.titles': 'Titel',
+  'marketValidation.module.covers': 'Cover',
+  'marketValidation.module.blurbs': 'Klappentexte',
+  'marketValidation.module.abtest': 'A/B-Test',
+  'marketValidation.module.marketing': 'Marketing',
+  'marketValidation.module.dashboard': 'Dashboard',
+  'marketValidation.progress': 'Fortschritt',
+  'marketValidation.progressSummary': {
+    zero: 'Noch keines von {total} Modulen abgeschlossen',
+    one: '{count} von {total} Modulen abgeschlossen',
+    other: '{count} von {total} Modulen abgeschlossen'
+  }
+};
@@ -0,0 +1,868 @@
+import type { Catalog } from '../utils/i18n';
+
+export const en: Catalog = {
+  'app.subtitle': 'Two-layer analysis: emotional reactions + analytical assessment with correlation insights and market validation for your book',
+
+  'common.unknown': 'Unknown',
+  'common.unknownError': 'Unknown error',
+  'common.unexpectedError': 'An unexpected error occurred.',
+  'common.score': '{score}/10',
+
+  'language.de': 'German',
+  'language.en': 'English',
+  'language.es': 'Spanish',
+
+  'provider.openAICompatibleServer': 'OpenAI-compatible server',
+
+  'languageSwitcher.label': 'Interface language',
+
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  'upload.progress.loading': 'Loading file...',
+  'upload.progress.extracting': 'Extracting text...',
+  'upload.progress.finishing': 'Finishing...',
+  'upload.processed': 'Processed successfully:',
+  'upload.tip': 'Tip:',
+
+  'fileUploader.title': 'Upload manuscript',
+  'fileUploader.dropHint': 'Drag your manuscript here or click to choose a file',
+  'fileUploader.choose': 'Choose file',
+  'fileUploader.formats': 'Supported formats: {formats}',
+  'fileUploader.formatLimit': '{format} (max. {maxSize} MB)',
+  'fileUploader.trackedChanges': 'Tracked changes',
+  'fileUploader.trackedChanges.accept': 'Accept',
+  'fileUploader.trackedChanges.reject': 'Reject',
+  'fileUploader.trackedChangesHint': 'Applies to DOCX, ODT, RTF and Markdown (CriticMarkup). Footnotes and comments are left out.',
+  'fileUploader.cleanup.title': 'PDF text cleanup',
+  'fileUploader.cleanup.toggle': 'Clean up print artifacts',
+  'fileUploader.cleanup.removedLines': 'headers, footers and page numbers removed',
+  'fileUploader.cleanup.joinedHyphenations': 'hyphenated line breaks joined',
+  'fileUploader.cleanup.mergedLines': 'line breaks merged into paragraphs',
+  'fileUploader.cleanup.typographyFixes': 'ligatures, quotes and dashes normalized',
+  'fileUploader.cleanup.disabledHint': 'Cleanup is turned off, so the text is taken over exactly as it was extracted from the PDF.',
+  'fileUploader.cleanup.before': 'Before (page {page})',
+  'fileUploader.cleanup.after': 'After',
+  'fileUploader.encodingDetails': 'Character encoding: {encoding} ({source})',
+  'fileUploader.encoding.source.bom': 'detected from the byte order mark',
+  'fileUploader.encoding.source.valid': 'valid UTF-8',
+  'fileUploader.encoding.source.guessed': 'estimated',
+  'fileUploader.encoding.source.manual': 'chosen manually',
+  'fileUploader.encoding.title': 'Character encoding',
+  'fileUploader.encoding.hint': 'The encoding was estimated from the file\'s content. If accented letters in the sample lines below look wrong, choose a different encoding.',
+  'fileUploader.review.title': 'Check the extracted text',
+  'fileUploader.review.confirm': 'Use manuscript',
+  'fileUploader.processing': 'Processing file...',
+  'fileUploader.processedDetails': '{fileType}, {count} words ({size})',
+  'fileUploader.processedPdfDetails': {
+    one: '{count} page, {words} words ({size})',
+    other: '{count} pages, {words} words ({size})'
+  },
+  'fileUploader.processedChapterDetails': {
+    one: '{count} chapter, {words} words ({size})',
+    other: '{count} chapters, {words} words ({size})'
+  },
+  'fileUploader.noTextFile': 'Please choose a file in one of the supported formats.',
+  'fileUploader.pdfTip': 'For best results use text-based PDFs (not scanned images). The PDF page numbers are kept, so every piece of feedback points to its page.',
+  'fileUploader.toast.success': 'File processed successfully',
+  'fileUploader.toast.successDescription': {
+    one: '{count} word extracted from {fileType}',
+    other: '{count} words extracted from {fileType}'
+  },
+  'fileUploader.toast.error': 'Upload error',
+  'fileUploader.toast.errorDescription': 'The file could not be processed. See the details below.',
+
+  'pages.single': 'p. {page}',
+  'pages.range': 'pp. {from}–{to}',
+  'pages.chunk': 'Section {number}',
+  'pages.chunkWithPages': 'Section {number} ({pages})',
+
+  'fileError.base': 'Upload failed: we couldn\'t extract text from "{fileName}".',
+  'fileError.unsupportedFileType': 'This file type is not supported.\n\n**Solution:** Please use a TXT, Markdown, PDF, EPUB, DOCX, ODT or RTF file.',
+  'fileError.fileTooLarge': 'The file is too large.\n\n**Solution:** Please use a file under {maxSize} MB.',
+  'fileError.insufficientTextContent': 'The file contains too little readable text.\n\n**Solution:** Make sure the file contains text.',
+  'fileError.textProcessingFailed': 'The TXT file could not be processed.\n\n**Solution:** Please try a different TXT file.',
+  'fileError.documentInvalid': 'The document is damaged or not a valid {format} file.\n\n**To resolve this:**\n1. Open the file in your writing software and save it again\n2. Alternatively export it as DOCX, PDF or TXT',
+  'fileError.unknown': 'An unexpected error occurred.',
+
+  'pdfError.passwordProtected': 'This PDF appears to be password-protected.\n\n**To resolve this:**\n1. Remove the password protection from the PDF\n2. Re-save the PDF without encryption\n3. Try uploading again',
+  'pdfError.insufficientTextContent': 'This PDF appears to contain mostly images or very little extractable text.\n\n**To resolve this:**\n1. If this is a scanned document, use an OCR tool to convert it to searchable text\n2. Try online OCR services like "SmallPDF OCR" or "Adobe Acrobat Online"\n3. Ensure the PDF contains selectable text (not just images)\n4. Upload a text-based PDF instead',
+  'pdfError.corruptedPdf': 'The PDF file appears to be corrupted or in an unsupported format.\n\n**To resolve this:**\n1. Try re-downloading the original PDF\n2. Re-save the PDF from its source (Word, Google Docs, etc.)\n3. Try opening the PDF in a different viewer to verify it works\n4. Convert the file to PDF again if possible',
+  'pdfError.extractionFailed': 'This often happens with complex formatting, scanned documents, or protected PDFs.\n\n**To resolve this, please try:**\n1. **For scanned documents:** Use an OCR tool to make the text searchable\n2. **For protected PDFs:** Remove password protection or restrictions\n3. **For complex layouts:** Re-save from the original source (Word, Google Docs)\n4. **For large files:** Try a smaller section or simplified version\n5. **Alternative:** Copy the text manually and paste it into a new document, then save as PDF\n\n**Recommended OCR tools:** SmallPDF, Adobe Acrobat Online, or search "free OCR PDF" for online options.',
+
+  'epubError.invalid': 'The EPUB file is damaged or incomplete.\n\n**To resolve this:**\n1. Export the EPUB again from your writing software (e.g. Vellum, Calibre, Sigil)\n2. Check the file with EPUBCheck\n3. Alternatively upload a PDF or TXT version',
+  'epubError.drmProtected': 'This EPUB is DRM-protected, so its text can\'t be read.\n\n**To resolve this:** Upload a copy without copy protection, such as the export from your writing software.',
+
+  'analyzer.step.config': '1. AI configuration',
+  'analyzer.step.upload': '2. Upload manuscript',
+  'analyzer.step.mode': '3. Choose analysis mode',
+  'analyzer.step.archetypes': '4. Confirm reader archetypes',
+  'analyzer.step.planning': '5. Review cost & duration',
+  'analyzer.twoLayerToggle': 'Two-layer analysis (emotional + analytical)',
+  'analyzer.twoLayerDescription': 'Detailed analysis with emotional reactions and an analytical assessment. Optimized for parallel processing.',
+  'analyzer.standardDescription': 'Standard analysis with ratings and feedback.',
+  'analyzer.bypassCache': 'Bypass cache (request every section again)',
+  'analyzer.outputLanguage': 'Output language',
+  'analyzer.outputLanguage.detected': 'Automatic (detected: {language}, {confidence})',
+  'analyzer.outputLanguage.undetected': 'Automatic (not detected, {language})',
+  'analyzer.outputLanguage.hint': 'Language of the prompts and therefore of the feedback. Each language uses the prompt templates active for it.',
+  'analyzer.promptPreview': 'Prompt preview',
+  'analyzer.promptTrial': 'Prompt trial (optional)',
+  'analyzer.loadingTokenizers': 'Loading tokenizers...',
+  'analyzer.running': 'Analysis running...',
+  'analyzer.runningTwoLayer': 'Optimized two-layer analysis running...',
+  'analyzer.pause': 'Pause',
+  'analyzer.resume': 'Resume',
+  'analyzer.cancel': 'Cancel analysis',
+  'analyzer.pausedStatus': '⏸️ Paused – {step}',
+  'analyzer.tab.analysis': 'Reader Analysis',
+  'analyzer.tab.market': 'Market Validation',
+  'analyzer.tab.spend': 'Cost & usage',
+  'analyzer.results': 'Reader Analysis Results',
+  'analyzer.resultsTwoLayer': 'Two-layer analysis results',
+  'analyzer.restart': 'New analysis',
+  'analyzer.promptVersions': 'Prompt version: {versions}',
+  'analyzer.invalidStep': 'Invalid step',
+  'analyzer.job.startingTwoLayer': 'Starting two-layer analysis...',
+  'analyzer.job.analyzingArchetype': 'Analyzing {name}...',
+  'analyzer.toast.configSaved': 'AI configuration saved.',
+  'analyzer.toast.fileLoaded': 'File loaded successfully.',
+  'analyzer.toast.standardStarted': 'Standard analysis started...',
+  'analyzer.toast.twoLayerStarted': 'Two-layer analysis started...',
+  'analyzer.toast.startedDescription': 'Results are shown step by step.',
+  'analyzer.toast.completed': 'Analysis completed successfully!',
+  'analyzer.toast.failed': 'Analysis failed',
+  'analyzer.toast.cancelled': 'Analysis was cancelled.',
+  'analyzer.toast.budgetExceeded': 'Budget used up',
+  'analyzer.toast.budgetExceededDescription': 'The analysis stopped early. Showing the partial results.',
+  'analyzer.toast.revisionLoaded': 'Loaded as revision {number} of "{title}".',
+  'analyzer.toast.revisionNotSaved': 'Revision could not be saved',
+  'analyzer.toast.revisionNotSavedDescription': 'Browser storage is full. The results stay visible but will not serve as the comparison for the next revision.',
+  'analyzer.project.label': 'Project',
+  'analyzer.project.new': 'New project',
+  'analyzer.project.option': {
+    one: '{title} ({count} revision)',
+    other: '{title} ({count} revisions)'
+  },
+  'analyzer.project.hint': 'A new version of an existing project is compared with its latest revision. Only changed and new passages are analyzed again.',
+
+  'revisions.title': 'Changes since the latest revision',
+  'revisions.summary': '{changed} changed, {added} new and {unchanged} unchanged passages. Unchanged passages were carried over from the latest revision.',
+  'revisions.showUnchanged': 'Show unchanged passages',
+  'revisions.noChanges': 'No changed or new passages.',
+  'revisions.chunk': 'Passage',
+  'revisions.status': 'Status',
+  'revisions.change.unchanged': 'Unchanged',
+  'revisions.change.changed': 'Changed',
+  'revisions.change.added': 'New',
+
+  'task.reader_analysis': 'Reader analysis',
+  'task.emotional_notes': 'Emotional notes',
+  'task.analytical_review': 'Analytical review',
+  'task.correlation': 'Correlation analysis',
+  'task.basic_scoring': 'Basic scoring',
+  'task.stream_of_thought': 'Stream of thought',
+  'task.analytical_insight': 'Analytical insights',
+  'task.landscape': 'Literary landscape',
+  'task.personas': 'Audience personas',
+  'task.title_feedback': 'Title feedback',
+  'task.cover_feedback': 'Cover feedback',
+  'task.blurb_feedback': 'Blurb feedback',
+  'task.ab_test': 'A/B test',
+  'task.marketing_strategy': 'Marketing strategy',
+  'task.cohesion_check': 'Strategy cohesion',
+  'task.market_context': 'Market context',
+
+  'runKind.analysis': 'Standard analysis',
+  'runKind.two_layer': 'Two-layer analysis',
+  'runKind.market_validation': 'Market validation',
+  'runKind.prompt_trial': 'Prompt trial',
+
+  'rating.overallRating': 'Overall rating',
+  'rating.engagement': 'Engagement',
+  'rating.style': 'Style',
+  'rating.clarity': 'Clarity',
+  'rating.pacing': 'Pacing',
+  'rating.relevance': 'Relevance',
+
+  'job.initializing': 'Initializing...',
+  'job.budgetExceeded': 'Budget used up – finishing the analysis with partial results...',
+  'job.cancelled': 'Cancelled',
+
+  'analysis.status.starting': 'Starting analysis: {archetypes} archetypes × {chunks} sections',
+  'analysis.status.failed': '⚠️ Error in {chunk}',
+  'analysis.status.analyzed': '✅ {archetype}: {chunk} analyzed ({rating}/10)',
+  'analysis.chunk.titled': {
+    one: '"{title}" ({count} word)',
+    other: '"{title}" ({count} words)'
+  },
+  'analysis.chunk.numbered': {
+    one: 'Section {number} ({count} word)',
+    other: 'Section {number} ({count} words)'
+  },
+  'analysis.step.emotional': 'Emotional analysis',
+  'analysis.step.analytical': 'Analytical review',
+  'analysis.step.correlation': 'Correlation analysis',
+
+  'chunking.summary': {
+    one: 'Text split into {count} section (avg. {words} words, {tokens} tokens/section)',
+    other: 'Text split into {count} sections (avg. {words} words, {tokens} tokens/section)'
+  },
+  'chunking.chapters': {
+    one: 'Structure detected: {count} chapter',
+    other: 'Structure detected: {count} chapters'
+  },
+  'chunking.sections': {
+    one: 'Structure detected: {count} section',
+    other: 'Structure detected: {count} sections'
+  },
+  'chunking.paragraphs': 'Semantic split by paragraphs',
+  'chunking.automatic': 'Automatic split',
+  'chunking.empty': 'No text to split',
+
+  'promptPreview.intro': 'Shows the finished prompts of every step before you pay for them. No AI calls are made.',
+  'promptPreview.pipeline': 'Pipeline',
+  'promptPreview.pipeline.standard': 'Standard analysis',
+  'promptPreview.pipeline.two_layer': 'Two-layer analysis',
+  'promptPreview.pipeline.market': 'Market validation',
+  'promptPreview.chunk': 'Text section',
+  'promptPreview.bookStart': 'Start of the book',
+  'promptPreview.chunkOption': '{title} ({words} words)',
+  'promptPreview.chunkNumber': 'Section {number}',
+  'promptPreview.archetype': 'Archetype',
+  'promptPreview.overflow': '{step}: prompt and answer do not fit into the context window of {model} – the section would be cut off.',
+  'promptPreview.stepError': '{step}: {error}',
+  'promptPreview.error': 'Error',
+  'promptPreview.tokens': 'approx. {used} / {window} tokens',
+  'promptPreview.status.ok': 'Fits',
+  'promptPreview.status.near_limit': 'Tight',
+  'promptPreview.status.overflow': 'Gets cut off',
+  'promptPreview.usage': 'Model {model}: approx. {prompt} prompt tokens + up to {completion} completion tokens of {window} in the context window',
+  'promptPreview.usageReserved': 'Model {model}: approx. {prompt} prompt tokens + {reserved} from earlier steps + up to {completion} completion tokens of {window} in the context window',
+  'promptPreview.systemPrompt': 'System prompt',
+  'promptPreview.userPrompt': 'User prompt',
+  'promptPreview.note.placeholders': 'Placeholders for run-time values: {names}',
+  'promptPreview.note.reserved': '{tokens} tokens included for the emotional notes from layer 1',
+  'promptPreview.note.excerpt': 'Book excerpt shortened to the first {length} of {total} characters',
+  'promptPreview.note.unknownContext': 'Context window of {model} unknown – assuming a conservative {tokens} tokens',
+
+  'spend.noBook': 'No book',
+  'spend.untitledBook': 'Untitled book',
+  'spend.noRun': 'No run',
+  'spend.noTemplate': 'No template',
+  'spend.empty': 'No AI calls recorded yet.',
+  'spend.calls': 'Calls',
+  'spend.cacheHits': 'From cache',
+  'spend.promptTokens': 'Prompt tokens',
+  'spend.completionTokens': 'Completion tokens',
+  'spend.latency': 'Avg. latency',
+  'spend.cost': 'Cost',
+  'spend.unpriced': '{count} unpriced',
+  'spend.totalCost': 'Total cost',
+  'spend.totalCalls': 'AI calls',
+  'spend.latencyTokens': 'Avg. latency ({tokens} tokens)',
+  'spend.milliseconds': '{ms} ms',
+  'spend.seconds': '{seconds} s',
+  'spend.tab.books': 'Per book',
+  'spend.tab.runs': 'Per run',
+  'spend.tab.modules': 'Per module',
+  'spend.tab.prompts': 'Per prompt version',
+  'spend.clear': 'Clear history',
+  'spend.group.book': 'Book',
+  'spend.group.run': 'Run',
+  'spend.group.module': 'Module',
+  'spend.group.prompt': 'Prompt version',
+
+  'results.title': 'Analysis results',
+  'results.empty': 'No results available.',
+  'results.overview': 'Rating overview',
+  'results.errorBarsHint': 'Error bars show the standard deviation between the ensemble members.',
+  'results.agreementTitle': 'Model agreement',
+  'results.archetype': 'Archetype',
+  'results.agreement': 'Agreement',
+  'results.spread': '± {dimension}',
+  'results.unreliable': {
+    one: '{count} section with low agreement – this rating is unreliable:',
+    other: '{count} sections with low agreement – these ratings are unreliable:'
+  },
+  'results.unreliableAgreement': 'agreement {agreement}',
+  'results.more': '… and {count} more',
+
+  'strategy.title': 'Strategy completion',
+  'strategy.progress': 'Overall progress',
+  'strategy.completed': '{completed}/{total} completed',
+  'strategy.element.title': 'Title',
+  'strategy.element.cover': 'Cover',
+  'strategy.element.blurb': 'Blurb',
+  'strategy.element.personas': 'Personas',
+  'strategy.element.marketing': 'Marketing',
+  'strategy.selected': 'Selected',
+  'strategy.pending': 'Pending',
+  'strategy.generated': 'Generated',
+  'strategy.personasDefined': {
+    one: '{count} defined',
+    other: '{count} defined'
+  },
+  'strategy.tab.summary': 'Strategy summary',
+  'strategy.tab.cohesion': 'Cohesion analysis',
+  'strategy.tab.actions': 'Quick actions',
+  'strategy.selectedElements': 'Selected elements',
+  'strategy.notSelected': 'Not selected',
+  'strategy.targetAudience': 'Target audience',
+  'strategy.marketingOverview': 'Marketing strategy overview',
+  'strategy.angles': 'Marketing angles',
+  'strategy.channels': 'Marketing channels',
+  'strategy.campaignIdeas': 'Campaign ideas',
+  'strategy.cohesionTitle': 'Strategy cohesion analysis',
+  'strategy.analyzing': 'Analyzing...',
+  'strategy.runCohesion': 'Run cohesion check',
+  'strategy.cohesionRequirement': 'Complete at least title, cover, and blurb selection to run cohesion analysis.',
+  'strategy.cohesionScore': 'Overall cohesion score',
+  'strategy.strengths': 'Strengths',
+  'strategy.weaknesses': 'Areas to improve',
+  'strategy.recommendations': 'Recommendations',
+  'strategy.refine': 'Refine strategy',
+  'strategy.refineTitles': 'Refine title options',
+  'strategy.refineCovers': 'Test new cover concepts',
+  'strategy.refineBlurbs': 'Optimize blurb copy',
+  'strategy.export': 'Export & share',
+  'strategy.exportStrategy': 'Export complete strategy',
+  'strategy.exportRequirement': 'Complete more sections to export',
+
+  'feedback.selectPersonas': 'Select personas for feedback',
+  'feedback.noPersonas': 'Please generate target audience personas in the previous step first.',
+  'feedback.error.noPersona': 'Please select at least one persona.',
+  'feedback.overallScore': 'Overall score:',
+  'feedback.positive': 'Positive:',
+  'feedback.concerns': 'Concerns:',
+  'feedback.strengths': 'Strengths:',
+  'feedback.weaknesses': 'Weaknesses:',
+
+  'titleFeedback.title': 'Title feedback simulator',
+  'titleFeedback.subtitle': 'Simulate feedback from your target audiences on different title options',
+  'titleFeedback.options': 'Title options',
+  'titleFeedback.placeholder': 'Title {number}',
+  'titleFeedback.add': 'Add title',
+  'titleFeedback.run': 'Simulate title feedback',
+  'titleFeedback.running': 'Analyzing titles...',
+  'titleFeedback.results': 'Title feedback results',
+  'titleFeedback.error.noTitle': 'Please enter at least one title.',
+  'titleFeedback.error.failed': 'Title analysis failed: {message}',
+
+  'coverFeedback.title': 'Cover concept feedback simulator',
+  'coverFeedback.subtitle': 'Simulate feedback from your target audiences on different cover concepts',
+  'coverFeedback.concepts': 'Describe cover concepts',
+  'coverFeedback.concept': 'Concept {number}',
+  'coverFeedback.placeholder': 'Describe the cover design in detail (e.g. colours, imagery, style, typography, mood)...',
+  'coverFeedback.add': 'Add cover concept',
+  'coverFeedback.run': 'Simulate cover feedback',
+  'coverFeedback.running': 'Analyzing covers...',
+  'coverFeedback.results': 'Cover feedback results',
+  'coverFeedback.description': 'Description:',
+  'coverFeedback.emotion': 'Emotion:',
+  'coverFeedback.visualAppeal': 'Visual appeal:',
+  'coverFeedback.genreAppropriate': 'Fits the genre:',
+  'coverFeedback.standoutFactor': 'Recognisability:',
+  'coverFeedback.error.noConcept': 'Please describe at least one cover concept.',
+  'coverFeedback.error.failed': 'Cover analysis failed: {message}',
+
+  'blurbFeedback.title': 'Blurb feedback simulator',
+  'blurbFeedback.subtitle': 'Simulate feedback from your target audiences on different blurb variants',
+  'blurbFeedback.variants': 'Blurb variants',
+  'blurbFeedback.version': 'Version {number}',
+  'blurbFeedback.placeholder': 'Enter your blurb here...',
+  'blurbFeedback.characters': {
+    one: '{count} character',
+    other: '{count} characters'
+  },
+  'blurbFeedback.add': 'Add blurb variant',
+  'blurbFeedback.run': 'Simulate blurb feedback',
+  'blurbFeedback.running': 'Analyzing blurbs...',
+  'blurbFeedback.results': 'Blurb feedback results',
+  'blurbFeedback.resultVersion': 'Blurb version {number}',
+  'blurbFeedback.clarity': 'Clarity:',
+  'blurbFeedback.intrigue': 'Intrigue:',
+  'blurbFeedback.characterAppeal': 'Characters:',
+  'blurbFeedback.pace': 'Pace:',
+  'blurbFeedback.buyingIntent': 'Buying intent:',
+  'blurbFeedback.error.noBlurb': 'Please enter at least one blurb with at least 20 characters.',
+  'blurbFeedback.error.failed': 'Blurb analysis failed: {message}',
+
+  'marketing.title': 'Marketing strategy generator',
+  'marketing.selectPersonas': 'Select target personas (choose 1–3 primary targets)',
+  'marketing.generate': 'Generate marketing strategy',
+  'marketing.generating': 'Generating strategy...',
+  'marketing.result': 'Your marketing strategy',
+  'marketing.tab.angles': 'Angles',
+  'marketing.tab.channels': 'Channels',
+  'marketing.tab.keywords': 'Keywords',
+  'marketing.tab.taglines': 'Taglines',
+  'marketing.tab.campaigns': 'Campaigns',
+  'marketing.keyMessages': 'Key messages',
+  'marketing.emotionalTriggers': 'Emotional triggers',
+  'marketing.targetPersonas': 'Target personas',
+  'marketing.contentStyle': 'Content style',
+  'marketing.reach': 'Reach:',
+  'marketing.cost': 'Cost:',
+  'marketing.difficulty': 'Difficulty:',
+  'marketing.level.high': 'High',
+  'marketing.level.medium': 'Medium',
+  'marketing.level.low': 'Low',
+  'marketing.keywords': 'SEO & advertising keywords',
+  'marketing.taglines': 'Marketing taglines',
+  'marketing.campaigns': 'Creative campaign ideas',
+  'marketing.campaign': 'Campaign {number}:',
+
+  'landscape.title': 'Literary market landscape & trends',
+  'landscape.subtitle': 'Analyse your book in the context of current market trends and competitors',
+  'landscape.genres': 'Genres & sub-genres',
+  'landscape.genrePlaceholder': 'Genre {number}',
+  'landscape.addGenre': 'Add genre',
+  'landscape.competitors': 'Comparable titles (optional)',
+  'landscape.competitorPlaceholder': 'Comparable title {number}',
+  'landscape.addCompetitor': 'Add title',
+  'landscape.run': 'Start market analysis',
+  'landscape.running': 'Analyzing market...',
+  'landscape.position': 'Market positioning',
+  'landscape.mainGenre': 'Main genre',
+  'landscape.subGenres': 'Sub-genres',
+  'landscape.usps': 'Unique selling points',
+  'landscape.trends': 'Trend analysis',
+  'landscape.currentTrends': 'Current trends',
+  'landscape.opportunities': 'Market opportunities',
+  'landscape.error.noGenre': 'Please enter at least one genre.',
+  'landscape.error.failed': 'The market analysis failed. Please try again.',
+
+  'audience.title': 'Target audience personas',
+  'audience.subtitle': 'Generate detailed reader personas based on your book and its market positioning',
+  'audience.currentPosition': 'Current market positioning',
+  'audience.genre': 'Genre:',
+  'audience.subGenres': 'Sub-genres:',
+  'audience.generate': 'Generate reader personas',
+  'audience.generating': 'Generating personas...',
+  'audience.results': 'Generated reader personas',
+  'audience.demographics': 'Demographics',
+  'audience.age': 'Age:',
+  'audience.gender': 'Gender:',
+  'audience.education': 'Education:',
+  'audience.occupation': 'Occupation:',
+  'audience.readingHabits': 'Reading habits',
+  'audience.frequency': 'Frequency:',
+  'audience.formats': 'Formats:',
+  'audience.favoriteGenres': 'Favourite genres:',
+  'audience.psychographics': 'Psychographics',
+  'audience.values': 'Values:',
+  'audience.motivations': 'Motivations:',
+  'audience.bookConnections': 'Connections to the book',
+  'audience.error.noMarketPosition': 'Please run the market analysis first.',
+  'audience.error.failed': 'Generating the personas failed. Please try again.',
+
+  'progress.status': 'Status:',
+  'progress.chunking': 'Text split:',
+  'progress.title': 'Analysis progress',
+  'progress.archetypes': 'Archetypes',
+  'progress.chunks': 'Text sections',
+  'progress.steps': 'Total analyses',
+  'progress.apiCalls': 'API calls',
+  'progress.cacheHits': 'From cache',
+  'progress.tokens': 'Tokens used',
+  'progress.progress': 'Progress',
+  'progress.percentDone': '{percent} complete',
+  'progress.step': 'Step {current} of {total}',
+  'progress.current': 'Current: {archetype}',
+  'progress.chunk': 'Section {current} of {total}',
+  'progress.recent': 'Latest ratings (1–10 scale):',
+  'progress.buyingProbability': 'Purchase probability: {probability}',
+
+  'aiConfig.title': 'AI provider configuration',
+  'aiConfig.intro': 'Choose the AI provider for the analysis: OpenAI, Anthropic, Azure OpenAI or your own OpenAI-compatible server.',
+  'aiConfig.provider': 'AI provider',
+  'aiConfig.provider.openai': 'OpenAI',
+  'aiConfig.provider.openaiDescription': 'GPT models via api.openai.com',
+  'aiConfig.provider.anthropic': 'Anthropic',
+  'aiConfig.provider.anthropicDescription': 'Claude models via api.anthropic.com',
+  'aiConfig.provider.azure': 'Azure OpenAI',
+  'aiConfig.provider.azureDescription': 'Your own deployments in Azure',
+  'aiConfig.provider.local': 'Local server',
+  'aiConfig.provider.localDescription': 'OpenAI-compatible, e.g. llama.cpp or Ollama',
+  'aiConfig.model': 'Select AI model',
+  'aiConfig.deployment': 'Deployment name',
+  'aiConfig.deploymentPlaceholder': 'my-gpt-4o-deployment',
+  'aiConfig.modelLabel': '{name} ({tier})',
+  'aiConfig.tier.fastCheap': 'Fast & cheap',
+  'aiConfig.tier.powerful': 'Powerful',
+  'aiConfig.tier.cheap': 'Cheap',
+  'aiConfig.use.books': 'Best for book analysis',
+  'aiConfig.use.detailed': 'More detailed analysis',
+  'aiConfig.use.basic': 'Basic analysis',
+  'aiConfig.baseUrl': 'Base URL',
+  'aiConfig.baseUrlOptional': 'Base URL (optional)',
+  'aiConfig.apiVersion': 'API version (optional)',
+  'aiConfig.proxyKey': 'The {provider} API key is managed server-side in the AI proxy and never sent to the browser. Requests are authenticated with your session.',
+  'aiConfig.apiKey': 'API key (optional, not stored)',
+  'aiConfig.paste': 'Paste from clipboard',
+  'aiConfig.save': 'Save & validate connection',
+  'aiConfig.validating': 'Validating...',
+  'aiConfig.offline': 'Offline mode is active – no requests are sent to an AI provider.',
+  'aiConfig.configured': '{provider} is configured. Model: {model}',
+  'aiConfig.continue': 'Continue',
+  'aiConfig.reconfigure': 'Reconfigure',
+  'aiConfig.toast.pasted': 'API key pasted',
+  'aiConfig.toast.pastedDescription': 'The API key was pasted from the clipboard.',
+  'aiConfig.toast.invalidKey': 'Invalid API key',
+  'aiConfig.toast.invalidKeyDescription': 'The pasted text does not look like a valid {provider} API key.',
+  'aiConfig.toast.pasteFailed': 'Paste failed',
+  'aiConfig.toast.pasteFailedDescription': 'The clipboard could not be read. Make sure you have granted permission.',
+  'aiConfig.toast.validated': 'Connection validated',
+  'aiConfig.toast.validatedDescription': 'The connection to {provider} was tested successfully.',
+  'aiConfig.toast.validationFailed': 'Validation failed',
+  'aiConfig.toast.validationFailedDescription': 'The API key is invalid or there was a connection error.',
+  'aiConfig.toast.notSignedIn': 'Not signed in',
+
+  'twoLayer.emotionalNotes': 'Emotional notes',
+  'twoLayer.analyticalReviews': 'Analytical reviews',
+  'twoLayer.averageRating': 'Avg. rating',
+  'twoLayer.export': 'Export',
+  'twoLayer.tab.overview': 'Overview',
+  'twoLayer.tab.emotional': 'Emotional journey',
+  'twoLayer.tab.analytical': 'Analytical assessment',
+  'twoLayer.tab.correlation': 'Correlation analysis',
+  'twoLayer.tab.detailed': 'Detail view',
+  'twoLayer.chunks': {
+    one: '{count} section',
+    other: '{count} sections'
+  },
+  'twoLayer.analyticalRating': 'Analytical rating',
+  'twoLayer.emotionalIntensity': 'Emotional intensity',
+  'twoLayer.archetypeSection': '{archetype} - {section}',
+  'twoLayer.neutral': 'neutral',
+  'twoLayer.literaryElements': 'Literary elements:',
+  'twoLayer.characterDevelopment': 'Character development: {score}',
+  'twoLayer.plotProgression': 'Plot progression: {score}',
+  'twoLayer.technicalAspects': 'Technical aspects:',
+  'twoLayer.pacing': 'Pacing: {score}',
+  'twoLayer.dialogue': 'Dialogue: {score}',
+  'twoLayer.suggestions': 'Suggestions for improvement:',
+  'twoLayer.strengths': 'Strengths',
+  'twoLayer.discrepancies': 'Discrepancies',
+  'twoLayer.discrepancy': '{chunk}: the emotional and analytical ratings differ strongly',
+  'twoLayer.strength': '{chunk}: strong both emotionally and analytically',
+  'twoLayer.selectArchetype': 'Select archetype',
+  'twoLayer.selectChunk': 'Select section',
+  'twoLayer.synthesis': 'Synthesis:',
+
+  'duration.seconds': '{seconds} sec',
+  'duration.minutes': 'approx. {minutes} min',
+  'duration.hours': 'approx. {hours} h {minutes} min',
+
+  'planner.chunks': 'Text sections',
+  'planner.calls': 'API calls',
+  'planner.cost': 'Estimated cost',
+  'planner.duration': 'Estimated duration',
+  'planner.carriedOver': {
+    one: '{count} unchanged section is carried over from the last revision and not analysed again.',
+    other: '{count} unchanged sections are carried over from the last revision and not analysed again.'
+  },
+  'planner.callType': 'Call type',
+  'planner.callCount': 'Calls',
+  'planner.promptTokens': 'Prompt tokens',
+  'planner.completionTokens': 'Completion tokens',
+  'planner.callCost': 'Cost',
+  'planner.noEnsemblePrices': 'No prices are known for at least one ensemble model. Cost and budget cannot be calculated.',
+  'planner.noPrices': 'No prices are known for the model “{model}”. Cost and budget cannot be calculated.',
+  'planner.budget': 'Budget limit (USD, optional)',
+  'planner.budgetPlaceholder': 'e.g. 2.50',
+  'planner.budgetHint': 'Once the budget is used up, the analysis stops after the calls in flight and shows the results so far.',
+  'planner.budgetShort': 'The budget will probably only cover about {share} of the analysis.',
+  'planner.back': 'Back',
+  'planner.start': 'Start analysis',
+
+  'ensemble.toggle': 'Ensemble mode (several models or samples per section)',
+  'ensemble.standardOnly': 'Only available in the standard analysis.',
+  'ensemble.model': 'Model',
+  'ensemble.temperature': 'Temperature',
+  'ensemble.removeMember': 'Remove member',
+  'ensemble.addMember': 'Add member',
+  'ensemble.active': 'Every section is rated {count}×; the cost rises accordingly. Listing the same model several times gives independent samples.',
+  'ensemble.tooFew': 'At least two members with a model name are needed, otherwise the analysis runs normally.',
+
+  'mock.title': 'Offline mode (tests & demos)',
+  'mock.fixtures': {
+    one: '{count} fixture',
+    other: '{count} fixtures'
+  },
+  'mock.mode.off': 'Off',
+  'mock.mode.offDescription': 'All requests go to the configured AI provider',
+  'mock.mode.record': 'Record',
+  'mock.mode.recordDescription': 'Real answers are stored as fixtures',
+  'mock.mode.replay': 'Replay',
+  'mock.mode.replayDescription': 'Play back recorded answers without network access',
+  'mock.mode.synthetic': 'Synthetic',
+  'mock.mode.syntheticDescription': 'Generate random but valid answers without network access',
+  'mock.export': 'Export',
+  'mock.import': 'Import',
+  'mock.clear': 'Clear',
+  'mock.toast.imported': 'Fixtures imported',
+  'mock.toast.importedDescription': {
+    one: '{count} recorded answer loaded.',
+    other: '{count} recorded answers loaded.'
+  },
+  'mock.toast.importFailed': 'Import failed',
+  'mock.toast.unreadable': 'The file could not be read.',
+  'mock.error.noRecording': 'No recorded response found for this prompt ({task}, key {key}).',
+  'mock.error.invalidFile': 'Invalid fixture file',
+
+  'rateLimit.title': 'Rate limits',
+  'rateLimit.requestsPerMinute': 'Requests per minute',
+  'rateLimit.tokensPerMinute': 'Tokens per minute',
+  'rateLimit.maxRetries': 'Retries on errors',
+  'rateLimit.hint': 'Shared by all analyses. On rate-limit or server errors the request is retried with a growing delay.',
+
+  'cache.title': 'Response cache',
+  'cache.stats': {
+    one: '{count} entry · {size} MB',
+    other: '{count} entries · {size} MB'
+  },
+  'cache.maxSize': 'Max. {size} MB',
+  'cache.clear': 'Clear',
+  'cache.hint': 'Unchanged sections are loaded from the cache when analysing again. The oldest entries are removed once the limit is exceeded.',
+
+  'routing.title': 'Model routing per task',
+  'routing.reset': 'Reset',
+  'routing.task': 'Task',
+  'routing.model': 'Model',
+  'routing.temperature': 'Temperature',
+  'routing.maxTokens': 'Max. tokens',
+  'routing.modelFor': 'Model for {task}',
+  'routing.temperatureFor': 'Temperature for {task}',
+  'routing.maxTokensFor': 'Max. tokens for {task}',
+  'routing.hint': 'Empty fields fall back to the default model or the values of the active prompt template. The table is saved with every run.',
+
+  'promptHistory.original': 'Original version',
+  'promptHistory.noChanges': 'No changes',
+  'promptHistory.version': 'Version',
+  'promptHistory.saved': 'Saved',
+  'promptHistory.temperature': 'Temperature',
+  'promptHistory.maxTokens': 'Max. tokens',
+  'promptHistory.restore': 'Restore',
+  'promptHistory.noVersions': 'No other versions yet. Every saved change to the wording creates a new version.',
+  'promptHistory.compare': 'Compare',
+  'promptHistory.with': 'with',
+  'promptHistory.settingsChange': 'Temperature {fromTemperature} → {toTemperature} · Max. tokens {fromMaxTokens} → {toMaxTokens}',
+  'promptHistory.systemPrompt': 'System prompt',
+  'promptHistory.userPrompt': 'User prompt',
+
+  'trial.intro': 'Has two prompt versions rate the same text passages from the viewpoint of the same archetypes and compares the rating distribution and feedback.',
+  'trial.module': 'Module',
+  'trial.versionA': 'Version A',
+  'trial.versionB': 'Version B',
+  'trial.sampleSize': 'Text passages',
+  'trial.sameVersion': 'Both sides use the same version. Save a changed version or choose a different one.',
+  'trial.stop': 'Stop test',
+  'trial.start': 'Start prompt test',
+  'trial.callCount': '{calls} AI calls ({archetypes} archetypes × {chunks} passages × 2 versions)',
+  'trial.dimension': 'Dimension',
+  'trial.failures': 'Failed calls: A {a}, B {b} – they are not included in the values.',
+  'trial.histogramA': 'Overall rating distribution A',
+  'trial.histogramB': 'Overall rating distribution B',
+  'trial.feedback': 'Feedback side by side',
+  'trial.callFailed': 'Call failed',
+
+  'promptTemplate.unknownVariable': 'Unknown variable {{name}}',
+  'promptTemplate.missingVariable': 'Required variable {{name}} is missing',
+  'promptTemplate.invalid': 'Invalid prompt template – {problems}',
+  'promptTemplate.invalidVersion': 'Invalid prompt version – {problems}',
+  'promptTemplate.noValue': 'No value for variable {placeholder}',
+  'promptTemplate.noValueIssue': 'No value for {placeholder}',
+
+  'promptVariable.archetypeName': 'Name of the archetype',
+  'promptVariable.archetypeDescription': 'Description of the archetype',
+  'promptVariable.archetypeDemographics': 'Demographic data',
+  'promptVariable.archetypeReadingPreferences': 'Reading habits',
+  'promptVariable.archetypePersonalityTraits': 'Personality traits',
+  'promptVariable.archetypeMotivations': 'Motivations',
+  'promptVariable.archetypePainPoints': 'Pain points',
+  'promptVariable.textChunk': 'The text passage to analyse',
+  'promptVariable.bookExcerpt': 'Excerpt from the beginning of the book',
+  'promptVariable.personas': 'List of personas with age, occupation, genres and motivations',
+  'promptVariable.selectedTitle': 'Chosen title',
+  'promptVariable.selectedCover': 'Chosen cover concept',
+  'promptVariable.selectedBlurb': 'Chosen blurb',
+  'promptVariable.emotionalSummary': 'Emotional reactions from layer 1',
+  'promptVariable.textExcerpt': 'The first 200 characters of the passage',
+  'promptVariable.emotionalReactions': 'Emotional reactions from layer 1',
+  'promptVariable.averageEmotionalIntensity': 'Average emotional intensity (1-10)',
+  'promptVariable.literaryScore': 'Average of the literary elements (1-10)',
+  'promptVariable.technicalScore': 'Average of the technical aspects (1-10)',
+  'promptVariable.averageAnalyticalScore': 'Average analytical rating (1-10)',
+  'promptVariable.streamOfThoughtResult': 'Result of the stream-of-thought analysis',
+  'promptVariable.userGenres': 'Genres given by the user',
+  'promptVariable.competitorTitles': 'Comparable titles given by the user',
+  'promptVariable.genre': 'Main genre from the market analysis',
+  'promptVariable.subGenres': 'Sub-genres from the market analysis',
+  'promptVariable.uniqueSellingPoints': 'Unique selling points from the market analysis',
+  'promptVariable.title': 'The title to rate',
+  'promptVariable.conceptId': 'Identifier of the cover concept',
+  'promptVariable.conceptDescription': 'Description of the cover concept',
+  'promptVariable.blurbId': 'Identifier of the blurb',
+  'promptVariable.blurbText': 'The blurb to rate',
+  'promptVariable.testType': 'Element under test (title, cover or blurb)',
+  'promptVariable.optionA': 'Option A',
+  'promptVariable.optionB': 'Option B',
+  'promptVariable.personaName': 'Name of the target persona',
+  'promptVariable.personaAgeRange': 'Age range of the persona',
+  'promptVariable.personaGender': 'Gender of the persona',
+  'promptVariable.personaGenres': 'Preferred genres of the persona',
+  'promptVariable.personaMotivations': 'Motivations of the persona',
+  'promptVariable.personaNames': 'Names of the target personas',
+  'promptVariable.angleCount': 'Number of defined marketing angles',
+  'promptVariable.prompt': 'The actual request',
+  'promptVariable.targetPersonas': 'List of target personas with age, genres, motivations and pain points',
+
+  'promptEditor.title': 'Advanced prompt settings',
+  'promptEditor.language': 'Language',
+  'promptEditor.select': 'Select prompt',
+  'promptEditor.defaultSuffix': '(default)',
+  'promptEditor.activeSuffix': '(active)',
+  'promptEditor.new': 'New',
+  'promptEditor.copy': 'Copy',
+  'promptEditor.activate': 'Activate',
+  'promptEditor.delete': 'Delete',
+  'promptEditor.unsaved': 'You have unsaved changes. Don\'t forget to save!',
+  'promptEditor.invalid': 'This template can\'t be used as it is:',
+  'promptEditor.tab.basic': 'Basic settings',
+  'promptEditor.tab.prompts': 'Prompts',
+  'promptEditor.tab.history': 'History',
+  'promptEditor.tab.help': 'Help',
+  'promptEditor.name': 'Name',
+  'promptEditor.version': 'Version',
+  'promptEditor.versionHint': 'Increased automatically when a changed wording is saved',
+  'promptEditor.description': 'Description',
+  'promptEditor.temperature': 'Temperature: {value}',
+  'promptEditor.temperatureHint': 'Low = conservative, high = creative',
+  'promptEditor.maxTokens': 'Max tokens: {value}',
+  'promptEditor.maxTokensHint': 'Maximum response length',
+  'promptEditor.systemPrompt': 'System prompt',
+  'promptEditor.systemPromptPlaceholder': 'System instruction for the AI model...',
+  'promptEditor.systemPromptHint': 'Defines the basic behaviour of the AI model',
+  'promptEditor.userPrompt': 'User prompt',
+  'promptEditor.userPromptPlaceholder': 'Main prompt with variables such as {archetypeName}...',
+  'promptEditor.userPromptHint': 'The main prompt for the analysis. Use variables in curly braces.',
+  'promptEditor.variables': 'Available variables:',
+  'promptEditor.requiredSuffix': '(required)',
+  'promptEditor.modules': 'Modules:',
+  'promptEditor.modulesHelp': 'Every template belongs to a module (here: {module}) and an output language (here: {language}). Exactly one template is active per module and language; without a choice the default prompt is used. Unknown variables or missing required variables prevent an analysis from starting.',
+  'promptEditor.tips': 'Tips:',
+  'promptEditor.tip.specific': 'Use clear, specific instructions',
+  'promptEditor.tip.json': 'Ask for JSON responses for structured data',
+  'promptEditor.tip.test': 'Test new prompts with different texts',
+  'promptEditor.tip.temperature': 'Low temperature for consistent results',
+  'promptEditor.save': 'Save',
+  'promptEditor.restoreDefault': 'Restore default',
+  'promptEditor.active': 'Active',
+  'promptEditor.defaultPrompt': 'Default prompt',
+  'promptEditor.custom': 'Custom',
+  'promptEditor.newName': 'New prompt',
+  'promptEditor.newDescription': 'Add a description...',
+  'promptEditor.copyName': '{name} (copy)',
+  'promptEditor.toast.saved': 'Prompt saved',
+  'promptEditor.toast.savedDescription': '"{name}" was saved as version {version}.',
+  'promptEditor.toast.savedInvalid': '"{name}" was saved as version {version}, but it contains errors and blocks runs while the template is active.',
+  'promptEditor.toast.activated': 'Prompt activated',
+  'promptEditor.toast.activatedDescription': '"{name}" is now used for {module} ({language}).',
+  'promptEditor.toast.reset': 'Prompt reset',
+  'promptEditor.toast.resetDescription': 'Default prompt restored.',
+  'promptEditor.toast.versionLoaded': 'Version loaded',
+  'promptEditor.toast.versionLoadedDescription': 'The wording of version {version} was loaded. Saving stores it as a new version.',
+  'promptEditor.toast.created': 'New prompt created',
+  'promptEditor.toast.createdDescription': 'You can now edit the new prompt for {module}.',
+  'promptEditor.toast.copied': 'Prompt copied',
+  'promptEditor.toast.copiedDescription': 'A copy of the prompt was created.',
+  'promptEditor.toast.error': 'Error',
+  'promptEditor.toast.deleteDefault': 'Default prompts can\'t be deleted.',
+  'promptEditor.toast.deleted': 'Prompt deleted',
+  'promptEditor.toast.deletedDescription': '"{name}" was deleted.',
+
+  'archetypes.textPreview': 'Your text (preview)',
+  'archetypes.edit': 'Edit archetype: {name}',
+  'archetypes.demographics': 'Demographics',
+  'archetypes.personalityTraits': 'Personality traits',
+  'archetypes.start': 'Start the analysis with these archetypes',
+  'archetypes.name': 'Name',
+  'archetypes.description': 'Description',
+  'archetypes.readingPreferences': 'Reading habits',
+  'archetypes.personalityTraitsList': 'Personality traits (comma-separated)',
+  'archetypes.motivationsList': 'Motivations (comma-separated)',
+  'archetypes.painPointsList': 'Pain points (comma-separated)',
+  'archetypes.cancel': 'Cancel',
+  'archetypes.save': 'Save',
+  'archetypes.toast.saved': 'Archetype saved',
+  'archetypes.toast.savedDescription': '{name} was updated successfully.',
+  'archetypes.toast.started': 'Analysis started',
+  'archetypes.toast.startedDescription': 'The archetypes are configured. The analysis can begin.',
+
+  'aiProvider.error.notSignedIn': 'Not signed in: the AI proxy only accepts requests with a valid session. Sign in or allow anonymous sessions (VITE_AI_PROXY_ALLOW_ANONYMOUS and AI_PROXY_ALLOW_ANONYMOUS).',
+  'aiProvider.error.proxyUnreachable': 'The AI proxy can\'t be reached.',
+  'aiProvider.error.unreachable': '{provider} can\'t be reached. Please check the base URL.',
+  'aiProvider.error.unexpectedResponse': 'Received an unexpected API response',
+  'aiProvider.error.invalidAnswer': 'Invalid AI response ({task}): {issues}',
+  'aiProvider.error.network': 'Network error during the API call',
+  'aiProvider.error.aborted': 'The request was cancelled',
+  'aiProvider.error.baseUrlRequired': '{provider} needs a base URL to be configured.',
+  'aiProvider.error.proxyFailed': 'AI proxy error {status}',
+  'aiProvider.error.apiKeyInvalid': 'Invalid API key. Please check your {provider} API key.',
+  'aiProvider.error.rateLimited': 'API rate limit reached. Please try again later.',
+  'aiProvider.error.serverError': '{provider} server error {status}. Please try again later.',
+  'aiProvider.error.requestFailed': '{provider} API error {status}: {details}',
+  'aiProvider.issue.noJson': 'The response contains no valid JSON',
+  'aiProvider.issue.root': '(root)',
+
+  'abTest.title': 'A/B Test Predictor',
+  'abTest.testType': 'Test Type',
+  'abTest.type.title': 'Title',
+  'abTest.type.cover': 'Cover',
+  'abTest.type.blurb': 'Blurb',
+  'abTest.persona': 'Target Persona',
+  'abTest.selectPersona': 'Select persona',
+  'abTest.option': 'Option {option}',
+  'abTest.selectOption': 'Select option {option}',
+  'abTest.run': 'Run A/B Test Simulation',
+  'abTest.running': 'Running A/B Test...',
+  'abTest.result': 'Test Result #{number}',
+  'abTest.winner': 'Winner: Option {option}',
+  'abTest.metric.clickThroughRate': 'Click-Through Rate',
+  'abTest.metric.engagementScore': 'Engagement Score',
+  'abTest.metric.conversionProbability': 'Conversion Probability',
+  'abTest.confidence': 'Confidence Level',
+  'abTest.confident': '{confidence} confident',
+  'abTest.reasoning': 'Reasoning',
+  'abTest.insights': 'Persona-Specific Insights',
+
+  'marketValidation.loadingBook': 'Loading book context...',
+  'marketValidation.title': 'AI Market Validation & Launch Strategy Simulator',
+  'marketValidation.subtitle': 'Simulate comprehensive market research and focus group feedback for your book',
+  'marketValidation.phase.foundation': 'Foundation & Audience',
+  'marketValidation.phase.foundationDescription': 'Market positioning and reader personas',
+  'marketValidation.phase.feedback': 'Focus Group Feedback',
+  'marketValidation.phase.feedbackDescription': 'Simulated feedback on titles, covers, and blurbs',
+  'marketValidation.phase.testing': 'A/B Testing & Validation',
+  'marketValidation.phase.testingDescription': 'Concept testing and optimization',
+  'marketValidation.phase.strategy': 'Marketing Strategy',
+  'marketValidation.phase.strategyDescription': 'Launch strategy and channel recommendations',
+  'marketValidation.phase.dashboard': 'Strategy Dashboard',
+  'marketValidation.phase.dashboardDescription': 'Review and export your complete strategy',
+  'marketValidation.module.landscape': 'Literary Landscape',
+  'marketValidation.module.audience': 'Target Audience',
+  'marketValidation.module.titles': 'Titles',
+  'marketValidation.module.covers': 'Covers',
+  'marketValidation.module.blurbs': 'Blurbs',
+  'marketValidation.module.abtest': 'A/B test',
+  'marketValidation.module.marketing': 'Marketing',
+  'marketValidation.module.dashboard': 'Dashboard',
+  'marketValidation.progress': 'Progress Summary',
+  'marketValidation.progressSummary': {
+    zero: 'None of {total} modules completed yet',
+    one: '{count} of {total} modules completed',
+    other: '{count} of {total} modules completed'
+  }
+};
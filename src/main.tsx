@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { I18n } from './utils/i18n'
 import './index.css'
 
+document.documentElement.lang = I18n.getLanguage();
+
 createRoot(document.getElementById("root")!).render(<App />);
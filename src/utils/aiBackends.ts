@@ -0,0 +1,203 @@
+import { AIConfig, AIProviderType } from '../components/AIAnalysisService';
+import type { AIRequest, TokenUsage } from './aiProvider';
+import { I18n } from './i18n';
+
+export interface BackendHttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface BackendCompletion {
+  content: string | undefined;
+  model: string | undefined;
+  usage: TokenUsage;
+}
+
+export interface AIBackend {
+  label: string;
+  // Proxied backends are called through the `ai-proxy` edge function, which adds the provider key
+  viaProxy: boolean;
+  requiresBaseUrl: boolean;
+  defaultBaseUrl?: string;
+  buildCompletionRequest(request: AIRequest, config: AIConfig): BackendHttpRequest;
+  parseCompletion(data: unknown): BackendCompletion;
+  buildValidationRequest(config: AIConfig): BackendHttpRequest;
+}
+
+// Only the fields the app reads; every one of them may be missing in an error or truncated response
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessageResponse {
+  model?: string;
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const baseUrlFor = (backend: AIBackend, config: AIConfig): string =>
+  trimSlash(config.baseUrl || backend.defaultBaseUrl || '');
+
+const bearerHeaders = (apiKey: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+});
+
+const chatMessages = (request: AIRequest) => [
+  { role: 'system', content: request.systemPrompt },
+  { role: 'user', content: request.prompt }
+];
+
+const parseChatCompletion = (data: unknown): BackendCompletion => {
+  const response = data as ChatCompletionResponse | null | undefined;
+  return {
+    content: response?.choices?.[0]?.message?.content,
+    model: response?.model,
+    usage: {
+      prompt: response?.usage?.prompt_tokens || 0,
+      completion: response?.usage?.completion_tokens || 0
+    }
+  };
+};
+
+const openAIBackend: AIBackend = {
+  label: 'OpenAI',
+  viaProxy: true,
+  requiresBaseUrl: false,
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  buildCompletionRequest(request, config) {
+    return {
+      url: `${baseUrlFor(this, config)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: bearerHeaders(config.apiKey),
+        body: JSON.stringify({
+          model: config.model,
+          messages: chatMessages(request),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      }
+    };
+  },
+  parseCompletion: parseChatCompletion,
+  buildValidationRequest(config) {
+    return {
+      url: `${baseUrlFor(this, config)}/models`,
+      init: { headers: bearerHeaders(config.apiKey) }
+    };
+  }
+};
+
+// Azure routes by deployment name, so `model` holds the deployment rather than the model id.
+// The resource endpoint is configured on the proxy alongside the key.
+const azureBackend: AIBackend = {
+  label: 'Azure OpenAI',
+  viaProxy: true,
+  requiresBaseUrl: false,
+  buildCompletionRequest(request, config) {
+    const apiVersion = config.apiVersion || DEFAULT_AZURE_API_VERSION;
+    return {
+      url: `${baseUrlFor(this, config)}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${apiVersion}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': config.apiKey,
+        },
+        body: JSON.stringify({
+          messages: chatMessages(request),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      }
+    };
+  },
+  parseCompletion: parseChatCompletion,
+  buildValidationRequest(config) {
+    const apiVersion = config.apiVersion || DEFAULT_AZURE_API_VERSION;
+    return {
+      url: `${baseUrlFor(this, config)}/openai/models?api-version=${apiVersion}`,
+      init: { headers: { 'api-key': config.apiKey } }
+    };
+  }
+};
+
+const anthropicHeaders = (apiKey: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  'x-api-key': apiKey,
+  'anthropic-version': ANTHROPIC_VERSION,
+});
+
+const anthropicBackend: AIBackend = {
+  label: 'Anthropic',
+  viaProxy: true,
+  requiresBaseUrl: false,
+  defaultBaseUrl: 'https://api.anthropic.com',
+  buildCompletionRequest(request, config) {
+    return {
+      url: `${baseUrlFor(this, config)}/v1/messages`,
+      init: {
+        method: 'POST',
+        headers: anthropicHeaders(config.apiKey),
+        body: JSON.stringify({
+          model: config.model,
+          system: request.systemPrompt,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      }
+    };
+  },
+  parseCompletion(data) {
+    const response = data as AnthropicMessageResponse | null | undefined;
+    const textBlock = Array.isArray(response?.content)
+      ? response.content.find(block => block.type === 'text')
+      : undefined;
+
+    return {
+      content: textBlock?.text,
+      model: response?.model,
+      usage: {
+        prompt: response?.usage?.input_tokens || 0,
+        completion: response?.usage?.output_tokens || 0
+      }
+    };
+  },
+  buildValidationRequest(config) {
+    return {
+      url: `${baseUrlFor(this, config)}/v1/models`,
+      init: { headers: anthropicHeaders(config.apiKey) }
+    };
+  }
+};
+
+// llama.cpp, Ollama, vLLM and similar servers speak the OpenAI chat API; most run without a key
+const openAICompatibleBackend: AIBackend = {
+  ...openAIBackend,
+  // Read when shown, so it follows a switch of the UI language
+  get label() {
+    return I18n.t('provider.openAICompatibleServer');
+  },
+  viaProxy: false,
+  requiresBaseUrl: true,
+  defaultBaseUrl: undefined,
+};
+
+export const AI_BACKENDS: Record<AIProviderType, AIBackend> = {
+  'openai': openAIBackend,
+  'azure': azureBackend,
+  'anthropic': anthropicBackend,
+  'openai-compatible': openAICompatibleBackend,
+};
+
+export const getBackend = (provider: AIProviderType | undefined): AIBackend =>
+  AI_BACKENDS[provider || 'openai'] || openAIBackend;
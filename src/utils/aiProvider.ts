@@ -0,0 +1,513 @@
+import { AIConfig, AIProviderType } from '../components/AIAnalysisService';
+import { RobustJSONParser } from './jsonParser';
+import { getBackend, type AIBackend, type BackendHttpRequest } from './aiBackends';
+import { AIProxy } from './aiProxy';
+import { MockAIProvider } from './mockProvider';
+import { AI_RESPONSE_SCHEMAS, formatValidationIssues } from './aiSchemas';
+import { RateLimiter, sleep } from './rateLimiter';
+import { ResponseCache } from './responseCache';
+import { UsageLedger } from './usageLedger';
+import { ModelRouting } from './modelRouting';
+import { OutputLanguages } from './outputLanguage';
+import { I18n } from './i18n';
+import type { PromptRef } from './promptTemplates';
+import type { ZodTypeAny } from 'zod';
+
+export interface TokenUsage {
+  prompt: number;
+  completion: number;
+}
+
+export type AITask =
+  | 'reader_analysis'
+  | 'emotional_notes'
+  | 'analytical_review'
+  | 'correlation'
+  | 'basic_scoring'
+  | 'stream_of_thought'
+  | 'analytical_insight'
+  | 'landscape'
+  | 'personas'
+  | 'title_feedback'
+  | 'cover_feedback'
+  | 'blurb_feedback'
+  | 'ab_test'
+  | 'marketing_strategy'
+  | 'cohesion_check'
+  | 'market_context';
+
+export interface AIRequest {
+  task: AITask;
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  signal?: AbortSignal;
+  // Usage ledger run the call is filed under
+  runId?: string;
+  // Index of a repeated sample of the same request; part of the cache key when set
+  sample?: number;
+  // Template version the prompt was rendered from
+  template?: PromptRef;
+}
+
+export interface AIResponse<T> {
+  data: T;
+  content: string;
+  model: string;
+  usage: TokenUsage;
+  cached?: boolean;
+}
+
+export type AIErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'UNAUTHENTICATED'
+  | 'API_KEY_MISSING'
+  | 'API_KEY_INVALID'
+  | 'RATE_LIMITED'
+  | 'SERVER_ERROR'
+  | 'REQUEST_FAILED'
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE'
+  | 'PARSE_FAILED'
+  | 'VALIDATION_FAILED'
+  | 'ABORTED';
+
+export class AIProviderError extends Error {
+  readonly code: AIErrorCode;
+  readonly status?: number;
+
+  constructor(code: AIErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const STORAGE_KEYS = {
+  model: 'openai_model',
+  provider: 'ai_provider',
+  baseUrl: 'ai_base_url',
+  apiVersion: 'ai_api_version',
+};
+
+// Keys used to be persisted in the browser; they are now held by the proxy
+const LEGACY_API_KEY_STORAGE_KEY = 'openai_api_key';
+
+const PROXY_ERROR_CODES: Record<string, AIErrorCode> = {
+  UNAUTHENTICATED: 'UNAUTHENTICATED',
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  UPSTREAM_UNREACHABLE: 'NETWORK_ERROR'
+};
+
+// Single entry point for every chat completion made by the analysis engines
+export class AIProvider {
+  private static readonly DEFAULT_MODEL = 'gpt-4o-mini';
+  private static readonly PLACEHOLDER_KEYS = ['dummy', 'dummy-key'];
+  private static readonly MAX_REPAIR_ATTEMPTS = 1;
+  // Only used for OpenAI-compatible servers, which are called directly; kept in memory for the session
+  private static sessionApiKey = '';
+
+  static resolveConfig(aiConfig?: Partial<AIConfig>): AIConfig {
+    const stored = this.loadStoredConfig();
+    const configuredKey = aiConfig?.apiKey && !this.PLACEHOLDER_KEYS.includes(aiConfig.apiKey)
+      ? aiConfig.apiKey
+      : null;
+
+    return {
+      provider: aiConfig?.provider || stored.provider,
+      apiKey: configuredKey || stored.apiKey,
+      model: aiConfig?.model || stored.model,
+      baseUrl: aiConfig?.baseUrl || stored.baseUrl,
+      apiVersion: aiConfig?.apiVersion || stored.apiVersion,
+      routing: aiConfig?.routing || ModelRouting.loadTable(),
+      language: aiConfig?.language || OutputLanguages.resolve()
+    };
+  }
+
+  // Applies the task's entry from the routing table; done before the cache key so routed calls cache per model
+  static applyRoute(request: AIRequest, aiConfig?: Partial<AIConfig>): { request: AIRequest; config: AIConfig } {
+    const resolved = this.resolveConfig(aiConfig);
+    const route = ModelRouting.getRoute(resolved.routing, request.task);
+
+    return {
+      request: {
+        ...request,
+        temperature: route.temperature ?? request.temperature,
+        maxTokens: route.maxTokens ?? request.maxTokens
+      },
+      config: route.model ? { ...resolved, model: route.model } : resolved
+    };
+  }
+
+  static loadStoredConfig(): AIConfig {
+    localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+    return {
+      provider: (localStorage.getItem(STORAGE_KEYS.provider) as AIProviderType) || 'openai',
+      apiKey: this.sessionApiKey,
+      model: localStorage.getItem(STORAGE_KEYS.model) || this.DEFAULT_MODEL,
+      baseUrl: localStorage.getItem(STORAGE_KEYS.baseUrl) || undefined,
+      apiVersion: localStorage.getItem(STORAGE_KEYS.apiVersion) || undefined
+    };
+  }
+
+  static saveConfig(config: AIConfig): void {
+    localStorage.setItem(STORAGE_KEYS.provider, config.provider || 'openai');
+    this.sessionApiKey = getBackend(config.provider).viaProxy ? '' : config.apiKey;
+    localStorage.setItem(STORAGE_KEYS.model, config.model);
+    const optional: [string, string | undefined][] = [
+      [STORAGE_KEYS.baseUrl, config.baseUrl],
+      [STORAGE_KEYS.apiVersion, config.apiVersion]
+    ];
+    optional.forEach(([key, value]) => {
+      if (value) {
+        localStorage.setItem(key, value);
+      } else {
+        localStorage.removeItem(key);
+      }
+    });
+  }
+
+  static clearStoredConfig(): void {
+    Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+    localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+    this.sessionApiKey = '';
+  }
+
+  static hasStoredConfig(): boolean {
+    if (MockAIProvider.isOffline()) return true;
+
+    if (!localStorage.getItem(STORAGE_KEYS.provider)) return false;
+
+    const stored = this.loadStoredConfig();
+    return !getBackend(stored.provider).requiresBaseUrl || !!stored.baseUrl;
+  }
+
+  static async validateConfig(aiConfig: AIConfig): Promise<void> {
+    if (MockAIProvider.isOffline()) return;
+
+    const config = this.resolveConfig(aiConfig);
+    const backend = this.assertUsable(config);
+    const { url, init } = await this.route(backend, config, backend.buildValidationRequest(config));
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new AIProviderError(
+        'NETWORK_ERROR',
+        backend.viaProxy
+          ? I18n.t('aiProvider.error.proxyUnreachable')
+          : I18n.t('aiProvider.error.unreachable', { provider: backend.label })
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw AIProxy.isProxyError(response)
+        ? this.classifyProxyError(response.status, errorText)
+        : this.classifyError(backend.label, response.status, errorText);
+    }
+  }
+
+  static async complete(originalRequest: AIRequest, aiConfig?: Partial<AIConfig>): Promise<AIResponse<string>> {
+    const { request, config } = this.applyRoute(originalRequest, aiConfig);
+    this.throwIfAborted(request.signal);
+
+    if (MockAIProvider.isOffline()) {
+      return MockAIProvider.respond(request, config.model);
+    }
+
+    const backend = this.assertUsable(config);
+    const startedAt = Date.now();
+    const cacheKey = ResponseCache.isAvailable() ? await ResponseCache.createKey(request, config) : null;
+
+    // Recording always goes to the network so fixtures carry real usage figures
+    if (cacheKey && !ResponseCache.isBypassed() && MockAIProvider.getMode() !== 'record') {
+      const hit = await ResponseCache.get(cacheKey);
+      if (hit) {
+        const cachedResult: AIResponse<string> = {
+          data: hit.content,
+          content: hit.content,
+          model: hit.model,
+          usage: { prompt: 0, completion: 0 },
+          cached: true
+        };
+        this.recordUsage(request, config, cachedResult, startedAt);
+        return cachedResult;
+      }
+    }
+
+    const { url, init } = await this.route(backend, config, backend.buildCompletionRequest(request, config));
+    const estimatedTokens = this.estimateTokens(request);
+    const response = await this.sendWithRetry(url, { ...init, signal: request.signal }, backend.label, estimatedTokens);
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      this.throwIfAborted(request.signal);
+      throw new AIProviderError('INVALID_RESPONSE', I18n.t('aiProvider.error.unexpectedResponse'));
+    }
+    const completion = backend.parseCompletion(data);
+
+    if (typeof completion.content !== 'string') {
+      console.error('Unexpected API response structure:', data);
+      throw new AIProviderError('INVALID_RESPONSE', I18n.t('aiProvider.error.unexpectedResponse'));
+    }
+
+    RateLimiter.getInstance().settle(estimatedTokens, completion.usage.prompt + completion.usage.completion);
+
+    const result: AIResponse<string> = {
+      data: completion.content,
+      content: completion.content,
+      model: completion.model || config.model,
+      usage: completion.usage,
+      cached: false
+    };
+
+    this.recordUsage(request, config, result, startedAt);
+
+    if (cacheKey) {
+      await ResponseCache.put(cacheKey, request.task, result.model, result.content, result.usage);
+    }
+
+    if (MockAIProvider.getMode() === 'record') {
+      MockAIProvider.record(request, config.model, result);
+    }
+
+    return result;
+  }
+
+  // Parses and schema-checks the answer; an invalid answer is sent back once with the problems listed
+  static async completeJSON<T>(request: AIRequest, aiConfig?: Partial<AIConfig>): Promise<AIResponse<T>> {
+    const schema = AI_RESPONSE_SCHEMAS[request.task];
+    let currentRequest = request;
+    let usage: TokenUsage = { prompt: 0, completion: 0 };
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.complete(currentRequest, aiConfig);
+      usage = this.addUsage(usage, response.usage);
+
+      const check = this.checkResponse(response.content, schema);
+      if (check.issues.length === 0) {
+        return { ...response, data: check.data as T, usage };
+      }
+
+      console.warn(`AI response for ${request.task} failed validation (attempt ${attempt + 1}):`, check.issues);
+
+      // Keep an answer that no longer passes the schema from being served again on the next run
+      if (response.cached) {
+        const routed = this.applyRoute(currentRequest, aiConfig);
+        await ResponseCache.remove(await ResponseCache.createKey(routed.request, routed.config));
+      }
+
+      if (attempt >= this.MAX_REPAIR_ATTEMPTS) {
+        throw new AIProviderError(
+          check.code,
+          I18n.t('aiProvider.error.invalidAnswer', { task: request.task, issues: check.issues.slice(0, 3).join('; ') })
+        );
+      }
+
+      currentRequest = {
+        ...request,
+        prompt: this.createRepairPrompt(request.prompt, response.content, check.issues)
+      };
+    }
+  }
+
+  static isAbortError(error: unknown): boolean {
+    return error instanceof AIProviderError && error.code === 'ABORTED';
+  }
+
+  static addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+    return {
+      prompt: total.prompt + usage.prompt,
+      completion: total.completion + usage.completion
+    };
+  }
+
+  // Rough chars/4 heuristic plus the reserved completion budget, used for the TPM bucket
+  static estimateTokens(request: AIRequest): number {
+    return Math.ceil((request.systemPrompt.length + request.prompt.length) / 4) + request.maxTokens;
+  }
+
+  // Rate limits, server errors and dropped connections are retried with backoff before a chunk is given up
+  private static async sendWithRetry(
+    url: string,
+    init: RequestInit,
+    label: string,
+    estimatedTokens: number
+  ): Promise<Response> {
+    const limiter = RateLimiter.getInstance();
+
+    const signal = init.signal ?? undefined;
+    const wait = async (promise: Promise<unknown>) => {
+      try {
+        await promise;
+      } catch (error) {
+        this.throwIfAborted(signal);
+        throw error;
+      }
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      await wait(limiter.acquire(estimatedTokens, signal));
+      // Only a successful call is settled with its real usage; every failed attempt hands its reservation back
+      const refund = () => limiter.settle(estimatedTokens, 0);
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        refund();
+        this.throwIfAborted(signal);
+        if (limiter.shouldRetry(attempt)) {
+          const delay = limiter.getRetryDelay(attempt);
+          console.warn(`AI request failed before a response was received, retrying in ${delay}ms:`, error);
+          await wait(sleep(delay, signal));
+          continue;
+        }
+        console.error('AI request failed before a response was received:', error);
+        throw new AIProviderError('NETWORK_ERROR', I18n.t('aiProvider.error.network'));
+      }
+
+      limiter.updateFromHeaders(response.headers);
+
+      if (response.ok) {
+        return response;
+      }
+      refund();
+
+      const errorText = await response.text().catch(() => {
+        this.throwIfAborted(signal);
+        return '';
+      });
+      // Missing sessions or server-side keys won't resolve themselves, so they are not retried
+      if (AIProxy.isProxyError(response)) {
+        throw this.classifyProxyError(response.status, errorText);
+      }
+      if (this.isRetryable(response.status) && limiter.shouldRetry(attempt)) {
+        const delay = limiter.getRetryDelay(attempt, response.headers);
+        console.warn(`${label} API Error ${response.status}, retrying in ${delay}ms`);
+        if (response.status === 429) {
+          // Hold back every other queued request too, not just this one
+          limiter.pauseFor(delay);
+        }
+        await wait(sleep(delay, signal));
+        continue;
+      }
+
+      console.error(`${label} API Error:`, response.status, errorText);
+      throw this.classifyError(label, response.status, errorText);
+    }
+  }
+
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AIProviderError('ABORTED', I18n.t('aiProvider.error.aborted'));
+    }
+  }
+
+  private static recordUsage(
+    request: AIRequest,
+    config: AIConfig,
+    response: AIResponse<string>,
+    startedAt: number
+  ): void {
+    UsageLedger.record({
+      runId: request.runId,
+      task: request.task,
+      provider: config.provider || 'openai',
+      model: response.model,
+      usage: response.usage,
+      latencyMs: Date.now() - startedAt,
+      cached: !!response.cached,
+      template: request.template
+    });
+  }
+
+  private static async route(
+    backend: AIBackend,
+    config: AIConfig,
+    request: BackendHttpRequest
+  ): Promise<BackendHttpRequest> {
+    return backend.viaProxy ? AIProxy.wrap(config.provider || 'openai', request) : request;
+  }
+
+  private static isRetryable(status: number): boolean {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  private static checkResponse(
+    content: string,
+    schema: ZodTypeAny | undefined
+  ): { data?: unknown; code?: AIErrorCode; issues: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = RobustJSONParser.parseAIResponse(content);
+    } catch (error) {
+      return { code: 'PARSE_FAILED', issues: [I18n.t('aiProvider.issue.noJson')] };
+    }
+
+    if (!schema) {
+      return { data: parsed, issues: [] };
+    }
+
+    const result = schema.safeParse(parsed);
+    return result.success
+      ? { data: result.data, issues: [] }
+      : { code: 'VALIDATION_FAILED', issues: formatValidationIssues(result.error) };
+  }
+
+  private static createRepairPrompt(originalPrompt: string, invalidContent: string, issues: string[]): string {
+    return `${originalPrompt}
+
+Deine vorherige Antwort war ungültig:
+${invalidContent}
+
+Gefundene Probleme:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Antworte erneut und liefere ausschließlich gültiges JSON im oben geforderten Format. Alle Felder sind Pflicht, Zahlen müssen als Zahlen im angegebenen Wertebereich angegeben werden.`;
+  }
+
+  private static assertUsable(config: AIConfig) {
+    const backend = getBackend(config.provider);
+
+    if (backend.requiresBaseUrl && !config.baseUrl) {
+      throw new AIProviderError('NOT_CONFIGURED', I18n.t('aiProvider.error.baseUrlRequired', { provider: backend.label }));
+    }
+
+    return backend;
+  }
+
+  private static classifyProxyError(status: number, errorText: string): AIProviderError {
+    let body: { error?: { code?: string; message?: string } } = {};
+    try {
+      body = JSON.parse(errorText);
+    } catch (error) {
+      // Fall through to the generic message below
+    }
+    const code = PROXY_ERROR_CODES[body.error?.code] || 'REQUEST_FAILED';
+    // The proxy's own wording doesn't say how to get a session, and doesn't follow the UI language
+    if (code === 'UNAUTHENTICATED') {
+      return new AIProviderError(code, I18n.t('aiProvider.error.notSignedIn'), status);
+    }
+    return new AIProviderError(code, body.error?.message || I18n.t('aiProvider.error.proxyFailed', { status: String(status) }), status);
+  }
+
+  private static classifyError(label: string, status: number, errorText: string): AIProviderError {
+    if (status === 401 || status === 403) {
+      return new AIProviderError('API_KEY_INVALID', I18n.t('aiProvider.error.apiKeyInvalid', { provider: label }), status);
+    }
+    if (status === 429) {
+      return new AIProviderError('RATE_LIMITED', I18n.t('aiProvider.error.rateLimited'), status);
+    }
+    if (status >= 500) {
+      return new AIProviderError('SERVER_ERROR', I18n.t('aiProvider.error.serverError', { provider: label, status: String(status) }), status);
+    }
+    return new AIProviderError('REQUEST_FAILED', I18n.t('aiProvider.error.requestFailed', { provider: label, status: String(status), details: errorText }), status);
+  }
+}
@@ -0,0 +1,63 @@
+import { supabase } from '../integrations/supabase/client';
+import type { AIProviderType } from '../components/AIAnalysisService';
+import type { BackendHttpRequest } from './aiBackends';
+
+const DEFAULT_PROXY_URL = 'https://noqzawmirfqnlipmgadi.supabase.co/functions/v1/ai-proxy';
+
+// Provider keys live in the `ai-proxy` edge function; the browser only sends the upstream path and body
+export class AIProxy {
+  static getUrl(): string {
+    return import.meta.env.VITE_AI_PROXY_URL || DEFAULT_PROXY_URL;
+  }
+
+  // Deployments that let the proxy accept anonymous sessions (AI_PROXY_ALLOW_ANONYMOUS) opt in here too
+  static allowsAnonymous(): boolean {
+    return import.meta.env.VITE_AI_PROXY_ALLOW_ANONYMOUS === 'true';
+  }
+
+  // The signed-in user's session, or an anonymous one where allowed; without either the proxy rejects the call
+  static async getAccessToken(): Promise<string | null> {
+    try {
+      const { data } = await supabase.auth.getSession();
+      if (data.session || !this.allowsAnonymous()) {
+        return data.session?.access_token ?? null;
+      }
+
+      const { data: anonymous, error } = await supabase.auth.signInAnonymously();
+      if (error) {
+        console.warn('Failed to start an anonymous session for the AI proxy:', error);
+      }
+      return anonymous.session?.access_token ?? null;
+    } catch (error) {
+      console.warn('Failed to read the session for the AI proxy:', error);
+      return null;
+    }
+  }
+
+  static async wrap(provider: AIProviderType, request: BackendHttpRequest): Promise<BackendHttpRequest> {
+    const upstream = new URL(request.url, 'http://upstream');
+    const token = await this.getAccessToken();
+
+    return {
+      url: this.getUrl(),
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({
+          provider,
+          path: `${upstream.pathname}${upstream.search}`,
+          method: request.init.method || 'GET',
+          body: typeof request.init.body === 'string' ? JSON.parse(request.init.body) : undefined
+        })
+      }
+    };
+  }
+
+  // Errors raised by the proxy itself rather than passed through from the provider
+  static isProxyError(response: Response): boolean {
+    return response.headers.has('x-ai-proxy-error');
+  }
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type { AITask } from './aiProvider';
+import { I18n } from './i18n';
+import type { AnalysisResult } from '../components/BookAnalyzer';
+import type { AnalyticalReview, EmotionalNote, TwoLayerResult } from '../components/TwoLayerAnalysisEngine';
+
+const rating = z.number().min(0).max(10);
+const probability = z.number().min(0).max(1);
+const percentage = z.number().min(0).max(100);
+const text = z.string().trim().min(1);
+const textList = z.array(z.string());
+
+export const readerAnalysisSchema = z.object({
+  ratings: z.object({
+    engagement: rating,
+    style: rating,
+    clarity: rating,
+    pacing: rating,
+    relevance: rating
+  }),
+  overallRating: rating,
+  feedback: text,
+  buyingProbability: probability,
+  recommendationLikelihood: probability,
+  expectedReviewSentiment: z.enum(['positive', 'neutral', 'negative']),
+  marketingInsights: textList
+});
+
+export const emotionalNotesSchema = z.object({
+  notes: z.array(z.object({
+    emotion: text,
+    intensity: rating,
+    reflection: text,
+    keyMoment: z.string(),
+    personalConnection: z.string()
+  })).min(1)
+});
+
+export const analyticalReviewSchema = z.object({
+  literaryElements: z.object({
+    characterDevelopment: rating,
+    plotProgression: rating,
+    styleQuality: rating,
+    themeExploration: rating
+  }),
+  technicalAspects: z.object({
+    pacing: rating,
+    dialogue: rating,
+    description: rating,
+    structure: rating
+  }),
+  marketViability: z.object({
+    genreConventions: rating,
+    targetAudienceAppeal: rating,
+    uniqueness: rating,
+    commercialPotential: rating
+  }),
+  detailedAnalysis: text,
+  improvementSuggestions: textList
+});
+
+export const layerCorrelationSchema = z.object({
+  emotionalHighs: z.array(z.number()),
+  analyticalStrengths: z.array(z.number()),
+  discrepancies: textList,
+  synthesis: text
+});
+
+export const streamOfThoughtSchema = z.object({
+  rawThoughts: text,
+  emotionalReactions: textList,
+  immediateQuotes: textList,
+  fragmentedInsights: textList,
+  mood: z.enum(['excited', 'bored', 'confused', 'engaged', 'frustrated', 'curious']),
+  attentionLevel: rating,
+  personalResonance: rating
+});
+
+export const analyticalInsightSchema = z.object({
+  keyTakeaways: textList,
+  structuredFeedback: text,
+  marketingOpportunities: textList,
+  competitiveAdvantages: textList,
+  riskFactors: textList,
+  recommendedActions: textList,
+  confidenceScore: rating
+});
+
+export const marketPositionSchema = z.object({
+  genre: text,
+  subGenres: textList,
+  competitorTitles: textList,
+  uniqueSellingPoints: textList,
+  targetNiches: textList,
+  positioningMatrix: z.object({
+    tone: rating,
+    complexity: rating,
+    pacing: rating,
+    emotionalIntensity: rating
+  })
+});
+
+export const landscapeSchema = z.object({
+  marketPosition: marketPositionSchema,
+  trendAnalysis: z.object({
+    currentTrends: textList,
+    relevantToBook: textList,
+    marketGaps: textList,
+    opportunities: textList
+  })
+});
+
+export const readerPersonaSchema = z.object({
+  id: text,
+  name: text,
+  summary: z.string().optional(),
+  demographics: z.object({
+    ageRange: z.string(),
+    gender: z.string(),
+    education: z.string(),
+    occupation: z.string()
+  }),
+  readingHabits: z.object({
+    frequency: z.string(),
+    preferredFormats: textList,
+    favoriteGenres: textList,
+    favoriteAuthors: textList,
+    discoveryChannels: textList
+  }),
+  psychographics: z.object({
+    values: textList,
+    lifestyle: textList,
+    motivations: textList,
+    painPoints: textList
+  }),
+  bookConnectionPoints: textList
+});
+
+export const personasSchema = z.object({
+  personas: z.array(readerPersonaSchema).min(1)
+});
+
+const personaFeedbackBase = z.object({
+  personaId: text,
+  personaName: text,
+  comments: text
+});
+
+export const titleFeedbackSchema = z.object({
+  title: text,
+  personaFeedback: z.array(personaFeedbackBase.extend({
+    appealScore: rating,
+    genreClarity: rating,
+    memorability: rating,
+    thematicFit: rating,
+    positiveAssociations: textList,
+    concerns: textList
+  })).min(1),
+  overallScore: rating,
+  summary: text
+});
+
+export const coverFeedbackSchema = z.object({
+  conceptId: z.string(),
+  conceptDescription: z.string(),
+  personaFeedback: z.array(personaFeedbackBase.extend({
+    visualAppeal: rating,
+    genreAppropriate: rating,
+    thematicAccuracy: rating,
+    standoutFactor: rating,
+    emotionalResponse: z.string()
+  })).min(1),
+  overallScore: rating,
+  summary: text
+});
+
+export const blurbFeedbackSchema = z.object({
+  blurbId: z.string(),
+  blurbText: z.string(),
+  personaFeedback: z.array(personaFeedbackBase.extend({
+    clarityScore: rating,
+    intrigueScore: rating,
+    characterAppeal: rating,
+    paceConveyed: rating,
+    buyingIntent: rating,
+    strengths: textList,
+    weaknesses: textList
+  })).min(1),
+  overallScore: rating,
+  summary: text
+});
+
+export const abTestSchema = z.object({
+  winner: z.enum(['A', 'B']),
+  confidence: percentage,
+  reasoning: text,
+  metrics: z.object({
+    clickThroughRate: percentage,
+    engagementScore: percentage,
+    conversionProbability: percentage
+  }),
+  personaSpecificInsights: textList
+});
+
+export const cohesionCheckSchema = z.object({
+  overallScore: percentage,
+  strengths: textList,
+  weaknesses: textList,
+  recommendations: textList,
+  personaAlignment: percentage
+});
+
+// Payload shapes are derived from the result interfaces; z.infer would mark every field optional without strict mode
+export type ReaderAnalysisPayload = Omit<AnalysisResult, 'archetypeId' | 'chunkIndex' | 'ensemble'>;
+export type EmotionalNotesPayload = { notes: Omit<EmotionalNote, 'chunkIndex' | 'timestamp'>[] };
+export type AnalyticalReviewPayload = Omit<AnalyticalReview, 'chunkIndex'>;
+export type LayerCorrelationPayload = TwoLayerResult['layerCorrelation'];
+
+// Tasks without an entry (marketing strategy, free-form context prompts) are passed through unvalidated
+export const AI_RESPONSE_SCHEMAS: Partial<Record<AITask, z.ZodTypeAny>> = {
+  reader_analysis: readerAnalysisSchema,
+  basic_scoring: readerAnalysisSchema,
+  emotional_notes: emotionalNotesSchema,
+  analytical_review: analyticalReviewSchema,
+  correlation: layerCorrelationSchema,
+  stream_of_thought: streamOfThoughtSchema,
+  analytical_insight: analyticalInsightSchema,
+  landscape: landscapeSchema,
+  personas: personasSchema,
+  title_feedback: titleFeedbackSchema,
+  cover_feedback: coverFeedbackSchema,
+  blurb_feedback: blurbFeedbackSchema,
+  ab_test: abTestSchema,
+  cohesion_check: cohesionCheckSchema
+};
+
+export const formatValidationIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || I18n.t('aiProvider.issue.root')}: ${issue.message}`);
@@ -1,13 +1,24 @@
 
+import type { TokenUsage } from './aiProvider';
+import { RunControl } from './runControl';
+import { I18n } from './i18n';
+import { ManuscriptRevisions } from './manuscriptRevisions';
+
 interface JobProgress {
   id: string;
   type: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentStep: string;
   totalSteps: number;
   completedSteps: number;
   results: any[];
+  apiCalls: number;
+  cacheHits: number;
+  tokenUsage: TokenUsage;
+  cost: number;
+  budget?: number;
+  budgetExceeded?: boolean;
   error?: string;
   startTime: number;
   endTime?: number;
@@ -16,7 +27,8 @@ interface JobProgress {
 export class BackgroundJobManager {
   private static instance: BackgroundJobManager;
   private jobs: Map<string, JobProgress> = new Map();
-  private jobHandlers: Map<string, (job: JobProgress, data: any) => Promise<void>> = new Map();
+  private jobHandlers: Map<string, (job: JobProgress, data: any, control: RunControl) => Promise<void>> = new Map();
+  private controls: Map<string, RunControl> = new Map();
 
   static getInstance(): BackgroundJobManager {
     if (!this.instance) {
@@ -25,11 +37,12 @@ export class BackgroundJobManager {
     return this.instance;
   }
 
-  registerJobHandler(type: string, handler: (job: JobProgress, data: any) => Promise<void>) {
+  // Handlers receive the job's RunControl and pass its signal to every AI call so stop and pause reach requests in flight
+  registerJobHandler(type: string, handler: (job: JobProgress, data: any, control: RunControl) => Promise<void>) {
     this.jobHandlers.set(type, handler);
   }
 
-  createJob(type: string, data: any): string {
+  createJob(type: string, data: any, options: { budget?: number } = {}): string {
     const jobId = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     const job: JobProgress = {
@@ -37,14 +50,20 @@ export class BackgroundJobManager {
       type,
       status: 'pending',
       progress: 0,
-      currentStep: 'Initialisierung...',
+      currentStep: I18n.t('job.initializing'),
       totalSteps: 0,
       completedSteps: 0,
       results: [],
+      apiCalls: 0,
+      cacheHits: 0,
+      tokenUsage: { prompt: 0, completion: 0 },
+      cost: 0,
+      budget: options.budget,
       startTime: Date.now()
     };
 
     this.jobs.set(jobId, job);
+    this.controls.set(jobId, new RunControl(jobId));
     
     // Start processing in background
     this.processJob(jobId, data).catch(error => {
@@ -72,9 +91,29 @@ export class BackgroundJobManager {
       if (job.totalSteps > 0) {
         job.progress = Math.min(100, (job.completedSteps / job.totalSteps) * 100);
       }
+
+      const isActive = job.status === 'running' || job.status === 'paused';
+      if (job.budget !== undefined && job.cost >= job.budget && isActive && !job.budgetExceeded) {
+        job.budgetExceeded = true;
+        job.status = 'running';
+        job.currentStep = I18n.t('job.budgetExceeded');
+        this.controls.get(jobId)?.finish();
+      }
       
-      // Save to localStorage for persistence
-      localStorage.setItem(`job_${jobId}`, JSON.stringify(job));
+      this.persist(job);
+    }
+  }
+
+  // Results are stored in the same trimmed shape as a revision's, so a book-length run doesn't rewrite its chunk text
+  // and archetype copies on every tick
+  private persist(job: JobProgress) {
+    try {
+      localStorage.setItem(`job_${job.id}`, JSON.stringify({
+        ...job,
+        results: job.results.map(result => ManuscriptRevisions.storedResult(result))
+      }));
+    } catch (error) {
+      console.warn(`Failed to save job ${job.id} to localStorage:`, error);
     }
   }
 
@@ -90,36 +129,59 @@ export class BackgroundJobManager {
     this.updateJob(jobId, { status: 'running' });
     
     try {
-      await handler(job, data);
-      this.updateJob(jobId, { 
-        status: 'completed', 
-        progress: 100,
-        endTime: Date.now()
-      });
+      await handler(job, data, this.controls.get(jobId));
+      // A cancelled job keeps its status; whatever the handler collected stays available as partial results
+      if (job.status !== 'cancelled') {
+        this.updateJob(jobId, { 
+          status: 'completed', 
+          progress: 100,
+          endTime: Date.now()
+        });
+      }
     } catch (error) {
+      if (job.status === 'cancelled') return;
       this.updateJob(jobId, {
         status: 'failed',
         error: error.message,
         endTime: Date.now()
       });
       throw error;
+    } finally {
+      this.controls.delete(jobId);
     }
   }
 
   stopJob(jobId: string) {
     const job = this.jobs.get(jobId);
-    if (job && job.status === 'running') {
+    if (job && (job.status === 'running' || job.status === 'paused' || job.status === 'pending')) {
       this.updateJob(jobId, {
-        status: 'failed',
-        error: 'Job was manually stopped',
+        status: 'cancelled',
+        currentStep: I18n.t('job.cancelled'),
         endTime: Date.now()
       });
+      this.controls.get(jobId)?.stop();
+    }
+  }
+
+  pauseJob(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (job && job.status === 'running' && !job.budgetExceeded) {
+      this.controls.get(jobId)?.pause();
+      this.updateJob(jobId, { status: 'paused' });
+    }
+  }
+
+  resumeJob(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (job && job.status === 'paused') {
+      this.updateJob(jobId, { status: 'running' });
+      this.controls.get(jobId)?.resume();
     }
   }
 
   clearCompletedJobs() {
     for (const [jobId, job] of this.jobs.entries()) {
-      if (job.status === 'completed' || job.status === 'failed') {
+      if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
         this.jobs.delete(jobId);
         localStorage.removeItem(`job_${jobId}`);
       }
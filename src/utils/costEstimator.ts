@@ -0,0 +1,193 @@
+import type { ReaderArchetype } from '../components/BookAnalyzer';
+import { TextChunker, STANDARD_CHUNK_OPTIONS, TWO_LAYER_CHUNK_OPTIONS, type ChunkingOptions, type TextStructure } from './textChunking';
+import { RateLimiter } from './rateLimiter';
+import type { AITask, TokenUsage } from './aiProvider';
+import { ModelRouting, type RoutingTable } from './modelRouting';
+import { TokenCounter } from './tokenCounter';
+import { ManuscriptRevisions, type ManuscriptRevision } from './manuscriptRevisions';
+
+// USD per 1M tokens
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export interface CallEstimate {
+  task: AITask;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+}
+
+export interface RunEstimate {
+  chunks: number;
+  // Unchanged since the baseline revision; their results are reused without calls
+  carriedOver: number;
+  calls: CallEstimate[];
+  totalCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+  durationSeconds: number;
+}
+
+interface TaskProfile {
+  // Fixed instructions and JSON skeleton of the template, plus context carried over from earlier layers
+  templateTokens: number;
+  includesChunk: boolean;
+  includesPersona: boolean;
+  completionTokens: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'claude-3-opus': { prompt: 15, completion: 75 }
+};
+
+const TASK_PROFILES: Partial<Record<AITask, TaskProfile>> = {
+  reader_analysis: { templateTokens: 550, includesChunk: true, includesPersona: true, completionTokens: 450 },
+  emotional_notes: { templateTokens: 380, includesChunk: true, includesPersona: true, completionTokens: 600 },
+  analytical_review: { templateTokens: 700, includesChunk: true, includesPersona: false, completionTokens: 500 },
+  basic_scoring: { templateTokens: 200, includesChunk: true, includesPersona: false, completionTokens: 250 },
+  correlation: { templateTokens: 550, includesChunk: false, includesPersona: false, completionTokens: 300 }
+};
+
+export const STANDARD_TASKS: AITask[] = ['reader_analysis'];
+export const TWO_LAYER_TASKS: AITask[] = ['emotional_notes', 'analytical_review', 'basic_scoring', 'correlation'];
+
+// Matches the parallelism of AnalysisController and TwoLayerAnalysisController
+const STANDARD_CONCURRENCY = 5;
+const TWO_LAYER_CONCURRENCY = 3;
+
+const REQUEST_OVERHEAD_SECONDS = 1.5;
+const COMPLETION_TOKENS_PER_SECOND = 40;
+
+export class CostEstimator {
+  static getPricing(model: string): ModelPricing | null {
+    const match = Object.keys(MODEL_PRICING)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? MODEL_PRICING[match] : null;
+  }
+
+  static priceUsage(model: string, usage: TokenUsage): number | null {
+    const pricing = this.getPricing(model);
+    if (!pricing) return null;
+    return (usage.prompt * pricing.prompt + usage.completion * pricing.completion) / 1_000_000;
+  }
+
+  static estimateRun(
+    fileContent: string,
+    archetypes: ReaderArchetype[],
+    model: string,
+    twoLayer: boolean,
+    ensembleModels: string[] = [],
+    routing?: RoutingTable,
+    // As sized for the run by PromptPreview.chunkOptions
+    chunking: ChunkingOptions = twoLayer ? TWO_LAYER_CHUNK_OPTIONS : STANDARD_CHUNK_OPTIONS,
+    structure?: TextStructure,
+    baseline?: ManuscriptRevision
+  ): RunEstimate {
+    const allChunks = TextChunker.createChunks(fileContent, chunking, ManuscriptRevisions.anchoredStructure(structure, baseline));
+    const matches = baseline ? ManuscriptRevisions.compare(baseline.chunks, allChunks) : [];
+    const chunks = allChunks.filter((_, chunkIndex) => matches[chunkIndex]?.change !== 'unchanged');
+    const chunkTokens = chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0);
+    const tasks = twoLayer ? TWO_LAYER_TASKS : STANDARD_TASKS;
+    // Ensemble members each repeat the standard analysis call, possibly on a different model
+    const models = !twoLayer && ensembleModels.length >= 2 ? ensembleModels : [model];
+
+    const calls = tasks.map((task): CallEstimate => {
+      const profile = TASK_PROFILES[task];
+      let promptTokens = 0;
+
+      for (const archetype of archetypes) {
+        const personaTokens = profile.includesPersona ? this.countPersonaTokens(archetype, model) : 0;
+        promptTokens += chunks.length * (profile.templateTokens + personaTokens);
+        if (profile.includesChunk) promptTokens += chunkTokens;
+      }
+
+      const callsPerModel = chunks.length * archetypes.length;
+      const completionTokens = callsPerModel * profile.completionTokens;
+      const routedModel = ModelRouting.getRoute(routing, task).model;
+      const costs = models.map(candidate =>
+        this.priceUsage(routedModel || candidate, { prompt: promptTokens, completion: completionTokens })
+      );
+      return {
+        task,
+        calls: callsPerModel * models.length,
+        promptTokens: promptTokens * models.length,
+        completionTokens: completionTokens * models.length,
+        cost: costs.includes(null) ? null : costs.reduce((sum, cost) => sum + cost, 0)
+      };
+    });
+
+    const totals = calls.reduce(
+      (sum, call) => ({
+        calls: sum.calls + call.calls,
+        prompt: sum.prompt + call.promptTokens,
+        completion: sum.completion + call.completionTokens
+      }),
+      { calls: 0, prompt: 0, completion: 0 }
+    );
+
+    return {
+      chunks: chunks.length,
+      carriedOver: allChunks.length - chunks.length,
+      calls,
+      totalCalls: totals.calls,
+      promptTokens: totals.prompt,
+      completionTokens: totals.completion,
+      cost: calls.some(call => call.cost === null) ? null : calls.reduce((sum, call) => sum + call.cost, 0),
+      durationSeconds: this.estimateDuration(tasks, chunks.length, archetypes.length, models.length, totals.prompt + totals.completion, twoLayer)
+    };
+  }
+
+  // The slower of request latency (given the engines' parallelism) and the shared rate limits
+  private static estimateDuration(
+    tasks: AITask[],
+    chunkCount: number,
+    archetypeCount: number,
+    membersPerCall: number,
+    totalTokens: number,
+    twoLayer: boolean
+  ): number {
+    const latency = (task: AITask) =>
+      REQUEST_OVERHEAD_SECONDS + TASK_PROFILES[task].completionTokens / COMPLETION_TOKENS_PER_SECOND;
+
+    // Two-layer calls for one chunk run one after another; archetypes are processed sequentially
+    const latencySeconds = twoLayer
+      ? archetypeCount * Math.ceil(chunkCount / TWO_LAYER_CONCURRENCY) * tasks.reduce((sum, task) => sum + latency(task), 0)
+      : Math.ceil((chunkCount * archetypeCount) / STANDARD_CONCURRENCY) * latency(tasks[0]);
+
+    const limits = RateLimiter.getInstance().getSettings();
+    // Ensemble members of one chunk run in parallel, so they only add to the rate-limit bound
+    const totalCalls = chunkCount * archetypeCount * tasks.length * membersPerCall;
+    const rateLimitSeconds = Math.max(
+      totalCalls / limits.requestsPerMinute,
+      totalTokens / limits.tokensPerMinute
+    ) * 60;
+
+    return Math.ceil(Math.max(latencySeconds, rateLimitSeconds));
+  }
+
+  private static countPersonaTokens(archetype: ReaderArchetype, model: string): number {
+    return TokenCounter.count([
+      archetype.name,
+      archetype.description,
+      archetype.demographics,
+      archetype.readingPreferences,
+      ...archetype.personalityTraits,
+      ...archetype.motivations,
+      ...archetype.painPoints
+    ].join(' '), model);
+  }
+}
@@ -0,0 +1,752 @@
+import type { PromptTemplate } from './promptTemplates';
+import { ENGLISH_PROMPTS } from './defaultPromptsEn';
+import { SPANISH_PROMPTS } from './defaultPromptsEs';
+
+const LITERARY_EXPERT_SYSTEM_PROMPT = 'Du bist ein Literaturexperte. Antworte nur in gültigem JSON ohne zusätzlichen Text.';
+const MARKET_EXPERT_SYSTEM_PROMPT = 'Du bist ein Experte für Buchmarktanalyse und Verlagsstrategien. Antworte ausschließlich in gültigem JSON ohne zusätzlichen Text oder Erklärungen.';
+
+const GERMAN_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'analysis_standard',
+    task: 'reader_analysis',
+    language: 'de',
+    name: 'Standard Analyse',
+    description: 'Standardprompt für die Buchanalyse mit ausgewogener Bewertung',
+    systemPrompt: 'Du bist ein präziser Literaturkritiker. Antworte ausschließlich in gültigem JSON ohne zusätzlichen Text.',
+    userPrompt: `Du bist ein Literatur-Kritiker und verhältst dich wie folgende Persona:
+
+PERSONA: {archetypeName}
+BESCHREIBUNG: {archetypeDescription}
+DEMOGRAPHIK: {archetypeDemographics}
+LESEGEWOHNHEITEN: {archetypeReadingPreferences}
+PERSÖNLICHKEIT: {archetypePersonalityTraits}
+MOTIVATIONEN: {archetypeMotivations}
+PAIN POINTS: {archetypePainPoints}
+
+Analysiere diesen spezifischen Textabschnitt aus deiner Persona-Perspektive:
+
+"{textChunk}"
+
+Gib detailliertes, tiefgründiges Feedback, das sich NUR auf diesen Textabschnitt bezieht. Konzentriere dich auf deine emotionale Reaktion, wie die Charaktere oder die Handlung auf dich wirken und ob der Stil dich anspricht.
+
+Bewerte auf Skala 1-10 (Dezimalstellen erlaubt, z.B. 7.3):
+- Engagement: Wie fesselnd ist DIESER ABSCHNITT?
+- Stil: Wie gefällt dir der Schreibstil IN DIESEM ABSCHNITT?
+- Klarheit: Wie verständlich ist der Text IN DIESEM ABSCHNITT?
+- Tempo: Wie ist das Erzähltempo IN DIESEM ABSCHNITT?
+- Relevanz: Wie relevant ist der Inhalt DIESES ABSCHNITTS für dich?
+
+Schätze (0-1 als Dezimalzahl, z.B. 0.75):
+- Kaufwahrscheinlichkeit: Basierend auf DIESEM ABSCHNITT, wie wahrscheinlich ist es, dass du das Buch kaufen würdest?
+- Weiterempfehlungswahrscheinlichkeit: Würdest du es basierend auf DIESEM ABSCHNITT weiterempfehlen?
+
+Review-Stimmung (positive, neutral oder negative): Welche Stimmung hinterlässt DIESER ABSCHNITT bei dir?
+
+Gib 2-3 konkrete Marketing-Insights, die sich direkt aus deiner Reaktion auf DIESEN ABSCHNITT ableiten lassen.
+
+Antworte NUR in diesem JSON-Format:
+{
+  "ratings": {
+    "engagement": 0.0,
+    "style": 0.0,
+    "clarity": 0.0,
+    "pacing": 0.0,
+    "relevance": 0.0
+  },
+  "overallRating": 0.0,
+  "feedback": "Dein detailliertes Feedback als Persona (max 150 Wörter), das sich spezifisch auf den Textabschnitt bezieht und deine emotionalen Reaktionen und Gedanken dazu beschreibt.",
+  "buyingProbability": 0.0,
+  "recommendationLikelihood": 0.0,
+  "expectedReviewSentiment": "positive/neutral/negative",
+  "marketingInsights": ["Konkreter Marketing-Insight 1 basierend auf diesem Abschnitt", "Konkreter Marketing-Insight 2 basierend auf diesem Abschnitt"]
+}`,
+    temperature: 0.3,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'emotional_notes',
+    task: 'emotional_notes',
+    language: 'de',
+    name: 'Emotionale Notizen',
+    description: 'Zwei-Ebenen-Analyse, Ebene 1 - spontane emotionale Reaktionen der Persona',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Du liest als {archetypeName} diesen Textabschnitt und notierst deine unmittelbaren emotionalen Reaktionen:
+
+DEINE PERSONA:
+- {archetypeDescription}
+- Persönlichkeit: {archetypePersonalityTraits}
+- Motivationen: {archetypeMotivations}
+- Schmerzpunkte: {archetypePainPoints}
+
+TEXT (lies aufmerksam und reagiere authentisch):
+"{textChunk}"
+
+AUFGABE: Dokumentiere 3-5 spontane emotionale Reaktionen während des Lesens. Denke daran, wie DU als diese spezifische Person reagieren würdest.
+
+Für jede Reaktion:
+- Welche Emotion löst dieser spezifische Moment aus? (z.B. "Spannung", "Langeweile", "Rührung", "Irritation", "Neugier")
+- Wie intensiv ist das Gefühl? (1-10)
+- Was denkst du in diesem Moment? (deine unmittelbaren Gedanken)
+- Welche konkrete Textstelle löst das aus? (Zitat)
+- Verbindung zu deinem Leben: Woran erinnert dich das? Was berührt dich persönlich?
+
+Sei spezifisch und authentisch für deine Persona. Reagiere auf konkrete Details im Text.
+
+JSON-Format:
+{
+  "notes": [
+    {
+      "emotion": "Spezifische Emotion",
+      "intensity": 7,
+      "reflection": "Meine konkreten Gedanken zu diesem Moment im Text",
+      "keyMoment": "Spezifisches Zitat oder Detail aus dem Text",
+      "personalConnection": "Wie das mit meinem Leben/meinen Erfahrungen zusammenhängt"
+    }
+  ]
+}`,
+    temperature: 0.4,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_review',
+    task: 'analytical_review',
+    language: 'de',
+    name: 'Analytische Bewertung',
+    description: 'Zwei-Ebenen-Analyse, Ebene 2 - professionelle Bewertung unter Einbezug der Emotionen',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere diesen Textabschnitt professionell und berücksichtige die emotionalen Reaktionen:
+
+TEXT:
+"{textChunk}"
+
+EMOTIONALE REAKTIONEN DES LESERS:
+{emotionalSummary}
+
+ANALYTISCHE BEWERTUNG (1-10):
+
+LITERARISCHE ELEMENTE:
+- Charakterentwicklung: Wie entwickeln sich die Charaktere in diesem Abschnitt?
+- Handlungsfortschritt: Wie trägt dieser Abschnitt zur Gesamthandlung bei?
+- Stilqualität: Wie ist die sprachliche Qualität und der Schreibstil?
+- Themenexploration: Wie werden Themen entwickelt oder vertieft?
+
+TECHNISCHE ASPEKTE:
+- Tempo/Rhythmus: Wie ist das Erzähltempo in diesem Abschnitt?
+- Dialoge: Qualität und Natürlichkeit der Dialoge (falls vorhanden)
+- Beschreibungen: Qualität und Wirksamkeit der Beschreibungen
+- Struktur: Wie gut ist der Abschnitt strukturiert?
+
+MARKTFÄHIGKEIT:
+- Genre-Konventionen: Entspricht der Text den Erwartungen des Genres?
+- Zielgruppenappeal: Wie ansprechend ist der Text für die Zielgruppe?
+- Einzigartigkeit: Was macht diesen Abschnitt besonders/einzigartig?
+- Kommerzielles Potenzial: Verkaufsfähigkeit basierend auf diesem Abschnitt
+
+Gib eine detaillierte Analyse (2-3 Sätze) und 2-3 konkrete Verbesserungsvorschläge.
+
+JSON-Format:
+{
+  "literaryElements": {
+    "characterDevelopment": 0,
+    "plotProgression": 0,
+    "styleQuality": 0,
+    "themeExploration": 0
+  },
+  "technicalAspects": {
+    "pacing": 0,
+    "dialogue": 0,
+    "description": 0,
+    "structure": 0
+  },
+  "marketViability": {
+    "genreConventions": 0,
+    "targetAudienceAppeal": 0,
+    "uniqueness": 0,
+    "commercialPotential": 0
+  },
+  "detailedAnalysis": "Professionelle Bewertung des Textabschnitts",
+  "improvementSuggestions": ["Konkreter Vorschlag 1", "Konkreter Vorschlag 2"]
+}`,
+    temperature: 0.4,
+    maxTokens: 1500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'correlation',
+    task: 'correlation',
+    language: 'de',
+    name: 'Korrelationsanalyse',
+    description: 'Zwei-Ebenen-Analyse, Ebene 3 - Abgleich von emotionaler und analytischer Bewertung',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Vergleiche die emotionale und analytische Bewertung dieses Textabschnitts:
+
+TEXT-ABSCHNITT:
+"{textExcerpt}..."
+
+EMOTIONALE REAKTIONEN:
+{emotionalReactions}
+Durchschnittliche emotionale Intensität: {averageEmotionalIntensity}/10
+
+ANALYTISCHE BEWERTUNG:
+Literarische Qualität: {literaryScore}/10
+Technische Qualität: {technicalScore}/10
+Durchschnittliche analytische Bewertung: {averageAnalyticalScore}/10
+
+KORRELATIONS-ANALYSE:
+1. Identifiziere emotionale Höhepunkte (Intensität >= 7)
+2. Identifiziere analytische Stärken (Bewertung >= 7)
+3. Finde Diskrepanzen zwischen emotionaler und analytischer Bewertung
+4. Erstelle eine Synthese, die beide Ebenen verbindet
+
+JSON-Format:
+{
+  "emotionalHighs": [7, 8, 9],
+  "analyticalStrengths": [8, 7, 9],
+  "discrepancies": ["Beschreibung von Unterschieden zwischen emotionaler und analytischer Bewertung"],
+  "synthesis": "Verbindende Analyse beider Bewertungsebenen mit konkreten Erkenntnissen für Autoren und Marketing"
+}`,
+    temperature: 0.4,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'basic_scoring',
+    task: 'basic_scoring',
+    language: 'de',
+    name: 'Basis-Bewertung',
+    description: 'Zwei-Ebenen-Analyse - schnelle Bewertung für die Übersichtswerte',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Schnelle Bewertung für {archetypeName}:
+
+"{textChunk}"
+
+Bewerte (1-10): Engagement, Stil, Klarheit, Tempo, Relevanz
+Schätze (0-1): Kaufwahrscheinlichkeit, Weiterempfehlung
+Kurzes Feedback (max 80 Wörter)
+
+JSON:
+{
+  "ratings": {
+    "engagement": 0,
+    "style": 0,
+    "clarity": 0,
+    "pacing": 0,
+    "relevance": 0
+  },
+  "overallRating": 0,
+  "feedback": "Kurzes Feedback",
+  "buyingProbability": 0,
+  "recommendationLikelihood": 0,
+  "expectedReviewSentiment": "positive",
+  "marketingInsights": ["Insight"]
+}`,
+    temperature: 0.4,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'stream_of_thought',
+    task: 'stream_of_thought',
+    language: 'de',
+    name: 'Stream of Thought',
+    description: 'Prompt für Layer 1 Analyse - ungefilterte Gedanken und Emotionen',
+    systemPrompt: 'Du bist ein Leser und denkst laut. Zeige deine spontanen, unzensierten Gedanken und Emotionen beim Lesen. Antworte nur in gültigem JSON.',
+    userPrompt: `Du bist {archetypeName} und liest gerade diesen Textabschnitt. Denke laut und ungefiltert:
+
+DEINE PERSONA:
+- {archetypeDescription}
+- Demografie: {archetypeDemographics}
+- Lesegewohnheiten: {archetypeReadingPreferences}
+- Persönlichkeit: {archetypePersonalityTraits}
+- Motivationen: {archetypeMotivations}
+- Pain Points: {archetypePainPoints}
+
+TEXT ZUM LESEN:
+"{textChunk}"
+
+Zeige deine spontanen, unzensierten Gedanken beim Lesen. Sei emotional, fragmentiert, direkt. Als würdest du einem Freund erzählen, was dir durch den Kopf geht.
+
+Antworte NUR in diesem JSON-Format:
+{
+  "rawThoughts": "Deine ungefilterten Gedanken beim Lesen (1-2 Absätze, sehr persönlich und direkt)",
+  "emotionalReactions": ["Emotion 1", "Emotion 2", "Emotion 3"],
+  "immediateQuotes": ["Direktes Zitat 1 aus deinen Gedanken", "Direktes Zitat 2"],
+  "fragmentedInsights": ["Fragmentierter Gedanke 1", "Fragmentierter Gedanke 2"],
+  "mood": "excited/bored/confused/engaged/frustrated/curious",
+  "attentionLevel": 0-10,
+  "personalResonance": 0-10
+}`,
+    temperature: 0.8,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_insight',
+    task: 'analytical_insight',
+    language: 'de',
+    name: 'Analytische Insights',
+    description: 'Prompt für Layer 2 Analyse - strukturierte Business-Insights',
+    systemPrompt: 'Du bist ein objektiver Marktanalyst. Analysiere die Leserreaktion strukturiert und extrahiere actionable insights. Antworte nur in gültigem JSON.',
+    userPrompt: `Analysiere objektiv diese Leserreaktion und extrahiere strukturierte Business-Insights:
+
+ORIGINAL TEXT:
+"{textChunk}"
+
+LESER-PERSONA: {archetypeName}
+{archetypeDescription}
+
+ROHE LESERREAKTION (Layer 1):
+{streamOfThoughtResult}
+
+AUFGABE: Erstelle eine objektive, strukturierte Analyse für Buchvermarkter und Autoren.
+
+Antworte NUR in diesem JSON-Format:
+{
+  "keyTakeaways": ["Wichtigste Erkenntnis 1", "Wichtigste Erkenntnis 2", "Wichtigste Erkenntnis 3"],
+  "structuredFeedback": "Objektive Zusammenfassung der Stärken/Schwächen dieses Textabschnitts (100-150 Wörter)",
+  "marketingOpportunities": ["Marketing-Chance 1", "Marketing-Chance 2"],
+  "competitiveAdvantages": ["Wettbewerbsvorteil 1", "Wettbewerbsvorteil 2"],
+  "riskFactors": ["Risikofaktor 1", "Risikofaktor 2"],
+  "recommendedActions": ["Handlungsempfehlung 1", "Handlungsempfehlung 2"],
+  "confidenceScore": 0-10
+}`,
+    temperature: 0.3,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'landscape',
+    task: 'landscape',
+    language: 'de',
+    name: 'Literarisches Umfeld',
+    description: 'Marktvalidierung - Genre-Positionierung, Wettbewerb und Trends',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere das literarische Marktumfeld für dieses Buch basierend auf seinem Inhalt:
+
+BUCHINHALT (Auszug):
+"{bookExcerpt}"
+
+BENUTZER-ANGABEN:
+- Genres: {userGenres}
+- Vergleichstitel: {competitorTitles}
+
+Führe eine detaillierte Marktanalyse durch:
+
+1. GENRE-POSITIONIERUNG:
+   - Bestätige oder verfeinere die Genres basierend auf dem tatsächlichen Buchinhalt
+   - Identifiziere spezifische Sub-Genres, die zum Buch passen
+   - Positioniere das Buch auf Skalen (1-10): Ton (düster-hell), Komplexität (einfach-komplex), Tempo (langsam-schnell), emotionale Intensität (niedrig-hoch)
+
+2. WETTBEWERBSANALYSE:
+   - Analysiere die Vergleichstitel in Bezug auf das vorliegende Buch
+   - Identifiziere Alleinstellungsmerkmale basierend auf dem Buchinhalt
+   - Finde potenzielle Marktnischen, die dieses spezifische Buch füllen könnte
+
+3. TREND-ANALYSE:
+   - Aktuelle Trends im identifizierten Genre
+   - Welche Trends sind für DIESES spezifische Buch relevant?
+   - Marktlücken, die das Buch adressieren könnte
+   - Chancen basierend auf dem Buchinhalt
+
+Antworte in diesem JSON-Format:
+{
+  "marketPosition": {
+    "genre": "Hauptgenre",
+    "subGenres": ["Sub-Genre 1", "Sub-Genre 2"],
+    "competitorTitles": ["analysierte Titel"],
+    "uniqueSellingPoints": ["USP basierend auf Buchinhalt"],
+    "targetNiches": ["spezifische Nischen"],
+    "positioningMatrix": {
+      "tone": 0,
+      "complexity": 0,
+      "pacing": 0,
+      "emotionalIntensity": 0
+    }
+  },
+  "trendAnalysis": {
+    "currentTrends": ["allgemeine Genre-Trends"],
+    "relevantToBook": ["für DIESES Buch relevante Trends"],
+    "marketGaps": ["Marktlücken"],
+    "opportunities": ["spezifische Chancen für dieses Buch"]
+  }
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'personas',
+    task: 'personas',
+    language: 'de',
+    name: 'Zielgruppen-Personas',
+    description: 'Marktvalidierung - Leser-Personas, die zu diesem Buch passen',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Generiere detaillierte Leser-Personas für dieses spezifische Buch:
+
+BUCHINHALT (Auszug):
+"{bookExcerpt}"
+
+MARKTPOSITIONIERUNG:
+- Genre: {genre}
+- Sub-Genres: {subGenres}
+- Alleinstellungsmerkmale: {uniqueSellingPoints}
+
+Erstelle 4 unterschiedliche, realistische Leser-Personas, die von DIESEM spezifischen Buch angezogen würden. Für jede Persona:
+
+1. Begründe WARUM sie dieses Buch lesen würde basierend auf dessen tatsächlichem Inhalt
+2. Identifiziere spezifische Elemente des Buches (Charaktere, Themen, Stil), die sie ansprechen würden
+3. Berücksichtige Diversität in Alter, Hintergrund und Lesegewohnheiten
+4. Sei spezifisch bei den Verbindungspunkten zum Buch
+
+Antworte in diesem JSON-Format:
+{
+  "personas": [
+    {
+      "id": "persona_1",
+      "name": "Aussagekräftiger Name",
+      "demographics": {
+        "ageRange": "25-35",
+        "gender": "weiblich/männlich/divers",
+        "education": "Bildungsstand",
+        "occupation": "Beruf"
+      },
+      "readingHabits": {
+        "frequency": "Lesehäufigkeit",
+        "preferredFormats": ["E-Book", "Print"],
+        "favoriteGenres": ["bevorzugte Genres"],
+        "favoriteAuthors": ["ähnliche Autoren"],
+        "discoveryChannels": ["wie sie Bücher entdecken"]
+      },
+      "psychographics": {
+        "values": ["wichtige Werte"],
+        "lifestyle": ["Lebensstil-Merkmale"],
+        "motivations": ["Lesemotivationen"],
+        "painPoints": ["Probleme/Bedürfnisse"]
+      },
+      "bookConnectionPoints": ["spezifische Elemente aus DIESEM Buch, die ansprechen"]
+    }
+  ]
+}`,
+    temperature: 0.7,
+    maxTokens: 2500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'title_feedback',
+    task: 'title_feedback',
+    language: 'de',
+    name: 'Titel-Feedback',
+    description: 'Marktvalidierung - Bewertung eines Titels durch die Personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere den Buchtitel "{title}" für verschiedene Leser-Personas basierend auf dem Buchinhalt:
+
+BUCHINHALT (Auszug): "{bookExcerpt}..."
+
+PERSONAS:
+{personas}
+
+Bewerte für jede Persona den Titel auf einer Skala von 1-10:
+- Anziehungskraft (appealScore)
+- Genre-Klarheit (genreClarity)
+- Einprägsamkeit (memorability)
+- Thematische Passung (thematicFit)
+
+Gib auch Kommentare, positive Assoziationen und mögliche Bedenken an.
+
+Antworte in diesem JSON-Format:
+{
+  "title": "{title}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "appealScore": 8,
+      "genreClarity": 7,
+      "memorability": 9,
+      "thematicFit": 8,
+      "comments": "Detailliertes Feedback...",
+      "positiveAssociations": ["Aspekt 1", "Aspekt 2"],
+      "concerns": ["Mögliche Bedenken"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Zusammenfassung der Bewertung"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cover_feedback',
+    task: 'cover_feedback',
+    language: 'de',
+    name: 'Cover-Feedback',
+    description: 'Marktvalidierung - Bewertung eines Cover-Konzepts durch die Personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere das Cover-Konzept für verschiedene Leser-Personas basierend auf dem Buchinhalt:
+
+BUCHINHALT (Auszug): "{bookExcerpt}..."
+
+COVER-KONZEPT: "{conceptDescription}"
+
+PERSONAS:
+{personas}
+
+Bewerte für jede Persona das Cover-Konzept auf einer Skala von 1-10:
+- Visueller Reiz (visualAppeal)
+- Genre-Angemessenheit (genreAppropriate)
+- Thematische Genauigkeit (thematicAccuracy)
+- Wiedererkennungsfaktor (standoutFactor)
+
+Gib auch emotionale Reaktionen und detaillierte Kommentare an.
+
+Antworte in diesem JSON-Format:
+{
+  "conceptId": "{conceptId}",
+  "conceptDescription": "{conceptDescription}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "visualAppeal": 8,
+      "genreAppropriate": 7,
+      "thematicAccuracy": 9,
+      "standoutFactor": 8,
+      "emotionalResponse": "Neugierig",
+      "comments": "Detailliertes Feedback..."
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Zusammenfassung der Cover-Bewertung"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'blurb_feedback',
+    task: 'blurb_feedback',
+    language: 'de',
+    name: 'Klappentext-Feedback',
+    description: 'Marktvalidierung - Bewertung eines Klappentexts durch die Personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere den Klappentext für verschiedene Leser-Personas basierend auf dem Buchinhalt:
+
+BUCHINHALT (Auszug): "{bookExcerpt}..."
+
+KLAPPENTEXT: "{blurbText}"
+
+PERSONAS:
+{personas}
+
+Bewerte für jede Persona den Klappentext auf einer Skala von 1-10:
+- Klarheit (clarityScore)
+- Spannung/Neugier (intrigueScore)
+- Charakter-Anziehung (characterAppeal)
+- Tempo-Vermittlung (paceConveyed)
+- Kaufabsicht (buyingIntent)
+
+Gib auch Stärken, Schwächen und detaillierte Kommentare an.
+
+Antworte in diesem JSON-Format:
+{
+  "blurbId": "{blurbId}",
+  "blurbText": "{blurbText}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "clarityScore": 8,
+      "intrigueScore": 7,
+      "characterAppeal": 9,
+      "paceConveyed": 8,
+      "buyingIntent": 8,
+      "comments": "Detailliertes Feedback...",
+      "strengths": ["Stärke 1", "Stärke 2"],
+      "weaknesses": ["Schwäche 1"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Zusammenfassung der Klappentext-Bewertung"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'ab_test',
+    task: 'ab_test',
+    language: 'de',
+    name: 'A/B-Test',
+    description: 'Marktvalidierung - simulierter Vergleich zweier Optionen für eine Persona',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Simuliere als Marktforschungsanalyst einen A/B-Test für folgendes Marketing-Element eines Buches:
+
+BUCHKONTEXT: {bookExcerpt}
+
+TESTTYP: {testType}
+OPTION A: {optionA}
+OPTION B: {optionB}
+
+ZIEL-PERSONA:
+- Name: {personaName}
+- Demografie: Alter: {personaAgeRange}, Geschlecht: {personaGender}
+- Lesevorlieben: {personaGenres}
+- Motivationen: {personaMotivations}
+
+Sage auf Basis des Buchinhalts und dieser Persona voraus, welche Option besser abschneiden würde, und gib an:
+
+1. Gewinner (A oder B)
+2. Konfidenz (1-100)
+3. Ausführliche Begründung, warum eine Option die andere übertrifft
+4. Simulierte Kennzahlen (Klickrate, Engagement-Score, Konversionswahrscheinlichkeit)
+5. Persona-spezifische Erkenntnisse zu ihrer wahrscheinlichen Reaktion
+
+Antworte in diesem JSON-Format:
+{
+  "winner": "A" oder "B",
+  "confidence": Zahl,
+  "reasoning": "ausführliche Begründung",
+  "metrics": {
+    "clickThroughRate": Zahl (0-100),
+    "engagementScore": Zahl (0-100),
+    "conversionProbability": Zahl (0-100)
+  },
+  "personaSpecificInsights": ["Erkenntnis 1", "Erkenntnis 2", "Erkenntnis 3"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'marketing_strategy',
+    task: 'marketing_strategy',
+    language: 'de',
+    name: 'Marketing-Strategie',
+    description: 'Marktvalidierung - Marketing-Winkel, Kanäle, Keywords und Kampagnen',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Entwickle als Marketing-Stratege eine umfassende Marketing-Strategie für dieses Buch:
+
+BUCHINHALT: {bookExcerpt}
+
+GEWÄHLTE MARKETING-ELEMENTE:
+- Titel: {selectedTitle}
+- Cover: {selectedCover}
+- Klappentext: {selectedBlurb}
+
+ZIEL-PERSONAS:
+{personas}
+
+Erstelle eine umfassende Marketing-Strategie mit:
+
+1. MARKETING-WINKELN (3-4 unterschiedliche Ansätze)
+2. KANAL-EMPFEHLUNGEN (5-7 Marketing-Kanäle)
+3. KEYWORDS für SEO und Werbung
+4. TAGLINES (3-5 Vorschläge)
+5. KAMPAGNEN-IDEEN (3-4 kreative Konzepte)
+
+Antworte in diesem JSON-Format (die Werte für reach, cost und difficulty bleiben "High", "Medium" oder "Low"):
+{
+  "angles": [
+    {
+      "title": "Name des Ansatzes",
+      "description": "ausführliche Beschreibung",
+      "keyMessages": ["Kernbotschaft 1", "Kernbotschaft 2"],
+      "emotionalTriggers": ["Auslöser 1", "Auslöser 2"],
+      "targetPersonas": ["Namen der Personas"]
+    }
+  ],
+  "channels": [
+    {
+      "channel": "Name des Kanals",
+      "rationale": "warum dieser Kanal funktioniert",
+      "contentStyle": "empfohlener Content-Ansatz",
+      "reach": "High/Medium/Low",
+      "cost": "High/Medium/Low",
+      "difficulty": "High/Medium/Low"
+    }
+  ],
+  "keywords": ["Keyword 1", "Keyword 2"],
+  "taglines": ["Tagline 1", "Tagline 2"],
+  "campaignIdeas": ["Idee 1", "Idee 2"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cohesion_check',
+    task: 'cohesion_check',
+    language: 'de',
+    name: 'Strategie-Kohärenz',
+    description: 'Marktvalidierung - Prüfung, ob Titel, Cover, Klappentext und Zielgruppen zusammenpassen',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analysiere als Verlagsberater die Stimmigkeit und Wirksamkeit der Marketing-Strategie dieses Buches:
+
+BUCHINHALT: {bookExcerpt}
+
+ELEMENTE DER MARKETING-STRATEGIE:
+- Titel: {selectedTitle}
+- Cover: {selectedCover}
+- Klappentext: {selectedBlurb}
+- Ziel-Personas: {personaNames}
+- Marketing-Winkel: {angleCount} definiert
+
+Bewerte:
+1. Gesamt-Kohärenz (1-100)
+2. Wie gut die Elemente zusammenwirken
+3. Passung zu den Ziel-Personas
+4. Stärken der aktuellen Strategie
+5. Schwächen oder Lücken
+6. Konkrete Verbesserungsvorschläge
+
+Antworte in diesem JSON-Format:
+{
+  "overallScore": Zahl,
+  "strengths": ["Stärke 1", "Stärke 2"],
+  "weaknesses": ["Schwäche 1", "Schwäche 2"],
+  "recommendations": ["Empfehlung 1", "Empfehlung 2"],
+  "personaAlignment": Zahl
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'market_context',
+    task: 'market_context',
+    language: 'de',
+    name: 'Marktkontext',
+    description: 'Marktvalidierung - freie Anfrage im Kontext des hochgeladenen Buches',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `{prompt}
+
+Analysiere dies im Kontext des hochgeladenen Buches.
+
+Buchinhalt (Auszug): "{bookExcerpt}..."`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  }
+];
+
+// The prompts the engines shipped with; one default per task and language, which cannot be deleted
+export const DEFAULT_PROMPTS: PromptTemplate[] = [...GERMAN_PROMPTS, ...ENGLISH_PROMPTS, ...SPANISH_PROMPTS];
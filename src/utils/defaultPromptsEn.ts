@@ -0,0 +1,748 @@
+import type { PromptTemplate } from './promptTemplates';
+
+const LITERARY_EXPERT_SYSTEM_PROMPT = 'You are a literary expert. Write all text values in English. Respond only with valid JSON and no additional text.';
+const MARKET_EXPERT_SYSTEM_PROMPT = 'You are an expert in book market analysis and publishing strategy. Write all text values in English. Respond exclusively with valid JSON, without additional text or explanations.';
+
+// English counterparts of the German defaults; JSON keys and enum values stay identical so the parsers don't care
+export const ENGLISH_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'analysis_standard_en',
+    task: 'reader_analysis',
+    language: 'en',
+    name: 'Standard Analysis',
+    description: 'Standard prompt for the book analysis with a balanced assessment',
+    systemPrompt: 'You are a precise literary critic. Write all text values in English. Respond exclusively with valid JSON and no additional text.',
+    userPrompt: `You are a literary critic and act as the following persona:
+
+PERSONA: {archetypeName}
+DESCRIPTION: {archetypeDescription}
+DEMOGRAPHICS: {archetypeDemographics}
+READING HABITS: {archetypeReadingPreferences}
+PERSONALITY: {archetypePersonalityTraits}
+MOTIVATIONS: {archetypeMotivations}
+PAIN POINTS: {archetypePainPoints}
+
+Analyze this specific passage from your persona's perspective:
+
+"{textChunk}"
+
+Give detailed, in-depth feedback that refers ONLY to this passage. Focus on your emotional reaction, how the characters or the plot affect you and whether the style appeals to you.
+
+Rate on a scale of 1-10 (decimals allowed, e.g. 7.3):
+- Engagement: How gripping is THIS PASSAGE?
+- Style: How do you like the writing style IN THIS PASSAGE?
+- Clarity: How easy is the text to follow IN THIS PASSAGE?
+- Pacing: How is the narrative pace IN THIS PASSAGE?
+- Relevance: How relevant is the content of THIS PASSAGE to you?
+
+Estimate (0-1 as a decimal, e.g. 0.75):
+- Buying probability: Based on THIS PASSAGE, how likely is it that you would buy the book?
+- Recommendation likelihood: Would you recommend it based on THIS PASSAGE?
+
+Review sentiment (positive, neutral or negative): Which mood does THIS PASSAGE leave you with?
+
+Give 2-3 concrete marketing insights that follow directly from your reaction to THIS PASSAGE.
+
+Respond ONLY in this JSON format:
+{
+  "ratings": {
+    "engagement": 0.0,
+    "style": 0.0,
+    "clarity": 0.0,
+    "pacing": 0.0,
+    "relevance": 0.0
+  },
+  "overallRating": 0.0,
+  "feedback": "Your detailed feedback as the persona (max 150 words), referring specifically to the passage and describing your emotional reactions and thoughts about it.",
+  "buyingProbability": 0.0,
+  "recommendationLikelihood": 0.0,
+  "expectedReviewSentiment": "positive/neutral/negative",
+  "marketingInsights": ["Concrete marketing insight 1 based on this passage", "Concrete marketing insight 2 based on this passage"]
+}`,
+    temperature: 0.3,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'emotional_notes_en',
+    task: 'emotional_notes',
+    language: 'en',
+    name: 'Emotional Notes',
+    description: 'Two-layer analysis, layer 1 - spontaneous emotional reactions of the persona',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `You are reading this passage as {archetypeName} and note down your immediate emotional reactions:
+
+YOUR PERSONA:
+- {archetypeDescription}
+- Personality: {archetypePersonalityTraits}
+- Motivations: {archetypeMotivations}
+- Pain points: {archetypePainPoints}
+
+TEXT (read attentively and react authentically):
+"{textChunk}"
+
+TASK: Document 3-5 spontaneous emotional reactions while reading. Think about how YOU as this specific person would react.
+
+For each reaction:
+- Which emotion does this specific moment trigger? (e.g. "suspense", "boredom", "being moved", "irritation", "curiosity")
+- How intense is the feeling? (1-10)
+- What are you thinking at this moment? (your immediate thoughts)
+- Which concrete part of the text triggers it? (quote)
+- Connection to your life: What does it remind you of? What touches you personally?
+
+Be specific and authentic to your persona. React to concrete details in the text.
+
+JSON format:
+{
+  "notes": [
+    {
+      "emotion": "Specific emotion",
+      "intensity": 7,
+      "reflection": "My concrete thoughts on this moment in the text",
+      "keyMoment": "Specific quote or detail from the text",
+      "personalConnection": "How this relates to my life/my experiences"
+    }
+  ]
+}`,
+    temperature: 0.4,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_review_en',
+    task: 'analytical_review',
+    language: 'en',
+    name: 'Analytical Review',
+    description: 'Two-layer analysis, layer 2 - professional assessment that takes the emotions into account',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analyze this passage professionally and take the emotional reactions into account:
+
+TEXT:
+"{textChunk}"
+
+THE READER'S EMOTIONAL REACTIONS:
+{emotionalSummary}
+
+ANALYTICAL ASSESSMENT (1-10):
+
+LITERARY ELEMENTS:
+- Character development: How do the characters develop in this passage?
+- Plot progression: How does this passage contribute to the overall plot?
+- Style quality: How good is the language and the writing style?
+- Theme exploration: How are themes developed or deepened?
+
+TECHNICAL ASPECTS:
+- Pacing/rhythm: How is the narrative pace in this passage?
+- Dialogue: Quality and naturalness of the dialogue (if any)
+- Description: Quality and effectiveness of the descriptions
+- Structure: How well is the passage structured?
+
+MARKET VIABILITY:
+- Genre conventions: Does the text meet the expectations of the genre?
+- Target audience appeal: How appealing is the text to the target audience?
+- Uniqueness: What makes this passage special/unique?
+- Commercial potential: Sales potential based on this passage
+
+Give a detailed analysis (2-3 sentences) and 2-3 concrete suggestions for improvement.
+
+JSON format:
+{
+  "literaryElements": {
+    "characterDevelopment": 0,
+    "plotProgression": 0,
+    "styleQuality": 0,
+    "themeExploration": 0
+  },
+  "technicalAspects": {
+    "pacing": 0,
+    "dialogue": 0,
+    "description": 0,
+    "structure": 0
+  },
+  "marketViability": {
+    "genreConventions": 0,
+    "targetAudienceAppeal": 0,
+    "uniqueness": 0,
+    "commercialPotential": 0
+  },
+  "detailedAnalysis": "Professional assessment of the passage",
+  "improvementSuggestions": ["Concrete suggestion 1", "Concrete suggestion 2"]
+}`,
+    temperature: 0.4,
+    maxTokens: 1500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'correlation_en',
+    task: 'correlation',
+    language: 'en',
+    name: 'Correlation Analysis',
+    description: 'Two-layer analysis, layer 3 - comparison of the emotional and the analytical assessment',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Compare the emotional and the analytical assessment of this passage:
+
+PASSAGE:
+"{textExcerpt}..."
+
+EMOTIONAL REACTIONS:
+{emotionalReactions}
+Average emotional intensity: {averageEmotionalIntensity}/10
+
+ANALYTICAL ASSESSMENT:
+Literary quality: {literaryScore}/10
+Technical quality: {technicalScore}/10
+Average analytical score: {averageAnalyticalScore}/10
+
+CORRELATION ANALYSIS:
+1. Identify emotional highs (intensity >= 7)
+2. Identify analytical strengths (score >= 7)
+3. Find discrepancies between the emotional and the analytical assessment
+4. Write a synthesis that connects both layers
+
+JSON format:
+{
+  "emotionalHighs": [7, 8, 9],
+  "analyticalStrengths": [8, 7, 9],
+  "discrepancies": ["Description of differences between the emotional and the analytical assessment"],
+  "synthesis": "Analysis connecting both layers, with concrete takeaways for authors and marketing"
+}`,
+    temperature: 0.4,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'basic_scoring_en',
+    task: 'basic_scoring',
+    language: 'en',
+    name: 'Basic Scoring',
+    description: 'Two-layer analysis - quick scoring for the overview values',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Quick assessment for {archetypeName}:
+
+"{textChunk}"
+
+Rate (1-10): engagement, style, clarity, pacing, relevance
+Estimate (0-1): buying probability, recommendation likelihood
+Short feedback (max 80 words)
+
+JSON:
+{
+  "ratings": {
+    "engagement": 0,
+    "style": 0,
+    "clarity": 0,
+    "pacing": 0,
+    "relevance": 0
+  },
+  "overallRating": 0,
+  "feedback": "Short feedback",
+  "buyingProbability": 0,
+  "recommendationLikelihood": 0,
+  "expectedReviewSentiment": "positive",
+  "marketingInsights": ["Insight"]
+}`,
+    temperature: 0.4,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'stream_of_thought_en',
+    task: 'stream_of_thought',
+    language: 'en',
+    name: 'Stream of Thought',
+    description: 'Prompt for the layer 1 analysis - unfiltered thoughts and emotions',
+    systemPrompt: 'You are a reader thinking out loud. Show your spontaneous, uncensored thoughts and emotions while reading. Write all text values in English. Respond only with valid JSON.',
+    userPrompt: `You are {archetypeName} and are reading this passage right now. Think out loud, unfiltered:
+
+YOUR PERSONA:
+- {archetypeDescription}
+- Demographics: {archetypeDemographics}
+- Reading habits: {archetypeReadingPreferences}
+- Personality: {archetypePersonalityTraits}
+- Motivations: {archetypeMotivations}
+- Pain points: {archetypePainPoints}
+
+TEXT TO READ:
+"{textChunk}"
+
+Show your spontaneous, uncensored thoughts while reading. Be emotional, fragmented, direct. As if you were telling a friend what goes through your head.
+
+Respond ONLY in this JSON format:
+{
+  "rawThoughts": "Your unfiltered thoughts while reading (1-2 paragraphs, very personal and direct)",
+  "emotionalReactions": ["Emotion 1", "Emotion 2", "Emotion 3"],
+  "immediateQuotes": ["Direct quote 1 from your thoughts", "Direct quote 2"],
+  "fragmentedInsights": ["Fragmented thought 1", "Fragmented thought 2"],
+  "mood": "excited/bored/confused/engaged/frustrated/curious",
+  "attentionLevel": 0-10,
+  "personalResonance": 0-10
+}`,
+    temperature: 0.8,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_insight_en',
+    task: 'analytical_insight',
+    language: 'en',
+    name: 'Analytical Insights',
+    description: 'Prompt for the layer 2 analysis - structured business insights',
+    systemPrompt: 'You are an objective market analyst. Analyze the reader reaction in a structured way and extract actionable insights. Write all text values in English. Respond only with valid JSON.',
+    userPrompt: `Objectively analyze this reader reaction and extract structured business insights:
+
+ORIGINAL TEXT:
+"{textChunk}"
+
+READER PERSONA: {archetypeName}
+{archetypeDescription}
+
+RAW READER REACTION (layer 1):
+{streamOfThoughtResult}
+
+TASK: Write an objective, structured analysis for book marketers and authors.
+
+Respond ONLY in this JSON format:
+{
+  "keyTakeaways": ["Key takeaway 1", "Key takeaway 2", "Key takeaway 3"],
+  "structuredFeedback": "Objective summary of the strengths/weaknesses of this passage (100-150 words)",
+  "marketingOpportunities": ["Marketing opportunity 1", "Marketing opportunity 2"],
+  "competitiveAdvantages": ["Competitive advantage 1", "Competitive advantage 2"],
+  "riskFactors": ["Risk factor 1", "Risk factor 2"],
+  "recommendedActions": ["Recommended action 1", "Recommended action 2"],
+  "confidenceScore": 0-10
+}`,
+    temperature: 0.3,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'landscape_en',
+    task: 'landscape',
+    language: 'en',
+    name: 'Literary Landscape',
+    description: 'Market validation - genre positioning, competition and trends',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analyze the literary market landscape for this book based on its content:
+
+BOOK CONTENT (excerpt):
+"{bookExcerpt}"
+
+USER INPUT:
+- Genres: {userGenres}
+- Comparable titles: {competitorTitles}
+
+Carry out a detailed market analysis:
+
+1. GENRE POSITIONING:
+   - Confirm or refine the genres based on the actual book content
+   - Identify specific sub-genres that fit the book
+   - Position the book on scales (1-10): tone (dark-light), complexity (simple-complex), pacing (slow-fast), emotional intensity (low-high)
+
+2. COMPETITIVE ANALYSIS:
+   - Analyze the comparable titles in relation to this book
+   - Identify unique selling points based on the book content
+   - Find potential market niches this specific book could fill
+
+3. TREND ANALYSIS:
+   - Current trends in the identified genre
+   - Which trends are relevant to THIS specific book?
+   - Market gaps the book could address
+   - Opportunities based on the book content
+
+Respond in this JSON format:
+{
+  "marketPosition": {
+    "genre": "Main genre",
+    "subGenres": ["Sub-genre 1", "Sub-genre 2"],
+    "competitorTitles": ["analyzed titles"],
+    "uniqueSellingPoints": ["USP based on the book content"],
+    "targetNiches": ["specific niches"],
+    "positioningMatrix": {
+      "tone": 0,
+      "complexity": 0,
+      "pacing": 0,
+      "emotionalIntensity": 0
+    }
+  },
+  "trendAnalysis": {
+    "currentTrends": ["general genre trends"],
+    "relevantToBook": ["trends relevant to THIS book"],
+    "marketGaps": ["market gaps"],
+    "opportunities": ["specific opportunities for this book"]
+  }
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'personas_en',
+    task: 'personas',
+    language: 'en',
+    name: 'Target Audience Personas',
+    description: 'Market validation - reader personas that fit this book',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Generate detailed reader personas for this specific book:
+
+BOOK CONTENT (excerpt):
+"{bookExcerpt}"
+
+MARKET POSITIONING:
+- Genre: {genre}
+- Sub-genres: {subGenres}
+- Unique selling points: {uniqueSellingPoints}
+
+Create 4 distinct, realistic reader personas who would be drawn to THIS specific book. For each persona:
+
+1. Explain WHY they would read this book based on its actual content
+2. Identify specific elements of the book (characters, themes, style) that would appeal to them
+3. Consider diversity in age, background and reading habits
+4. Be specific about the points of connection to the book
+
+Respond in this JSON format:
+{
+  "personas": [
+    {
+      "id": "persona_1",
+      "name": "Meaningful name",
+      "demographics": {
+        "ageRange": "25-35",
+        "gender": "female/male/diverse",
+        "education": "Level of education",
+        "occupation": "Occupation"
+      },
+      "readingHabits": {
+        "frequency": "Reading frequency",
+        "preferredFormats": ["E-book", "Print"],
+        "favoriteGenres": ["preferred genres"],
+        "favoriteAuthors": ["similar authors"],
+        "discoveryChannels": ["how they discover books"]
+      },
+      "psychographics": {
+        "values": ["important values"],
+        "lifestyle": ["lifestyle traits"],
+        "motivations": ["reading motivations"],
+        "painPoints": ["problems/needs"]
+      },
+      "bookConnectionPoints": ["specific elements of THIS book that appeal"]
+    }
+  ]
+}`,
+    temperature: 0.7,
+    maxTokens: 2500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'title_feedback_en',
+    task: 'title_feedback',
+    language: 'en',
+    name: 'Title Feedback',
+    description: 'Market validation - assessment of a title by the personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analyze the book title "{title}" for different reader personas based on the book content:
+
+BOOK CONTENT (excerpt): "{bookExcerpt}..."
+
+PERSONAS:
+{personas}
+
+For each persona, rate the title on a scale of 1-10:
+- Appeal (appealScore)
+- Genre clarity (genreClarity)
+- Memorability (memorability)
+- Thematic fit (thematicFit)
+
+Also give comments, positive associations and possible concerns.
+
+Respond in this JSON format:
+{
+  "title": "{title}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "appealScore": 8,
+      "genreClarity": 7,
+      "memorability": 9,
+      "thematicFit": 8,
+      "comments": "Detailed feedback...",
+      "positiveAssociations": ["Aspect 1", "Aspect 2"],
+      "concerns": ["Possible concerns"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Summary of the assessment"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cover_feedback_en',
+    task: 'cover_feedback',
+    language: 'en',
+    name: 'Cover Feedback',
+    description: 'Market validation - assessment of a cover concept by the personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analyze the cover concept for different reader personas based on the book content:
+
+BOOK CONTENT (excerpt): "{bookExcerpt}..."
+
+COVER CONCEPT: "{conceptDescription}"
+
+PERSONAS:
+{personas}
+
+For each persona, rate the cover concept on a scale of 1-10:
+- Visual appeal (visualAppeal)
+- Genre appropriateness (genreAppropriate)
+- Thematic accuracy (thematicAccuracy)
+- Standout factor (standoutFactor)
+
+Also give emotional responses and detailed comments.
+
+Respond in this JSON format:
+{
+  "conceptId": "{conceptId}",
+  "conceptDescription": "{conceptDescription}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "visualAppeal": 8,
+      "genreAppropriate": 7,
+      "thematicAccuracy": 9,
+      "standoutFactor": 8,
+      "emotionalResponse": "Curious",
+      "comments": "Detailed feedback..."
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Summary of the cover assessment"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'blurb_feedback_en',
+    task: 'blurb_feedback',
+    language: 'en',
+    name: 'Blurb Feedback',
+    description: 'Market validation - assessment of a blurb by the personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analyze the blurb for different reader personas based on the book content:
+
+BOOK CONTENT (excerpt): "{bookExcerpt}..."
+
+BLURB: "{blurbText}"
+
+PERSONAS:
+{personas}
+
+For each persona, rate the blurb on a scale of 1-10:
+- Clarity (clarityScore)
+- Intrigue/curiosity (intrigueScore)
+- Character appeal (characterAppeal)
+- Pace conveyed (paceConveyed)
+- Buying intent (buyingIntent)
+
+Also give strengths, weaknesses and detailed comments.
+
+Respond in this JSON format:
+{
+  "blurbId": "{blurbId}",
+  "blurbText": "{blurbText}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Name",
+      "clarityScore": 8,
+      "intrigueScore": 7,
+      "characterAppeal": 9,
+      "paceConveyed": 8,
+      "buyingIntent": 8,
+      "comments": "Detailed feedback...",
+      "strengths": ["Strength 1", "Strength 2"],
+      "weaknesses": ["Weakness 1"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Summary of the blurb assessment"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'ab_test_en',
+    task: 'ab_test',
+    language: 'en',
+    name: 'A/B Test',
+    description: 'Market validation - simulated comparison of two options for one persona',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `As a market research analyst, simulate an A/B test for the following marketing element of a book:
+
+BOOK CONTEXT: {bookExcerpt}
+
+TEST TYPE: {testType}
+OPTION A: {optionA}
+OPTION B: {optionB}
+
+TARGET PERSONA:
+- Name: {personaName}
+- Demographics: Age: {personaAgeRange}, Gender: {personaGender}
+- Reading preferences: {personaGenres}
+- Motivations: {personaMotivations}
+
+Based on the book content and this persona, predict which option would perform better and provide:
+
+1. Winner (A or B)
+2. Confidence (1-100)
+3. Detailed reasoning why one option outperforms the other
+4. Simulated metrics (click-through rate, engagement score, conversion probability)
+5. Persona-specific insights about their likely reaction
+
+Respond in this JSON format:
+{
+  "winner": "A" or "B",
+  "confidence": number,
+  "reasoning": "detailed reasoning",
+  "metrics": {
+    "clickThroughRate": number (0-100),
+    "engagementScore": number (0-100),
+    "conversionProbability": number (0-100)
+  },
+  "personaSpecificInsights": ["Insight 1", "Insight 2", "Insight 3"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'marketing_strategy_en',
+    task: 'marketing_strategy',
+    language: 'en',
+    name: 'Marketing Strategy',
+    description: 'Market validation - marketing angles, channels, keywords and campaigns',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `As a marketing strategist, develop a comprehensive marketing strategy for this book:
+
+BOOK CONTENT: {bookExcerpt}
+
+SELECTED MARKETING ELEMENTS:
+- Title: {selectedTitle}
+- Cover: {selectedCover}
+- Blurb: {selectedBlurb}
+
+TARGET PERSONAS:
+{personas}
+
+Create a comprehensive marketing strategy with:
+
+1. MARKETING ANGLES (3-4 distinct approaches)
+2. CHANNEL RECOMMENDATIONS (5-7 marketing channels)
+3. KEYWORDS for SEO and advertising
+4. TAGLINES (3-5 options)
+5. CAMPAIGN IDEAS (3-4 creative concepts)
+
+Respond in this JSON format:
+{
+  "angles": [
+    {
+      "title": "Angle name",
+      "description": "detailed description",
+      "keyMessages": ["Key message 1", "Key message 2"],
+      "emotionalTriggers": ["Trigger 1", "Trigger 2"],
+      "targetPersonas": ["Persona names"]
+    }
+  ],
+  "channels": [
+    {
+      "channel": "Channel name",
+      "rationale": "why this channel works",
+      "contentStyle": "recommended content approach",
+      "reach": "High/Medium/Low",
+      "cost": "High/Medium/Low",
+      "difficulty": "High/Medium/Low"
+    }
+  ],
+  "keywords": ["Keyword 1", "Keyword 2"],
+  "taglines": ["Tagline 1", "Tagline 2"],
+  "campaignIdeas": ["Idea 1", "Idea 2"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cohesion_check_en',
+    task: 'cohesion_check',
+    language: 'en',
+    name: 'Strategy Cohesion',
+    description: 'Market validation - checks whether title, cover, blurb and audiences fit together',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `As a publishing consultant, analyze the cohesion and effectiveness of this book's marketing strategy:
+
+BOOK CONTENT: {bookExcerpt}
+
+MARKETING STRATEGY ELEMENTS:
+- Title: {selectedTitle}
+- Cover: {selectedCover}
+- Blurb: {selectedBlurb}
+- Target personas: {personaNames}
+- Marketing angles: {angleCount} defined
+
+Assess:
+1. Overall cohesion (1-100)
+2. How well the elements work together
+3. Alignment with the target personas
+4. Strengths of the current strategy
+5. Weaknesses or gaps
+6. Concrete suggestions for improvement
+
+Respond in this JSON format:
+{
+  "overallScore": number,
+  "strengths": ["Strength 1", "Strength 2"],
+  "weaknesses": ["Weakness 1", "Weakness 2"],
+  "recommendations": ["Recommendation 1", "Recommendation 2"],
+  "personaAlignment": number
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'market_context_en',
+    task: 'market_context',
+    language: 'en',
+    name: 'Market Context',
+    description: 'Market validation - free-form request in the context of the uploaded book',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `{prompt}
+
+Analyze this in the context of the uploaded book.
+
+Book content (excerpt): "{bookExcerpt}..."`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  }
+];
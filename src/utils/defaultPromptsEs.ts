@@ -0,0 +1,748 @@
+import type { PromptTemplate } from './promptTemplates';
+
+const LITERARY_EXPERT_SYSTEM_PROMPT = 'Eres un experto en literatura. Escribe todos los valores de texto en español. Responde solo con JSON válido y sin texto adicional.';
+const MARKET_EXPERT_SYSTEM_PROMPT = 'Eres un experto en análisis del mercado editorial y estrategias de publicación. Escribe todos los valores de texto en español. Responde exclusivamente con JSON válido, sin texto ni explicaciones adicionales.';
+
+// Spanish counterparts of the German defaults; JSON keys and enum values stay identical so the parsers don't care
+export const SPANISH_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'analysis_standard_es',
+    task: 'reader_analysis',
+    language: 'es',
+    name: 'Análisis estándar',
+    description: 'Prompt estándar para el análisis del libro con una valoración equilibrada',
+    systemPrompt: 'Eres un crítico literario preciso. Escribe todos los valores de texto en español. Responde exclusivamente con JSON válido y sin texto adicional.',
+    userPrompt: `Eres un crítico literario y actúas como la siguiente persona:
+
+PERSONA: {archetypeName}
+DESCRIPCIÓN: {archetypeDescription}
+DEMOGRAFÍA: {archetypeDemographics}
+HÁBITOS DE LECTURA: {archetypeReadingPreferences}
+PERSONALIDAD: {archetypePersonalityTraits}
+MOTIVACIONES: {archetypeMotivations}
+PUNTOS DE DOLOR: {archetypePainPoints}
+
+Analiza este fragmento concreto desde la perspectiva de tu persona:
+
+"{textChunk}"
+
+Da una opinión detallada y profunda que se refiera SOLO a este fragmento. Céntrate en tu reacción emocional, en cómo te afectan los personajes o la trama y en si el estilo te atrae.
+
+Puntúa en una escala del 1 al 10 (se permiten decimales, p. ej. 7.3):
+- Engagement: ¿Cuánto te atrapa ESTE FRAGMENTO?
+- Estilo: ¿Cuánto te gusta el estilo de escritura EN ESTE FRAGMENTO?
+- Claridad: ¿Qué tan comprensible es el texto EN ESTE FRAGMENTO?
+- Ritmo: ¿Cómo es el ritmo narrativo EN ESTE FRAGMENTO?
+- Relevancia: ¿Qué tan relevante es para ti el contenido DE ESTE FRAGMENTO?
+
+Estima (0-1 como decimal, p. ej. 0.75):
+- Probabilidad de compra: Según ESTE FRAGMENTO, ¿qué probabilidad hay de que compres el libro?
+- Probabilidad de recomendación: ¿Lo recomendarías según ESTE FRAGMENTO?
+
+Tono de la reseña (positive, neutral o negative): ¿Qué impresión te deja ESTE FRAGMENTO?
+
+Da 2-3 ideas de marketing concretas que se deriven directamente de tu reacción a ESTE FRAGMENTO.
+
+Responde SOLO en este formato JSON:
+{
+  "ratings": {
+    "engagement": 0.0,
+    "style": 0.0,
+    "clarity": 0.0,
+    "pacing": 0.0,
+    "relevance": 0.0
+  },
+  "overallRating": 0.0,
+  "feedback": "Tu opinión detallada como persona (máx. 150 palabras), referida específicamente al fragmento y describiendo tus reacciones emocionales y pensamientos al respecto.",
+  "buyingProbability": 0.0,
+  "recommendationLikelihood": 0.0,
+  "expectedReviewSentiment": "positive/neutral/negative",
+  "marketingInsights": ["Idea de marketing concreta 1 basada en este fragmento", "Idea de marketing concreta 2 basada en este fragmento"]
+}`,
+    temperature: 0.3,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'emotional_notes_es',
+    task: 'emotional_notes',
+    language: 'es',
+    name: 'Notas emocionales',
+    description: 'Análisis en dos niveles, nivel 1 - reacciones emocionales espontáneas de la persona',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Lees este fragmento como {archetypeName} y anotas tus reacciones emocionales inmediatas:
+
+TU PERSONA:
+- {archetypeDescription}
+- Personalidad: {archetypePersonalityTraits}
+- Motivaciones: {archetypeMotivations}
+- Puntos de dolor: {archetypePainPoints}
+
+TEXTO (léelo con atención y reacciona con autenticidad):
+"{textChunk}"
+
+TAREA: Documenta 3-5 reacciones emocionales espontáneas durante la lectura. Piensa en cómo reaccionarías TÚ como esta persona concreta.
+
+Para cada reacción:
+- ¿Qué emoción provoca este momento concreto? (p. ej. "tensión", "aburrimiento", "emoción", "irritación", "curiosidad")
+- ¿Qué tan intenso es el sentimiento? (1-10)
+- ¿Qué piensas en este momento? (tus pensamientos inmediatos)
+- ¿Qué pasaje concreto del texto lo provoca? (cita)
+- Conexión con tu vida: ¿Qué te recuerda? ¿Qué te toca personalmente?
+
+Sé específico y auténtico con tu persona. Reacciona a detalles concretos del texto.
+
+Formato JSON:
+{
+  "notes": [
+    {
+      "emotion": "Emoción específica",
+      "intensity": 7,
+      "reflection": "Mis pensamientos concretos sobre este momento del texto",
+      "keyMoment": "Cita o detalle específico del texto",
+      "personalConnection": "Cómo se relaciona con mi vida/mis experiencias"
+    }
+  ]
+}`,
+    temperature: 0.4,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_review_es',
+    task: 'analytical_review',
+    language: 'es',
+    name: 'Valoración analítica',
+    description: 'Análisis en dos niveles, nivel 2 - valoración profesional que tiene en cuenta las emociones',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analiza este fragmento de forma profesional y ten en cuenta las reacciones emocionales:
+
+TEXTO:
+"{textChunk}"
+
+REACCIONES EMOCIONALES DEL LECTOR:
+{emotionalSummary}
+
+VALORACIÓN ANALÍTICA (1-10):
+
+ELEMENTOS LITERARIOS:
+- Desarrollo de personajes: ¿Cómo evolucionan los personajes en este fragmento?
+- Avance de la trama: ¿Cómo contribuye este fragmento a la trama general?
+- Calidad del estilo: ¿Cómo es la calidad lingüística y el estilo de escritura?
+- Exploración de temas: ¿Cómo se desarrollan o profundizan los temas?
+
+ASPECTOS TÉCNICOS:
+- Ritmo: ¿Cómo es el ritmo narrativo en este fragmento?
+- Diálogos: Calidad y naturalidad de los diálogos (si los hay)
+- Descripciones: Calidad y eficacia de las descripciones
+- Estructura: ¿Qué tan bien estructurado está el fragmento?
+
+VIABILIDAD COMERCIAL:
+- Convenciones del género: ¿Cumple el texto las expectativas del género?
+- Atractivo para el público objetivo: ¿Qué tan atractivo es el texto para el público objetivo?
+- Originalidad: ¿Qué hace especial/único a este fragmento?
+- Potencial comercial: Capacidad de venta según este fragmento
+
+Da un análisis detallado (2-3 frases) y 2-3 propuestas de mejora concretas.
+
+Formato JSON:
+{
+  "literaryElements": {
+    "characterDevelopment": 0,
+    "plotProgression": 0,
+    "styleQuality": 0,
+    "themeExploration": 0
+  },
+  "technicalAspects": {
+    "pacing": 0,
+    "dialogue": 0,
+    "description": 0,
+    "structure": 0
+  },
+  "marketViability": {
+    "genreConventions": 0,
+    "targetAudienceAppeal": 0,
+    "uniqueness": 0,
+    "commercialPotential": 0
+  },
+  "detailedAnalysis": "Valoración profesional del fragmento",
+  "improvementSuggestions": ["Propuesta concreta 1", "Propuesta concreta 2"]
+}`,
+    temperature: 0.4,
+    maxTokens: 1500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'correlation_es',
+    task: 'correlation',
+    language: 'es',
+    name: 'Análisis de correlación',
+    description: 'Análisis en dos niveles, nivel 3 - comparación de la valoración emocional y la analítica',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Compara la valoración emocional y la analítica de este fragmento:
+
+FRAGMENTO:
+"{textExcerpt}..."
+
+REACCIONES EMOCIONALES:
+{emotionalReactions}
+Intensidad emocional media: {averageEmotionalIntensity}/10
+
+VALORACIÓN ANALÍTICA:
+Calidad literaria: {literaryScore}/10
+Calidad técnica: {technicalScore}/10
+Valoración analítica media: {averageAnalyticalScore}/10
+
+ANÁLISIS DE CORRELACIÓN:
+1. Identifica los picos emocionales (intensidad >= 7)
+2. Identifica las fortalezas analíticas (valoración >= 7)
+3. Encuentra discrepancias entre la valoración emocional y la analítica
+4. Elabora una síntesis que conecte ambos niveles
+
+Formato JSON:
+{
+  "emotionalHighs": [7, 8, 9],
+  "analyticalStrengths": [8, 7, 9],
+  "discrepancies": ["Descripción de las diferencias entre la valoración emocional y la analítica"],
+  "synthesis": "Análisis que une ambos niveles de valoración con conclusiones concretas para autores y marketing"
+}`,
+    temperature: 0.4,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'basic_scoring_es',
+    task: 'basic_scoring',
+    language: 'es',
+    name: 'Valoración básica',
+    description: 'Análisis en dos niveles - valoración rápida para los valores de resumen',
+    systemPrompt: LITERARY_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Valoración rápida para {archetypeName}:
+
+"{textChunk}"
+
+Puntúa (1-10): engagement, estilo, claridad, ritmo, relevancia
+Estima (0-1): probabilidad de compra, probabilidad de recomendación
+Opinión breve (máx. 80 palabras)
+
+JSON:
+{
+  "ratings": {
+    "engagement": 0,
+    "style": 0,
+    "clarity": 0,
+    "pacing": 0,
+    "relevance": 0
+  },
+  "overallRating": 0,
+  "feedback": "Opinión breve",
+  "buyingProbability": 0,
+  "recommendationLikelihood": 0,
+  "expectedReviewSentiment": "positive",
+  "marketingInsights": ["Idea"]
+}`,
+    temperature: 0.4,
+    maxTokens: 800,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'stream_of_thought_es',
+    task: 'stream_of_thought',
+    language: 'es',
+    name: 'Flujo de pensamiento',
+    description: 'Prompt para el análisis de nivel 1 - pensamientos y emociones sin filtrar',
+    systemPrompt: 'Eres un lector que piensa en voz alta. Muestra tus pensamientos y emociones espontáneos y sin censura mientras lees. Escribe todos los valores de texto en español. Responde solo con JSON válido.',
+    userPrompt: `Eres {archetypeName} y estás leyendo este fragmento ahora mismo. Piensa en voz alta, sin filtros:
+
+TU PERSONA:
+- {archetypeDescription}
+- Demografía: {archetypeDemographics}
+- Hábitos de lectura: {archetypeReadingPreferences}
+- Personalidad: {archetypePersonalityTraits}
+- Motivaciones: {archetypeMotivations}
+- Puntos de dolor: {archetypePainPoints}
+
+TEXTO PARA LEER:
+"{textChunk}"
+
+Muestra tus pensamientos espontáneos y sin censura mientras lees. Sé emocional, fragmentario, directo. Como si le contaras a un amigo lo que se te pasa por la cabeza.
+
+Responde SOLO en este formato JSON:
+{
+  "rawThoughts": "Tus pensamientos sin filtrar durante la lectura (1-2 párrafos, muy personales y directos)",
+  "emotionalReactions": ["Emoción 1", "Emoción 2", "Emoción 3"],
+  "immediateQuotes": ["Cita directa 1 de tus pensamientos", "Cita directa 2"],
+  "fragmentedInsights": ["Pensamiento fragmentario 1", "Pensamiento fragmentario 2"],
+  "mood": "excited/bored/confused/engaged/frustrated/curious",
+  "attentionLevel": 0-10,
+  "personalResonance": 0-10
+}`,
+    temperature: 0.8,
+    maxTokens: 1000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'analytical_insight_es',
+    task: 'analytical_insight',
+    language: 'es',
+    name: 'Conclusiones analíticas',
+    description: 'Prompt para el análisis de nivel 2 - conclusiones de negocio estructuradas',
+    systemPrompt: 'Eres un analista de mercado objetivo. Analiza la reacción del lector de forma estructurada y extrae conclusiones accionables. Escribe todos los valores de texto en español. Responde solo con JSON válido.',
+    userPrompt: `Analiza de forma objetiva esta reacción del lector y extrae conclusiones de negocio estructuradas:
+
+TEXTO ORIGINAL:
+"{textChunk}"
+
+PERSONA LECTORA: {archetypeName}
+{archetypeDescription}
+
+REACCIÓN EN BRUTO DEL LECTOR (nivel 1):
+{streamOfThoughtResult}
+
+TAREA: Elabora un análisis objetivo y estructurado para responsables de marketing editorial y autores.
+
+Responde SOLO en este formato JSON:
+{
+  "keyTakeaways": ["Conclusión clave 1", "Conclusión clave 2", "Conclusión clave 3"],
+  "structuredFeedback": "Resumen objetivo de las fortalezas/debilidades de este fragmento (100-150 palabras)",
+  "marketingOpportunities": ["Oportunidad de marketing 1", "Oportunidad de marketing 2"],
+  "competitiveAdvantages": ["Ventaja competitiva 1", "Ventaja competitiva 2"],
+  "riskFactors": ["Factor de riesgo 1", "Factor de riesgo 2"],
+  "recommendedActions": ["Acción recomendada 1", "Acción recomendada 2"],
+  "confidenceScore": 0-10
+}`,
+    temperature: 0.3,
+    maxTokens: 1200,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'landscape_es',
+    task: 'landscape',
+    language: 'es',
+    name: 'Panorama literario',
+    description: 'Validación de mercado - posicionamiento de género, competencia y tendencias',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analiza el panorama del mercado literario para este libro a partir de su contenido:
+
+CONTENIDO DEL LIBRO (extracto):
+"{bookExcerpt}"
+
+DATOS DEL USUARIO:
+- Géneros: {userGenres}
+- Títulos comparables: {competitorTitles}
+
+Realiza un análisis de mercado detallado:
+
+1. POSICIONAMIENTO DE GÉNERO:
+   - Confirma o precisa los géneros según el contenido real del libro
+   - Identifica subgéneros específicos que encajen con el libro
+   - Sitúa el libro en escalas (1-10): tono (oscuro-luminoso), complejidad (simple-compleja), ritmo (lento-rápido), intensidad emocional (baja-alta)
+
+2. ANÁLISIS DE LA COMPETENCIA:
+   - Analiza los títulos comparables en relación con este libro
+   - Identifica rasgos diferenciales según el contenido del libro
+   - Encuentra posibles nichos de mercado que este libro concreto podría cubrir
+
+3. ANÁLISIS DE TENDENCIAS:
+   - Tendencias actuales en el género identificado
+   - ¿Qué tendencias son relevantes para ESTE libro concreto?
+   - Huecos de mercado que el libro podría cubrir
+   - Oportunidades según el contenido del libro
+
+Responde en este formato JSON:
+{
+  "marketPosition": {
+    "genre": "Género principal",
+    "subGenres": ["Subgénero 1", "Subgénero 2"],
+    "competitorTitles": ["títulos analizados"],
+    "uniqueSellingPoints": ["Rasgo diferencial según el contenido del libro"],
+    "targetNiches": ["nichos específicos"],
+    "positioningMatrix": {
+      "tone": 0,
+      "complexity": 0,
+      "pacing": 0,
+      "emotionalIntensity": 0
+    }
+  },
+  "trendAnalysis": {
+    "currentTrends": ["tendencias generales del género"],
+    "relevantToBook": ["tendencias relevantes para ESTE libro"],
+    "marketGaps": ["huecos de mercado"],
+    "opportunities": ["oportunidades específicas para este libro"]
+  }
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'personas_es',
+    task: 'personas',
+    language: 'es',
+    name: 'Personas del público objetivo',
+    description: 'Validación de mercado - personas lectoras que encajan con este libro',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Genera personas lectoras detalladas para este libro concreto:
+
+CONTENIDO DEL LIBRO (extracto):
+"{bookExcerpt}"
+
+POSICIONAMIENTO DE MERCADO:
+- Género: {genre}
+- Subgéneros: {subGenres}
+- Rasgos diferenciales: {uniqueSellingPoints}
+
+Crea 4 personas lectoras distintas y realistas que se sentirían atraídas por ESTE libro concreto. Para cada persona:
+
+1. Explica POR QUÉ leería este libro según su contenido real
+2. Identifica elementos concretos del libro (personajes, temas, estilo) que le atraerían
+3. Ten en cuenta la diversidad de edad, origen y hábitos de lectura
+4. Sé específico en los puntos de conexión con el libro
+
+Responde en este formato JSON:
+{
+  "personas": [
+    {
+      "id": "persona_1",
+      "name": "Nombre significativo",
+      "demographics": {
+        "ageRange": "25-35",
+        "gender": "femenino/masculino/diverso",
+        "education": "Nivel educativo",
+        "occupation": "Profesión"
+      },
+      "readingHabits": {
+        "frequency": "Frecuencia de lectura",
+        "preferredFormats": ["E-book", "Impreso"],
+        "favoriteGenres": ["géneros preferidos"],
+        "favoriteAuthors": ["autores similares"],
+        "discoveryChannels": ["cómo descubre libros"]
+      },
+      "psychographics": {
+        "values": ["valores importantes"],
+        "lifestyle": ["rasgos de estilo de vida"],
+        "motivations": ["motivaciones de lectura"],
+        "painPoints": ["problemas/necesidades"]
+      },
+      "bookConnectionPoints": ["elementos concretos de ESTE libro que le atraen"]
+    }
+  ]
+}`,
+    temperature: 0.7,
+    maxTokens: 2500,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'title_feedback_es',
+    task: 'title_feedback',
+    language: 'es',
+    name: 'Opinión sobre el título',
+    description: 'Validación de mercado - valoración de un título por parte de las personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analiza el título del libro "{title}" para distintas personas lectoras a partir del contenido del libro:
+
+CONTENIDO DEL LIBRO (extracto): "{bookExcerpt}..."
+
+PERSONAS:
+{personas}
+
+Para cada persona, puntúa el título en una escala del 1 al 10:
+- Atractivo (appealScore)
+- Claridad de género (genreClarity)
+- Memorabilidad (memorability)
+- Encaje temático (thematicFit)
+
+Incluye también comentarios, asociaciones positivas y posibles reservas.
+
+Responde en este formato JSON:
+{
+  "title": "{title}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Nombre",
+      "appealScore": 8,
+      "genreClarity": 7,
+      "memorability": 9,
+      "thematicFit": 8,
+      "comments": "Opinión detallada...",
+      "positiveAssociations": ["Aspecto 1", "Aspecto 2"],
+      "concerns": ["Posibles reservas"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Resumen de la valoración"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cover_feedback_es',
+    task: 'cover_feedback',
+    language: 'es',
+    name: 'Opinión sobre la portada',
+    description: 'Validación de mercado - valoración de un concepto de portada por parte de las personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analiza el concepto de portada para distintas personas lectoras a partir del contenido del libro:
+
+CONTENIDO DEL LIBRO (extracto): "{bookExcerpt}..."
+
+CONCEPTO DE PORTADA: "{conceptDescription}"
+
+PERSONAS:
+{personas}
+
+Para cada persona, puntúa el concepto de portada en una escala del 1 al 10:
+- Atractivo visual (visualAppeal)
+- Adecuación al género (genreAppropriate)
+- Precisión temática (thematicAccuracy)
+- Capacidad de destacar (standoutFactor)
+
+Incluye también reacciones emocionales y comentarios detallados.
+
+Responde en este formato JSON:
+{
+  "conceptId": "{conceptId}",
+  "conceptDescription": "{conceptDescription}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Nombre",
+      "visualAppeal": 8,
+      "genreAppropriate": 7,
+      "thematicAccuracy": 9,
+      "standoutFactor": 8,
+      "emotionalResponse": "Curiosidad",
+      "comments": "Opinión detallada..."
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Resumen de la valoración de la portada"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'blurb_feedback_es',
+    task: 'blurb_feedback',
+    language: 'es',
+    name: 'Opinión sobre la sinopsis',
+    description: 'Validación de mercado - valoración de una sinopsis por parte de las personas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Analiza la sinopsis para distintas personas lectoras a partir del contenido del libro:
+
+CONTENIDO DEL LIBRO (extracto): "{bookExcerpt}..."
+
+SINOPSIS: "{blurbText}"
+
+PERSONAS:
+{personas}
+
+Para cada persona, puntúa la sinopsis en una escala del 1 al 10:
+- Claridad (clarityScore)
+- Intriga/curiosidad (intrigueScore)
+- Atractivo de los personajes (characterAppeal)
+- Ritmo transmitido (paceConveyed)
+- Intención de compra (buyingIntent)
+
+Incluye también fortalezas, debilidades y comentarios detallados.
+
+Responde en este formato JSON:
+{
+  "blurbId": "{blurbId}",
+  "blurbText": "{blurbText}",
+  "personaFeedback": [
+    {
+      "personaId": "persona_id",
+      "personaName": "Nombre",
+      "clarityScore": 8,
+      "intrigueScore": 7,
+      "characterAppeal": 9,
+      "paceConveyed": 8,
+      "buyingIntent": 8,
+      "comments": "Opinión detallada...",
+      "strengths": ["Fortaleza 1", "Fortaleza 2"],
+      "weaknesses": ["Debilidad 1"]
+    }
+  ],
+  "overallScore": 8.0,
+  "summary": "Resumen de la valoración de la sinopsis"
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'ab_test_es',
+    task: 'ab_test',
+    language: 'es',
+    name: 'Test A/B',
+    description: 'Validación de mercado - comparación simulada de dos opciones para una persona',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Como analista de estudios de mercado, simula un test A/B para el siguiente elemento de marketing de un libro:
+
+CONTEXTO DEL LIBRO: {bookExcerpt}
+
+TIPO DE TEST: {testType}
+OPCIÓN A: {optionA}
+OPCIÓN B: {optionB}
+
+PERSONA OBJETIVO:
+- Nombre: {personaName}
+- Demografía: Edad: {personaAgeRange}, Género: {personaGender}
+- Preferencias de lectura: {personaGenres}
+- Motivaciones: {personaMotivations}
+
+Según el contenido del libro y esta persona, predice qué opción funcionaría mejor e indica:
+
+1. Ganadora (A o B)
+2. Confianza (1-100)
+3. Razonamiento detallado de por qué una opción supera a la otra
+4. Métricas simuladas (tasa de clics, puntuación de engagement, probabilidad de conversión)
+5. Conclusiones específicas de la persona sobre su reacción probable
+
+Responde en este formato JSON:
+{
+  "winner": "A" o "B",
+  "confidence": número,
+  "reasoning": "razonamiento detallado",
+  "metrics": {
+    "clickThroughRate": número (0-100),
+    "engagementScore": número (0-100),
+    "conversionProbability": número (0-100)
+  },
+  "personaSpecificInsights": ["Conclusión 1", "Conclusión 2", "Conclusión 3"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'marketing_strategy_es',
+    task: 'marketing_strategy',
+    language: 'es',
+    name: 'Estrategia de marketing',
+    description: 'Validación de mercado - enfoques de marketing, canales, palabras clave y campañas',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Como estratega de marketing, desarrolla una estrategia de marketing completa para este libro:
+
+CONTENIDO DEL LIBRO: {bookExcerpt}
+
+ELEMENTOS DE MARKETING ELEGIDOS:
+- Título: {selectedTitle}
+- Portada: {selectedCover}
+- Sinopsis: {selectedBlurb}
+
+PERSONAS OBJETIVO:
+{personas}
+
+Crea una estrategia de marketing completa con:
+
+1. ENFOQUES DE MARKETING (3-4 enfoques distintos)
+2. RECOMENDACIONES DE CANALES (5-7 canales de marketing)
+3. PALABRAS CLAVE para SEO y publicidad
+4. ESLÓGANES (3-5 propuestas)
+5. IDEAS DE CAMPAÑA (3-4 conceptos creativos)
+
+Responde en este formato JSON (los valores de reach, cost y difficulty siguen siendo "High", "Medium" o "Low"):
+{
+  "angles": [
+    {
+      "title": "Nombre del enfoque",
+      "description": "descripción detallada",
+      "keyMessages": ["Mensaje clave 1", "Mensaje clave 2"],
+      "emotionalTriggers": ["Detonante 1", "Detonante 2"],
+      "targetPersonas": ["Nombres de las personas"]
+    }
+  ],
+  "channels": [
+    {
+      "channel": "Nombre del canal",
+      "rationale": "por qué funciona este canal",
+      "contentStyle": "enfoque de contenido recomendado",
+      "reach": "High/Medium/Low",
+      "cost": "High/Medium/Low",
+      "difficulty": "High/Medium/Low"
+    }
+  ],
+  "keywords": ["Palabra clave 1", "Palabra clave 2"],
+  "taglines": ["Eslogan 1", "Eslogan 2"],
+  "campaignIdeas": ["Idea 1", "Idea 2"]
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'cohesion_check_es',
+    task: 'cohesion_check',
+    language: 'es',
+    name: 'Coherencia de la estrategia',
+    description: 'Validación de mercado - comprueba si título, portada, sinopsis y público encajan',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `Como consultor editorial, analiza la coherencia y la eficacia de la estrategia de marketing de este libro:
+
+CONTENIDO DEL LIBRO: {bookExcerpt}
+
+ELEMENTOS DE LA ESTRATEGIA DE MARKETING:
+- Título: {selectedTitle}
+- Portada: {selectedCover}
+- Sinopsis: {selectedBlurb}
+- Personas objetivo: {personaNames}
+- Enfoques de marketing: {angleCount} definidos
+
+Valora:
+1. Coherencia general (1-100)
+2. Qué tan bien funcionan juntos los elementos
+3. Encaje con las personas objetivo
+4. Fortalezas de la estrategia actual
+5. Debilidades o carencias
+6. Propuestas de mejora concretas
+
+Responde en este formato JSON:
+{
+  "overallScore": número,
+  "strengths": ["Fortaleza 1", "Fortaleza 2"],
+  "weaknesses": ["Debilidad 1", "Debilidad 2"],
+  "recommendations": ["Recomendación 1", "Recomendación 2"],
+  "personaAlignment": número
+}`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  },
+  {
+    id: 'market_context_es',
+    task: 'market_context',
+    language: 'es',
+    name: 'Contexto de mercado',
+    description: 'Validación de mercado - consulta libre en el contexto del libro subido',
+    systemPrompt: MARKET_EXPERT_SYSTEM_PROMPT,
+    userPrompt: `{prompt}
+
+Analiza esto en el contexto del libro subido.
+
+Contenido del libro (extracto): "{bookExcerpt}..."`,
+    temperature: 0.7,
+    maxTokens: 2000,
+    version: '1.0',
+    isDefault: true
+  }
+];
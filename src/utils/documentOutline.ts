@@ -0,0 +1,51 @@
+import type { ChapterSpan } from './textChunking';
+
+// One paragraph of an imported document; `level` is set for headings, 1 being the top level
+export interface TextBlock {
+  text: string;
+  level?: number;
+}
+
+export type TrackedChangesMode = 'accept' | 'reject';
+
+const BLOCK_SEPARATOR = '\n\n';
+const TRACKED_CHANGES_KEY = 'tracked_changes_mode';
+
+export class DocumentOutline {
+  // The highest heading level that occurs more than once marks chapters, so a lone book title above them doesn't;
+  // lower levels stay in the text as subheadings
+  static build(blocks: TextBlock[]): { content: string; chapters: ChapterSpan[] } {
+    const paragraphs = blocks
+      .map(block => ({ ...block, text: block.text.replace(/[ \t\u00a0]+/g, ' ').replace(/ *\n */g, '\n').trim() }))
+      .filter(block => block.text);
+    const headingLevels = paragraphs.filter(block => block.level !== undefined).map(block => block.level);
+    const repeatedLevels = headingLevels.filter((level, index) => headingLevels.indexOf(level) !== index);
+    const chapterLevel = headingLevels.length > 0
+      ? Math.min(...(repeatedLevels.length > 0 ? repeatedLevels : headingLevels))
+      : undefined;
+
+    let content = '';
+    const chapters: ChapterSpan[] = [];
+    for (const block of paragraphs) {
+      if (content) content += BLOCK_SEPARATOR;
+      if (block.level === chapterLevel) {
+        chapters.push({ title: block.text, start: content.length, end: content.length });
+      } else if (chapters.length === 0 && chapterLevel !== undefined) {
+        // Text before the first heading, e.g. a dedication, becomes an untitled chapter of its own
+        chapters.push({ start: content.length, end: content.length });
+      }
+      content += block.text;
+      if (chapters.length > 0) chapters[chapters.length - 1].end = content.length;
+    }
+
+    return { content, chapters };
+  }
+
+  static loadTrackedChangesMode(): TrackedChangesMode {
+    return localStorage.getItem(TRACKED_CHANGES_KEY) === 'reject' ? 'reject' : 'accept';
+  }
+
+  static saveTrackedChangesMode(mode: TrackedChangesMode): void {
+    localStorage.setItem(TRACKED_CHANGES_KEY, mode);
+  }
+}
@@ -0,0 +1,170 @@
+import type { AnalysisResult } from '../components/BookAnalyzer';
+import type { PageRange } from './pageMap';
+import type { MessageKey } from './i18n';
+
+export interface EnsembleMember {
+  model: string;
+  temperature: number;
+}
+
+export interface EnsembleSettings {
+  enabled: boolean;
+  members: EnsembleMember[];
+}
+
+export type RatingDimension = keyof AnalysisResult['ratings'] | 'overallRating';
+
+export interface DimensionSpread {
+  mean: number;
+  variance: number;
+  stdDev: number;
+}
+
+// Attached to a merged result; the regular rating fields hold the ensemble means
+export interface EnsembleStats {
+  models: string[];
+  spread: Record<RatingDimension, DimensionSpread>;
+  // 1 = all members gave identical ratings, 0 = maximal disagreement on the 1-10 scale
+  agreement: number;
+  unreliable: boolean;
+}
+
+export interface FlaggedChunk {
+  archetypeId: string;
+  chunkIndex: number;
+  dimension: RatingDimension;
+  stdDev: number;
+  agreement: number;
+  pages?: PageRange;
+}
+
+export const RATING_DIMENSIONS: RatingDimension[] = ['overallRating', 'engagement', 'style', 'clarity', 'pacing', 'relevance'];
+
+export const RATING_DIMENSION_LABELS: Record<RatingDimension, MessageKey> = {
+  overallRating: 'rating.overallRating',
+  engagement: 'rating.engagement',
+  style: 'rating.style',
+  clarity: 'rating.clarity',
+  pacing: 'rating.pacing',
+  relevance: 'rating.relevance'
+};
+
+const SETTINGS_KEY = 'ai_ensemble';
+// Standard deviation (on the 1-10 scale) above which members disagree too much to trust the chunk
+const UNRELIABLE_STD_DEV = 1.5;
+// Largest possible standard deviation on a 1-10 scale
+const MAX_STD_DEV = 4.5;
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const spreadOf = (values: number[]): DimensionSpread => {
+  const mean = average(values);
+  // Sample variance: with two or three members the population estimate would understate disagreement
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance, stdDev: Math.sqrt(variance) };
+};
+
+export const ratingOf = (result: AnalysisResult, dimension: RatingDimension): number =>
+  dimension === 'overallRating' ? result.overallRating : result.ratings[dimension];
+
+export class AnalysisEnsemble {
+  static loadSettings(): EnsembleSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (error) {
+      console.warn('Failed to load ensemble settings from localStorage:', error);
+    }
+    return { enabled: false, members: [] };
+  }
+
+  static saveSettings(settings: EnsembleSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  // Members to run for the current settings; a disabled or incomplete ensemble falls back to a single call
+  static activeMembers(settings: EnsembleSettings): EnsembleMember[] {
+    const members = settings.members.filter(member => member.model.trim());
+    return settings.enabled && members.length >= 2 ? members : [];
+  }
+
+  static merge(results: AnalysisResult[], models: string[]): AnalysisResult {
+    const [first] = results;
+    const spread = Object.fromEntries(RATING_DIMENSIONS.map(dimension => [
+      dimension,
+      spreadOf(results.map(result => ratingOf(result, dimension)))
+    ])) as Record<RatingDimension, DimensionSpread>;
+
+    const stdDevs = RATING_DIMENSIONS.map(dimension => spread[dimension].stdDev);
+    const sentiments = results.map(result => result.expectedReviewSentiment);
+    const majoritySentiment = [...sentiments].sort(
+      (a, b) => sentiments.filter(s => s === b).length - sentiments.filter(s => s === a).length
+    )[0];
+
+    // The member closest to the ensemble mean speaks for it in the written feedback
+    const representative = results.reduce((best, result) =>
+      Math.abs(result.overallRating - spread.overallRating.mean) < Math.abs(best.overallRating - spread.overallRating.mean)
+        ? result
+        : best
+    );
+
+    return {
+      archetypeId: first.archetypeId,
+      chunkIndex: first.chunkIndex,
+      ratings: {
+        engagement: spread.engagement.mean,
+        style: spread.style.mean,
+        clarity: spread.clarity.mean,
+        pacing: spread.pacing.mean,
+        relevance: spread.relevance.mean
+      },
+      overallRating: spread.overallRating.mean,
+      feedback: representative.feedback,
+      buyingProbability: average(results.map(result => result.buyingProbability)),
+      recommendationLikelihood: average(results.map(result => result.recommendationLikelihood)),
+      expectedReviewSentiment: majoritySentiment,
+      marketingInsights: [...new Set(results.flatMap(result => result.marketingInsights))],
+      ensemble: {
+        models,
+        spread,
+        agreement: Math.max(0, 1 - average(stdDevs) / MAX_STD_DEV),
+        unreliable: Math.max(...stdDevs) > UNRELIABLE_STD_DEV
+      },
+      prompt: first.prompt
+    };
+  }
+
+  // Root mean square of the per-chunk deviations, so one archetype's bar carries the typical disagreement
+  static pooledStdDev(results: AnalysisResult[], dimension: RatingDimension): number | null {
+    const variances = results
+      .filter(result => result.ensemble)
+      .map(result => result.ensemble.spread[dimension].variance);
+    return variances.length > 0 ? Math.sqrt(average(variances)) : null;
+  }
+
+  static averageAgreement(results: AnalysisResult[]): number | null {
+    const agreements = results.filter(result => result.ensemble).map(result => result.ensemble.agreement);
+    return agreements.length > 0 ? average(agreements) : null;
+  }
+
+  static findUnreliable(results: AnalysisResult[]): FlaggedChunk[] {
+    return results
+      .filter(result => result.ensemble?.unreliable)
+      .map(result => {
+        const dimension = RATING_DIMENSIONS.reduce((worst, candidate) =>
+          result.ensemble.spread[candidate].stdDev > result.ensemble.spread[worst].stdDev ? candidate : worst
+        );
+        return {
+          archetypeId: result.archetypeId,
+          chunkIndex: result.chunkIndex,
+          dimension,
+          stdDev: result.ensemble.spread[dimension].stdDev,
+          agreement: result.ensemble.agreement,
+          pages: result.pages
+        };
+      })
+      .sort((a, b) => b.stdDev - a.stdDev);
+  }
+}
@@ -0,0 +1,179 @@
+import { ZipArchive } from './zipArchive';
+import type { ChapterSpan } from './textChunking';
+
+export interface EpubBook {
+  content: string;
+  chapters: ChapterSpan[];
+  title?: string;
+}
+
+interface ManifestItem {
+  path: string;
+  mediaType: string;
+  properties: string;
+}
+
+const CONTAINER_PATH = 'META-INF/container.xml';
+const ENCRYPTION_PATH = 'META-INF/encryption.xml';
+const CHAPTER_SEPARATOR = '\n\n';
+
+// Elements that start a new paragraph in the extracted text
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'blockquote', 'pre', 'figure', 'figcaption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'table', 'tr', 'hr'
+]);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'svg', 'math']);
+
+export class EpubReader {
+  static async read(buffer: ArrayBuffer): Promise<EpubBook> {
+    let archive: ZipArchive;
+    try {
+      archive = ZipArchive.open(buffer);
+    } catch (error) {
+      console.error('EPUB container error:', error);
+      throw new Error('EPUB_INVALID');
+    }
+    if (!archive.has(CONTAINER_PATH)) throw new Error('EPUB_INVALID');
+
+    const container = this.parseXml(await archive.readText(CONTAINER_PATH));
+    const opfPath = container.getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath || !archive.has(opfPath)) throw new Error('EPUB_INVALID');
+
+    const opf = this.parseXml(await archive.readText(opfPath));
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of Array.from(opf.getElementsByTagNameNS('*', 'item'))) {
+      manifest.set(item.getAttribute('id') ?? '', {
+        path: this.resolvePath(opfPath, item.getAttribute('href') ?? ''),
+        mediaType: item.getAttribute('media-type') ?? '',
+        properties: item.getAttribute('properties') ?? ''
+      });
+    }
+
+    const spineElement = opf.getElementsByTagNameNS('*', 'spine')[0];
+    const spine = Array.from(opf.getElementsByTagNameNS('*', 'itemref'))
+      // Non-linear items are notes or pop-ups that readers don't reach in reading order
+      .filter(itemref => itemref.getAttribute('linear') !== 'no')
+      .map(itemref => manifest.get(itemref.getAttribute('idref') ?? ''))
+      .filter(item => item && archive.has(item.path));
+    if (spine.length === 0) throw new Error('EPUB_INVALID');
+
+    await this.assertNotEncrypted(archive, spine.map(item => item.path));
+
+    const titles = await this.readTableOfContents(archive, manifest, spineElement?.getAttribute('toc'));
+
+    let content = '';
+    const chapters: ChapterSpan[] = [];
+    for (const item of spine) {
+      const doc = this.parseDocument(await archive.readText(item.path), item.mediaType);
+      const text = this.extractText(doc.body ?? doc.documentElement);
+      if (!text) continue;
+
+      if (content) content += CHAPTER_SEPARATOR;
+      const heading = doc.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+      chapters.push({ title: titles.get(item.path) ?? (heading || undefined), start: content.length, end: content.length + text.length });
+      content += text;
+    }
+
+    const title = opf.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim();
+    return { content, chapters, title: title || undefined };
+  }
+
+  // Titles keyed by spine path; EPUB 3 has a nav doc, EPUB 2 an NCX file
+  private static async readTableOfContents(
+    archive: ZipArchive,
+    manifest: Map<string, ManifestItem>,
+    ncxId: string | null
+  ): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    const addTitle = (basePath: string, href: string | null, label: string | null | undefined) => {
+      const title = label?.replace(/\s+/g, ' ').trim();
+      if (!href || !title) return;
+      const path = this.resolvePath(basePath, href.split('#')[0]);
+      // The first entry pointing into a doc names it; later ones are subsections
+      if (!titles.has(path)) titles.set(path, title);
+    };
+
+    const items = Array.from(manifest.values());
+    const nav = items.find(item => item.properties.split(/\s+/).includes('nav'));
+    if (nav && archive.has(nav.path)) {
+      const doc = this.parseDocument(await archive.readText(nav.path), nav.mediaType);
+      const navElements = Array.from(doc.getElementsByTagNameNS('*', 'nav'));
+      const toc = navElements.find(element => (element.getAttribute('epub:type') ?? '').split(/\s+/).includes('toc')) ?? navElements[0];
+      for (const link of Array.from(toc?.getElementsByTagNameNS('*', 'a') ?? [])) {
+        addTitle(nav.path, link.getAttribute('href'), link.textContent);
+      }
+      if (titles.size > 0) return titles;
+    }
+
+    const ncx = (ncxId && manifest.get(ncxId)) || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncx && archive.has(ncx.path)) {
+      const doc = this.parseXml(await archive.readText(ncx.path));
+      for (const navPoint of Array.from(doc.getElementsByTagNameNS('*', 'navPoint'))) {
+        const label = navPoint.getElementsByTagNameNS('*', 'text')[0]?.textContent;
+        const target = navPoint.getElementsByTagNameNS('*', 'content')[0]?.getAttribute('src');
+        addTitle(ncx.path, target, label);
+      }
+    }
+
+    return titles;
+  }
+
+  // Font obfuscation is allowed; encrypted content documents mean DRM we can't read
+  private static async assertNotEncrypted(archive: ZipArchive, contentPaths: string[]): Promise<void> {
+    if (!archive.has(ENCRYPTION_PATH)) return;
+    const encryption = this.parseXml(await archive.readText(ENCRYPTION_PATH));
+    const encrypted = new Set(
+      Array.from(encryption.getElementsByTagNameNS('*', 'CipherReference'))
+        .map(reference => decodeURIComponent(reference.getAttribute('URI') ?? ''))
+    );
+    if (contentPaths.some(path => encrypted.has(path))) throw new Error('EPUB_DRM_PROTECTED');
+  }
+
+  private static extractText(root: Element): string {
+    const collect = (node: Node): string => {
+      let text = '';
+      node.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+          // Line breaks in the markup source are just whitespace
+          text += (child.textContent ?? '').replace(/\s+/g, ' ');
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+          const tag = (child as Element).localName.toLowerCase();
+          if (SKIPPED_TAGS.has(tag)) return;
+          if (tag === 'br') {
+            text += '\n';
+          } else {
+            const inner = collect(child);
+            text += BLOCK_TAGS.has(tag) ? `\n\n${inner}\n\n` : inner;
+          }
+        }
+      });
+      return text;
+    };
+
+    return collect(root)
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.split('\n').map(line => line.trim()).filter(Boolean).join('\n'))
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private static parseXml(source: string): Document {
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('EPUB_INVALID');
+    return doc;
+  }
+
+  // Sloppy XHTML is common in the wild, so a strict parse failure falls back to the HTML parser
+  private static parseDocument(source: string, mediaType: string): Document {
+    if (mediaType !== 'text/html') {
+      const doc = new DOMParser().parseFromString(source, 'application/xhtml+xml');
+      if (doc.getElementsByTagName('parsererror').length === 0) return doc;
+    }
+    return new DOMParser().parseFromString(source, 'text/html');
+  }
+
+  // Archive paths have no leading slash; hrefs are URL-encoded and relative to the referring file
+  private static resolvePath(basePath: string, href: string): string {
+    return decodeURIComponent(new URL(href, `epub:/${basePath}`).pathname.replace(/^\//, ''));
+  }
+}
@@ -1,3 +1,16 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { I18n, type MessageKey } from './i18n';
+import { PageMap } from './pageMap';
+import { EpubReader } from './epubReader';
+import { DocumentOutline, TextBlock, TrackedChangesMode } from './documentOutline';
+import { OfficeDocuments } from './officeDocuments';
+import { RtfParser } from './rtfParser';
+import { MarkdownParser } from './markdownParser';
+import { CleanupReport, TextCleanup } from './textCleanup';
+import { DecodedText, EncodingInfo, TextEncoding, TextEncodings } from './textEncoding';
+import type { TextStructure } from './textChunking';
 
 export interface FileProcessingResult {
   content: string;
@@ -5,24 +18,151 @@ export interface FileProcessingResult {
     wordCount: number;
     size: string;
     fileType: string;
+    pages?: number;
+    chapters?: number;
+    // TXT and Markdown only
+    encoding?: EncodingInfo;
   };
+  // Page map for PDFs, chapter boundaries for formats with headings or a table of contents
+  structure?: TextStructure;
+  // PDFs only: what the artifact cleanup found, and whether it went into `content`
+  cleanup?: { applied: boolean; report: CleanupReport };
 }
 
+// Omitted options fall back to the user's saved choices
+export interface FileProcessingOptions {
+  trackedChanges?: TrackedChangesMode;
+  cleanup?: boolean;
+  // Replaces the detected encoding of TXT and Markdown files
+  encoding?: TextEncoding;
+}
+
+export type FileErrorCode =
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'FILE_TOO_LARGE'
+  | 'INSUFFICIENT_TEXT_CONTENT'
+  | 'TEXT_PROCESSING_FAILED'
+  | 'PDF_PASSWORD_PROTECTED'
+  | 'PDF_CORRUPTED'
+  | 'PDF_NO_TEXT_LAYER'
+  | 'PDF_EXTRACTION_FAILED'
+  | 'EPUB_INVALID'
+  | 'EPUB_DRM_PROTECTED'
+  | 'DOCUMENT_INVALID';
+
+const FILE_ERROR_MESSAGES: Record<FileErrorCode, MessageKey> = {
+  UNSUPPORTED_FILE_TYPE: 'fileError.unsupportedFileType',
+  FILE_TOO_LARGE: 'fileError.fileTooLarge',
+  INSUFFICIENT_TEXT_CONTENT: 'fileError.insufficientTextContent',
+  TEXT_PROCESSING_FAILED: 'fileError.textProcessingFailed',
+  PDF_PASSWORD_PROTECTED: 'pdfError.passwordProtected',
+  PDF_CORRUPTED: 'pdfError.corruptedPdf',
+  PDF_NO_TEXT_LAYER: 'pdfError.insufficientTextContent',
+  PDF_EXTRACTION_FAILED: 'pdfError.extractionFailed',
+  EPUB_INVALID: 'epubError.invalid',
+  EPUB_DRM_PROTECTED: 'epubError.drmProtected',
+  DOCUMENT_INVALID: 'fileError.documentInvalid'
+};
+
+export type FileFormat = 'text' | 'markdown' | 'pdf' | 'epub' | 'docx' | 'odt' | 'rtf';
+
+interface FileFormatInfo {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  maxSizeMB: number;
+}
+
+export const FILE_FORMATS: Record<FileFormat, FileFormatInfo> = {
+  text: { label: 'TXT', extensions: ['.txt'], mimeTypes: ['text/plain'], maxSizeMB: 10 },
+  markdown: { label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown'], maxSizeMB: 10 },
+  pdf: { label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'], maxSizeMB: 50 },
+  epub: { label: 'EPUB', extensions: ['.epub'], mimeTypes: ['application/epub+zip'], maxSizeMB: 50 },
+  docx: {
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    maxSizeMB: 50
+  },
+  odt: { label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'], maxSizeMB: 50 },
+  rtf: { label: 'RTF', extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf'], maxSizeMB: 50 }
+};
+
+// Vertical distance, relative to the usual line spacing, from which a gap counts as a paragraph break
+const PARAGRAPH_GAP = 1.4;
+
+const FORMAT_ORDER = Object.keys(FILE_FORMATS) as FileFormat[];
+
+// Receives a share between 0 and 1
+export type FileProgressCallback = (progress: number) => void;
+
 export class FileProcessor {
-  static async processFile(file: File): Promise<FileProcessingResult> {
+  // The extension wins over the MIME type, which browsers often leave empty or report as text/plain for Markdown
+  static detectFormat(file: { name: string; type?: string }): FileFormat | null {
+    const name = file.name.toLowerCase();
+    return FORMAT_ORDER.find(format => FILE_FORMATS[format].extensions.some(extension => name.endsWith(extension)))
+      ?? FORMAT_ORDER.find(format => FILE_FORMATS[format].mimeTypes.includes(file.type ?? ''))
+      ?? null;
+  }
+
+  static isSupported(file: { name: string; type?: string }): boolean {
+    return this.detectFormat(file) !== null;
+  }
+
+  static getMaxSizeMB(file: { name: string; type?: string }): number {
+    return FILE_FORMATS[this.detectFormat(file) ?? 'text'].maxSizeMB;
+  }
+
+  // Value for the `accept` attribute of a file input
+  static getAcceptedTypes(): string {
+    return FORMAT_ORDER.flatMap(format => [...FILE_FORMATS[format].extensions, ...FILE_FORMATS[format].mimeTypes]).join(',');
+  }
+
+  static async processFile(
+    file: File,
+    onProgress?: FileProgressCallback,
+    options: FileProcessingOptions = {}
+  ): Promise<FileProcessingResult> {
     const sizeInMB = (file.size / (1024 * 1024)).toFixed(2);
+    const format = this.detectFormat(file);
+    if (!format) throw new Error('UNSUPPORTED_FILE_TYPE');
+
     let content: string;
-    let fileType: string;
+    let structure: TextStructure | undefined;
+    let pages: number | undefined;
+    let chapters: number | undefined;
+    let cleanup: FileProcessingResult['cleanup'];
+    let decoded: DecodedText | undefined;
 
-    if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-      fileType = 'Text';
-      content = await this.processTextFile(file);
+    if (format === 'pdf') {
+      const pdf = await this.processPdfFile(file, onProgress);
+      const cleaned = TextCleanup.cleanPages(pdf.pageTexts);
+      const applied = options.cleanup ?? TextCleanup.loadEnabled();
+      const pageMap = PageMap.build(applied ? cleaned.pages : pdf.pageTexts);
+      content = pageMap.content;
+      structure = { pageMap: pageMap.spans };
+      pages = pdf.pageTexts.length;
+      cleanup = { applied, report: cleaned.report };
+    } else if (format === 'epub') {
+      const epub = await EpubReader.read(await file.arrayBuffer());
+      content = epub.content;
+      structure = { chapters: epub.chapters };
+      chapters = epub.chapters.length;
+    } else if (format === 'text') {
+      decoded = await this.processTextFile(file, options.encoding);
+      content = decoded.text;
     } else {
-      throw new Error('UNSUPPORTED_FILE_TYPE');
+      // Markdown is plain text, so it needs the same encoding detection as TXT
+      if (format === 'markdown') decoded = await this.processTextFile(file, options.encoding);
+      const trackedChanges = options.trackedChanges ?? DocumentOutline.loadTrackedChangesMode();
+      const outline = DocumentOutline.build(await this.readBlocks(file, format, trackedChanges, decoded?.text ?? ''));
+      content = outline.content;
+      structure = { chapters: outline.chapters };
+      chapters = outline.chapters.length || undefined;
     }
 
     if (content.trim().length < 50) {
-      throw new Error('INSUFFICIENT_TEXT_CONTENT');
+      throw new Error(structure?.pageMap ? 'PDF_NO_TEXT_LAYER' : 'INSUFFICIENT_TEXT_CONTENT');
     }
 
     const wordCount = content.trim().split(/\s+/).filter(word => word.length > 0).length;
@@ -32,32 +172,118 @@ export class FileProcessor {
       metadata: {
         wordCount,
         size: `${sizeInMB} MB`,
-        fileType,
-      }
+        fileType: FILE_FORMATS[format].label,
+        pages,
+        chapters,
+        encoding: decoded && { encoding: decoded.encoding, source: decoded.source }
+      },
+      structure,
+      cleanup
     };
   }
 
-  private static async processTextFile(file: File): Promise<string> {
+  private static async readBlocks(
+    file: File,
+    format: FileFormat,
+    trackedChanges: TrackedChangesMode,
+    decodedText: string
+  ): Promise<TextBlock[]> {
+    try {
+      switch (format) {
+        case 'docx':
+          return await OfficeDocuments.readDocx(await file.arrayBuffer(), trackedChanges);
+        case 'odt':
+          return await OfficeDocuments.readOdt(await file.arrayBuffer(), trackedChanges);
+        // RTF is 7-bit with escapes; stray raw bytes are most likely Windows-1252
+        case 'rtf':
+          return RtfParser.parse(new TextDecoder('windows-1252').decode(await file.arrayBuffer()), trackedChanges);
+        default:
+          return MarkdownParser.parse(decodedText, trackedChanges);
+      }
+    } catch (error) {
+      console.error(`${FILE_FORMATS[format].label} processing error:`, error);
+      throw new Error('DOCUMENT_INVALID');
+    }
+  }
+
+  private static async processTextFile(file: File, encoding?: TextEncoding): Promise<DecodedText> {
     try {
-      return await file.text();
+      return TextEncodings.decode(await file.arrayBuffer(), encoding);
     } catch (error) {
       console.error('Text file processing error:', error);
       throw new Error('TEXT_PROCESSING_FAILED');
     }
   }
 
-  static getErrorMessage(errorCode: string, fileName: string): string {
-    const baseMessage = `Upload-Fehler: Wir konnten den Text aus "${fileName}" nicht extrahieren.`;
-    
-    switch (errorCode) {
-      case 'UNSUPPORTED_FILE_TYPE':
-        return `${baseMessage} Dieser Dateityp wird nicht unterstützt.\n\n**Lösung:** Bitte eine TXT-Datei verwenden. PDF-Funktionalität wurde temporär entfernt.`;
-      case 'INSUFFICIENT_TEXT_CONTENT':
-        return `${baseMessage} Die Datei enthält zu wenig lesbaren Text.\n\n**Lösung:** Sicherstellen, dass die Datei Text enthält.`;
-      case 'TEXT_PROCESSING_FAILED':
-        return `${baseMessage} Die TXT-Datei konnte nicht verarbeitet werden.\n\n**Lösung:** Bitte versuchen Sie es mit einer anderen TXT-Datei.`;
-      default:
-        return `${baseMessage} Ein unerwarteter Fehler ist aufgetreten.`;
+  // Parsing runs in pdf.js' own worker, bundled with the app instead of fetched from a CDN
+  private static async processPdfFile(
+    file: File,
+    onProgress?: FileProgressCallback
+  ): Promise<{ pageTexts: string[] }> {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    let pdf: PDFDocumentProxy;
+    try {
+      pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+    } catch (error) {
+      console.error('PDF loading error:', error);
+      const name = error instanceof Error ? error.name : '';
+      if (name === 'PasswordException') throw new Error('PDF_PASSWORD_PROTECTED');
+      if (name === 'InvalidPDFException') throw new Error('PDF_CORRUPTED');
+      throw new Error('PDF_EXTRACTION_FAILED');
+    }
+
+    try {
+      const pageTexts: string[] = [];
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        try {
+          const page = await pdf.getPage(pageNumber);
+          const textContent = await page.getTextContent();
+          pageTexts.push(this.pageText(textContent.items.filter((item): item is TextItem => 'str' in item)));
+        } catch (pageError) {
+          // An unreadable page keeps its number, so later citations still match the PDF
+          console.warn(`Could not extract text from page ${pageNumber}:`, pageError);
+          pageTexts.push('');
+        }
+        onProgress?.(pageNumber / pdf.numPages);
+      }
+
+      return { pageTexts };
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  // One line per text line; a gap clearly wider than the usual line spacing becomes a blank line between paragraphs
+  private static pageText(items: TextItem[]): string {
+    const lines: { text: string; y?: number }[] = [{ text: '' }];
+    for (const item of items) {
+      const line = lines[lines.length - 1];
+      if (item.str.trim() && line.y === undefined) line.y = item.transform[5];
+      line.text += item.str + (item.hasEOL ? '' : ' ');
+      if (item.hasEOL) lines.push({ text: '' });
     }
+
+    const gaps = lines
+      .map((line, index) => index > 0 && line.y !== undefined && lines[index - 1].y !== undefined ? lines[index - 1].y - line.y : 0)
+      .filter(gap => gap > 0)
+      .sort((a, b) => a - b);
+    const lineSpacing = gaps.length >= 3 ? gaps[Math.floor(gaps.length / 2)] : Infinity;
+
+    return lines
+      .map((line, index) => {
+        const previous = lines[index - 1];
+        const gap = previous?.y !== undefined && line.y !== undefined ? previous.y - line.y : 0;
+        return (gap > lineSpacing * PARAGRAPH_GAP ? '\n' : '') + line.text.replace(/[ \t]+/g, ' ').trim();
+      })
+      .join('\n');
+  }
+
+  // Rendered when shown, so the message follows the current UI language
+  static getErrorMessage(errorCode: string, fileName: string): string {
+    const key = FILE_ERROR_MESSAGES[errorCode as FileErrorCode] ?? 'fileError.unknown';
+    const format = FILE_FORMATS[this.detectFormat({ name: fileName }) ?? 'text'];
+    return `${I18n.t('fileError.base', { fileName })} ${I18n.t(key, { maxSize: format.maxSizeMB, format: format.label })}`;
   }
 }
@@ -0,0 +1,108 @@
+import { de } from '../locales/de';
+import { en } from '../locales/en';
+
+export type UILanguage = 'de' | 'en';
+
+// Picked by Intl.PluralRules; `zero` is optional and only used for an exact 0
+export interface PluralMessage {
+  zero?: string;
+  one: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+// German is the reference catalog; every other catalog has to provide the same keys
+export type MessageKey = keyof typeof de;
+export type Catalog = Record<MessageKey, Message>;
+
+// Numbers are formatted for the locale; `count` also selects the plural form
+export type MessageParams = Record<string, string | number>;
+
+export const UI_LANGUAGES: UILanguage[] = ['de', 'en'];
+
+// Each language is named in itself, so the switcher stays usable whatever is selected
+export const UI_LANGUAGE_LABELS: Record<UILanguage, string> = {
+  de: 'Deutsch',
+  en: 'English'
+};
+
+const CATALOGS: Record<UILanguage, Catalog> = { de, en };
+
+const LOCALES: Record<UILanguage, string> = {
+  de: 'de-DE',
+  en: 'en-US'
+};
+
+const STORAGE_KEY = 'ui_language';
+const PARAM_PATTERN = /\{(\w+)\}/g;
+
+export class I18n {
+  private static language: UILanguage | null = null;
+  private static listeners = new Set<() => void>();
+
+  static getLanguage(): UILanguage {
+    if (!this.language) {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.language = UI_LANGUAGES.includes(stored as UILanguage) ? stored as UILanguage : 'de';
+    }
+    return this.language;
+  }
+
+  static setLanguage(language: UILanguage): void {
+    this.language = language;
+    localStorage.setItem(STORAGE_KEY, language);
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = language;
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  static getLocale(): string {
+    return LOCALES[this.getLanguage()];
+  }
+
+  // Falls back to German, then to the key itself, so a gap in a catalog never blanks the UI
+  static t(key: MessageKey, params: MessageParams = {}): string {
+    const message = CATALOGS[this.getLanguage()][key] ?? de[key] ?? key;
+    const text = typeof message === 'string' ? message : this.selectPlural(message, params.count);
+
+    return text.replace(PARAM_PATTERN, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? this.formatNumber(value) : value;
+    });
+  }
+
+  static formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(this.getLocale(), options).format(value);
+  }
+
+  // Takes a share between 0 and 1
+  static formatPercent(share: number, maximumFractionDigits = 0): string {
+    return this.formatNumber(share, { style: 'percent', maximumFractionDigits });
+  }
+
+  static formatCurrency(value: number, currency = 'USD', maximumFractionDigits = 2): string {
+    return this.formatNumber(value, { style: 'currency', currency, maximumFractionDigits });
+  }
+
+  static formatDate(value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string {
+    return new Intl.DateTimeFormat(this.getLocale(), options).format(value);
+  }
+
+  static formatDateTime(value: number | Date): string {
+    return this.formatDate(value, { dateStyle: 'medium', timeStyle: 'short' });
+  }
+
+  private static selectPlural(message: PluralMessage, count: string | number | undefined): string {
+    const value = typeof count === 'number' ? count : Number(count ?? 0);
+    if (value === 0 && message.zero !== undefined) return message.zero;
+    return new Intl.PluralRules(this.getLocale()).select(value) === 'one' ? message.one : message.other;
+  }
+}
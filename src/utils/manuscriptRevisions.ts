@@ -0,0 +1,224 @@
+import type { AnalysisResult } from '../components/BookAnalyzer';
+import type { TwoLayerResult } from '../components/TwoLayerAnalysisEngine';
+import { ChunkInfo, TextChunker, TextStructure } from './textChunking';
+import { diffSequences } from './textDiff';
+
+export type AnalysisMode = 'standard' | 'two_layer';
+
+export type ChunkChange = 'unchanged' | 'changed' | 'added';
+
+// How a chunk of the new revision relates to the previous one
+export interface ChunkMatch {
+  change: ChunkChange;
+  // Unset for added chunks
+  previousIndex?: number;
+}
+
+export interface ChunkFingerprint {
+  hash: string;
+  // Fingerprint of the first paragraph, where the next revision starts a chunk again
+  opening: string;
+  title?: string;
+}
+
+export interface ManuscriptRevision {
+  number: number;
+  fileName: string;
+  createdAt: number;
+  mode: AnalysisMode;
+  chunks: ChunkFingerprint[];
+  results: AnalysisResult[];
+}
+
+export interface ManuscriptProject {
+  id: string;
+  title: string;
+  createdAt: number;
+  revisions: ManuscriptRevision[];
+}
+
+const PROJECTS_KEY = 'manuscript_projects';
+// Only the latest revision per mode serves as a baseline; a few older ones per mode are kept for reference
+const MAX_REVISIONS = 5;
+// What a later revision needs to carry a result over; chunk text, archetype copies and call statistics stay out of storage
+const STORED_RESULT_FIELDS: (keyof TwoLayerResult)[] = [
+  'archetypeId',
+  'chunkIndex',
+  'ratings',
+  'overallRating',
+  'feedback',
+  'buyingProbability',
+  'recommendationLikelihood',
+  'expectedReviewSentiment',
+  'marketingInsights',
+  'ensemble',
+  'prompt',
+  'pages',
+  'revision',
+  'emotionalNotes',
+  'analyticalReview',
+  'layerCorrelation'
+];
+
+// Every analysed version of a manuscript, so a revision only needs its changed passages analysed again
+export class ManuscriptRevisions {
+  static listProjects(): ManuscriptProject[] {
+    return this.readAll().sort((a, b) => this.lastActivity(b) - this.lastActivity(a));
+  }
+
+  static getProject(projectId: string): ManuscriptProject | undefined {
+    return this.readAll().find(project => project.id === projectId);
+  }
+
+  static createProjectId(): string {
+    return `project_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static latestRevision(projectId: string, mode: AnalysisMode): ManuscriptRevision | undefined {
+    return this.getProject(projectId)?.revisions.filter(revision => revision.mode === mode).pop();
+  }
+
+  static chunkStarts(revision: ManuscriptRevision): string[] {
+    return revision.chunks.map(chunk => chunk.opening);
+  }
+
+  // The structure a revision run chunks with, so planner, preview and run all see the same chunks
+  static anchoredStructure(structure: TextStructure | undefined, baseline: ManuscriptRevision | undefined): TextStructure | undefined {
+    return baseline ? { ...structure, chunkStarts: this.chunkStarts(baseline) } : structure;
+  }
+
+  // Identical chunks are matched first. Between two matches, a chunk counts as a revision of an old one that opened
+  // with the same paragraph, then of one from the same chapter; anything else is new, so a rating is never compared
+  // with an unrelated passage
+  static compare(previous: ChunkFingerprint[], chunks: ChunkInfo[]): ChunkMatch[] {
+    const current = this.fingerprints(chunks);
+    const matches: ChunkMatch[] = [];
+    let removed: number[] = [];
+    let added: number[] = [];
+    const closeGap = () => {
+      const unpaired = new Set(removed);
+      const pair = (chunkIndex: number, isRevisionOf: (candidate: ChunkFingerprint) => boolean): boolean => {
+        const previousIndex = removed.find(index => unpaired.has(index) && isRevisionOf(previous[index]));
+        if (previousIndex === undefined) return false;
+        unpaired.delete(previousIndex);
+        matches[chunkIndex] = { change: 'changed', previousIndex };
+        return true;
+      };
+
+      added
+        .filter(chunkIndex => !pair(chunkIndex, candidate => candidate.opening === current[chunkIndex].opening))
+        .forEach(chunkIndex => {
+          const { title } = current[chunkIndex];
+          if (title === undefined || !pair(chunkIndex, candidate => candidate.title === title)) {
+            matches[chunkIndex] = { change: 'added' };
+          }
+        });
+      removed = [];
+      added = [];
+    };
+
+    let previousIndex = 0;
+    let chunkIndex = 0;
+    for (const entry of diffSequences(previous.map(chunk => chunk.hash), current.map(chunk => chunk.hash))) {
+      if (entry.type === 'same') {
+        closeGap();
+        matches[chunkIndex++] = { change: 'unchanged', previousIndex: previousIndex++ };
+      } else if (entry.type === 'removed') {
+        removed.push(previousIndex++);
+      } else {
+        added.push(chunkIndex++);
+      }
+    }
+    closeGap();
+
+    return matches;
+  }
+
+  // Results of unchanged chunks move to the chunk's new position instead of being analysed again
+  static carryOver<T extends AnalysisResult>(
+    baseline: ManuscriptRevision,
+    chunks: ChunkInfo[],
+    matches: ChunkMatch[]
+  ): T[] {
+    return matches.flatMap((match, chunkIndex) => match.change !== 'unchanged' ? [] : (baseline.results as T[])
+      .filter(result => result.chunkIndex === match.previousIndex)
+      .map(result => ({
+        ...result,
+        chunkIndex,
+        pages: chunks[chunkIndex].pages,
+        revision: { change: match.change, previousRating: result.overallRating }
+      })));
+  }
+
+  static annotate<T extends AnalysisResult>(result: T, matches: ChunkMatch[], baseline: ManuscriptRevision): T {
+    const match = matches[result.chunkIndex];
+    const previous = match.previousIndex === undefined ? undefined : baseline.results.find(candidate =>
+      candidate.archetypeId === result.archetypeId && candidate.chunkIndex === match.previousIndex
+    );
+    return { ...result, revision: { change: match.change, previousRating: previous?.overallRating } };
+  }
+
+  static fingerprints(chunks: ChunkInfo[]): ChunkFingerprint[] {
+    return chunks.map(chunk => ({
+      hash: TextChunker.fingerprint(chunk.content),
+      opening: TextChunker.fingerprint(chunk.content.split(/\n\s*\n/)[0]),
+      title: chunk.title
+    }));
+  }
+
+  // Returns null when the browser storage refused the revision
+  static record(
+    project: { id: string; title: string },
+    revision: Omit<ManuscriptRevision, 'number' | 'createdAt'>
+  ): ManuscriptRevision | null {
+    const projects = this.readAll();
+    let stored = projects.find(candidate => candidate.id === project.id);
+    if (!stored) {
+      stored = { ...project, createdAt: Date.now(), revisions: [] };
+      projects.push(stored);
+    }
+
+    const last = stored.revisions[stored.revisions.length - 1];
+    const saved = {
+      ...revision,
+      results: revision.results.map(result => this.storedResult(result)),
+      number: (last?.number ?? 0) + 1,
+      createdAt: Date.now()
+    };
+    const revisions = [...stored.revisions, saved];
+    const expired = new Set(revisions.filter(candidate => candidate.mode === saved.mode).slice(0, -MAX_REVISIONS));
+    stored.revisions = revisions.filter(candidate => !expired.has(candidate));
+    return this.writeAll(projects) ? saved : null;
+  }
+
+  static storedResult(result: AnalysisResult): AnalysisResult {
+    const source = result as TwoLayerResult;
+    return Object.fromEntries(
+      STORED_RESULT_FIELDS.filter(field => source[field] !== undefined).map(field => [field, source[field]])
+    ) as unknown as AnalysisResult;
+  }
+
+  private static lastActivity(project: ManuscriptProject): number {
+    return project.revisions[project.revisions.length - 1]?.createdAt ?? project.createdAt;
+  }
+
+  private static readAll(): ManuscriptProject[] {
+    try {
+      const stored = localStorage.getItem(PROJECTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load manuscript projects from localStorage:', error);
+      return [];
+    }
+  }
+
+  private static writeAll(projects: ManuscriptProject[]): boolean {
+    try {
+      localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+      return true;
+    } catch (error) {
+      console.warn('Failed to save manuscript projects to localStorage:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import type { TextBlock, TrackedChangesMode } from './documentOutline';
+
+const FRONT_MATTER = /^---\n[\s\S]*?\n(?:---|\.\.\.)\n/;
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const FOOTNOTE_DEFINITION = /^\[\^[^\]]+\]:.*(?:\n(?: {4}|\t).*)*/gm;
+const LINK_DEFINITION = /^ {0,3}\[[^\]]+\]:\s+\S+.*$/gm;
+// Scene breaks are kept as a paragraph of their own so the chunker can still see them
+const SCENE_BREAK = '* * *';
+
+export class MarkdownParser {
+  static parse(source: string, trackedChanges: TrackedChangesMode): TextBlock[] {
+    const text = this.applyCriticMarkup(source.replace(/\r\n?/g, '\n').replace(FRONT_MATTER, ''), trackedChanges)
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(FOOTNOTE_DEFINITION, '')
+      .replace(LINK_DEFINITION, '');
+
+    const blocks: TextBlock[] = [];
+    let lines: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+      if (lines.length > 0) blocks.push({ text: this.inlineText(lines) });
+      lines = [];
+    };
+
+    for (const line of text.split('\n')) {
+      if (FENCE.test(line)) {
+        inFence = !inFence;
+        flush();
+        continue;
+      }
+      if (inFence) {
+        lines.push(line);
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(line);
+      const underline = SETEXT_UNDERLINE.exec(line);
+      if (heading) {
+        flush();
+        blocks.push({ text: this.inlineText([heading[2]]), level: heading[1].length });
+      } else if (underline && lines.length > 0) {
+        // A paragraph underlined with = or - is a heading of level 1 or 2
+        blocks.push({ text: this.inlineText(lines), level: underline[1].startsWith('=') ? 1 : 2 });
+        lines = [];
+      } else if (THEMATIC_BREAK.test(line)) {
+        flush();
+        blocks.push({ text: SCENE_BREAK });
+      } else if (!line.trim()) {
+        flush();
+      } else {
+        lines.push(line.replace(/^ {0,3}> ?/, '').replace(/^\s*[-*+]\s+/, ''));
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  // CriticMarkup is how Markdown tools record suggested insertions, deletions and comments
+  private static applyCriticMarkup(text: string, trackedChanges: TrackedChangesMode): string {
+    const accept = trackedChanges === 'accept';
+    return text
+      .replace(/\{\+\+([\s\S]*?)\+\+\}/g, (_, inserted: string) => accept ? inserted : '')
+      .replace(/\{--([\s\S]*?)--\}/g, (_, deleted: string) => accept ? '' : deleted)
+      .replace(/\{~~([\s\S]*?)~>([\s\S]*?)~~\}/g, (_, before: string, after: string) => accept ? after : before)
+      .replace(/\{>>[\s\S]*?<<\}/g, '')
+      .replace(/\{==([\s\S]*?)==\}/g, '$1');
+  }
+
+  // Lines of a paragraph are joined unless they end in a hard break
+  private static inlineText(lines: string[]): string {
+    return lines
+      .map((line, index) => {
+        const hardBreak = index < lines.length - 1 && /(?: {2,}|\\)$/.test(line);
+        return line.replace(/(?: {2,}|\\)$/, '') + (hardBreak ? '\n' : index < lines.length - 1 ? ' ' : '');
+      })
+      .join('')
+      .replace(/\[\^[^\]]+\]/g, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(?=\S)([\s\S]+?)(?<=\S)\1/g, '$2')
+      .replace(/(^|[^\w*])\*(?=\S)([\s\S]+?)(?<=\S)\*/g, '$1$2')
+      .replace(/(^|[^\w])_(?=\S)([\s\S]+?)(?<=\S)_(?!\w)/g, '$1$2')
+      .replace(/~~([\s\S]+?)~~/g, '$1')
+      .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+      .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, '$1');
+  }
+}
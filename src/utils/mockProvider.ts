@@ -0,0 +1,383 @@
+import type { AIRequest, AIResponse, AITask, TokenUsage } from './aiProvider';
+import { I18n } from './i18n';
+
+export type MockMode = 'off' | 'record' | 'replay' | 'synthetic';
+
+export interface AIFixture {
+  key: string;
+  task: AITask;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  content: string;
+  usage: TokenUsage;
+  recordedAt: number;
+}
+
+interface FixtureFile {
+  version: 1;
+  fixtures: AIFixture[];
+}
+
+const MODE_KEY = 'ai_mock_mode';
+const FIXTURES_KEY = 'ai_mock_fixtures';
+
+// Small deterministic PRNG so synthetic runs produce identical payloads for identical prompts
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = () => number;
+
+const score = (random: Random, min = 3, max = 9.5) => Math.round((min + random() * (max - min)) * 10) / 10;
+const probability = (random: Random) => Math.round(random() * 100) / 100;
+const pick = <T,>(random: Random, values: T[]): T => values[Math.floor(random() * values.length)];
+
+const EMOTIONS = ['Spannung', 'Neugier', 'Rührung', 'Irritation', 'Langeweile', 'Freude'];
+const MOODS = ['excited', 'bored', 'confused', 'engaged', 'frustrated', 'curious'];
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+const SYNTHETIC_PAYLOADS: Record<AITask, (random: Random) => unknown> = {
+  reader_analysis: (random) => {
+    const ratings = {
+      engagement: score(random),
+      style: score(random),
+      clarity: score(random),
+      pacing: score(random),
+      relevance: score(random)
+    };
+    const values = Object.values(ratings);
+    return {
+      ratings,
+      overallRating: Math.round(values.reduce((a, b) => a + b, 0) / values.length * 10) / 10,
+      feedback: 'Synthetisches Feedback: Der Abschnitt wirkt stimmig, verliert aber stellenweise an Tempo.',
+      buyingProbability: probability(random),
+      recommendationLikelihood: probability(random),
+      expectedReviewSentiment: pick(random, SENTIMENTS),
+      marketingInsights: ['Synthetischer Marketing-Insight 1', 'Synthetischer Marketing-Insight 2']
+    };
+  },
+  basic_scoring: (random) => SYNTHETIC_PAYLOADS.reader_analysis(random),
+  emotional_notes: (random) => ({
+    notes: Array.from({ length: 3 }, (_, index) => ({
+      emotion: pick(random, EMOTIONS),
+      intensity: Math.round(score(random, 1, 10)),
+      reflection: `Synthetische Reflexion ${index + 1}`,
+      keyMoment: `Synthetische Textstelle ${index + 1}`,
+      personalConnection: `Synthetische persönliche Verbindung ${index + 1}`
+    }))
+  }),
+  analytical_review: (random) => ({
+    literaryElements: {
+      characterDevelopment: score(random),
+      plotProgression: score(random),
+      styleQuality: score(random),
+      themeExploration: score(random)
+    },
+    technicalAspects: {
+      pacing: score(random),
+      dialogue: score(random),
+      description: score(random),
+      structure: score(random)
+    },
+    marketViability: {
+      genreConventions: score(random),
+      targetAudienceAppeal: score(random),
+      uniqueness: score(random),
+      commercialPotential: score(random)
+    },
+    detailedAnalysis: 'Synthetische Analyse des Textabschnitts.',
+    improvementSuggestions: ['Synthetischer Vorschlag 1', 'Synthetischer Vorschlag 2']
+  }),
+  correlation: (random) => ({
+    emotionalHighs: [Math.round(score(random, 7, 10))],
+    analyticalStrengths: [Math.round(score(random, 7, 10))],
+    discrepancies: ['Synthetische Diskrepanz zwischen Emotion und Analyse'],
+    synthesis: 'Synthetische Synthese beider Bewertungsebenen.'
+  }),
+  stream_of_thought: (random) => ({
+    rawThoughts: 'Synthetische, ungefilterte Gedanken beim Lesen.',
+    emotionalReactions: [pick(random, EMOTIONS), pick(random, EMOTIONS)],
+    immediateQuotes: ['Synthetisches Zitat'],
+    fragmentedInsights: ['Synthetischer Gedanke'],
+    mood: pick(random, MOODS),
+    attentionLevel: Math.round(score(random, 1, 10)),
+    personalResonance: Math.round(score(random, 1, 10))
+  }),
+  analytical_insight: (random) => ({
+    keyTakeaways: ['Synthetische Erkenntnis'],
+    structuredFeedback: 'Synthetisches strukturiertes Feedback.',
+    marketingOpportunities: ['Synthetische Marketing-Chance'],
+    competitiveAdvantages: ['Synthetischer Wettbewerbsvorteil'],
+    riskFactors: ['Synthetischer Risikofaktor'],
+    recommendedActions: ['Synthetische Handlungsempfehlung'],
+    confidenceScore: Math.round(score(random, 1, 10))
+  }),
+  landscape: (random) => ({
+    marketPosition: {
+      genre: 'Synthetisches Genre',
+      subGenres: ['Sub-Genre A', 'Sub-Genre B'],
+      competitorTitles: ['Vergleichstitel'],
+      uniqueSellingPoints: ['Synthetisches Alleinstellungsmerkmal'],
+      targetNiches: ['Synthetische Nische'],
+      positioningMatrix: {
+        tone: Math.round(score(random, 1, 10)),
+        complexity: Math.round(score(random, 1, 10)),
+        pacing: Math.round(score(random, 1, 10)),
+        emotionalIntensity: Math.round(score(random, 1, 10))
+      }
+    },
+    trendAnalysis: {
+      currentTrends: ['Synthetischer Trend'],
+      relevantToBook: ['Synthetischer relevanter Trend'],
+      marketGaps: ['Synthetische Marktlücke'],
+      opportunities: ['Synthetische Chance']
+    }
+  }),
+  personas: () => ({
+    personas: Array.from({ length: 4 }, (_, index) => ({
+      id: `persona_${index + 1}`,
+      name: `Synthetische Persona ${index + 1}`,
+      summary: 'Synthetische Persona für Offline-Läufe',
+      demographics: { ageRange: '25-45', gender: 'divers', education: 'Hochschulabschluss', occupation: 'Angestellt' },
+      readingHabits: {
+        frequency: 'Wöchentlich',
+        preferredFormats: ['E-Book', 'Print'],
+        favoriteGenres: ['Roman'],
+        favoriteAuthors: ['Beispielautor'],
+        discoveryChannels: ['Buchhandlung']
+      },
+      psychographics: {
+        values: ['Neugier'],
+        lifestyle: ['Pendeln'],
+        motivations: ['Unterhaltung'],
+        painPoints: ['Wenig Zeit']
+      },
+      bookConnectionPoints: ['Synthetischer Verbindungspunkt']
+    }))
+  }),
+  title_feedback: (random) => ({
+    title: 'Synthetischer Titel',
+    personaFeedback: [{
+      personaId: 'persona_1',
+      personaName: 'Synthetische Persona 1',
+      appealScore: Math.round(score(random, 1, 10)),
+      genreClarity: Math.round(score(random, 1, 10)),
+      memorability: Math.round(score(random, 1, 10)),
+      thematicFit: Math.round(score(random, 1, 10)),
+      comments: 'Synthetischer Kommentar',
+      positiveAssociations: ['Synthetische Assoziation'],
+      concerns: []
+    }],
+    overallScore: score(random),
+    summary: 'Synthetische Zusammenfassung'
+  }),
+  cover_feedback: (random) => ({
+    conceptId: 'synthetic',
+    conceptDescription: 'Synthetisches Cover-Konzept',
+    personaFeedback: [{
+      personaId: 'persona_1',
+      personaName: 'Synthetische Persona 1',
+      visualAppeal: Math.round(score(random, 1, 10)),
+      genreAppropriate: Math.round(score(random, 1, 10)),
+      thematicAccuracy: Math.round(score(random, 1, 10)),
+      standoutFactor: Math.round(score(random, 1, 10)),
+      emotionalResponse: pick(random, EMOTIONS),
+      comments: 'Synthetischer Kommentar'
+    }],
+    overallScore: score(random),
+    summary: 'Synthetische Zusammenfassung'
+  }),
+  blurb_feedback: (random) => ({
+    blurbId: '1',
+    blurbText: 'Synthetischer Klappentext',
+    personaFeedback: [{
+      personaId: 'persona_1',
+      personaName: 'Synthetische Persona 1',
+      clarityScore: Math.round(score(random, 1, 10)),
+      intrigueScore: Math.round(score(random, 1, 10)),
+      characterAppeal: Math.round(score(random, 1, 10)),
+      paceConveyed: Math.round(score(random, 1, 10)),
+      buyingIntent: Math.round(score(random, 1, 10)),
+      comments: 'Synthetischer Kommentar',
+      strengths: ['Synthetische Stärke'],
+      weaknesses: ['Synthetische Schwäche']
+    }],
+    overallScore: score(random),
+    summary: 'Synthetische Zusammenfassung'
+  }),
+  ab_test: (random) => ({
+    winner: pick(random, ['A', 'B']),
+    confidence: Math.round(random() * 100),
+    reasoning: 'Synthetische Begründung',
+    metrics: {
+      clickThroughRate: Math.round(random() * 100),
+      engagementScore: Math.round(random() * 100),
+      conversionProbability: Math.round(random() * 100)
+    },
+    personaSpecificInsights: ['Synthetischer Persona-Insight']
+  }),
+  marketing_strategy: () => ({
+    angles: [{
+      title: 'Synthetischer Ansatz',
+      description: 'Synthetische Beschreibung',
+      keyMessages: ['Botschaft'],
+      emotionalTriggers: ['Neugier'],
+      targetPersonas: ['Synthetische Persona 1']
+    }],
+    channels: [{
+      channel: 'Social Media',
+      rationale: 'Synthetische Begründung',
+      contentStyle: 'Kurzvideos',
+      reach: 'Medium',
+      cost: 'Low',
+      difficulty: 'Medium'
+    }],
+    keywords: ['synthetisch'],
+    taglines: ['Synthetische Tagline'],
+    campaignIdeas: ['Synthetische Kampagne']
+  }),
+  cohesion_check: (random) => ({
+    overallScore: Math.round(random() * 100),
+    strengths: ['Synthetische Stärke'],
+    weaknesses: ['Synthetische Schwäche'],
+    recommendations: ['Synthetische Empfehlung'],
+    personaAlignment: Math.round(random() * 100)
+  }),
+  market_context: () => ({
+    summary: 'Synthetische Kontextanalyse'
+  })
+};
+
+// Offline stand-in for the live provider: records real calls, replays them, or invents schema-valid answers
+export class MockAIProvider {
+  static getMode(): MockMode {
+    return (localStorage.getItem(MODE_KEY) as MockMode) || 'off';
+  }
+
+  static setMode(mode: MockMode): void {
+    if (mode === 'off') {
+      localStorage.removeItem(MODE_KEY);
+    } else {
+      localStorage.setItem(MODE_KEY, mode);
+    }
+  }
+
+  static isOffline(): boolean {
+    const mode = this.getMode();
+    return mode === 'replay' || mode === 'synthetic';
+  }
+
+  static fixtureKey(request: AIRequest, model: string): string {
+    return this.hash([
+      request.task,
+      model,
+      request.temperature,
+      request.maxTokens,
+      request.systemPrompt,
+      request.prompt
+    ].join('\u0000')).toString(16);
+  }
+
+  static respond(request: AIRequest, model: string): AIResponse<string> {
+    const key = this.fixtureKey(request, model);
+
+    if (this.getMode() === 'replay') {
+      const fixture = this.loadFixtures().find(f => f.key === key);
+      if (!fixture) {
+        throw new Error(I18n.t('mock.error.noRecording', { task: request.task, key }));
+      }
+      return { data: fixture.content, content: fixture.content, model: fixture.model, usage: fixture.usage };
+    }
+
+    const random = createRandom(parseInt(key, 16));
+    const content = JSON.stringify(SYNTHETIC_PAYLOADS[request.task](random));
+    return {
+      data: content,
+      content,
+      model: `synthetic/${model}`,
+      usage: {
+        prompt: Math.ceil((request.systemPrompt.length + request.prompt.length) / 4),
+        completion: Math.ceil(content.length / 4)
+      }
+    };
+  }
+
+  static record(request: AIRequest, model: string, response: AIResponse<string>): void {
+    const key = this.fixtureKey(request, model);
+    const fixtures = this.loadFixtures().filter(f => f.key !== key);
+
+    fixtures.push({
+      key,
+      task: request.task,
+      model,
+      systemPrompt: request.systemPrompt,
+      prompt: request.prompt,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      content: response.content,
+      usage: response.usage,
+      recordedAt: Date.now()
+    });
+
+    this.saveFixtures(fixtures);
+  }
+
+  static loadFixtures(): AIFixture[] {
+    try {
+      const stored = localStorage.getItem(FIXTURES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load AI fixtures from localStorage:', error);
+      return [];
+    }
+  }
+
+  static clearFixtures(): void {
+    localStorage.removeItem(FIXTURES_KEY);
+  }
+
+  static exportFixtures(): string {
+    const file: FixtureFile = { version: 1, fixtures: this.loadFixtures() };
+    return JSON.stringify(file, null, 2);
+  }
+
+  static importFixtures(json: string): number {
+    const parsed = JSON.parse(json) as Partial<FixtureFile>;
+    if (!parsed || !Array.isArray(parsed.fixtures)) {
+      throw new Error(I18n.t('mock.error.invalidFile'));
+    }
+
+    const byKey = new Map(this.loadFixtures().map(f => [f.key, f]));
+    parsed.fixtures.forEach(f => byKey.set(f.key, f));
+    this.saveFixtures(Array.from(byKey.values()));
+    return parsed.fixtures.length;
+  }
+
+  private static saveFixtures(fixtures: AIFixture[]): void {
+    try {
+      localStorage.setItem(FIXTURES_KEY, JSON.stringify(fixtures));
+    } catch (error) {
+      console.warn('Failed to save AI fixtures to localStorage:', error);
+    }
+  }
+
+  // FNV-1a, enough to key fixtures; not used for anything security relevant
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
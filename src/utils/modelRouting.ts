@@ -0,0 +1,83 @@
+import type { AITask } from './aiProvider';
+
+// Empty fields keep the value from the task's prompt template
+export interface TaskRoute {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type RoutableTask =
+  | 'emotional_notes'
+  | 'analytical_review'
+  | 'correlation'
+  | 'basic_scoring'
+  | 'landscape'
+  | 'personas'
+  | 'title_feedback'
+  | 'cover_feedback'
+  | 'blurb_feedback'
+  | 'ab_test'
+  | 'marketing_strategy'
+  | 'cohesion_check';
+
+export type RoutingTable = Partial<Record<RoutableTask, TaskRoute>>;
+
+export const ROUTABLE_TASKS: RoutableTask[] = [
+  'emotional_notes',
+  'analytical_review',
+  'correlation',
+  'basic_scoring',
+  'landscape',
+  'personas',
+  'title_feedback',
+  'cover_feedback',
+  'blurb_feedback',
+  'ab_test',
+  'marketing_strategy',
+  'cohesion_check'
+];
+
+const STORAGE_KEY = 'ai_model_routing';
+
+export class ModelRouting {
+  static loadTable(): RoutingTable {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load model routing from localStorage:', error);
+      return {};
+    }
+  }
+
+  static saveTable(table: RoutingTable): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.normalize(table)));
+  }
+
+  static getRoute(table: RoutingTable | undefined, task: AITask): TaskRoute {
+    return table?.[task as RoutableTask] ?? {};
+  }
+
+  // Every model a run may call: the selected one, those routed per task and the ensemble members
+  static modelsInUse(model: string, table: RoutingTable | undefined, ensembleModels: string[] = []): string[] {
+    const routed = Object.values(table ?? {}).map(route => route.model).filter(Boolean);
+    return [...new Set([model, ...routed, ...ensembleModels])];
+  }
+
+  // Drops blank fields so an untouched row doesn't shadow the template's values
+  static normalize(table: RoutingTable): RoutingTable {
+    const normalized: RoutingTable = {};
+    for (const task of ROUTABLE_TASKS) {
+      const route = table[task];
+      if (!route) continue;
+
+      const cleaned: TaskRoute = {};
+      if (route.model?.trim()) cleaned.model = route.model.trim();
+      if (typeof route.temperature === 'number' && !isNaN(route.temperature)) cleaned.temperature = route.temperature;
+      if (typeof route.maxTokens === 'number' && route.maxTokens > 0) cleaned.maxTokens = route.maxTokens;
+      if (Object.keys(cleaned).length > 0) normalized[task] = cleaned;
+    }
+    return normalized;
+  }
+}
@@ -0,0 +1,188 @@
+import { ZipArchive } from './zipArchive';
+import type { TextBlock, TrackedChangesMode } from './documentOutline';
+
+const DOCX_DOCUMENT = 'word/document.xml';
+const DOCX_STYLES = 'word/styles.xml';
+const ODT_CONTENT = 'content.xml';
+
+// Word containers whose paragraphs belong to the main text; text boxes, headers and notes live elsewhere
+const DOCX_CONTAINERS = new Set(['body', 'tbl', 'tr', 'tc', 'sdt', 'sdtContent', 'customXml']);
+const DOCX_INLINE_CONTAINERS = new Set(['r', 'hyperlink', 'smartTag', 'sdt', 'sdtContent', 'fldSimple', 'customXml', 'bdo', 'dir']);
+const ODT_CONTAINERS = new Set(['text', 'section', 'list', 'list-item', 'list-header', 'table', 'table-header-rows', 'table-rows', 'table-row', 'table-cell']);
+const ODT_INLINE_CONTAINERS = new Set(['span', 'a', 'ruby', 'ruby-base', 'meta', 'hidden-text']);
+// Word stores outline levels zero-based, with 9 meaning body text
+const WORD_BODY_TEXT_LEVEL = 9;
+const MAX_STYLE_DEPTH = 10;
+
+export class OfficeDocuments {
+  static async readDocx(buffer: ArrayBuffer, trackedChanges: TrackedChangesMode): Promise<TextBlock[]> {
+    const archive = this.openArchive(buffer, DOCX_DOCUMENT);
+    const doc = this.parseXml(await archive.readText(DOCX_DOCUMENT));
+    const styleLevels = archive.has(DOCX_STYLES)
+      ? this.readDocxStyleLevels(this.parseXml(await archive.readText(DOCX_STYLES)))
+      : new Map<string, number>();
+
+    const attribute = (element: Element, name: string) => element.getAttributeNS(element.namespaceURI, name);
+    const child = (element: Element | undefined, name: string) =>
+      element ? Array.from(element.children).find(candidate => candidate.localName === name) : undefined;
+
+    const runText = (element: Element): string => {
+      let text = '';
+      for (const node of Array.from(element.children)) {
+        const name = node.localName;
+        if (name === 't' || name === 'delText') text += node.textContent ?? '';
+        else if (name === 'tab') text += ' ';
+        else if (name === 'br' || name === 'cr') text += '\n';
+        else if (name === 'noBreakHyphen') text += '-';
+        else if (name === 'ins' || name === 'moveTo') text += trackedChanges === 'accept' ? runText(node) : '';
+        else if (name === 'del' || name === 'moveFrom') text += trackedChanges === 'reject' ? runText(node) : '';
+        else if (DOCX_INLINE_CONTAINERS.has(name)) text += runText(node);
+        // Footnote and comment references, field instructions and drawings are left out
+      }
+      return text;
+    };
+
+    const headingLevel = (paragraph: Element): number | undefined => {
+      const properties = child(paragraph, 'pPr');
+      const outline = child(properties, 'outlineLvl');
+      if (outline) {
+        const level = Number(attribute(outline, 'val'));
+        return level < WORD_BODY_TEXT_LEVEL ? level + 1 : undefined;
+      }
+      const style = child(properties, 'pStyle');
+      return style ? styleLevels.get(attribute(style, 'val') ?? '') : undefined;
+    };
+
+    const blocks: TextBlock[] = [];
+    const walk = (element: Element) => {
+      for (const node of Array.from(element.children)) {
+        if (node.localName === 'p') blocks.push({ text: runText(node), level: headingLevel(node) });
+        else if (DOCX_CONTAINERS.has(node.localName)) walk(node);
+      }
+    };
+    const body = Array.from(doc.documentElement.children).find(node => node.localName === 'body');
+    if (!body) throw new Error('DOCUMENT_INVALID');
+    walk(body);
+
+    return blocks;
+  }
+
+  static async readOdt(buffer: ArrayBuffer, trackedChanges: TrackedChangesMode): Promise<TextBlock[]> {
+    const archive = this.openArchive(buffer, ODT_CONTENT);
+    const doc = this.parseXml(await archive.readText(ODT_CONTENT));
+    const attribute = (element: Element, name: string) => element.getAttributeNS(element.namespaceURI, name);
+
+    // Deleted text is kept in a separate list of changed regions, insertions are marked in the flow
+    const insertions = new Set<string>();
+    const deletions = new Map<string, Element>();
+    for (const region of Array.from(doc.getElementsByTagNameNS('*', 'changed-region'))) {
+      const id = region.getAttributeNS(region.namespaceURI, 'id') ?? region.getAttribute('xml:id') ?? '';
+      const change = region.firstElementChild;
+      if (change?.localName === 'insertion') insertions.add(id);
+      else if (change?.localName === 'deletion') deletions.set(id, change);
+    }
+
+    // An insertion can span several paragraphs, so rejecting it is tracked across the walk
+    const rejectedInsertions = new Set<string>();
+    const inlineText = (element: Element): string => {
+      let text = '';
+      element.childNodes.forEach(node => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          if (rejectedInsertions.size === 0) text += (node.textContent ?? '').replace(/\s+/g, ' ');
+          return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const child = node as Element;
+        const name = child.localName;
+        const changeId = attribute(child, 'change-id') ?? '';
+        if (name === 'change-start' && trackedChanges === 'reject' && insertions.has(changeId)) {
+          rejectedInsertions.add(changeId);
+        } else if (name === 'change-end') {
+          rejectedInsertions.delete(changeId);
+        } else if (name === 'change' && trackedChanges === 'reject' && deletions.has(changeId)) {
+          // Only the deleted paragraphs; the change's office:change-info (author, date) is no text
+          text += Array.from(deletions.get(changeId).children)
+            .filter(deleted => deleted.localName === 'p' || deleted.localName === 'h')
+            .map(inlineText)
+            .join('\n');
+        } else if (rejectedInsertions.size > 0) {
+          text += inlineText(child);
+        } else if (name === 's') {
+          text += ' '.repeat(Number(attribute(child, 'c') ?? 1) || 1);
+        } else if (name === 'tab') {
+          text += ' ';
+        } else if (name === 'line-break') {
+          text += '\n';
+        } else if (ODT_INLINE_CONTAINERS.has(name)) {
+          text += inlineText(child);
+        }
+        // Notes, annotations and bookmarks carry no manuscript text
+      });
+      return text;
+    };
+
+    const blocks: TextBlock[] = [];
+    const walk = (element: Element) => {
+      for (const node of Array.from(element.children)) {
+        if (node.localName === 'h') {
+          blocks.push({ text: inlineText(node), level: Number(attribute(node, 'outline-level') ?? 1) || 1 });
+        } else if (node.localName === 'p') {
+          blocks.push({ text: inlineText(node) });
+        } else if (ODT_CONTAINERS.has(node.localName)) {
+          walk(node);
+        }
+      }
+    };
+    const candidates = doc.getElementsByTagNameNS('*', 'text');
+    const body = Array.from(candidates).find(element => element.parentElement?.localName === 'body');
+    if (!body) throw new Error('DOCUMENT_INVALID');
+    walk(body);
+
+    return blocks;
+  }
+
+  // Paragraph styles that are headings, by outline level or by Word's built-in "heading n" names
+  private static readDocxStyleLevels(styles: Document): Map<string, number> {
+    const definitions = new Map<string, { level?: number; basedOn?: string }>();
+    for (const style of Array.from(styles.getElementsByTagNameNS('*', 'style'))) {
+      const attribute = (element: Element | undefined, name: string) => element?.getAttributeNS(element.namespaceURI, name) ?? undefined;
+      const find = (element: Element | undefined, name: string) => element?.getElementsByTagNameNS(style.namespaceURI, name)[0];
+
+      const outline = attribute(find(style, 'outlineLvl'), 'val');
+      const builtIn = attribute(find(style, 'name'), 'val')?.match(/^heading (\d)$/i);
+      const level = outline !== undefined
+        ? (Number(outline) < WORD_BODY_TEXT_LEVEL ? Number(outline) + 1 : undefined)
+        : builtIn ? Number(builtIn[1]) : undefined;
+      definitions.set(attribute(style, 'styleId') ?? '', { level, basedOn: attribute(find(style, 'basedOn'), 'val') });
+    }
+
+    const resolve = (id: string, depth = 0): number | undefined => {
+      const definition = definitions.get(id);
+      if (!definition || depth > MAX_STYLE_DEPTH) return undefined;
+      return definition.level ?? (definition.basedOn ? resolve(definition.basedOn, depth + 1) : undefined);
+    };
+
+    const levels = new Map<string, number>();
+    definitions.forEach((_, id) => {
+      const level = resolve(id);
+      if (level !== undefined) levels.set(id, level);
+    });
+    return levels;
+  }
+
+  private static openArchive(buffer: ArrayBuffer, requiredPath: string): ZipArchive {
+    try {
+      const archive = ZipArchive.open(buffer);
+      if (archive.has(requiredPath)) return archive;
+    } catch (error) {
+      console.error('Document container error:', error);
+    }
+    throw new Error('DOCUMENT_INVALID');
+  }
+
+  private static parseXml(source: string): Document {
+    const doc = new DOMParser().parseFromString(source, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('DOCUMENT_INVALID');
+    return doc;
+  }
+}
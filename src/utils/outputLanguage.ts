@@ -0,0 +1,91 @@
+import type { MessageKey } from './i18n';
+
+export type OutputLanguage = 'de' | 'en' | 'es';
+
+// 'auto' follows the detected language of the uploaded manuscript
+export type LanguageSetting = OutputLanguage | 'auto';
+
+export interface LanguageDetection {
+  language: OutputLanguage;
+  // Share of the matched function words that belong to the detected language
+  confidence: number;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ['de', 'en', 'es'];
+
+export const LANGUAGE_LABELS: Record<OutputLanguage, MessageKey> = {
+  de: 'language.de',
+  en: 'language.en',
+  es: 'language.es'
+};
+
+// Frequent function words that rarely occur in the other two languages
+const STOPWORDS: Record<OutputLanguage, Set<string>> = {
+  de: new Set([
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'er', 'ein', 'eine', 'zu', 'mit', 'auf', 'sich',
+    'den', 'dem', 'von', 'war', 'hatte', 'auch', 'wie', 'aber', 'noch', 'wenn', 'nur', 'dass', 'wir', 'mir', 'mich'
+  ]),
+  en: new Set([
+    'the', 'and', 'of', 'to', 'is', 'was', 'he', 'she', 'it', 'that', 'with', 'for', 'his', 'her', 'had',
+    'not', 'but', 'you', 'they', 'at', 'be', 'have', 'this', 'from', 'were', 'would', 'said', 'which', 'there', 'what'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'que', 'y', 'de', 'en', 'un', 'una', 'por', 'con', 'para', 'se', 'su',
+    'al', 'lo', 'pero', 'como', 'más', 'fue', 'le', 'ya', 'muy', 'sus', 'era', 'cuando', 'también', 'del', 'sin'
+  ])
+};
+
+const SETTING_KEY = 'output_language';
+const SAMPLE_LENGTH = 5000;
+// Below this many matched words the sample is too short or too unusual to call
+const MIN_MATCHES = 20;
+const FALLBACK_LANGUAGE: OutputLanguage = 'de';
+
+export class OutputLanguages {
+  private static manuscript: LanguageDetection | null = null;
+
+  // Samples the start, middle and end so front matter in another language doesn't decide alone
+  static detect(text: string): LanguageDetection | null {
+    const middle = Math.max(0, Math.floor(text.length / 2 - SAMPLE_LENGTH / 2));
+    const sample = [
+      text.slice(0, SAMPLE_LENGTH),
+      text.slice(middle, middle + SAMPLE_LENGTH),
+      text.slice(-SAMPLE_LENGTH)
+    ].join(' ').toLowerCase();
+
+    const counts: Record<OutputLanguage, number> = { de: 0, en: 0, es: 0 };
+    for (const word of sample.match(/\p{L}+/gu) ?? []) {
+      OUTPUT_LANGUAGES.forEach(language => {
+        if (STOPWORDS[language].has(word)) counts[language]++;
+      });
+    }
+
+    const total = OUTPUT_LANGUAGES.reduce((sum, language) => sum + counts[language], 0);
+    if (total < MIN_MATCHES) return null;
+
+    const language = OUTPUT_LANGUAGES.reduce((best, candidate) => counts[candidate] > counts[best] ? candidate : best);
+    return { language, confidence: counts[language] / total };
+  }
+
+  static setManuscript(content: string): LanguageDetection | null {
+    this.manuscript = this.detect(content);
+    return this.manuscript;
+  }
+
+  static getManuscript(): LanguageDetection | null {
+    return this.manuscript;
+  }
+
+  static loadSetting(): LanguageSetting {
+    const stored = localStorage.getItem(SETTING_KEY);
+    return stored === 'auto' || OUTPUT_LANGUAGES.includes(stored as OutputLanguage) ? stored as LanguageSetting : 'auto';
+  }
+
+  static saveSetting(setting: LanguageSetting): void {
+    localStorage.setItem(SETTING_KEY, setting);
+  }
+
+  static resolve(setting: LanguageSetting = this.loadSetting()): OutputLanguage {
+    return setting === 'auto' ? this.manuscript?.language ?? FALLBACK_LANGUAGE : setting;
+  }
+}
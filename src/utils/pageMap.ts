@@ -0,0 +1,53 @@
+import { I18n } from './i18n';
+
+// Character range of one PDF page inside the extracted manuscript text
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export interface PageRange {
+  from: number;
+  to: number;
+}
+
+const PAGE_SEPARATOR = '\n\n';
+
+export class PageMap {
+  // Empty pages are left out of the text but keep their number, so citations match the PDF viewer
+  static build(pages: string[]): { content: string; spans: PageSpan[] } {
+    const spans: PageSpan[] = [];
+    let content = '';
+
+    pages.forEach((text, index) => {
+      const trimmed = text.trim();
+      if (!trimmed) return;
+      if (content) content += PAGE_SEPARATOR;
+      spans.push({ page: index + 1, start: content.length, end: content.length + trimmed.length });
+      content += trimmed;
+    });
+
+    return { content, spans };
+  }
+
+  static rangeFor(spans: PageSpan[] | undefined, start: number, end: number): PageRange | undefined {
+    const covered = spans?.filter(span => span.start < end && span.end > start) ?? [];
+    if (covered.length === 0) return undefined;
+    return { from: covered[0].page, to: covered[covered.length - 1].page };
+  }
+
+  static label(range: PageRange | undefined): string {
+    if (!range) return '';
+    return range.from === range.to
+      ? I18n.t('pages.single', { page: range.from })
+      : I18n.t('pages.range', { from: range.from, to: range.to });
+  }
+
+  // "Abschnitt 3", or "Abschnitt 3 (S. 12–13)" when the manuscript came from a PDF
+  static chunkLabel(chunkIndex: number, range: PageRange | undefined): string {
+    return range
+      ? I18n.t('pages.chunkWithPages', { number: chunkIndex + 1, pages: this.label(range) })
+      : I18n.t('pages.chunk', { number: chunkIndex + 1 });
+  }
+}
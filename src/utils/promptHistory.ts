@@ -0,0 +1,84 @@
+import type { PromptTemplate, TemplateContent } from './promptTemplates';
+
+export interface PromptVersion extends TemplateContent {
+  // null for the shipped or first-created wording that was never re-saved
+  savedAt: number | null;
+}
+
+const HISTORY_KEY = 'prompt_history';
+const MAX_VERSIONS = 50;
+
+const snapshot = (template: TemplateContent, savedAt: number | null): PromptVersion => ({
+  id: template.id,
+  task: template.task,
+  name: template.name,
+  version: template.version,
+  systemPrompt: template.systemPrompt,
+  userPrompt: template.userPrompt,
+  temperature: template.temperature,
+  maxTokens: template.maxTokens,
+  savedAt
+});
+
+// Name and description are labels, so renaming a template doesn't start a new version
+const sameWording = (a: TemplateContent, b: TemplateContent) =>
+  a.systemPrompt === b.systemPrompt &&
+  a.userPrompt === b.userPrompt &&
+  a.temperature === b.temperature &&
+  a.maxTokens === b.maxTokens;
+
+const nextVersion = (version: string) => `${Math.floor(parseFloat(version) || 0) + 1}.0`;
+
+// Every saved wording of a template, oldest first, so results can be traced back to the exact prompt
+export class PromptHistory {
+  static getVersions(template: PromptTemplate): PromptVersion[] {
+    const stored = this.readAll()[template.id];
+    return stored && stored.length > 0 ? stored : [snapshot(template, null)];
+  }
+
+  static find(template: PromptTemplate, version: string): PromptVersion | undefined {
+    return this.getVersions(template).find(candidate => candidate.version === version);
+  }
+
+  // Returns the template with its version bumped when the wording changed since the last recorded version
+  static record(template: PromptTemplate, previous?: PromptTemplate): PromptTemplate {
+    const history = this.readAll();
+    const versions = history[template.id]?.length
+      ? history[template.id]
+      : previous ? [snapshot(previous, null)] : [];
+    const last = versions[versions.length - 1];
+
+    if (last && sameWording(last, template)) {
+      return { ...template, version: last.version };
+    }
+
+    const saved = { ...template, version: last ? nextVersion(last.version) : template.version };
+    history[template.id] = [...versions, snapshot(saved, Date.now())].slice(-MAX_VERSIONS);
+    this.writeAll(history);
+    return saved;
+  }
+
+  static remove(templateId: string): void {
+    const history = this.readAll();
+    delete history[templateId];
+    this.writeAll(history);
+  }
+
+  private static readAll(): Record<string, PromptVersion[]> {
+    try {
+      const stored = localStorage.getItem(HISTORY_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load prompt history from localStorage:', error);
+      return {};
+    }
+  }
+
+  private static writeAll(history: Record<string, PromptVersion[]>): void {
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.warn('Failed to save prompt history to localStorage:', error);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import type { ReaderArchetype } from '../components/BookAnalyzer';
+import type { AIConfig } from '../components/AIAnalysisService';
+import { EXCERPT_LENGTHS, MarketValidationAI } from '../components/MarketValidation/AIProcessor';
+import { AIProvider, type AITask } from './aiProvider';
+import { PromptTemplates, TEMPLATE_VARIABLES, type TemplateValues } from './promptTemplates';
+import { STANDARD_TASKS, TWO_LAYER_TASKS } from './costEstimator';
+import { ChunkingOptions, STANDARD_CHUNK_OPTIONS, TWO_LAYER_CHUNK_OPTIONS, TextChunker, TextStructure } from './textChunking';
+import { TokenCounter } from './tokenCounter';
+import { I18n } from './i18n';
+
+export type PreviewPipeline = 'standard' | 'two_layer' | 'market';
+
+export type PreviewStatus = 'ok' | 'near_limit' | 'overflow';
+
+export interface StepPreview {
+  task: AITask;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  promptTokens: number;
+  // Space kept free for output of earlier steps that is only known at run time
+  reservedTokens: number;
+  maxTokens: number;
+  contextWindow: number;
+  knownContextWindow: boolean;
+  status: PreviewStatus;
+  notes: string[];
+  // Set instead of the prompts when the template can't be rendered
+  error?: string;
+}
+
+export interface PreviewInput {
+  content: string;
+  // One of getChunks(); ignored by the market modules, which read the manuscript opening
+  chunk: string;
+  archetype: ReaderArchetype;
+  aiConfig: AIConfig;
+}
+
+export const PIPELINE_TASKS: Record<PreviewPipeline, AITask[]> = {
+  standard: STANDARD_TASKS,
+  two_layer: TWO_LAYER_TASKS,
+  market: [
+    'landscape',
+    'personas',
+    'title_feedback',
+    'cover_feedback',
+    'blurb_feedback',
+    'ab_test',
+    'marketing_strategy',
+    'cohesion_check'
+  ]
+};
+
+// Share of the context window above which a step is flagged before it actually overflows
+const NEAR_LIMIT_SHARE = 0.9;
+
+// Two-layer steps that receive the emotional notes of layer 1
+const CARRIES_EMOTIONAL_NOTES: AITask[] = ['analytical_review', 'correlation'];
+
+// Chunk sizing renders the templates without a persona and keeps this much free for it instead,
+// so every archetype of a run gets the same chunks
+const PERSONA_ALLOWANCE = 600;
+const MIN_CHUNK_TOKENS = 100;
+const EMPTY_ARCHETYPE: ReaderArchetype = {
+  id: '',
+  name: '',
+  description: '',
+  demographics: '',
+  readingPreferences: '',
+  personalityTraits: [],
+  motivations: [],
+  painPoints: []
+};
+
+export class PromptPreview {
+  static getChunks(content: string, pipeline: Exclude<PreviewPipeline, 'market'>, aiConfig: AIConfig, structure?: TextStructure) {
+    return TextChunker.createChunks(content, this.chunkOptions(pipeline, aiConfig), structure);
+  }
+
+  // The pipeline's chunk size in tokens of the selected model, shrunk wherever a step's template, persona,
+  // earlier results and answer would leave less than that of its model's context window
+  static chunkOptions(pipeline: Exclude<PreviewPipeline, 'market'>, aiConfig: AIConfig): ChunkingOptions {
+    const target = pipeline === 'two_layer' ? TWO_LAYER_CHUNK_OPTIONS : STANDARD_CHUNK_OPTIONS;
+    const room = this.render(pipeline, { content: '', chunk: '', archetype: EMPTY_ARCHETYPE, aiConfig })
+      .filter(step => !step.error && TEMPLATE_VARIABLES[step.task].some(variable => variable.name === 'textChunk'))
+      .map(step => step.contextWindow - step.promptTokens - step.reservedTokens - step.maxTokens - PERSONA_ALLOWANCE);
+    const maxTokensPerChunk = Math.max(MIN_CHUNK_TOKENS, Math.min(target.maxTokensPerChunk, ...room));
+
+    return {
+      ...target,
+      maxTokensPerChunk,
+      minTokensPerChunk: Math.min(target.minTokensPerChunk, Math.floor(maxTokensPerChunk / 2)),
+      model: aiConfig.model
+    };
+  }
+
+  // Renders every step of a pipeline exactly as the engines would, without calling the model
+  static render(pipeline: PreviewPipeline, input: PreviewInput): StepPreview[] {
+    return PIPELINE_TASKS[pipeline].map(task => this.renderStep(task, this.valuesFor(task, input), input));
+  }
+
+  // Model and answer budget after per-task routing, as the provider will apply them
+  private static routeOf(task: AITask, aiConfig: AIConfig): { model: string; maxTokens: number } {
+    const template = PromptTemplates.getActive(task, AIProvider.resolveConfig(aiConfig).language);
+    const { request, config } = AIProvider.applyRoute(
+      { task, systemPrompt: '', prompt: '', temperature: template.temperature, maxTokens: template.maxTokens },
+      aiConfig
+    );
+    return { model: config.model, maxTokens: request.maxTokens };
+  }
+
+  private static valuesFor(task: AITask, input: PreviewInput): TemplateValues {
+    const { chunk } = input;
+    switch (task) {
+      case 'reader_analysis':
+      case 'emotional_notes':
+      case 'basic_scoring':
+        return { ...PromptTemplates.archetypeValues(input.archetype), textChunk: chunk };
+      case 'analytical_review':
+        return { textChunk: chunk };
+      case 'correlation':
+        return { textExcerpt: chunk.substring(0, 200) };
+      default:
+        return { bookExcerpt: MarketValidationAI.bookExcerpt(task, input.content) };
+    }
+  }
+
+  private static renderStep(task: AITask, values: TemplateValues, input: PreviewInput): StepPreview {
+    // Whatever the engine only learns at run time (earlier results, user input) is shown as a placeholder
+    const placeholders = TEMPLATE_VARIABLES[task].filter(variable => values[variable.name] === undefined);
+    const filled: TemplateValues = {
+      ...values,
+      ...Object.fromEntries(placeholders.map(variable => [variable.name, `‹${I18n.t(variable.description)}›`]))
+    };
+
+    const route = this.routeOf(task, input.aiConfig);
+    const limit = TokenCounter.getContextWindow(route.model);
+    const base = {
+      task,
+      model: route.model,
+      maxTokens: route.maxTokens,
+      contextWindow: limit.tokens,
+      knownContextWindow: limit.known
+    };
+
+    let rendered;
+    try {
+      rendered = PromptTemplates.buildRequest(task, filled, AIProvider.resolveConfig(input.aiConfig).language);
+    } catch (error) {
+      return {
+        ...base,
+        systemPrompt: '',
+        userPrompt: '',
+        promptTokens: 0,
+        reservedTokens: 0,
+        status: 'ok',
+        notes: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const reservedTokens = CARRIES_EMOTIONAL_NOTES.includes(task) ? this.routeOf('emotional_notes', input.aiConfig).maxTokens : 0;
+    const promptTokens = TokenCounter.count(`${rendered.systemPrompt}\n${rendered.prompt}`, route.model);
+    const total = promptTokens + reservedTokens + route.maxTokens;
+
+    const notes: string[] = [];
+    if (placeholders.length > 0) {
+      notes.push(I18n.t('promptPreview.note.placeholders', { names: placeholders.map(variable => `{${variable.name}}`).join(', ') }));
+    }
+    if (reservedTokens > 0) {
+      notes.push(I18n.t('promptPreview.note.reserved', { tokens: reservedTokens }));
+    }
+    const excerptLength = EXCERPT_LENGTHS[task];
+    if (excerptLength && input.content.length > excerptLength) {
+      notes.push(I18n.t('promptPreview.note.excerpt', { length: excerptLength, total: input.content.length }));
+    }
+    if (!limit.known) {
+      notes.push(I18n.t('promptPreview.note.unknownContext', { model: route.model, tokens: limit.tokens }));
+    }
+
+    return {
+      ...base,
+      systemPrompt: rendered.systemPrompt,
+      userPrompt: rendered.prompt,
+      promptTokens,
+      reservedTokens,
+      status: total > limit.tokens ? 'overflow' : total > limit.tokens * NEAR_LIMIT_SHARE ? 'near_limit' : 'ok',
+      notes
+    };
+  }
+}
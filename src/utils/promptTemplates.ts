@@ -0,0 +1,316 @@
+import type { ReaderArchetype } from '../components/BookAnalyzer';
+import type { AIRequest, AITask } from './aiProvider';
+import { DEFAULT_PROMPTS } from './defaultPrompts';
+import { OutputLanguages, type OutputLanguage } from './outputLanguage';
+import { I18n, type MessageKey } from './i18n';
+
+export interface PromptTemplate {
+  id: string;
+  task: AITask;
+  // Language the prompt asks the model to answer in
+  language: OutputLanguage;
+  name: string;
+  description: string;
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  version: string;
+  isDefault: boolean;
+}
+
+export interface TemplateVariable {
+  name: string;
+  description: MessageKey;
+  // A template that leaves this out can't do its job, e.g. an analysis prompt without the text
+  required?: boolean;
+}
+
+// Lists are joined with commas when rendered
+export type TemplateValues = Record<string, string | number | string[]>;
+
+// The parts of a template that shape a request; saved versions in the history carry the same fields
+export type TemplateContent = Pick<
+  PromptTemplate,
+  'id' | 'task' | 'name' | 'version' | 'systemPrompt' | 'userPrompt' | 'temperature' | 'maxTokens'
+>;
+
+// Names the template version behind a call, so results and spend can be traced to the wording
+export interface PromptRef {
+  id: string;
+  name: string;
+  version: string;
+}
+
+export type TemplateRequest = Pick<AIRequest, 'task' | 'systemPrompt' | 'prompt' | 'temperature' | 'maxTokens' | 'template'>;
+
+export class PromptTemplateError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.issues = issues;
+  }
+}
+
+const ARCHETYPE_VARIABLES: TemplateVariable[] = [
+  { name: 'archetypeName', description: 'promptVariable.archetypeName' },
+  { name: 'archetypeDescription', description: 'promptVariable.archetypeDescription' },
+  { name: 'archetypeDemographics', description: 'promptVariable.archetypeDemographics' },
+  { name: 'archetypeReadingPreferences', description: 'promptVariable.archetypeReadingPreferences' },
+  { name: 'archetypePersonalityTraits', description: 'promptVariable.archetypePersonalityTraits' },
+  { name: 'archetypeMotivations', description: 'promptVariable.archetypeMotivations' },
+  { name: 'archetypePainPoints', description: 'promptVariable.archetypePainPoints' }
+];
+
+const TEXT_CHUNK: TemplateVariable = { name: 'textChunk', description: 'promptVariable.textChunk', required: true };
+const BOOK_EXCERPT: TemplateVariable = { name: 'bookExcerpt', description: 'promptVariable.bookExcerpt', required: true };
+const PERSONA_LIST: TemplateVariable = { name: 'personas', description: 'promptVariable.personas' };
+const SELECTED_ASSETS: TemplateVariable[] = [
+  { name: 'selectedTitle', description: 'promptVariable.selectedTitle' },
+  { name: 'selectedCover', description: 'promptVariable.selectedCover' },
+  { name: 'selectedBlurb', description: 'promptVariable.selectedBlurb' }
+];
+
+// The values each engine supplies; anything else in a template is rejected before the run
+export const TEMPLATE_VARIABLES: Record<AITask, TemplateVariable[]> = {
+  reader_analysis: [...ARCHETYPE_VARIABLES, TEXT_CHUNK],
+  emotional_notes: [...ARCHETYPE_VARIABLES, TEXT_CHUNK],
+  analytical_review: [
+    TEXT_CHUNK,
+    { name: 'emotionalSummary', description: 'promptVariable.emotionalSummary', required: true }
+  ],
+  correlation: [
+    { name: 'textExcerpt', description: 'promptVariable.textExcerpt' },
+    { name: 'emotionalReactions', description: 'promptVariable.emotionalReactions', required: true },
+    { name: 'averageEmotionalIntensity', description: 'promptVariable.averageEmotionalIntensity' },
+    { name: 'literaryScore', description: 'promptVariable.literaryScore' },
+    { name: 'technicalScore', description: 'promptVariable.technicalScore' },
+    { name: 'averageAnalyticalScore', description: 'promptVariable.averageAnalyticalScore' }
+  ],
+  basic_scoring: [...ARCHETYPE_VARIABLES, TEXT_CHUNK],
+  stream_of_thought: [...ARCHETYPE_VARIABLES, TEXT_CHUNK],
+  analytical_insight: [
+    ...ARCHETYPE_VARIABLES,
+    TEXT_CHUNK,
+    { name: 'streamOfThoughtResult', description: 'promptVariable.streamOfThoughtResult', required: true }
+  ],
+  landscape: [
+    BOOK_EXCERPT,
+    { name: 'userGenres', description: 'promptVariable.userGenres' },
+    { name: 'competitorTitles', description: 'promptVariable.competitorTitles' }
+  ],
+  personas: [
+    BOOK_EXCERPT,
+    { name: 'genre', description: 'promptVariable.genre' },
+    { name: 'subGenres', description: 'promptVariable.subGenres' },
+    { name: 'uniqueSellingPoints', description: 'promptVariable.uniqueSellingPoints' }
+  ],
+  title_feedback: [
+    BOOK_EXCERPT,
+    PERSONA_LIST,
+    { name: 'title', description: 'promptVariable.title', required: true }
+  ],
+  cover_feedback: [
+    BOOK_EXCERPT,
+    PERSONA_LIST,
+    { name: 'conceptId', description: 'promptVariable.conceptId' },
+    { name: 'conceptDescription', description: 'promptVariable.conceptDescription', required: true }
+  ],
+  blurb_feedback: [
+    BOOK_EXCERPT,
+    PERSONA_LIST,
+    { name: 'blurbId', description: 'promptVariable.blurbId' },
+    { name: 'blurbText', description: 'promptVariable.blurbText', required: true }
+  ],
+  ab_test: [
+    BOOK_EXCERPT,
+    { name: 'testType', description: 'promptVariable.testType' },
+    { name: 'optionA', description: 'promptVariable.optionA', required: true },
+    { name: 'optionB', description: 'promptVariable.optionB', required: true },
+    { name: 'personaName', description: 'promptVariable.personaName' },
+    { name: 'personaAgeRange', description: 'promptVariable.personaAgeRange' },
+    { name: 'personaGender', description: 'promptVariable.personaGender' },
+    { name: 'personaGenres', description: 'promptVariable.personaGenres' },
+    { name: 'personaMotivations', description: 'promptVariable.personaMotivations' }
+  ],
+  marketing_strategy: [
+    BOOK_EXCERPT,
+    ...SELECTED_ASSETS,
+    { ...PERSONA_LIST, description: 'promptVariable.targetPersonas' }
+  ],
+  cohesion_check: [
+    BOOK_EXCERPT,
+    ...SELECTED_ASSETS,
+    { name: 'personaNames', description: 'promptVariable.personaNames' },
+    { name: 'angleCount', description: 'promptVariable.angleCount' }
+  ],
+  market_context: [
+    { name: 'prompt', description: 'promptVariable.prompt', required: true },
+    BOOK_EXCERPT
+  ]
+};
+
+const PROMPTS_KEY = 'custom_prompts';
+const ACTIVE_KEY = 'active_prompts';
+// Identifier right after the brace, so JSON skeletons like `{\n  "ratings"` are left alone
+const VARIABLE_PATTERN = /\{([A-Za-z][A-Za-z0-9_]*)\}/g;
+
+// Templates saved before they carried a task were matched to an engine by id
+const LEGACY_TASKS: Record<string, AITask> = {
+  analysis_standard: 'reader_analysis',
+  stream_of_thought: 'stream_of_thought',
+  analytical_insight: 'analytical_insight'
+};
+
+// Every prompt written before there were other languages is German
+const LEGACY_LANGUAGE: OutputLanguage = 'de';
+
+const activeKey = (task: AITask, language: OutputLanguage) => `${language}:${task}`;
+
+export class PromptTemplates {
+  static loadAll(): PromptTemplate[] {
+    const saved = this.readSaved();
+    const savedById = new Map(saved.map(template => [template.id, template]));
+
+    return [
+      ...DEFAULT_PROMPTS.map(template => savedById.has(template.id)
+        ? { ...savedById.get(template.id), task: template.task, language: template.language, isDefault: true }
+        : template),
+      ...saved.filter(template => !DEFAULT_PROMPTS.some(candidate => candidate.id === template.id))
+    ];
+  }
+
+  // Untouched defaults are not stored, so improvements to them reach users who never edited them
+  static saveAll(templates: PromptTemplate[]): void {
+    const changed = templates.filter(template => {
+      const original = this.getDefault(template.id);
+      return !original || JSON.stringify(original) !== JSON.stringify(template);
+    });
+    localStorage.setItem(PROMPTS_KEY, JSON.stringify(changed));
+  }
+
+  static getDefault(id: string): PromptTemplate | undefined {
+    return DEFAULT_PROMPTS.find(template => template.id === id);
+  }
+
+  // Keyed by language and task; entries stored before languages existed are keyed by task alone
+  static getActiveIds(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(ACTIVE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load active prompts from localStorage:', error);
+      return {};
+    }
+  }
+
+  static setActive(task: AITask, language: OutputLanguage, id: string): void {
+    localStorage.setItem(ACTIVE_KEY, JSON.stringify({ ...this.getActiveIds(), [activeKey(task, language)]: id }));
+  }
+
+  // Falls back to the language's default, and to the German one for a task nobody has translated
+  static getActive(
+    task: AITask,
+    language: OutputLanguage = OutputLanguages.resolve(),
+    templates: PromptTemplate[] = this.loadAll()
+  ): PromptTemplate {
+    const activeIds = this.getActiveIds();
+    const activeId = activeIds[activeKey(task, language)] ?? (language === LEGACY_LANGUAGE ? activeIds[task] : undefined);
+    const matches = (template: PromptTemplate, candidate: OutputLanguage) =>
+      template.task === task && template.language === candidate;
+
+    return templates.find(template => template.id === activeId && matches(template, language))
+      ?? templates.find(template => template.isDefault && matches(template, language))
+      ?? templates.find(template => template.isDefault && matches(template, LEGACY_LANGUAGE));
+  }
+
+  static findVariables(text: string): string[] {
+    return [...new Set(Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]))];
+  }
+
+  static validate(template: Pick<PromptTemplate, 'task' | 'systemPrompt' | 'userPrompt'>): string[] {
+    const known = TEMPLATE_VARIABLES[template.task] ?? [];
+    const used = this.findVariables(`${template.systemPrompt}\n${template.userPrompt}`);
+
+    const unknown = used
+      .filter(name => !known.some(variable => variable.name === name))
+      .map(name => I18n.t('promptTemplate.unknownVariable', { name }));
+    const missing = known
+      .filter(variable => variable.required && !used.includes(variable.name))
+      .map(variable => I18n.t('promptTemplate.missingVariable', { name: variable.name }));
+
+    return [...unknown, ...missing];
+  }
+
+  // Checks the active template of every task a run will use, so a broken template stops it before the first call
+  static assertValid(tasks: AITask[], language: OutputLanguage = OutputLanguages.resolve()): void {
+    const templates = this.loadAll();
+    const problems = tasks.flatMap(task => {
+      const template = this.getActive(task, language, templates);
+      return this.validate(template).map(issue => `${template.name}: ${issue}`);
+    });
+
+    if (problems.length > 0) {
+      throw new PromptTemplateError(I18n.t('promptTemplate.invalid', { problems: problems.join('; ') }), problems);
+    }
+  }
+
+  static render(text: string, values: TemplateValues): string {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+      const value = values[name];
+      if (value === undefined) {
+        throw new PromptTemplateError(
+          I18n.t('promptTemplate.noValue', { placeholder }),
+          [I18n.t('promptTemplate.noValueIssue', { placeholder })]
+        );
+      }
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    });
+  }
+
+  static buildRequest(task: AITask, values: TemplateValues, language: OutputLanguage = OutputLanguages.resolve()): TemplateRequest {
+    this.assertValid([task], language);
+    return this.renderRequest(this.getActive(task, language), values);
+  }
+
+  // Renders a given template or saved version without looking at which one is active
+  static renderRequest(template: TemplateContent, values: TemplateValues): TemplateRequest {
+    return {
+      task: template.task,
+      systemPrompt: this.render(template.systemPrompt, values),
+      prompt: this.render(template.userPrompt, values),
+      temperature: template.temperature,
+      maxTokens: template.maxTokens,
+      template: { id: template.id, name: template.name, version: template.version }
+    };
+  }
+
+  static archetypeValues(archetype: ReaderArchetype): TemplateValues {
+    return {
+      archetypeName: archetype.name,
+      archetypeDescription: archetype.description,
+      archetypeDemographics: archetype.demographics,
+      archetypeReadingPreferences: archetype.readingPreferences,
+      archetypePersonalityTraits: archetype.personalityTraits,
+      archetypeMotivations: archetype.motivations,
+      archetypePainPoints: archetype.painPoints
+    };
+  }
+
+  private static readSaved(): PromptTemplate[] {
+    try {
+      const stored = localStorage.getItem(PROMPTS_KEY);
+      const parsed: Partial<PromptTemplate>[] = stored ? JSON.parse(stored) : [];
+      return parsed.map(template => ({
+        ...template,
+        task: template.task ?? LEGACY_TASKS[template.id] ?? 'reader_analysis',
+        language: template.language ?? LEGACY_LANGUAGE
+      }) as PromptTemplate);
+    } catch (error) {
+      console.warn('Failed to load saved prompts:', error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import type { AnalysisResult, ReaderArchetype } from '../components/BookAnalyzer';
+import type { AIConfig } from '../components/AIAnalysisService';
+import { AIProvider } from './aiProvider';
+import type { ReaderAnalysisPayload } from './aiSchemas';
+import { DimensionSpread, RATING_DIMENSIONS, RatingDimension, ratingOf, spreadOf } from './ensemble';
+import type { PromptVersion } from './promptHistory';
+import { PromptPreview } from './promptPreview';
+import { PromptTemplateError, PromptTemplates } from './promptTemplates';
+import { RunControl } from './runControl';
+import { TextChunker, TextStructure } from './textChunking';
+import type { AnalysisMode } from './manuscriptRevisions';
+import { I18n } from './i18n';
+
+// Tasks whose output carries the 1-10 ratings a trial compares
+export type TrialTask = 'reader_analysis' | 'basic_scoring';
+
+export const TRIAL_TASKS: TrialTask[] = ['reader_analysis', 'basic_scoring'];
+
+export interface TrialSample {
+  archetypeId: string;
+  archetypeName: string;
+  chunkIndex: number;
+  chunkTitle?: string;
+  // null when that side's call failed
+  a: AnalysisResult | null;
+  b: AnalysisResult | null;
+}
+
+export interface TrialSide {
+  version: PromptVersion;
+  spread: Record<RatingDimension, DimensionSpread>;
+  // Count of results per rounded rating, index 0 = rating 1
+  histogram: Record<RatingDimension, number[]>;
+  failures: number;
+}
+
+export interface TrialResult {
+  a: TrialSide;
+  b: TrialSide;
+  samples: TrialSample[];
+}
+
+export interface TrialOptions {
+  content: string;
+  archetypes: ReaderArchetype[];
+  versionA: PromptVersion;
+  versionB: PromptVersion;
+  sampleSize: number;
+  aiConfig: AIConfig;
+  control: RunControl;
+  // As the run would chunk the manuscript, including a revision's anchors
+  structure?: TextStructure;
+  onProgress?: (done: number, total: number) => void;
+}
+
+const summarizeSide = (version: PromptVersion, results: (AnalysisResult | null)[]): TrialSide => {
+  const succeeded = results.filter(Boolean);
+  const byDimension = (build: (values: number[]) => DimensionSpread | number[]) => Object.fromEntries(
+    RATING_DIMENSIONS.map(dimension => [dimension, build(succeeded.map(result => ratingOf(result, dimension)))])
+  );
+
+  return {
+    version,
+    spread: byDimension(values => values.length > 0 ? spreadOf(values) : { mean: 0, variance: 0, stdDev: 0 }) as Record<RatingDimension, DimensionSpread>,
+    histogram: byDimension(values => {
+      const buckets = new Array(10).fill(0);
+      values.forEach(value => buckets[Math.min(9, Math.max(0, Math.round(value) - 1))]++);
+      return buckets;
+    }) as Record<RatingDimension, number[]>,
+    failures: results.length - succeeded.length
+  };
+};
+
+// Runs two template versions over the same sampled chunks and archetypes so their outputs can be compared
+export class PromptTrial {
+  // The analysis whose chunks the task's samples are taken from
+  static modeOf(task: TrialTask): AnalysisMode {
+    return task === 'basic_scoring' ? 'two_layer' : 'standard';
+  }
+
+  // Evenly spread over the manuscript, so a trial doesn't only see the opening chapter
+  static sampleChunks(content: string, task: TrialTask, sampleSize: number, aiConfig: AIConfig, structure?: TextStructure) {
+    const chunks = TextChunker.createChunks(content, PromptPreview.chunkOptions(this.modeOf(task), aiConfig), structure);
+    if (chunks.length <= sampleSize) return chunks;
+
+    const step = chunks.length / sampleSize;
+    return Array.from({ length: sampleSize }, (_, i) => chunks[Math.floor(i * step + step / 2)]);
+  }
+
+  static callCount(
+    content: string,
+    task: TrialTask,
+    sampleSize: number,
+    archetypeCount: number,
+    aiConfig: AIConfig,
+    structure?: TextStructure
+  ): number {
+    return this.sampleChunks(content, task, sampleSize, aiConfig, structure).length * archetypeCount * 2;
+  }
+
+  static async run(options: TrialOptions): Promise<TrialResult> {
+    const { content, archetypes, versionA, versionB, sampleSize, aiConfig, control, structure, onProgress } = options;
+
+    const problems = [versionA, versionB].flatMap(version =>
+      PromptTemplates.validate(version).map(issue => `${version.name} v${version.version}: ${issue}`)
+    );
+    if (problems.length > 0) {
+      throw new PromptTemplateError(I18n.t('promptTemplate.invalidVersion', { problems: problems.join('; ') }), problems);
+    }
+
+    const chunks = this.sampleChunks(content, versionA.task as TrialTask, sampleSize, aiConfig, structure);
+    const samples: TrialSample[] = [];
+
+    const analyze = async (version: PromptVersion, archetype: ReaderArchetype, chunkIndex: number, text: string) => {
+      try {
+        const { data } = await AIProvider.completeJSON<ReaderAnalysisPayload>({
+          ...PromptTemplates.renderRequest(version, { ...PromptTemplates.archetypeValues(archetype), textChunk: text }),
+          signal: control.signal,
+          runId: control.runId
+        }, aiConfig);
+        return { archetypeId: archetype.id, chunkIndex, ...data, prompt: { id: version.id, name: version.name, version: version.version } };
+      } catch (error) {
+        if (AIProvider.isAbortError(error)) throw error;
+        console.warn(`Prompt trial call failed for ${version.name} v${version.version}:`, error);
+        return null;
+      }
+    };
+
+    const pairs = chunks.flatMap(chunk => archetypes.map(archetype => ({ chunk, archetype })));
+    for (const { chunk, archetype } of pairs) {
+      await control.waitIfPaused();
+      if (control.isStopped()) break;
+
+      try {
+        // Both sides of a pair run together so they see the same rate-limit conditions
+        const [a, b] = await Promise.all([
+          analyze(versionA, archetype, chunk.index, chunk.content),
+          analyze(versionB, archetype, chunk.index, chunk.content)
+        ]);
+        samples.push({ archetypeId: archetype.id, archetypeName: archetype.name, chunkIndex: chunk.index, chunkTitle: chunk.title, a, b });
+        onProgress?.(samples.length, pairs.length);
+      } catch (error) {
+        // A stopped trial still reports the pairs that finished
+        if (AIProvider.isAbortError(error)) break;
+        throw error;
+      }
+    }
+
+    return {
+      a: summarizeSide(versionA, samples.map(sample => sample.a)),
+      b: summarizeSide(versionB, samples.map(sample => sample.b)),
+      samples
+    };
+  }
+}
@@ -0,0 +1,233 @@
+export interface RateLimitSettings {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxRetries: number;
+}
+
+const SETTINGS_KEY = 'ai_rate_limits';
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+// Rejects as soon as the signal fires so aborted calls don't sit out a backoff or a queue slot
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retry-After is either delay-seconds or an HTTP-date ("Wed, 21 Oct 2015 07:28:00 GMT", RFC 7231)
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+
+  const timestamp = Date.parse(trimmed);
+  return isNaN(timestamp) ? null : Math.max(0, timestamp - Date.now());
+};
+
+// Parses the OpenAI reset format ("1s", "6m0s", "250ms") as well as plain seconds and ISO timestamps
+const parseResetDuration = (value: string | null): number | null => {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000;
+  }
+
+  const timestamp = Date.parse(trimmed);
+  if (!isNaN(timestamp) && /\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    return Math.max(0, timestamp - Date.now());
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(amount) * units[unit];
+    matched = true;
+  }
+  return matched ? total : null;
+};
+
+// Process-wide token bucket shared by every AI call, regardless of which engine issues it
+export class RateLimiter {
+  private static instance: RateLimiter;
+  static readonly DEFAULT_SETTINGS: RateLimitSettings = {
+    requestsPerMinute: 60,
+    tokensPerMinute: 90000,
+    maxRetries: 4
+  };
+
+  private settings: RateLimitSettings;
+  private requestTokens: number;
+  private tokenBudget: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  static getInstance(): RateLimiter {
+    if (!this.instance) {
+      this.instance = new RateLimiter();
+    }
+    return this.instance;
+  }
+
+  private constructor() {
+    this.settings = RateLimiter.loadSettings();
+    this.requestTokens = this.settings.requestsPerMinute;
+    this.tokenBudget = this.settings.tokensPerMinute;
+  }
+
+  static loadSettings(): RateLimitSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return stored ? { ...this.DEFAULT_SETTINGS, ...JSON.parse(stored) } : { ...this.DEFAULT_SETTINGS };
+    } catch (error) {
+      console.warn('Failed to load rate limit settings from localStorage:', error);
+      return { ...this.DEFAULT_SETTINGS };
+    }
+  }
+
+  getSettings(): RateLimitSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(settings: Partial<RateLimitSettings>): void {
+    this.refill();
+    this.settings = { ...this.settings, ...settings };
+    this.requestTokens = Math.min(this.requestTokens, this.settings.requestsPerMinute);
+    this.tokenBudget = Math.min(this.tokenBudget, this.settings.tokensPerMinute);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+  }
+
+  // Resolves once one request and `estimatedTokens` fit into both buckets; callers are served in order
+  acquire(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForCapacity(estimatedTokens, signal));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  // Corrects the token bucket once the real usage of a call is known; a rejected attempt settles with 0
+  settle(estimatedTokens: number, actualTokens: number): void {
+    this.tokenBudget = Math.min(
+      this.settings.tokensPerMinute,
+      this.tokenBudget + this.reservation(estimatedTokens) - actualTokens
+    );
+  }
+
+  updateFromHeaders(headers: Headers): void {
+    const remainingRequests = this.readNumber(headers, ['x-ratelimit-remaining-requests', 'anthropic-ratelimit-requests-remaining']);
+    const remainingTokens = this.readNumber(headers, ['x-ratelimit-remaining-tokens', 'anthropic-ratelimit-tokens-remaining']);
+
+    if (remainingRequests !== null) {
+      this.requestTokens = Math.min(this.requestTokens, remainingRequests);
+    }
+    if (remainingTokens !== null) {
+      this.tokenBudget = Math.min(this.tokenBudget, remainingTokens);
+    }
+
+    if (remainingRequests === 0) {
+      this.pauseFor(parseResetDuration(
+        headers.get('x-ratelimit-reset-requests') || headers.get('anthropic-ratelimit-requests-reset')
+      ) ?? BASE_DELAY_MS);
+    }
+    if (remainingTokens === 0) {
+      this.pauseFor(parseResetDuration(
+        headers.get('x-ratelimit-reset-tokens') || headers.get('anthropic-ratelimit-tokens-reset')
+      ) ?? BASE_DELAY_MS);
+    }
+  }
+
+  // Exponential backoff with full jitter; an explicit Retry-After from the server always wins
+  getRetryDelay(attempt: number, headers?: Headers): number {
+    const retryAfterMs = headers?.get('retry-after-ms');
+    const retryAfter = retryAfterMs
+      ? parseResetDuration(`${retryAfterMs}ms`)
+      : parseRetryAfter(headers?.get('retry-after') ?? null);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, MAX_DELAY_MS);
+    }
+
+    const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  pauseFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  shouldRetry(attempt: number): boolean {
+    return attempt < this.settings.maxRetries;
+  }
+
+  // A single request larger than the whole minute budget would otherwise wait forever
+  private reservation(estimatedTokens: number): number {
+    return Math.min(estimatedTokens, this.settings.tokensPerMinute);
+  }
+
+  private async waitForCapacity(estimatedTokens: number, signal?: AbortSignal): Promise<void> {
+    const neededTokens = this.reservation(estimatedTokens);
+
+    for (;;) {
+      const now = Date.now();
+      if (this.blockedUntil > now) {
+        await sleep(this.blockedUntil - now, signal);
+        continue;
+      }
+
+      this.refill();
+      if (this.requestTokens >= 1 && this.tokenBudget >= neededTokens) {
+        this.requestTokens -= 1;
+        this.tokenBudget -= neededTokens;
+        return;
+      }
+
+      const requestWait = this.requestTokens >= 1
+        ? 0
+        : (1 - this.requestTokens) / this.settings.requestsPerMinute * 60000;
+      const tokenWait = this.tokenBudget >= neededTokens
+        ? 0
+        : (neededTokens - this.tokenBudget) / this.settings.tokensPerMinute * 60000;
+      await sleep(Math.max(50, Math.ceil(Math.max(requestWait, tokenWait))), signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedMinutes = (now - this.lastRefill) / 60000;
+    this.lastRefill = now;
+
+    this.requestTokens = Math.min(
+      this.settings.requestsPerMinute,
+      this.requestTokens + elapsedMinutes * this.settings.requestsPerMinute
+    );
+    this.tokenBudget = Math.min(
+      this.settings.tokensPerMinute,
+      this.tokenBudget + elapsedMinutes * this.settings.tokensPerMinute
+    );
+  }
+
+  private readNumber(headers: Headers, names: string[]): number | null {
+    for (const name of names) {
+      const value = headers.get(name);
+      if (value !== null && value !== '' && !isNaN(Number(value))) {
+        return Number(value);
+      }
+    }
+    return null;
+  }
+}
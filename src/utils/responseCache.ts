@@ -0,0 +1,201 @@
+import type { AIConfig } from '../components/AIAnalysisService';
+import type { AIRequest, AITask, TokenUsage } from './aiProvider';
+
+export interface CachedResponse {
+  key: string;
+  task: AITask;
+  model: string;
+  content: string;
+  usage: TokenUsage;
+  size: number;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+const DB_NAME = 'ai_response_cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+const BYPASS_KEY = 'ai_cache_bypass';
+const MAX_BYTES_KEY = 'ai_cache_max_bytes';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB-backed store of raw completions; failures are logged and treated as misses so analyses never depend on it
+export class ResponseCache {
+  static readonly DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static knownBytes: number | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  static isBypassed(): boolean {
+    return localStorage.getItem(BYPASS_KEY) === 'true';
+  }
+
+  static setBypassed(bypassed: boolean): void {
+    if (bypassed) {
+      localStorage.setItem(BYPASS_KEY, 'true');
+    } else {
+      localStorage.removeItem(BYPASS_KEY);
+    }
+  }
+
+  static getMaxBytes(): number {
+    const stored = parseInt(localStorage.getItem(MAX_BYTES_KEY) || '', 10);
+    return isNaN(stored) ? this.DEFAULT_MAX_BYTES : stored;
+  }
+
+  static async setMaxBytes(maxBytes: number): Promise<void> {
+    localStorage.setItem(MAX_BYTES_KEY, String(maxBytes));
+    await this.evict();
+  }
+
+  static async createKey(request: AIRequest, config: AIConfig): Promise<string> {
+    const fields: unknown[] = [
+      config.provider || 'openai',
+      config.baseUrl || '',
+      config.model,
+      request.temperature,
+      request.maxTokens,
+      request.systemPrompt,
+      request.prompt
+    ];
+    // Repeated samples of one prompt must not collapse into a single cached answer
+    if (request.sample) fields.push(request.sample);
+    const material = JSON.stringify(fields);
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  static async get(key: string): Promise<CachedResponse | null> {
+    try {
+      const store = (await this.open()).transaction(STORE, 'readwrite').objectStore(STORE);
+      const entry = await promisify<CachedResponse | undefined>(store.get(key));
+      if (!entry) return null;
+
+      entry.lastAccessed = Date.now();
+      store.put(entry);
+      return entry;
+    } catch (error) {
+      console.warn('Response cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  static async put(key: string, task: AITask, model: string, content: string, usage: TokenUsage): Promise<void> {
+    const now = Date.now();
+    const entry: CachedResponse = {
+      key,
+      task,
+      model,
+      content,
+      usage,
+      size: content.length * 2,
+      createdAt: now,
+      lastAccessed: now
+    };
+
+    try {
+      const store = (await this.open()).transaction(STORE, 'readwrite').objectStore(STORE);
+      const previous = await promisify<CachedResponse | undefined>(store.get(key));
+      await promisify(store.put(entry));
+
+      if (this.knownBytes !== null) {
+        this.knownBytes += entry.size - (previous?.size ?? 0);
+      }
+      if (this.knownBytes === null || this.knownBytes > this.getMaxBytes()) {
+        await this.evict();
+      }
+    } catch (error) {
+      console.warn('Response cache write failed:', error);
+    }
+  }
+
+  static async remove(key: string): Promise<void> {
+    try {
+      const store = (await this.open()).transaction(STORE, 'readwrite').objectStore(STORE);
+      await promisify(store.delete(key));
+      this.knownBytes = null;
+    } catch (error) {
+      console.warn('Response cache delete failed:', error);
+    }
+  }
+
+  static async clear(): Promise<void> {
+    const store = (await this.open()).transaction(STORE, 'readwrite').objectStore(STORE);
+    await promisify(store.clear());
+    this.knownBytes = 0;
+  }
+
+  static async getStats(): Promise<CacheStats> {
+    const entries = await this.scanByLastAccessed();
+    this.knownBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    return { entries: entries.length, bytes: this.knownBytes, maxBytes: this.getMaxBytes() };
+  }
+
+  // Drops least recently used entries until the store fits into the configured limit
+  private static async evict(): Promise<void> {
+    const entries = await this.scanByLastAccessed();
+    const maxBytes = this.getMaxBytes();
+    let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    const store = (await this.open()).transaction(STORE, 'readwrite').objectStore(STORE);
+    for (const entry of entries) {
+      if (bytes <= maxBytes) break;
+      store.delete(entry.key);
+      bytes -= entry.size;
+    }
+    this.knownBytes = bytes;
+  }
+
+  private static async scanByLastAccessed(): Promise<{ key: string; size: number }[]> {
+    const index = (await this.open()).transaction(STORE, 'readonly').objectStore(STORE).index('lastAccessed');
+    const entries: { key: string; size: number }[] = [];
+
+    return new Promise((resolve, reject) => {
+      const cursorRequest = index.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve(entries);
+          return;
+        }
+        const entry = cursor.value as CachedResponse;
+        entries.push({ key: entry.key, size: entry.size });
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex('lastAccessed', 'lastAccessed');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,187 @@
+import type { TextBlock, TrackedChangesMode } from './documentOutline';
+
+interface GroupState {
+  // Destinations such as font tables, footnotes and comments hold no manuscript text
+  skip: boolean;
+  inStylesheet: boolean;
+  unicodeFallback: number;
+  deleted: boolean;
+  revised: boolean;
+  style: number;
+  outline?: number;
+}
+
+interface StyleEntry {
+  id: number;
+  outline?: number;
+  name: string;
+}
+
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'info', 'pict', 'object', 'footnote', 'annotation', 'atnid', 'atnauthor', 'atntime', 'atnref',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'fldinst', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl',
+  'generator', 'revtbl', 'pgdsctbl', 'filetbl', 'private', 'bkmkstart', 'bkmkend'
+]);
+
+const CHARACTER_WORDS: Record<string, string> = {
+  line: '\n',
+  tab: ' ',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•'
+};
+
+const WORD_BODY_TEXT_LEVEL = 9;
+const HEADING_NAME = /^(?:heading|überschrift)\s*(\d)/i;
+
+export class RtfParser {
+  static parse(source: string, trackedChanges: TrackedChangesMode): TextBlock[] {
+    if (!source.startsWith('{\\rtf')) throw new Error('DOCUMENT_INVALID');
+
+    const styles = new Map<number, StyleEntry>();
+    const blocks: TextBlock[] = [];
+    const stack: GroupState[] = [];
+    let state: GroupState = { skip: false, inStylesheet: false, unicodeFallback: 1, deleted: false, revised: false, style: 0 };
+    let entry: StyleEntry | null = null;
+    let entryDepth = 0;
+    let paragraph = '';
+    let pendingFallback = 0;
+    const byteDecoder = new TextDecoder('windows-1252');
+
+    const emit = (text: string) => {
+      if (pendingFallback > 0) {
+        pendingFallback--;
+        return;
+      }
+      if (state.inStylesheet) {
+        if (entry && !state.skip) entry.name += text;
+        return;
+      }
+      if (state.skip) return;
+      // Accepting drops deleted runs, rejecting drops inserted ones
+      if (trackedChanges === 'accept' ? state.deleted : state.revised) return;
+      paragraph += text;
+    };
+
+    const endParagraph = () => {
+      if (state.skip || state.inStylesheet) return;
+      blocks.push({ text: paragraph, level: this.headingLevel(state, styles) });
+      paragraph = '';
+    };
+
+    let i = 0;
+    while (i < source.length) {
+      const char = source[i];
+
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+        // Each group directly inside the stylesheet defines one style; deeper groups belong to that entry
+        if (state.inStylesheet && !entry) {
+          entry = { id: 0, name: '' };
+          entryDepth = stack.length;
+        }
+        i++;
+      } else if (char === '}') {
+        if (entry && stack.length === entryDepth) {
+          styles.set(entry.id, entry);
+          entry = null;
+        }
+        state = stack.pop() ?? state;
+        i++;
+      } else if (char === '\\') {
+        const next = source[i + 1];
+        if (next === undefined) break;
+
+        if (/[a-zA-Z]/.test(next)) {
+          const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(i + 1, i + 40));
+          const word = match[1];
+          const parameter = match[2] !== undefined ? Number(match[2]) : undefined;
+          i += 1 + match[0].length;
+
+          if (word === 'bin' && parameter) {
+            i += parameter;
+          } else if (word === 'u' && parameter !== undefined) {
+            emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+            pendingFallback = state.unicodeFallback;
+          } else {
+            this.applyControlWord(word, parameter, state, entry, emit, endParagraph);
+          }
+        } else if (next === "'") {
+          const byte = parseInt(source.slice(i + 2, i + 4), 16);
+          if (!Number.isNaN(byte)) emit(byteDecoder.decode(Uint8Array.of(byte)));
+          i += 4;
+        } else {
+          if (next === '*') state.skip = true;
+          else if (next === '~') emit(' ');
+          else if (next === '_') emit('-');
+          else if (next === '\n' || next === '\r') endParagraph();
+          else if (next === '\\' || next === '{' || next === '}') emit(next);
+          // \- marks an optional hyphen, which isn't part of the text
+          i += 2;
+        }
+      } else {
+        if (char !== '\n' && char !== '\r') emit(char);
+        i++;
+      }
+    }
+
+    if (paragraph.trim()) blocks.push({ text: paragraph, level: this.headingLevel(state, styles) });
+    return blocks;
+  }
+
+  private static applyControlWord(
+    word: string,
+    parameter: number | undefined,
+    state: GroupState,
+    entry: StyleEntry | null,
+    emit: (text: string) => void,
+    endParagraph: () => void
+  ): void {
+    const enabled = parameter !== 0;
+
+    if (word === 'stylesheet') {
+      state.inStylesheet = true;
+    } else if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'par' || word === 'sect' || word === 'page') {
+      endParagraph();
+    } else if (word === 'pard') {
+      state.style = 0;
+      state.outline = undefined;
+    } else if (word === 's' && parameter !== undefined) {
+      if (entry && state.inStylesheet) entry.id = parameter;
+      else state.style = parameter;
+    } else if (word === 'outlinelvl' && parameter !== undefined) {
+      if (entry && state.inStylesheet) entry.outline = parameter;
+      else state.outline = parameter;
+    } else if (word === 'plain') {
+      state.deleted = false;
+      state.revised = false;
+    } else if (word === 'deleted') {
+      state.deleted = enabled;
+    } else if (word === 'revised') {
+      state.revised = enabled;
+    } else if (word === 'uc' && parameter !== undefined) {
+      state.unicodeFallback = parameter;
+    } else if (CHARACTER_WORDS[word]) {
+      emit(CHARACTER_WORDS[word]);
+    }
+  }
+
+  private static headingLevel(state: GroupState, styles: Map<number, StyleEntry>): number | undefined {
+    const style = styles.get(state.style);
+    const outline = state.outline ?? style?.outline;
+    if (outline !== undefined) return outline < WORD_BODY_TEXT_LEVEL ? outline + 1 : undefined;
+    const named = style?.name.match(HEADING_NAME);
+    return named ? Number(named[1]) : undefined;
+  }
+}
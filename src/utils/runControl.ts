@@ -0,0 +1,63 @@
+// Cancellation and pause state shared between a job and the AI calls it issues
+export class RunControl {
+  private abortController = new AbortController();
+  private paused = false;
+  private finishing = false;
+  private resumeWaiters: (() => void)[] = [];
+
+  // Identifies the run in the usage ledger
+  constructor(readonly runId?: string) {}
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  // True after either stop() or finish(); loops stop scheduling new calls
+  isStopped(): boolean {
+    return this.finishing || this.isCancelled();
+  }
+
+  isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Aborts every request still in flight and releases anything waiting on a pause
+  stop(): void {
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  // Soft stop: no new calls start, but those already in flight complete and keep their results
+  finish(): void {
+    this.finishing = true;
+    this.releaseWaiters();
+  }
+
+  pause(): void {
+    if (!this.isStopped()) {
+      this.paused = true;
+    }
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  // Resolves once the run may continue; callers check isStopped() afterwards
+  async waitIfPaused(): Promise<void> {
+    while (this.paused && !this.isStopped()) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
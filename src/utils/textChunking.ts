@@ -1,146 +1,421 @@
 
-interface ChunkInfo {
+import { PageMap, PageRange, PageSpan } from './pageMap';
+import { TokenCounter } from './tokenCounter';
+import { I18n } from './i18n';
+
+export interface ChunkInfo {
   content: string;
   chunkType: 'chapter' | 'section' | 'paragraph' | 'automatic';
   title?: string;
   index: number;
   wordCount: number;
+  // In the tokenizer of ChunkingOptions.model
+  tokenCount: number;
+  // Character offsets into the source text
+  start: number;
+  end: number;
+  // Only known for PDF manuscripts
+  pages?: PageRange;
+}
+
+interface Paragraph {
+  text: string;
+  start: number;
+  end: number;
 }
 
-interface ChunkingOptions {
-  maxWordsPerChunk: number;
-  minWordsPerChunk: number;
+interface Passage extends Paragraph {
+  tokens: number;
+  // Start of the oversized paragraph a sentence was cut from, so its sentences are joined back with a space
+  paragraphStart?: number;
+}
+
+// What is never split across two chunks: a paragraph, a dialogue exchange, or one sentence of an oversized paragraph
+interface Unit {
+  passages: Passage[];
+  tokens: number;
+  sceneBreak?: boolean;
+}
+
+// Chapter boundary supplied by the file format, e.g. an EPUB spine document
+export interface ChapterSpan {
+  title?: string;
+  start: number;
+  end: number;
+}
+
+// What the importer knows about the layout of the text beyond its characters
+export interface TextStructure {
+  pageMap?: PageSpan[];
+  chapters?: ChapterSpan[];
+  // Fingerprints of the paragraphs that opened a chunk in the previous revision; starting chunks there again
+  // keeps an edit in one passage from shifting the boundaries of all later ones
+  chunkStarts?: string[];
+}
+
+// Sizes are in tokens, so a German chunk holds fewer words than an English one but costs the same
+export interface ChunkingOptions {
+  maxTokensPerChunk: number;
+  minTokensPerChunk: number;
   preserveStructure: boolean;
+  // Whose tokenizer counts the tokens; the character estimate is used without one
+  model?: string;
 }
 
+export const STANDARD_CHUNK_OPTIONS: ChunkingOptions = {
+  maxTokensPerChunk: 600,
+  minTokensPerChunk: 220,
+  preserveStructure: true
+};
+
+export const TWO_LAYER_CHUNK_OPTIONS: ChunkingOptions = {
+  maxTokensPerChunk: 520,
+  minTokensPerChunk: 150,
+  preserveStructure: true
+};
+
+// Heading lines, tried in this order; a pattern needs at least three matches to count as the book's structure
+const CHAPTER_HEADINGS = [
+  /^[ \t]*(?:Chapter|Kapitel|Capítulo)[ \t]+(?:\d+|[IVXLC]+)\b.*$/gim,
+  /^[ \t]*\d+\.[ \t]+\p{Lu}.*$/gmu,
+  /^[ \t]*[IVX]+\.[ \t]+\p{Lu}.*$/gmu
+];
+const MAX_HEADING_LENGTH = 100;
+
+// "***", "* * *", "#" or an ornament line on its own
+const SCENE_BREAK = /^(?:[*#~•·◆◇✦❧=_–—-]\s*)+$/u;
+// Speech opened by a quotation mark or dash, or introduced with "sagte er: „…"
+const DIALOGUE = /^[„“"»«‚‘›‹–—]|[:,]\s*[„“"»«]/u;
+const SENTENCE_END = /[.!?…]+[»«“”"’')\]]*\s+(?=[\p{Lu}\d„“"»«‚‘–—])/gu;
+// Without the final period, which the sentence boundary starts at
+const ABBREVIATIONS = new Set(['dr', 'prof', 'mr', 'mrs', 'ms', 'st', 'jr', 'sr', 'nr', 'hr', 'fr', 'vgl', 'bzw', 'ca', 'z.b', 'd.h', 'u.a', 'e.g', 'i.e', 'sra']);
+// A final remainder below this share of the minimum joins the chunk before it even beyond the maximum
+const TINY_REMAINDER_SHARE = 0.25;
+
 export class TextChunker {
   private static readonly DEFAULT_OPTIONS: ChunkingOptions = {
-    maxWordsPerChunk: 400,
-    minWordsPerChunk: 100,
+    maxTokensPerChunk: 600,
+    minTokensPerChunk: 150,
     preserveStructure: true
   };
 
-  static createChunks(content: string, options: Partial<ChunkingOptions> = {}): ChunkInfo[] {
+  static createChunks(content: string, options: Partial<ChunkingOptions> = {}, structure: TextStructure = {}): ChunkInfo[] {
     const opts = { ...this.DEFAULT_OPTIONS, ...options };
+    const { pageMap, chapters } = structure;
+    const chunkStarts = structure.chunkStarts ? new Set(structure.chunkStarts) : undefined;
+    const withPages = (chunks: ChunkInfo[]) => pageMap
+      ? chunks.map(chunk => ({ ...chunk, pages: PageMap.rangeFor(pageMap, chunk.start, chunk.end) }))
+      : chunks;
+
+    // Known chapters beat anything the patterns below could guess
+    if (chapters && chapters.length > 1) {
+      return withPages(this.chapterChunking(content, chapters, opts, chunkStarts));
+    }
     
-    // First, try to detect table of contents or chapter structure
-    const structuredChunks = this.tryStructuredChunking(content, opts);
-    if (structuredChunks.length > 1) {
-      console.log('Using structured chunking based on detected chapters/sections');
-      return structuredChunks;
+    // First, try to detect chapter headings in the text itself
+    const detectedChapters = this.detectChapters(content);
+    if (detectedChapters.length > 1) {
+      return withPages(this.chapterChunking(content, detectedChapters, opts, chunkStarts));
     }
 
     // Fall back to semantic paragraph-based chunking
-    console.log('Using semantic paragraph-based chunking');
-    return this.semanticChunking(content, opts);
+    return withPages(this.semanticChunking(content, opts, chunkStarts));
   }
 
-  private static tryStructuredChunking(content: string, options: ChunkingOptions): ChunkInfo[] {
-    const chunks: ChunkInfo[] = [];
-    
-    // Detect chapter patterns
-    const chapterPatterns = [
-      /^(Chapter\s+\d+|Kapitel\s+\d+|CHAPTER\s+\d+)[\s\S]*?(?=^(Chapter\s+\d+|Kapitel\s+\d+|CHAPTER\s+\d+)|\Z)/gim,
-      /^(\d+\.\s+[A-Z][^\n]*\n)[\s\S]*?(?=^\d+\.\s+[A-Z]|\Z)/gim,
-      /^([IVX]+\.\s+[A-Z][^\n]*\n)[\s\S]*?(?=^[IVX]+\.\s+[A-Z]|\Z)/gim
-    ];
-
-    for (const pattern of chapterPatterns) {
-      const matches = content.match(pattern);
-      if (matches && matches.length > 2) { // At least 3 chapters for reliable structure
-        matches.forEach((match, index) => {
-          const titleMatch = match.match(/^([^\n]+)/);
-          const title = titleMatch ? titleMatch[1].trim() : `Abschnitt ${index + 1}`;
-          const wordCount = match.trim().split(/\s+/).length;
-          
-          if (wordCount >= options.minWordsPerChunk) {
-            chunks.push({
-              content: match.trim(),
-              chunkType: 'chapter',
-              title: title,
-              index: index,
-              wordCount: wordCount
-            });
-          }
-        });
-        
-        if (chunks.length > 0) {
-          return chunks;
-        }
+  // Each chapter runs from its heading to the next one; text before the first heading is kept as an untitled span
+  private static detectChapters(content: string): ChapterSpan[] {
+    for (const pattern of CHAPTER_HEADINGS) {
+      const headings = [...content.matchAll(pattern)].filter(([line]) => line.trim().length <= MAX_HEADING_LENGTH);
+      if (headings.length > 2) { // At least 3 chapters for reliable structure
+        const spans: ChapterSpan[] = headings.map((heading, index) => ({
+          title: heading[0].trim(),
+          start: heading.index,
+          end: headings[index + 1]?.index ?? content.length
+        }));
+        return headings[0].index > 0 && content.slice(0, headings[0].index).trim()
+          ? [{ start: 0, end: headings[0].index }, ...spans]
+          : spans;
       }
     }
 
     return [];
   }
 
-  private static semanticChunking(content: string, options: ChunkingOptions): ChunkInfo[] {
+  // Long chapters are split like any other text, but a chunk never spans two chapters and keeps the chapter's title
+  private static chapterChunking(
+    content: string,
+    chapters: ChapterSpan[],
+    options: ChunkingOptions,
+    chunkStarts?: Set<string>
+  ): ChunkInfo[] {
+    return chapters
+      .flatMap(chapter => {
+        const paragraphs = this.splitParagraphs(content.slice(chapter.start, chapter.end))
+          .map(p => ({ ...p, start: p.start + chapter.start, end: p.end + chapter.start }));
+        return this.groupParagraphs(paragraphs, options, chunkStarts)
+          .map(chunk => ({ ...chunk, chunkType: 'chapter' as const, title: chapter.title }));
+      })
+      .map((chunk, index) => ({ ...chunk, index }));
+  }
+
+  private static semanticChunking(content: string, options: ChunkingOptions, chunkStarts?: Set<string>): ChunkInfo[] {
+    return this.groupParagraphs(this.splitParagraphs(content), options, chunkStarts);
+  }
+
+  // Chunks end at scene breaks where they can, never between two lines of one dialogue exchange,
+  // and only split a paragraph between sentences when it alone exceeds the maximum
+  private static groupParagraphs(allParagraphs: Paragraph[], options: ChunkingOptions, chunkStarts?: Set<string>): ChunkInfo[] {
     const chunks: ChunkInfo[] = [];
-    
-    // Split by paragraphs first
-    const paragraphs = content
-      .split(/\n\s*\n/)
-      .map(p => p.trim())
-      .filter(p => p.length > 20); // Filter out very short paragraphs
+    const units = this.buildUnits(allParagraphs, options);
+
+    let current: Passage[] = [];
+    let currentTokens = 0;
+    const flush = () => {
+      const content = this.joinPassages(current);
+      chunks.push({
+        content,
+        chunkType: 'paragraph',
+        index: chunks.length,
+        wordCount: this.countWords(content),
+        tokenCount: this.countTokens(content, options),
+        start: current[0].start,
+        end: current[current.length - 1].end
+      });
+      current = [];
+      currentTokens = 0;
+    };
+
+    for (const unit of units) {
+      if (unit.sceneBreak) {
+        if (currentTokens >= options.minTokensPerChunk) {
+          flush();
+        } else if (current.length > 0) {
+          // Too little text yet to end the chunk here, so the break stays visible inside it
+          current.push(...unit.passages);
+        }
+        continue;
+      }
+
+      // A paragraph that opened a chunk last revision always starts one, even after a short remainder of an edited passage
+      const opensPreviousChunk = chunkStarts?.has(this.fingerprint(unit.passages[0].text)) ?? false;
+      const exceedsMax = currentTokens + unit.tokens > options.maxTokensPerChunk && currentTokens >= options.minTokensPerChunk;
+      if (exceedsMax || (opensPreviousChunk && currentTokens > 0)) {
+        flush();
+      }
+
+      current.push(...unit.passages);
+      currentTokens += unit.tokens;
+    }
+
+    // A short remainder joins the chunk before it if that stays within the maximum or it is too small to stand alone;
+    // otherwise it is kept as a chunk of its own, so a short chapter or a short text is never dropped
+    if (currentTokens > 0) {
+      const previous = chunks[chunks.length - 1];
+      const joinsPrevious = previous && currentTokens < options.minTokensPerChunk && (
+        previous.tokenCount + currentTokens <= options.maxTokensPerChunk
+        || currentTokens < options.minTokensPerChunk * TINY_REMAINDER_SHARE
+      );
+      if (joinsPrevious) {
+        const content = `${previous.content}\n\n${this.joinPassages(current)}`;
+        chunks[chunks.length - 1] = {
+          ...previous,
+          content,
+          wordCount: this.countWords(content),
+          tokenCount: this.countTokens(content, options),
+          end: current[current.length - 1].end
+        };
+      } else {
+        flush();
+      }
+    }
 
-    let currentChunk = '';
-    let currentWordCount = 0;
-    let chunkIndex = 0;
+    return chunks;
+  }
+
+  private static joinPassages(passages: Passage[]): string {
+    return passages.reduce((content, passage, index) => {
+      if (index === 0) return passage.text;
+      const sameParagraph = passage.paragraphStart !== undefined && passage.paragraphStart === passages[index - 1].paragraphStart;
+      return content + (sameParagraph ? ' ' : '\n\n') + passage.text;
+    }, '');
+  }
+
+  // Scene breaks, dialogue exchanges and sentences of oversized paragraphs, in the order chunks are filled from
+  private static buildUnits(paragraphs: Paragraph[], options: ChunkingOptions): Unit[] {
+    const units: Unit[] = [];
+    let exchange: Passage[] = [];
+    const closeExchange = () => {
+      units.push(...this.splitExchange(exchange, options));
+      exchange = [];
+    };
 
     for (const paragraph of paragraphs) {
-      const paragraphWords = paragraph.split(/\s+/).length;
-      
-      // If adding this paragraph would exceed max words, save current chunk
-      if (currentWordCount + paragraphWords > options.maxWordsPerChunk && currentWordCount >= options.minWordsPerChunk) {
-        chunks.push({
-          content: currentChunk.trim(),
-          chunkType: 'paragraph',
-          index: chunkIndex++,
-          wordCount: currentWordCount
-        });
-        
-        currentChunk = paragraph;
-        currentWordCount = paragraphWords;
+      if (SCENE_BREAK.test(paragraph.text)) {
+        closeExchange();
+        units.push({ passages: [{ ...paragraph, tokens: 0 }], tokens: 0, sceneBreak: true });
+        continue;
+      }
+      // Page numbers and other leftovers without letters
+      if (!/\p{L}/u.test(paragraph.text)) continue;
+
+      const tokens = this.countTokens(paragraph.text, options);
+      if (tokens > options.maxTokensPerChunk) {
+        closeExchange();
+        units.push(...this.splitSentences(paragraph, options).map(passage => ({ passages: [passage], tokens: passage.tokens })));
+      } else if (DIALOGUE.test(paragraph.text)) {
+        exchange.push({ ...paragraph, tokens });
       } else {
-        // Add paragraph to current chunk
-        currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-        currentWordCount += paragraphWords;
+        closeExchange();
+        units.push({ passages: [{ ...paragraph, tokens }], tokens });
       }
     }
+    closeExchange();
 
-    // Add the last chunk if it has content
-    if (currentChunk.trim() && currentWordCount >= options.minWordsPerChunk) {
-      chunks.push({
-        content: currentChunk.trim(),
-        chunkType: 'paragraph',
-        index: chunkIndex,
-        wordCount: currentWordCount
-      });
+    return units;
+  }
+
+  // An exchange longer than a whole chunk has to be divided, but only between two speeches
+  private static splitExchange(exchange: Passage[], options: ChunkingOptions): Unit[] {
+    const units: Unit[] = [];
+    for (const passage of exchange) {
+      const last = units[units.length - 1];
+      if (last && last.tokens + passage.tokens <= options.maxTokensPerChunk) {
+        last.passages.push(passage);
+        last.tokens += passage.tokens;
+      } else {
+        units.push({ passages: [passage], tokens: passage.tokens });
+      }
     }
+    return units;
+  }
 
-    return chunks;
+  // A single sentence beyond the maximum is cut between words as a last resort
+  private static splitSentences(paragraph: Paragraph, options: ChunkingOptions): Passage[] {
+    const sentences: Passage[] = [];
+    const add = (start: number, end: number) => {
+      const raw = paragraph.text.slice(start, end);
+      const text = raw.trim();
+      if (!text) return;
+      const offset = paragraph.start + start + raw.length - raw.trimStart().length;
+      sentences.push({ text, start: offset, end: offset + text.length, tokens: this.countTokens(text, options), paragraphStart: paragraph.start });
+    };
+
+    let from = 0;
+    for (const boundary of paragraph.text.matchAll(SENTENCE_END)) {
+      const before = paragraph.text.slice(from, boundary.index).match(/(\S+)$/)?.[1] ?? '';
+      if (this.isAbbreviation(before)) continue;
+      const end = boundary.index + boundary[0].length;
+      add(from, end);
+      from = end;
+    }
+    add(from, paragraph.text.length);
+
+    return sentences.flatMap(sentence => this.splitWords(sentence, options));
+  }
+
+  // Pieces are of even size, so the last one is never a stray word or two
+  private static splitWords(sentence: Passage, options: ChunkingOptions): Passage[] {
+    if (sentence.tokens <= options.maxTokensPerChunk) return [sentence];
+
+    const words = [...sentence.text.matchAll(/\S+/g)].map(word => ({ word, tokens: this.countTokens(` ${word[0]}`, options) }));
+    const totalTokens = words.reduce((sum, { tokens }) => sum + tokens, 0);
+    const targetTokens = totalTokens / Math.ceil(totalTokens / options.maxTokensPerChunk);
+
+    const pieces: Passage[] = [];
+    let first: RegExpMatchArray | undefined;
+    let last: RegExpMatchArray | undefined;
+    let tokens = 0;
+    const flush = () => {
+      const text = sentence.text.slice(first.index, last.index + last[0].length);
+      const start = sentence.start + first.index;
+      pieces.push({ text, start, end: start + text.length, tokens, paragraphStart: sentence.paragraphStart });
+      first = undefined;
+      tokens = 0;
+    };
+
+    for (const { word, tokens: wordTokens } of words) {
+      if (first && tokens + wordTokens > options.maxTokensPerChunk) flush();
+      if (!first) first = word;
+      last = word;
+      tokens += wordTokens;
+      if (tokens >= targetTokens) flush();
+    }
+    if (first) flush();
+
+    return pieces;
+  }
+
+  // "Dr.", "z. B." or "3. Kapitel" end with a period but not a sentence
+  private static isAbbreviation(word: string): boolean {
+    const bare = word.replace(/^[„“"»«‚‘(]+/, '').toLowerCase();
+    return ABBREVIATIONS.has(bare) || /^(?:\d{1,2}|\p{L})$/u.test(bare);
+  }
+
+  private static countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private static countTokens(text: string, options: ChunkingOptions): number {
+    return TokenCounter.count(text, options.model);
+  }
+
+  // Trimmed paragraphs with their offsets in the source, so chunks can be mapped back to pages
+  private static splitParagraphs(content: string): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    const add = (raw: string, offset: number) => {
+      const text = raw.trim();
+      if (!text) return;
+      const start = offset + raw.length - raw.trimStart().length;
+      paragraphs.push({ text, start, end: start + text.length });
+    };
+
+    let from = 0;
+    for (const separator of content.matchAll(/\n\s*\n/g)) {
+      add(content.slice(from, separator.index), from);
+      from = separator.index + separator[0].length;
+    }
+    add(content.slice(from), from);
+
+    return paragraphs;
+  }
+
+  // FNV-1a over the whitespace-normalized text, so passages can be recognised across manuscript revisions
+  static fingerprint(text: string): string {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+      hash ^= normalized.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
   }
 
   static getChunkingSummary(chunks: ChunkInfo[]): string {
+    if (chunks.length === 0) return I18n.t('chunking.empty');
+
     const totalWords = chunks.reduce((sum, chunk) => sum + chunk.wordCount, 0);
     const avgWordsPerChunk = Math.round(totalWords / chunks.length);
+    const avgTokensPerChunk = Math.round(chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0) / chunks.length);
     
-    const chapterChunks = chunks.filter(c => c.chunkType === 'chapter').length;
+    // Long chapters can span several chunks
+    const chapterChunks = new Set(chunks.filter(c => c.chunkType === 'chapter').map(c => c.title ?? c.index)).size;
     const sectionChunks = chunks.filter(c => c.chunkType === 'section').length;
     const paragraphChunks = chunks.filter(c => c.chunkType === 'paragraph').length;
     const automaticChunks = chunks.filter(c => c.chunkType === 'automatic').length;
 
-    let summary = `Text aufgeteilt in ${chunks.length} Abschnitte (∅ ${avgWordsPerChunk} Wörter/Abschnitt)`;
+    const summary = I18n.t('chunking.summary', { count: chunks.length, words: avgWordsPerChunk, tokens: avgTokensPerChunk });
     
+    let structure: string;
     if (chapterChunks > 0) {
-      summary += `. Struktur erkannt: ${chapterChunks} Kapitel`;
+      structure = I18n.t('chunking.chapters', { count: chapterChunks });
     } else if (sectionChunks > 0) {
-      summary += `. Struktur erkannt: ${sectionChunks} Abschnitte`;
+      structure = I18n.t('chunking.sections', { count: sectionChunks });
     } else if (paragraphChunks > 0) {
-      summary += `. Semantische Aufteilung nach Absätzen`;
+      structure = I18n.t('chunking.paragraphs');
     } else {
-      summary += `. Automatische Aufteilung`;
+      structure = I18n.t('chunking.automatic');
     }
 
-    return summary;
+    return `${summary}. ${structure}`;
   }
 }
@@ -0,0 +1,253 @@
+// What the cleanup changed, shown in the upload step before the manuscript is taken over
+export interface CleanupReport {
+  removedLines: number;
+  joinedHyphenations: number;
+  mergedLines: number;
+  typographyFixes: number;
+  // One page as extracted and as cleaned, for the before/after preview
+  preview?: { page: number; before: string; after: string };
+}
+
+const CLEANUP_KEY = 'pdf_cleanup_enabled';
+const PREVIEW_LENGTH = 600;
+const PARAGRAPH_SEPARATOR = '\n\n';
+
+// A running header or footer has to repeat on this share of the pages, and on at least MIN_REPEATS of them
+const REPEAT_SHARE = 0.2;
+const MIN_REPEATS = 3;
+// Only this many lines at the top and bottom of a page can be headers or footers
+const EDGE_LINES = 2;
+
+// Well-formed numerals only, so words like "civil" never pass for one
+const ROMAN_NUMERAL = '(?=[ivxlc])c{0,3}(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})';
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100 };
+// "12", "- 12 -", "Seite 12", "12 / 300", "xiv"
+const PAGE_NUMBER = new RegExp(
+  `^(?:[-–—]\\s*)?(?:(?:seite|page|s\\.)\\s*)?(?:\\d{1,4}|${ROMAN_NUMERAL})(?:\\s*(?:\\/|von|of)\\s*\\d{1,4})?(?:\\s*[-–—])?$`,
+  'i'
+);
+// "12" or "IV" on its own line is just as often a chapter number
+const BARE_NUMBER = new RegExp(`^(?:\\d{1,4}|${ROMAN_NUMERAL})$`, 'i');
+const TERMINAL_PUNCTUATION = /[.!?:…"“”„»«)’]$/;
+// "Auf- und Abbau": the hyphen belongs to the word, the line break was just a space
+const SUSPENDED_HYPHEN_WORDS = new Set(['und', 'oder', 'bis', 'sowie', 'als', 'wie', 'noch', 'and', 'or', 'nor', 'to']);
+
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff', 'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬃ': 'ffi', 'ﬄ': 'ffl', 'ﬅ': 'st', 'ﬆ': 'st'
+};
+
+const TYPOGRAPHY_RULES: [RegExp, string | ((match: string) => string)][] = [
+  [/[\ufb00-\ufb06]/g, match => LIGATURES[match]],
+  [/\u00ad|\u200b|\u200c|\u200d|\ufeff/g, ''],
+  [/[\u2010\u2011\u2012\u2212]/g, '-'],
+  [/---/g, '—'],
+  [/--/g, '–'],
+  [/(?<=\S) - (?=\S)/g, ' – '],
+  [/``|''|[\u2033\u3003\uff02]/g, '"'],
+  [/(?<=\p{L})[´`](?=\p{L})/gu, '’']
+];
+
+export class TextCleanup {
+  // Works page by page, so the cleaned pages can still be mapped back to the PDF
+  static cleanPages(rawPages: string[]): { pages: string[]; report: CleanupReport } {
+    const report: CleanupReport = { removedLines: 0, joinedHyphenations: 0, mergedLines: 0, typographyFixes: 0 };
+    const pageLines = rawPages.map(page => page.normalize('NFC').split('\n').map(line => line.trim()));
+
+    const running = this.findRunningLines(pageLines);
+    const bodyLines = pageLines.map((lines, pageIndex) => {
+      const edges = this.edgeIndices(lines);
+      return lines.filter((line, index) => {
+        // Every bare page number shares the signature "#", so a chapter number would pass for a running header
+        const remove = edges.has(index) && (BARE_NUMBER.test(line)
+          ? this.isPageNumber(pageLines, pageIndex, index)
+          : running.has(this.signature(line)) || this.isPageNumber(pageLines, pageIndex, index));
+        if (remove) report.removedLines++;
+        return !remove;
+      });
+    });
+
+    const pageParagraphs = bodyLines.map(lines => this.mergeLines(lines, report));
+    this.joinAcrossPages(pageParagraphs, report);
+
+    const pages = pageParagraphs.map(paragraphs => paragraphs
+      .map(paragraph => this.fixTypography(paragraph, report))
+      .join(PARAGRAPH_SEPARATOR));
+
+    report.preview = this.preview(rawPages, pages);
+    return { pages, report };
+  }
+
+  static hasChanges(report: CleanupReport): boolean {
+    return report.removedLines + report.joinedHyphenations + report.mergedLines + report.typographyFixes > 0;
+  }
+
+  static loadEnabled(): boolean {
+    return localStorage.getItem(CLEANUP_KEY) !== 'false';
+  }
+
+  static saveEnabled(enabled: boolean): void {
+    localStorage.setItem(CLEANUP_KEY, String(enabled));
+  }
+
+  // Page numbers inside a header ("12 · Der Titel") must not make every page's header look different
+  private static signature(line: string): string {
+    return line.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+  }
+
+  private static edgeIndices(lines: string[]): Set<number> {
+    const { top, bottom } = this.edges(lines);
+    return new Set([...top, ...bottom]);
+  }
+
+  private static edges(lines: string[]): { top: Set<number>; bottom: Set<number> } {
+    const filled = lines.map((line, index) => line ? index : -1).filter(index => index >= 0);
+    return { top: new Set(filled.slice(0, EDGE_LINES)), bottom: new Set(filled.slice(-EDGE_LINES)) };
+  }
+
+  // A bare number counts as a page number at the foot of the page, or at its head when the neighbouring pages
+  // continue the count and no paragraph follows it the way one follows a chapter number
+  private static isPageNumber(pageLines: string[][], pageIndex: number, index: number): boolean {
+    const lines = pageLines[pageIndex];
+    const line = lines[index];
+    if (!PAGE_NUMBER.test(line)) return false;
+    if (!BARE_NUMBER.test(line)) return true;
+
+    const { top, bottom } = this.edges(lines);
+    if (bottom.has(index) && !top.has(index)) return true;
+    if (lines[index + 1] === '' && lines.slice(index + 2).some(next => /\p{L}/u.test(next))) return false;
+
+    const value = this.numberValue(line);
+    return [-1, 1].some(offset => this.edgeNumbers(pageLines[pageIndex + offset]).includes(value + offset));
+  }
+
+  private static edgeNumbers(lines: string[] | undefined): number[] {
+    if (!lines) return [];
+    return [...this.edgeIndices(lines)]
+      .map(index => lines[index])
+      .filter(line => BARE_NUMBER.test(line))
+      .map(line => this.numberValue(line));
+  }
+
+  private static numberValue(numeral: string): number {
+    if (/^\d+$/.test(numeral)) return Number(numeral);
+    const values = [...numeral.toLowerCase()].map(letter => ROMAN_VALUES[letter]);
+    return values.reduce((sum, value, index) => sum + (value < (values[index + 1] ?? 0) ? -value : value), 0);
+  }
+
+  // Lines without letters or digits are scene breaks or ornaments, never headers
+  private static findRunningLines(pageLines: string[][]): Set<string> {
+    const pagesPerSignature = new Map<string, number>();
+    pageLines.forEach(lines => {
+      const signatures = new Set([...this.edgeIndices(lines)]
+        .map(index => lines[index])
+        .filter(line => /[\p{L}\d]/u.test(line))
+        .map(line => this.signature(line)));
+      signatures.forEach(signature => pagesPerSignature.set(signature, (pagesPerSignature.get(signature) ?? 0) + 1));
+    });
+
+    const filledPages = pageLines.filter(lines => lines.some(Boolean)).length;
+    const threshold = Math.max(MIN_REPEATS, Math.ceil(filledPages * REPEAT_SHARE));
+    return new Set([...pagesPerSignature].filter(([, count]) => count >= threshold).map(([signature]) => signature));
+  }
+
+  // Blank lines from the extraction always end a paragraph; otherwise a short line ending a sentence does
+  private static mergeLines(lines: string[], report: CleanupReport): string[] {
+    const lengths = lines.filter(Boolean).map(line => line.length).sort((a, b) => a - b);
+    const typicalLength = lengths[Math.floor((lengths.length - 1) * 0.9)] ?? 0;
+
+    const paragraphs: string[] = [];
+    let current = '';
+    let previousLine = '';
+    let currentLines = 0;
+    const flush = () => {
+      if (current) paragraphs.push(current);
+      current = '';
+      currentLines = 0;
+    };
+
+    for (const line of lines) {
+      if (!line) {
+        flush();
+        continue;
+      }
+      if (!/[\p{L}\d]/u.test(line)) {
+        flush();
+        paragraphs.push(line);
+        continue;
+      }
+
+      if (current) {
+        const endsParagraph = TERMINAL_PUNCTUATION.test(previousLine) && previousLine.length < typicalLength * 0.85;
+        const isHeading = currentLines === 1 && previousLine.length < typicalLength * 0.5
+          && /^[\p{Lu}\d]/u.test(previousLine) && !/[.,;!?]$/.test(previousLine);
+        if (endsParagraph || isHeading) flush();
+      }
+
+      current = current ? this.joinLines(current, line, report) : line;
+      previousLine = line;
+      currentLines++;
+    }
+    flush();
+
+    return paragraphs;
+  }
+
+  private static joinLines(previous: string, next: string, report: CleanupReport): string {
+    const nextWord = next.match(/^\p{L}+/u)?.[0] ?? '';
+    if (/\p{L}\u00ad$/u.test(previous)) {
+      report.joinedHyphenations++;
+      return previous.slice(0, -1) + next;
+    }
+    if (/\p{L}-$/u.test(previous)) {
+      if (/^\p{Ll}/u.test(nextWord) && !SUSPENDED_HYPHEN_WORDS.has(nextWord)) {
+        report.joinedHyphenations++;
+        return previous.slice(0, -1) + next;
+      }
+      // "Ost-\nWest" keeps its hyphen
+      report.mergedLines++;
+      return previous + (SUSPENDED_HYPHEN_WORDS.has(nextWord) ? ' ' : '') + next;
+    }
+    report.mergedLines++;
+    return `${previous} ${next}`;
+  }
+
+  // A word split over a page break moves to the page where it starts
+  private static joinAcrossPages(pageParagraphs: string[][], report: CleanupReport): void {
+    pageParagraphs.forEach((paragraphs, index) => {
+      const next = pageParagraphs.slice(index + 1).find(page => page.length > 0);
+      const last = paragraphs[paragraphs.length - 1];
+      if (!next || !last || !/\p{L}[-\u00ad]$/u.test(last)) return;
+
+      const match = next[0].match(/^(\p{Ll}+\S*)\s*([\s\S]*)$/u);
+      if (!match || SUSPENDED_HYPHEN_WORDS.has(match[1].match(/^\p{L}+/u)?.[0] ?? '')) return;
+
+      const [, word, rest] = match;
+      paragraphs[paragraphs.length - 1] = last.slice(0, -1) + word;
+      if (rest) {
+        next[0] = rest;
+      } else {
+        next.shift();
+      }
+      report.joinedHyphenations++;
+    });
+  }
+
+  private static fixTypography(text: string, report: CleanupReport): string {
+    return TYPOGRAPHY_RULES.reduce((result, [pattern, replacement]) => result.replace(pattern, match => {
+      const fixed = typeof replacement === 'string' ? replacement : replacement(match);
+      if (fixed !== match) report.typographyFixes++;
+      return fixed;
+    }), text);
+  }
+
+  // Prefers a page with some body text over a title page that only lost its page number
+  private static preview(rawPages: string[], pages: string[]): CleanupReport['preview'] {
+    const changed = pages
+      .map((after, index) => ({ page: index + 1, before: rawPages[index].trim(), after }))
+      .filter(page => page.before !== page.after);
+    const page = changed.find(candidate => candidate.before.length >= PREVIEW_LENGTH / 3) ?? changed[0];
+    if (!page) return undefined;
+
+    return { page: page.page, before: page.before.slice(0, PREVIEW_LENGTH), after: page.after.slice(0, PREVIEW_LENGTH) };
+  }
+}
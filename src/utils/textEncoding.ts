@@ -0,0 +1,120 @@
+// Labels as understood by TextDecoder; 'windows-1252' also covers files saved as Latin-1
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-15' | 'macintosh';
+
+// How the encoding was settled: a byte order mark, a clean UTF-8 decode, a score over the single-byte encodings, or the user
+export type EncodingSource = 'bom' | 'valid' | 'guessed' | 'manual';
+
+export interface EncodingInfo {
+  encoding: TextEncoding;
+  source: EncodingSource;
+}
+
+export interface DecodedText extends EncodingInfo {
+  text: string;
+}
+
+export const TEXT_ENCODINGS: TextEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-15', 'macintosh'];
+
+export const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 / Latin-1',
+  'iso-8859-15': 'ISO-8859-15',
+  macintosh: 'Mac Roman'
+};
+
+// In order of preference when two of them decode a sample equally well
+const SINGLE_BYTE_ENCODINGS: TextEncoding[] = ['windows-1252', 'iso-8859-15', 'macintosh'];
+const SAMPLE_BYTES = 64 * 1024;
+// Share of zero bytes in one byte position from which text without a BOM is taken for UTF-16
+const UTF16_ZERO_SHARE = 0.4;
+// Accented letters of German, French and Spanish manuscripts; a wrong code page turns them into symbols or rare letters
+const COMMON_LETTERS = new Set('äöüßÄÖÜéèêëàâçîïôûùñáíóúÉÈÀÇÑ');
+
+export class TextEncodings {
+  static decode(buffer: ArrayBuffer, override?: TextEncoding): DecodedText {
+    const bytes = new Uint8Array(buffer);
+    if (override) {
+      return { text: new TextDecoder(override).decode(bytes), encoding: override, source: 'manual' };
+    }
+
+    const bom = this.fromBom(bytes);
+    if (bom) {
+      return { text: new TextDecoder(bom).decode(bytes), encoding: bom, source: 'bom' };
+    }
+
+    const utf16 = this.utf16WithoutBom(bytes);
+    if (utf16) {
+      return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16, source: 'guessed' };
+    }
+
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', source: 'valid' };
+    } catch {
+      // Not UTF-8, so one of the single-byte code pages
+    }
+
+    const sample = bytes.subarray(0, SAMPLE_BYTES);
+    const encoding = SINGLE_BYTE_ENCODINGS.reduce((best, candidate) =>
+      this.score(new TextDecoder(candidate).decode(sample)) > this.score(new TextDecoder(best).decode(sample)) ? candidate : best
+    );
+    return { text: new TextDecoder(encoding).decode(bytes), encoding, source: 'guessed' };
+  }
+
+  // The first lines with non-ASCII characters, where a wrong encoding shows first
+  static sampleLines(text: string, maxLines = 3, maxLength = 160): string[] {
+    return text
+      .split('\n')
+      .filter(line => /\P{ASCII}/u.test(line))
+      .slice(0, maxLines)
+      .map(line => line.trim().slice(0, maxLength));
+  }
+
+  private static fromBom(bytes: Uint8Array): TextEncoding | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    return null;
+  }
+
+  // Mostly Latin text in UTF-16 has a zero in every other byte
+  private static utf16WithoutBom(bytes: Uint8Array): TextEncoding | null {
+    const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs === 0) return null;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    if (oddZeros / pairs > UTF16_ZERO_SHARE && evenZeros / pairs < 0.05) return 'utf-16le';
+    if (evenZeros / pairs > UTF16_ZERO_SHARE && oddZeros / pairs < 0.05) return 'utf-16be';
+    return null;
+  }
+
+  // Rewards familiar accented letters, penalizes control characters, symbols inside words and capitals after lowercase
+  private static score(text: string): number {
+    let score = 0;
+    const characters = [...text];
+    characters.forEach((character, index) => {
+      if (character.charCodeAt(0) < 0x80) return;
+      const previous = characters[index - 1] ?? '';
+      const next = characters[index + 1] ?? '';
+
+      if (COMMON_LETTERS.has(character)) {
+        score += 2;
+      } else if (/\p{Cc}/u.test(character)) {
+        score -= 3;
+      } else if (/\p{Lu}/u.test(character) && /\p{Ll}/u.test(previous)) {
+        score -= 1;
+      } else if (!/\p{L}/u.test(character) && /\p{L}/u.test(previous) && /\p{L}/u.test(next)) {
+        score -= 1;
+      }
+    });
+    return score;
+  }
+}
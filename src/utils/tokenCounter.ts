@@ -0,0 +1,99 @@
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export interface ContextWindow {
+  tokens: number;
+  // false when the model isn't in the table and the conservative fallback is used
+  known: boolean;
+}
+
+// Total tokens (prompt + completion) per model family, matched by longest prefix like the pricing table
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o-mini': 128_000,
+  'gpt-4o': 128_000,
+  'gpt-4.1': 1_047_576,
+  'gpt-4-turbo': 128_000,
+  'gpt-4': 8_192,
+  'gpt-3.5-turbo': 16_385,
+  'claude-3': 200_000,
+  'claude-sonnet-4': 200_000,
+  'claude-opus-4': 200_000
+};
+
+// Small enough that self-hosted OpenAI-compatible models are not overestimated
+const FALLBACK_CONTEXT_WINDOW = 8_192;
+
+// Vocabulary per model family, matched by longest prefix. Anthropic publishes no tokenizer for current
+// Claude models, and cl100k counts German and English text close to theirs
+const MODEL_ENCODINGS: Record<string, TokenizerEncoding> = {
+  'gpt-4o': 'o200k_base',
+  'gpt-4.1': 'o200k_base',
+  'o1': 'o200k_base',
+  'o3': 'o200k_base',
+  'o4': 'o200k_base',
+  'gpt-4': 'cl100k_base',
+  'gpt-3.5-turbo': 'cl100k_base',
+  'claude': 'cl100k_base'
+};
+
+const FALLBACK_ENCODING: TokenizerEncoding = 'cl100k_base';
+
+// The vocabularies are a few MB each, so they are only loaded for a model that is actually used
+const RANKS: Record<TokenizerEncoding, () => Promise<{ default: TiktokenBPE }>> = {
+  o200k_base: () => import('js-tiktoken/ranks/o200k_base'),
+  cl100k_base: () => import('js-tiktoken/ranks/cl100k_base')
+};
+
+const CHARS_PER_TOKEN = 4;
+
+export class TokenCounter {
+  private static encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+  // Exact for the model's tokenizer once load() has finished; until then, or without a model, a rough
+  // count that is good enough for budgets and context checks
+  static count(text: string, model?: string): number {
+    const encoder = model ? this.encoders.get(this.getEncoding(model)) : undefined;
+    return encoder ? encoder.encode(text, [], []).length : Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  static getEncoding(model: string): TokenizerEncoding {
+    const match = Object.keys(MODEL_ENCODINGS)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? MODEL_ENCODINGS[match] : FALLBACK_ENCODING;
+  }
+
+  static isLoaded(model: string): boolean {
+    return this.encoders.has(this.getEncoding(model));
+  }
+
+  static async load(model: string): Promise<void> {
+    await this.loadEncoding(this.getEncoding(model));
+  }
+
+  // Every model whose prompts a run counts, e.g. the routed and ensemble models next to the selected one
+  static async loadAll(models: string[]): Promise<void> {
+    await Promise.all([...new Set(models.map(model => this.getEncoding(model)))].map(encoding => this.loadEncoding(encoding)));
+  }
+
+  static getContextWindow(model: string): ContextWindow {
+    const match = Object.keys(MODEL_CONTEXT_WINDOWS)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match
+      ? { tokens: MODEL_CONTEXT_WINDOWS[match], known: true }
+      : { tokens: FALLBACK_CONTEXT_WINDOW, known: false };
+  }
+
+  private static async loadEncoding(encoding: TokenizerEncoding): Promise<void> {
+    if (this.encoders.has(encoding)) return;
+
+    try {
+      const { default: ranks } = await RANKS[encoding]();
+      this.encoders.set(encoding, new Tiktoken(ranks));
+    } catch (error) {
+      console.warn(`Failed to load the ${encoding} tokenizer, estimating tokens from characters:`, error);
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import type { AITask, TokenUsage } from './aiProvider';
+import type { AIProviderType } from '../components/AIAnalysisService';
+import { CostEstimator } from './costEstimator';
+import { ModelRouting, type RoutingTable } from './modelRouting';
+import type { PromptRef } from './promptTemplates';
+import { I18n, type MessageKey } from './i18n';
+
+export type RunKind = 'analysis' | 'two_layer' | 'market_validation' | 'prompt_trial';
+
+export interface UsageRun {
+  id: string;
+  kind: RunKind;
+  bookId: string | null;
+  bookTitle: string | null;
+  model: string;
+  // Routing table in effect when the run started
+  routing?: RoutingTable;
+  startedAt: number;
+}
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  runId: string | null;
+  bookId: string | null;
+  task: AITask;
+  provider: AIProviderType;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  // null when the model has no entry in the pricing table
+  cost: number | null;
+  cached: boolean;
+  // Absent for calls recorded before prompts were versioned
+  template?: PromptRef;
+}
+
+export interface SpendSummary {
+  key: string;
+  label: string;
+  calls: number;
+  cacheHits: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedCalls: number;
+  averageLatencyMs: number;
+  lastUsed: number;
+}
+
+export const MODULE_LABELS: Record<AITask, MessageKey> = {
+  reader_analysis: 'task.reader_analysis',
+  emotional_notes: 'task.emotional_notes',
+  analytical_review: 'task.analytical_review',
+  correlation: 'task.correlation',
+  basic_scoring: 'task.basic_scoring',
+  stream_of_thought: 'task.stream_of_thought',
+  analytical_insight: 'task.analytical_insight',
+  landscape: 'task.landscape',
+  personas: 'task.personas',
+  title_feedback: 'task.title_feedback',
+  cover_feedback: 'task.cover_feedback',
+  blurb_feedback: 'task.blurb_feedback',
+  ab_test: 'task.ab_test',
+  marketing_strategy: 'task.marketing_strategy',
+  cohesion_check: 'task.cohesion_check',
+  market_context: 'task.market_context'
+};
+
+export const RUN_KIND_LABELS: Record<RunKind, MessageKey> = {
+  analysis: 'runKind.analysis',
+  two_layer: 'runKind.two_layer',
+  market_validation: 'runKind.market_validation',
+  prompt_trial: 'runKind.prompt_trial'
+};
+
+const ENTRIES_KEY = 'ai_usage_ledger';
+const RUNS_KEY = 'ai_usage_runs';
+const MAX_ENTRIES = 5000;
+const SAVE_DELAY_MS = 1000;
+const EMPTY_RUN_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const createId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+const promptKey = (template: PromptRef) => `${template.id}@${template.version}`;
+
+// FNV-1a over the manuscript text, so re-uploading the same book files its spend under the same entry
+const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `book_${(hash >>> 0).toString(16)}`;
+};
+
+// Persistent record of every AI call, kept in localStorage with the oldest entries dropped first
+export class UsageLedger {
+  private static entries: UsageEntry[] | null = null;
+  private static runs: UsageRun[] | null = null;
+  private static currentBook: { id: string; title: string } | null = null;
+  // Calls issued outside a background job (e.g. market validation) are filed under this run,
+  // which is only created once the first such call is made
+  private static interactiveRun: { kind: RunKind; model: string; id: string | null } | null = null;
+  private static saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private static listeners = new Set<() => void>();
+
+  static setCurrentBook(title: string, content: string): void {
+    this.currentBook = { id: hashContent(content), title };
+  }
+
+  static startRun(kind: RunKind, model: string, id: string = createId('run'), routing?: RoutingTable): string {
+    const runs = this.loadRuns();
+    if (!runs.some(run => run.id === id)) {
+      runs.push({
+        id,
+        kind,
+        bookId: this.currentBook?.id ?? null,
+        bookTitle: this.currentBook?.title ?? null,
+        model,
+        routing,
+        startedAt: Date.now()
+      });
+      this.scheduleSave();
+    }
+    return id;
+  }
+
+  static beginInteractiveRun(kind: RunKind, model: string): void {
+    this.interactiveRun = { kind, model, id: null };
+  }
+
+  static record(entry: {
+    runId?: string;
+    task: AITask;
+    provider: AIProviderType;
+    model: string;
+    usage: TokenUsage;
+    latencyMs: number;
+    cached: boolean;
+    template?: PromptRef;
+  }): void {
+    const runId = entry.runId ?? this.resolveInteractiveRun();
+    const run = runId ? this.loadRuns().find(candidate => candidate.id === runId) : undefined;
+
+    const entries = this.loadEntries();
+    entries.push({
+      id: createId('call'),
+      timestamp: Date.now(),
+      runId: runId ?? null,
+      bookId: run ? run.bookId : this.currentBook?.id ?? null,
+      task: entry.task,
+      provider: entry.provider,
+      model: entry.model,
+      promptTokens: entry.usage.prompt,
+      completionTokens: entry.usage.completion,
+      latencyMs: Math.round(entry.latencyMs),
+      cost: entry.cached ? 0 : CostEstimator.priceUsage(entry.model, entry.usage),
+      cached: entry.cached,
+      template: entry.template
+    });
+
+    if (entries.length > MAX_ENTRIES) {
+      entries.splice(0, entries.length - MAX_ENTRIES);
+    }
+    this.scheduleSave();
+  }
+
+  static getEntries(): UsageEntry[] {
+    return [...this.loadEntries()];
+  }
+
+  static getRuns(): UsageRun[] {
+    return [...this.loadRuns()];
+  }
+
+  static getRunCost(runId: string): number {
+    return this.loadEntries()
+      .filter(entry => entry.runId === runId)
+      .reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+  }
+
+  static summarizeByBook(): SpendSummary[] {
+    const titles = new Map<string, string>();
+    this.loadRuns().forEach(run => {
+      if (run.bookId && run.bookTitle) titles.set(run.bookId, run.bookTitle);
+    });
+    if (this.currentBook) titles.set(this.currentBook.id, this.currentBook.title);
+
+    return this.summarize(
+      entry => entry.bookId ?? 'none',
+      key => titles.get(key) ?? I18n.t(key === 'none' ? 'spend.noBook' : 'spend.untitledBook')
+    );
+  }
+
+  static summarizeByRun(): SpendSummary[] {
+    const runs = new Map(this.loadRuns().map(run => [run.id, run]));
+
+    return this.summarize(
+      entry => entry.runId ?? 'none',
+      key => {
+        const run = runs.get(key);
+        if (!run) return I18n.t('spend.noRun');
+        return `${I18n.t(RUN_KIND_LABELS[run.kind])} · ${run.bookTitle ?? I18n.t('spend.untitledBook')} · ${I18n.formatDateTime(run.startedAt)}`;
+      }
+    );
+  }
+
+  static summarizeByModule(): SpendSummary[] {
+    return this.summarize(entry => entry.task, key => MODULE_LABELS[key as AITask] ? I18n.t(MODULE_LABELS[key as AITask]) : key);
+  }
+
+  static summarizeByPrompt(): SpendSummary[] {
+    const labels = new Map<string, string>();
+    this.loadEntries().forEach(entry => {
+      if (entry.template) labels.set(promptKey(entry.template), `${entry.template.name} v${entry.template.version}`);
+    });
+
+    return this.summarize(
+      entry => entry.template ? promptKey(entry.template) : 'none',
+      key => labels.get(key) ?? I18n.t('spend.noTemplate')
+    );
+  }
+
+  static clear(): void {
+    this.entries = [];
+    this.runs = [];
+    localStorage.removeItem(ENTRIES_KEY);
+    localStorage.removeItem(RUNS_KEY);
+    this.notify();
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static resolveInteractiveRun(): string | null {
+    if (!this.interactiveRun) return null;
+    if (!this.interactiveRun.id) {
+      this.interactiveRun.id = this.startRun(
+        this.interactiveRun.kind,
+        this.interactiveRun.model,
+        undefined,
+        ModelRouting.loadTable()
+      );
+    }
+    return this.interactiveRun.id;
+  }
+
+  private static summarize(
+    keyOf: (entry: UsageEntry) => string,
+    labelOf: (key: string) => string
+  ): SpendSummary[] {
+    const groups = new Map<string, SpendSummary & { totalLatency: number }>();
+
+    for (const entry of this.loadEntries()) {
+      const key = keyOf(entry);
+      const group = groups.get(key) ?? {
+        key,
+        label: labelOf(key),
+        calls: 0,
+        cacheHits: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+        unpricedCalls: 0,
+        averageLatencyMs: 0,
+        lastUsed: 0,
+        totalLatency: 0
+      };
+
+      group.calls++;
+      if (entry.cached) group.cacheHits++;
+      group.promptTokens += entry.promptTokens;
+      group.completionTokens += entry.completionTokens;
+      if (entry.cost === null) {
+        group.unpricedCalls++;
+      } else {
+        group.cost += entry.cost;
+      }
+      group.totalLatency += entry.latencyMs;
+      group.lastUsed = Math.max(group.lastUsed, entry.timestamp);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()]
+      .map(({ totalLatency, ...summary }) => ({ ...summary, averageLatencyMs: totalLatency / summary.calls }))
+      .sort((a, b) => b.lastUsed - a.lastUsed);
+  }
+
+  private static loadEntries(): UsageEntry[] {
+    if (!this.entries) {
+      this.entries = this.read<UsageEntry>(ENTRIES_KEY);
+    }
+    return this.entries;
+  }
+
+  private static loadRuns(): UsageRun[] {
+    if (!this.runs) {
+      this.runs = this.read<UsageRun>(RUNS_KEY);
+    }
+    return this.runs;
+  }
+
+  private static read<T>(key: string): T[] {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn(`Failed to load ${key} from localStorage:`, error);
+      return [];
+    }
+  }
+
+  // Parallel calls finish in bursts, so writes are batched instead of re-serializing the ledger per call
+  private static scheduleSave(): void {
+    this.notify();
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      try {
+        const runIds = new Set(this.loadEntries().map(entry => entry.runId));
+        // Runs whose calls have all been dropped from the ledger are pruned with them
+        this.runs = this.loadRuns().filter(run => runIds.has(run.id) || Date.now() - run.startedAt < EMPTY_RUN_RETENTION_MS);
+        localStorage.setItem(ENTRIES_KEY, JSON.stringify(this.loadEntries()));
+        localStorage.setItem(RUNS_KEY, JSON.stringify(this.runs));
+      } catch (error) {
+        console.warn('Failed to save usage ledger to localStorage:', error);
+      }
+    }, SAVE_DELAY_MS);
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
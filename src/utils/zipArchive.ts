@@ -0,0 +1,84 @@
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+// Fixed record size plus the longest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Read-only ZIP access for EPUB containers, unpacked in the browser without uploading anything
+export class ZipArchive {
+  private constructor(
+    private readonly view: DataView,
+    private readonly entries: Map<string, ZipEntry>
+  ) {}
+
+  static open(buffer: ArrayBuffer): ZipArchive {
+    const view = new DataView(buffer);
+    const endRecord = this.findEndRecord(view);
+    if (endRecord < 0) throw new Error('ZIP_INVALID');
+
+    const entryCount = view.getUint16(endRecord + 10, true);
+    let offset = view.getUint32(endRecord + 16, true);
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('ZIP_INVALID');
+      }
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+      entries.set(name, {
+        method: view.getUint16(offset + 10, true),
+        compressedSize: view.getUint32(offset + 20, true),
+        localHeaderOffset: view.getUint32(offset + 42, true)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipArchive(view, entries);
+  }
+
+  has(path: string): boolean {
+    return this.entries.has(path);
+  }
+
+  async readBytes(path: string): Promise<Uint8Array> {
+    const entry = this.entries.get(path);
+    if (!entry) throw new Error(`ZIP_ENTRY_MISSING: ${path}`);
+
+    const header = entry.localHeaderOffset;
+    if (this.view.getUint32(header, true) !== LOCAL_FILE_HEADER) throw new Error('ZIP_INVALID');
+    // The local header repeats name and extra field, with lengths that may differ from the central directory
+    const dataStart = header + 30 + this.view.getUint16(header + 26, true) + this.view.getUint16(header + 28, true);
+    const data = new Uint8Array(this.view.buffer, dataStart, entry.compressedSize);
+
+    if (entry.method === STORED) return data;
+    if (entry.method !== DEFLATED) throw new Error(`ZIP_UNSUPPORTED_METHOD: ${entry.method}`);
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  async readText(path: string): Promise<string> {
+    return new TextDecoder().decode(await this.readBytes(path));
+  }
+
+  private static findEndRecord(view: DataView): number {
+    const lowest = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+    for (let offset = view.byteLength - 22; offset >= lowest; offset--) {
+      if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    return -1;
+  }
+}
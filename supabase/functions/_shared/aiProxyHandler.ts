@@ -0,0 +1,173 @@
+// Provider-agnostic forwarding logic shared by the `ai-proxy` edge function and the local dev stand-in.
+// Only web-standard APIs are used so the same file runs on Deno and Node.
+
+export interface ProxyEnv {
+  get(name: string): string | undefined;
+}
+
+export interface ProxyOptions {
+  env: ProxyEnv;
+  // Resolves to an error response when the caller may not use the proxy
+  authorize?: (req: Request) => Promise<Response | null>;
+}
+
+type ProxyProvider = 'openai' | 'anthropic' | 'azure';
+
+interface ProxyPayload {
+  provider: ProxyProvider;
+  path: string;
+  method: 'GET' | 'POST';
+  body?: unknown;
+}
+
+interface Upstream {
+  baseUrl: string;
+  headers: Record<string, string>;
+  allowedPaths: RegExp[];
+}
+
+// Rate-limit headers are passed through so the browser-side limiter can pace itself
+const FORWARDED_HEADERS = [
+  'content-type',
+  'retry-after',
+  'retry-after-ms',
+  'x-ratelimit-limit-requests',
+  'x-ratelimit-limit-tokens',
+  'x-ratelimit-remaining-requests',
+  'x-ratelimit-remaining-tokens',
+  'x-ratelimit-reset-requests',
+  'x-ratelimit-reset-tokens',
+  'anthropic-ratelimit-requests-remaining',
+  'anthropic-ratelimit-requests-reset',
+  'anthropic-ratelimit-tokens-remaining',
+  'anthropic-ratelimit-tokens-reset'
+];
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': [...FORWARDED_HEADERS, 'x-ai-proxy-error'].join(', ')
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+export const proxyError = (status: number, code: string, message: string): Response =>
+  new Response(JSON.stringify({ error: { code, message } }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'x-ai-proxy-error': code }
+  });
+
+// Browsers only get the response when the request comes from one of the app's own origins
+const allowedOrigin = (req: Request, env: ProxyEnv): string | null => {
+  const origin = req.headers.get('Origin');
+  const allowed = (env.get('AI_PROXY_ALLOWED_ORIGINS') ?? '').split(',').map(entry => trimSlash(entry.trim())).filter(Boolean);
+  return origin && allowed.includes(origin) ? origin : null;
+};
+
+const withCors = (response: Response, req: Request, env: ProxyEnv): Response => {
+  const headers = new Headers(response.headers);
+  Object.entries(corsHeaders).forEach(([name, value]) => headers.set(name, value));
+  headers.set('Vary', 'Origin');
+  const origin = allowedOrigin(req, env);
+  if (origin) headers.set('Access-Control-Allow-Origin', origin);
+  return new Response(response.body, { status: response.status, headers });
+};
+
+
+const resolveUpstream = (provider: ProxyProvider, env: ProxyEnv): Upstream | null => {
+  switch (provider) {
+    case 'openai': {
+      const apiKey = env.get('OPENAI_API_KEY');
+      if (!apiKey) return null;
+      return {
+        baseUrl: trimSlash(env.get('OPENAI_BASE_URL') || 'https://api.openai.com'),
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+        allowedPaths: [/^\/v1\/chat\/completions$/, /^\/v1\/models$/]
+      };
+    }
+    case 'anthropic': {
+      const apiKey = env.get('ANTHROPIC_API_KEY');
+      if (!apiKey) return null;
+      return {
+        baseUrl: 'https://api.anthropic.com',
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+        allowedPaths: [/^\/v1\/messages$/, /^\/v1\/models$/]
+      };
+    }
+    case 'azure': {
+      const apiKey = env.get('AZURE_OPENAI_API_KEY');
+      const endpoint = env.get('AZURE_OPENAI_ENDPOINT');
+      if (!apiKey || !endpoint) return null;
+      return {
+        baseUrl: trimSlash(endpoint),
+        headers: { 'api-key': apiKey },
+        allowedPaths: [/^\/openai\/deployments\/[^/]+\/chat\/completions$/, /^\/openai\/models$/]
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+const parsePayload = async (req: Request): Promise<ProxyPayload | null> => {
+  try {
+    const payload = await req.json() as Partial<ProxyPayload> | null;
+    const validProvider = ['openai', 'anthropic', 'azure'].includes(payload?.provider ?? '');
+    const validMethod = payload?.method === 'GET' || payload?.method === 'POST';
+    return validProvider && validMethod && typeof payload?.path === 'string' ? payload as ProxyPayload : null;
+  } catch {
+    return null;
+  }
+};
+
+const forward = async (req: Request, options: ProxyOptions): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204 });
+  }
+  if (req.method !== 'POST') {
+    return proxyError(405, 'METHOD_NOT_ALLOWED', 'Nur POST-Anfragen werden unterstützt.');
+  }
+
+  const denied = await options.authorize?.(req);
+  if (denied) return denied;
+
+  const payload = await parsePayload(req);
+  if (!payload) {
+    return proxyError(400, 'BAD_REQUEST', 'Ungültige Proxy-Anfrage.');
+  }
+
+  const upstream = resolveUpstream(payload.provider, options.env);
+  if (!upstream) {
+    return proxyError(503, 'NOT_CONFIGURED', `Für ${payload.provider} ist auf dem Server kein API-Schlüssel hinterlegt.`);
+  }
+
+  // The query string (e.g. Azure's api-version) is kept, only the path is checked against the allowlist
+  const target = new URL(payload.path, 'http://upstream');
+  if (!upstream.allowedPaths.some(pattern => pattern.test(target.pathname))) {
+    return proxyError(403, 'PATH_NOT_ALLOWED', `Der Pfad ${target.pathname} ist für ${payload.provider} nicht freigegeben.`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${upstream.baseUrl}${target.pathname}${target.search}`, {
+      method: payload.method,
+      headers: { 'Content-Type': 'application/json', ...upstream.headers },
+      body: payload.method === 'POST' ? JSON.stringify(payload.body ?? {}) : undefined,
+      signal: req.signal
+    });
+  } catch (error) {
+    console.error('AI proxy upstream request failed:', error);
+    return proxyError(502, 'UPSTREAM_UNREACHABLE', `${payload.provider} ist vom Proxy aus nicht erreichbar.`);
+  }
+
+  const headers = new Headers();
+  FORWARDED_HEADERS.forEach(name => {
+    const value = response.headers.get(name);
+    if (value !== null) headers.set(name, value);
+  });
+
+  return new Response(response.body, { status: response.status, headers });
+};
+
+export const handleAIProxyRequest = async (req: Request, options: ProxyOptions): Promise<Response> =>
+  withCors(await forward(req, options), req, options.env);
@@ -0,0 +1,27 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { handleAIProxyRequest, proxyError } from '../_shared/aiProxyHandler.ts';
+
+// Provider keys are set as function secrets (OPENAI_API_KEY, ANTHROPIC_API_KEY,
+// AZURE_OPENAI_API_KEY + AZURE_OPENAI_ENDPOINT) and never reach the browser.
+// AI_PROXY_ALLOWED_ORIGINS lists the app's origins (comma-separated) that may call the function from a browser.
+const authorize = async (req: Request): Promise<Response | null> => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return proxyError(401, 'UNAUTHENTICATED', 'Keine Sitzung übermittelt.');
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } }
+  });
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return proxyError(401, 'UNAUTHENTICATED', 'Die Sitzung ist ungültig oder abgelaufen.');
+  }
+  if (user.is_anonymous && Deno.env.get('AI_PROXY_ALLOW_ANONYMOUS') !== 'true') {
+    return proxyError(401, 'UNAUTHENTICATED', 'Für KI-Analysen ist eine Anmeldung erforderlich.');
+  }
+  return null;
+};
+
+Deno.serve((req) => handleAIProxyRequest(req, { env: Deno.env, authorize }));
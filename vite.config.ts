@@ -1,7 +1,46 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { handleAIProxyRequest, proxyError } from "./supabase/functions/_shared/aiProxyHandler.ts";
+
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1", "::ffff:127.0.0.1"];
+
+// Local stand-in for the `ai-proxy` edge function: same forwarding logic, keys from .env.local, no session check.
+// The dev server listens on all interfaces, so only requests from this machine are forwarded.
+const aiProxyDevServer = (env: Record<string, string>): Plugin => ({
+  name: "ai-proxy-dev-server",
+  configureServer(server) {
+    server.middlewares.use("/api/ai-proxy", async (req, res) => {
+      let response: Response;
+      try {
+        if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress ?? "")) {
+          response = proxyError(403, "FORBIDDEN", "Der lokale KI-Proxy ist nur von diesem Rechner aus erreichbar.");
+        } else {
+          const chunks: Buffer[] = [];
+          for await (const chunk of req) chunks.push(chunk as Buffer);
+
+          response = await handleAIProxyRequest(
+            new Request("http://localhost/api/ai-proxy", {
+              method: req.method,
+              headers: { "Content-Type": "application/json" },
+              body: req.method === "POST" ? Buffer.concat(chunks) : undefined,
+            }),
+            { env: { get: (name) => env[name] } }
+          );
+        }
+        const body = Buffer.from(await response.arrayBuffer());
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        res.end(body);
+      } catch (error) {
+        console.error("Local AI proxy request failed:", error);
+        if (!res.headersSent) res.statusCode = 502;
+        res.end();
+      }
+    });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +52,7 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    aiProxyDevServer(loadEnv(mode, process.cwd(), "")),
   ].filter(Boolean),
   resolve: {
     alias: {